@@ -1,21 +1,42 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
+import { Lock } from 'lucide-react';
 import { HashRouter as Router, Routes, Route } from 'react-router-dom';
 import Navbar from './components/Navbar';
 import TimeDisplay from './components/TimeDisplay';
+import UnlockScreen from './components/UnlockScreen';
 import Dashboard from './pages/Dashboard';
 import Orders from './pages/Orders';
+import Customers from './pages/Customers';
+import Shipping from './pages/Shipping';
 import Products from './pages/Products';
 import Settings from './pages/Settings';
 import Expenses from './pages/Expenses';
+import Budgets from './pages/Budgets';
 import Reports from './pages/Reports';
 import Inventory from './pages/Inventory';
 import ProductExpiry from './pages/expiry';
 import PurchaseOrders from './pages/PurchaseOrders';
 import SuppliersPage from './components/suppliers/SuppliersPage';
 import AdditionalRevenuePage from './pages/AdditionalRevenue';
+import StoreUpdates from './pages/StoreUpdates';
+import Activity from './pages/Activity';
 import { db } from './db';
+import {
+  fetchStoreProfile,
+  isVaultConfigured,
+  isVaultUnlocked,
+  unlockVault,
+  lockVault,
+  resetVault,
+  onVaultChange,
+  startAutoLock
+} from './services/api';
 
 function App() {
+  const [profileLoaded, setProfileLoaded] = useState(false);
+  const [vaultConfigured, setVaultConfigured] = useState(false);
+  const [vaultUnlocked, setVaultUnlocked] = useState(false);
+
   useEffect(() => {
     // Initialize the database when the app starts
     const initDb = async () => {
@@ -25,32 +46,91 @@ function App() {
       } catch (error) {
         console.error('Failed to initialize database on app start:', error);
       }
+      
+      // Load the store profile before rendering, so dates and currency use the right store settings
+      try {
+        await fetchStoreProfile();
+      } catch (error) {
+        console.error('Failed to load store profile, using defaults:', error);
+      }
+      
+      // Ask for the passphrase before showing anything if one has been set
+      try {
+        setVaultConfigured(await isVaultConfigured());
+      } catch (error) {
+        console.error('Failed to check for a passphrase:', error);
+      } finally {
+        setProfileLoaded(true);
+      }
     };
     
     initDb();
   }, []);
 
+  // Follow the vault being locked, unlocked or set up, and lock it after the auto-lock timeout
+  useEffect(() => {
+    const unsubscribe = onVaultChange(() => {
+      setVaultUnlocked(isVaultUnlocked());
+      isVaultConfigured().then(setVaultConfigured).catch(error => {
+        console.error('Failed to check for a passphrase:', error);
+      });
+    });
+    const stopAutoLock = startAutoLock();
+    
+    return () => {
+      unsubscribe();
+      stopAutoLock();
+    };
+  }, []);
+
+  if (!profileLoaded) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (vaultConfigured && !vaultUnlocked) {
+    return <UnlockScreen onUnlock={unlockVault} onReset={resetVault} />;
+  }
+
   return (
     <Router>
       <div className="flex min-h-screen bg-gray-100">
         <Navbar />
         <div className="flex-1 ml-56">
-          <div className="px-6 py-3 bg-white shadow-sm border-b">
-            <TimeDisplay />
+          <div className="flex items-center px-6 py-3 bg-white shadow-sm border-b">
+            <TimeDisplay className="flex-1" />
+            {vaultConfigured && (
+              <button
+                onClick={lockVault}
+                className="flex items-center ml-6 text-sm text-gray-600 hover:text-gray-900"
+                title="Lock the app until the passphrase is entered again"
+              >
+                <Lock className="h-4 w-4 mr-1" />
+                Lock
+              </button>
+            )}
           </div>
           <div className="p-6">
             <Routes>
               <Route path="/" element={<Dashboard />} />
               <Route path="/orders" element={<Orders />} />
+              <Route path="/customers" element={<Customers />} />
+              <Route path="/shipping" element={<Shipping />} />
               <Route path="/products" element={<Products />} />
               <Route path="/inventory" element={<Inventory />} />
               <Route path="/expenses" element={<Expenses />} />
+              <Route path="/budgets" element={<Budgets />} />
               <Route path="/additional-revenue" element={<AdditionalRevenuePage />} />
               <Route path="/reports" element={<Reports />} />
               <Route path="/settings" element={<Settings />} />
               <Route path="/expiry" element={<ProductExpiry />} />
               <Route path="/purchase-orders" element={<PurchaseOrders />} />
               <Route path="/suppliers" element={<SuppliersPage />} />
+              <Route path="/store-updates" element={<StoreUpdates />} />
+              <Route path="/activity" element={<Activity />} />
             </Routes>
           </div>
         </div>
@@ -1,8 +1,21 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { format, subDays, subMonths, startOfMonth, endOfMonth, isValid } from 'date-fns';
+import { format, subMonths, parseISO, isValid } from 'date-fns';
 import { DateRange } from '../types';
 import { Calendar, ChevronDown, ChevronUp } from 'lucide-react';
-import { formatNZDate, getNZTimezone } from '../services/api/utils';
+import { getStoreTimezoneName } from '../services/api/utils';
+import { formatStoreDateOnly } from '../utils/dateUtils';
+import { getStoreTimezone } from '../utils/storeProfile';
+import {
+  getDayInZone,
+  getDaysRange,
+  getFiscalYearRange,
+  getFiscalYearStartYear,
+  getMonthRange,
+  getRecentDaysRange,
+  toDateRange,
+  toUtcRange,
+  UtcRange
+} from '../utils/dateRange';
 
 interface DateRangePickerProps {
   dateRange: DateRange;
@@ -11,8 +24,8 @@ interface DateRangePickerProps {
 
 const DateRangePicker: React.FC<DateRangePickerProps> = ({ dateRange, onChange }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [localStartDate, setLocalStartDate] = useState<string>(format(dateRange.startDate, 'yyyy-MM-dd'));
-  const [localEndDate, setLocalEndDate] = useState<string>(format(dateRange.endDate, 'yyyy-MM-dd'));
+  const [localStartDate, setLocalStartDate] = useState<string>(getDayInZone(dateRange.startDate));
+  const [localEndDate, setLocalEndDate] = useState<string>(getDayInZone(dateRange.endDate));
   const dropdownRef = useRef<HTMLDivElement>(null);
   const startDateInputRef = useRef<HTMLInputElement>(null);
   const endDateInputRef = useRef<HTMLInputElement>(null);
@@ -33,8 +46,8 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({ dateRange, onChange }
 
   // Update local state when props change
   useEffect(() => {
-    setLocalStartDate(format(dateRange.startDate, 'yyyy-MM-dd'));
-    setLocalEndDate(format(dateRange.endDate, 'yyyy-MM-dd'));
+    setLocalStartDate(getDayInZone(dateRange.startDate));
+    setLocalEndDate(getDayInZone(dateRange.endDate));
   }, [dateRange]);
 
   const handleStartDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -72,73 +85,51 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({ dateRange, onChange }
     }
   };
 
-  // Format date for display in NZ format (dd/MM/yyyy)
+  // Format date for display in the store locale
   const formatDateForDisplay = (date: Date) => {
-    // NZ date format: day/month/year
-    return formatNZDate(date);
+    // Calendar date in the store timezone
+    return formatStoreDateOnly(date);
   };
 
-  const handleQuickSelect = (days: number) => {
-    const endDate = new Date();
-    const startDate = subDays(endDate, days);
+  // Apply a range of whole days in the store timezone
+  const selectRange = (range: UtcRange) => {
+    const newDateRange = toDateRange(range);
     
-    setLocalStartDate(format(startDate, 'yyyy-MM-dd'));
-    setLocalEndDate(format(endDate, 'yyyy-MM-dd'));
+    setLocalStartDate(getDayInZone(newDateRange.startDate));
+    setLocalEndDate(getDayInZone(newDateRange.endDate));
     
-    onChange({
-      startDate,
-      endDate
-    });
+    onChange(newDateRange);
     
     setIsOpen(false);
   };
 
+  const handleQuickSelect = (days: number) => {
+    selectRange(toUtcRange(getRecentDaysRange(days)));
+  };
+
   const handleMonthSelect = (months: number) => {
-    const endDate = new Date();
-    const startDate = subMonths(endDate, months);
-    
-    setLocalStartDate(format(startDate, 'yyyy-MM-dd'));
-    setLocalEndDate(format(endDate, 'yyyy-MM-dd'));
-    
-    onChange({
-      startDate,
-      endDate
-    });
-    
-    setIsOpen(false);
+    const today = getDayInZone(new Date());
+    // Calendar arithmetic on the day string only, so the browser timezone does not matter
+    const startDay = format(subMonths(parseISO(today), months), 'yyyy-MM-dd');
+    selectRange(getDaysRange(startDay, today));
   };
 
   const handleThisMonth = () => {
-    const now = new Date();
-    const startDate = startOfMonth(now);
-    const endDate = endOfMonth(now);
-    
-    setLocalStartDate(format(startDate, 'yyyy-MM-dd'));
-    setLocalEndDate(format(endDate, 'yyyy-MM-dd'));
-    
-    onChange({
-      startDate,
-      endDate
-    });
-    
-    setIsOpen(false);
+    const [year, month] = getDayInZone(new Date()).split('-').map(Number);
+    selectRange(getMonthRange(year, month - 1));
   };
 
   const handleLastMonth = () => {
-    const now = new Date();
-    const lastMonth = subMonths(now, 1);
-    const startDate = startOfMonth(lastMonth);
-    const endDate = endOfMonth(lastMonth);
-    
-    setLocalStartDate(format(startDate, 'yyyy-MM-dd'));
-    setLocalEndDate(format(endDate, 'yyyy-MM-dd'));
-    
-    onChange({
-      startDate,
-      endDate
-    });
-    
-    setIsOpen(false);
+    const [year, month] = getDayInZone(new Date()).split('-').map(Number);
+    selectRange(getMonthRange(year, month - 2));
+  };
+
+  const handleThisFiscalYear = () => {
+    selectRange(getFiscalYearRange(getFiscalYearStartYear(new Date())));
+  };
+
+  const handleLastFiscalYear = () => {
+    selectRange(getFiscalYearRange(getFiscalYearStartYear(new Date()) - 1));
   };
 
   const handleApply = (e?: React.MouseEvent) => {
@@ -148,22 +139,13 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({ dateRange, onChange }
     
     try {
       // Validate dates before applying
-      const startDate = new Date(localStartDate);
-      const endDate = new Date(localEndDate);
-      
-      if (isValid(startDate) && isValid(endDate)) {
+      if (isValid(parseISO(localStartDate)) && isValid(parseISO(localEndDate))) {
         // Ensure end date is not before start date
-        if (endDate < startDate) {
+        if (localEndDate < localStartDate) {
           // If end date is before start date, set end date to start date
-          onChange({
-            startDate,
-            endDate: startDate
-          });
+          selectRange(getDaysRange(localStartDate, localStartDate));
         } else {
-          onChange({
-            startDate,
-            endDate
-          });
+          selectRange(getDaysRange(localStartDate, localEndDate));
         }
       }
       
@@ -186,7 +168,7 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({ dateRange, onChange }
       >
         <Calendar className="h-5 w-5 mr-2 text-gray-500" />
         <span className="text-gray-700">
-          {formatDateForDisplay(dateRange.startDate)} - {formatDateForDisplay(dateRange.endDate)} ({getNZTimezone()})
+          {formatDateForDisplay(dateRange.startDate)} - {formatDateForDisplay(dateRange.endDate)} ({getStoreTimezoneName()})
         </span>
         {isOpen ? (
           <ChevronUp className="h-4 w-4 ml-2 text-gray-500" />
@@ -267,6 +249,26 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({ dateRange, onChange }
             </div>
           </div>
           
+          <div className="mb-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Fiscal Years</h3>
+            <div className="grid grid-cols-2 gap-2">
+              <button 
+                type="button"
+                className="px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded"
+                onClick={handleThisFiscalYear}
+              >
+                This Fiscal Year
+              </button>
+              <button 
+                type="button"
+                className="px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded"
+                onClick={handleLastFiscalYear}
+              >
+                Last Fiscal Year
+              </button>
+            </div>
+          </div>
+          
           <form onSubmit={(e) => e.preventDefault()}>
             <div className="space-y-4">
               <div>
@@ -308,7 +310,7 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({ dateRange, onChange }
           </form>
           
           <div className="mt-2 text-xs text-gray-500">
-            All dates are in New Zealand timezone ({getNZTimezone()})
+            All dates are in the store timezone, {getStoreTimezone()} ({getStoreTimezoneName()})
           </div>
         </div>
       )}
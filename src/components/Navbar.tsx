@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { BarChart3, ShoppingCart, Package, Settings, DollarSign, Receipt, FileBarChart, Boxes, Calendar, ShoppingBag, Truck, PlusCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { BarChart3, ShoppingCart, Package, Settings, DollarSign, Receipt, FileBarChart, Boxes, Calendar, ShoppingBag, Truck, PlusCircle, ChevronDown, ChevronRight, UploadCloud, Users, PackageCheck, History, Target } from 'lucide-react';
+import StoreSwitcher from './StoreSwitcher';
 
 // Define the navigation structure with parent-child relationships
 const navigationItems = [
@@ -24,6 +25,7 @@ const navigationItems = [
       { id: 'products', label: 'Products', path: '/products', icon: Package },
       { id: 'inventory-management', label: 'Inventory Management', path: '/inventory', icon: Boxes },
       { id: 'expiry', label: 'Expiry Tracking', path: '/expiry', icon: Calendar },
+      { id: 'store-updates', label: 'Store Updates', path: '/store-updates', icon: UploadCloud },
     ]
   },
   {
@@ -41,6 +43,8 @@ const navigationItems = [
     icon: ShoppingCart,
     children: [
       { id: 'orders', label: 'Orders', path: '/orders', icon: ShoppingCart },
+      { id: 'customers', label: 'Customers', path: '/customers', icon: Users },
+      { id: 'shipping', label: 'Shipping Costs', path: '/shipping', icon: PackageCheck },
       { id: 'additional-revenue', label: 'Additional Revenue', path: '/additional-revenue', icon: PlusCircle },
     ]
   },
@@ -50,8 +54,15 @@ const navigationItems = [
     icon: DollarSign,
     children: [
       { id: 'expenses', label: 'Expenses', path: '/expenses', icon: Receipt },
+      { id: 'budgets', label: 'Budgets', path: '/budgets', icon: Target },
     ]
   },
+  {
+    id: 'activity',
+    label: 'Activity',
+    path: '/activity',
+    icon: History,
+  },
   {
     id: 'settings',
     label: 'Settings',
@@ -95,11 +106,13 @@ const Navbar: React.FC = () => {
 
   return (
     <nav className="bg-blue-800 text-white h-screen w-56 fixed left-0 top-0 p-4 overflow-y-auto">
-      <div className="flex items-center mb-8">
+      <div className="flex items-center mb-6">
         <DollarSign className="h-7 w-7 mr-2" />
         <h1 className="text-xl font-bold">PetWise</h1>
       </div>
       
+      <StoreSwitcher />
+      
       <ul className="space-y-1">
         {navigationItems.map(item => (
           <li key={item.id}>
@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { SupplierPriceHistory } from '../types';
+import { fetchPriceHistory } from '../services/api';
+import { formatCurrency } from '../utils/currencyUtils';
+import { formatStoreDateOnly } from '../utils/dateUtils';
+
+interface PriceHistoryChartProps {
+  sku: string;
+}
+
+const SOURCE_LABELS: Record<SupplierPriceHistory['source'], string> = {
+  import: 'Price list import',
+  manual: 'Manual edit',
+  purchase_order: 'Purchase order'
+};
+
+const PriceHistoryChart: React.FC<PriceHistoryChartProps> = ({ sku }) => {
+  const [history, setHistory] = useState<SupplierPriceHistory[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true);
+      setHistory(await fetchPriceHistory(sku));
+      setLoading(false);
+    };
+
+    loadHistory();
+  }, [sku]);
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading price history...</div>;
+  }
+
+  if (history.length === 0) {
+    return <div className="text-sm text-gray-500">No price history recorded for {sku} yet.</div>;
+  }
+
+  const chartData = history.map(entry => ({
+    time: new Date(entry.effective_date).getTime(),
+    price: entry.price,
+    supplier: entry.supplier_name,
+    source: SOURCE_LABELS[entry.source]
+  }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+      <div className="lg:col-span-2 h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(time) => formatStoreDateOnly(new Date(time))}
+            />
+            <YAxis tickFormatter={(value) => formatCurrency(value)} width={80} />
+            <Tooltip
+              labelFormatter={(time) => formatStoreDateOnly(new Date(time as number))}
+              formatter={(value, _name, item) => [
+                formatCurrency(value as number),
+                `${item.payload.supplier || 'No supplier'} (${item.payload.source})`
+              ]}
+            />
+            <Line type="stepAfter" dataKey="price" name="Price" stroke="#4f46e5" dot={{ r: 3 }} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-y-auto max-h-56">
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="pb-1 pr-2">From</th>
+              <th className="pb-1 pr-2">Supplier</th>
+              <th className="pb-1 text-right">Price</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...history].reverse().map(entry => (
+              <tr key={entry.id} className="text-gray-700" title={entry.reference || SOURCE_LABELS[entry.source]}>
+                <td className="py-1 pr-2 whitespace-nowrap">{formatStoreDateOnly(new Date(entry.effective_date))}</td>
+                <td className="py-1 pr-2">{entry.supplier_name || '-'}</td>
+                <td className="py-1 text-right">{formatCurrency(entry.price)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PriceHistoryChart;
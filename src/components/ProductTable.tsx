@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
-import { ChevronDown, ChevronUp, Edit, Save, X, ChevronRight } from 'lucide-react';
-import { Product, ProductVariation } from '../types';
+import { ChevronDown, ChevronUp, Edit, Save, X, ChevronRight, History } from 'lucide-react';
+import { AuditEntityType, Product, ProductVariation } from '../types';
 import { updateProductCostPrice } from '../services/api';
+import { formatCurrency } from '../utils/currencyUtils';
+import PriceHistoryChart from './PriceHistoryChart';
+import HistoryPanel from './history/HistoryPanel';
 
 interface ProductTableProps {
   products: Product[];
@@ -9,6 +12,7 @@ interface ProductTableProps {
   sortDirection: 'asc' | 'desc';
   onSort: (field: keyof Product) => void;
   onProductsUpdated: (products: Product[]) => void;
+  onHistoryReverted: () => void;
 }
 
 const ProductTable: React.FC<ProductTableProps> = ({ 
@@ -16,23 +20,20 @@ const ProductTable: React.FC<ProductTableProps> = ({
   sortField, 
   sortDirection, 
   onSort,
-  onProductsUpdated
+  onProductsUpdated,
+  onHistoryReverted
 }) => {
   const [editingProductId, setEditingProductId] = useState<number | null>(null);
   const [editingVariationId, setEditingVariationId] = useState<number | null>(null);
   const [editedCostPrice, setEditedCostPrice] = useState<string>('');
+  const [editReason, setEditReason] = useState<string>('');
   const [expandedProductIds, setExpandedProductIds] = useState<Set<number>>(new Set());
-
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(value);
-  };
+  const [historyKey, setHistoryKey] = useState<string | null>(null);
 
   const startEditing = (product: Product, variationId?: number) => {
     setEditingProductId(product.id);
     setEditingVariationId(variationId || null);
+    setEditReason('');
     
     if (variationId) {
       const variation = product.productVariations?.find(v => v.id === variationId);
@@ -46,6 +47,7 @@ const ProductTable: React.FC<ProductTableProps> = ({
     setEditingProductId(null);
     setEditingVariationId(null);
     setEditedCostPrice('');
+    setEditReason('');
   };
 
   const saveProductCost = async (productId: number, variationId?: number) => {
@@ -53,7 +55,7 @@ const ProductTable: React.FC<ProductTableProps> = ({
     
     try {
       // Update in database
-      await updateProductCostPrice(productId, costPrice, variationId);
+      await updateProductCostPrice(productId, costPrice, variationId, { reason: editReason.trim() || undefined });
       
       // Update local state
       const updatedProducts = products.map(product => {
@@ -109,6 +111,41 @@ const ProductTable: React.FC<ProductTableProps> = ({
     setExpandedProductIds(newExpandedIds);
   };
 
+  const toggleHistory = (key: string) => {
+    setHistoryKey(historyKey === key ? null : key);
+  };
+
+  // Supplier prices over time, and the changes made to the product's prices here
+  const renderHistoryRow = (entityType: AuditEntityType, entityId: number, sku: string | undefined) => {
+    if (historyKey !== `${entityType}-${entityId}`) return null;
+    
+    return (
+      <tr className="bg-indigo-50">
+        <td colSpan={10} className="px-6 py-4">
+          {sku && (
+            <div className="mb-4">
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Supplier price history for {sku}</h4>
+              <PriceHistoryChart sku={sku} />
+            </div>
+          )}
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Changes</h4>
+          <HistoryPanel entityType={entityType} entityId={entityId} onReverted={onHistoryReverted} />
+        </td>
+      </tr>
+    );
+  };
+
+  // Optional note saved with a cost price edit
+  const renderReasonInput = () => (
+    <input
+      type="text"
+      className="w-40 p-1 border rounded ml-2 text-xs"
+      placeholder="Reason (optional)"
+      value={editReason}
+      onChange={(e) => setEditReason(e.target.value)}
+    />
+  );
+
   return (
     <div className="bg-white shadow rounded-lg overflow-hidden">
       <div className="overflow-x-auto">
@@ -252,6 +289,7 @@ const ProductTable: React.FC<ProductTableProps> = ({
                           value={editedCostPrice}
                           onChange={(e) => setEditedCostPrice(e.target.value)}
                         />
+                        {renderReasonInput()}
                       </div>
                     ) : (
                       product.type === 'variable' ? 'Varies' : formatCurrency(product.cost_price || 0)
@@ -300,102 +338,129 @@ const ProductTable: React.FC<ProductTableProps> = ({
                         </button>
                       </div>
                     ) : (
-                      <button
-                        onClick={() => startEditing(product)}
-                        className="text-indigo-600 hover:text-indigo-900"
-                        disabled={product.type === 'variable'}
-                      >
-                        <Edit className={`h-5 w-5 ${product.type === 'variable' ? 'opacity-50 cursor-not-allowed' : ''}`} />
-                      </button>
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => startEditing(product)}
+                          className="text-indigo-600 hover:text-indigo-900"
+                          disabled={product.type === 'variable'}
+                        >
+                          <Edit className={`h-5 w-5 ${product.type === 'variable' ? 'opacity-50 cursor-not-allowed' : ''}`} />
+                        </button>
+                        {product.type !== 'variable' && (
+                          <button
+                            onClick={() => toggleHistory(`product-${product.id}`)}
+                            className="text-gray-500 hover:text-gray-700"
+                            title="Price history and changes"
+                          >
+                            <History className="h-5 w-5" />
+                          </button>
+                        )}
+                      </div>
                     )}
                   </td>
                 </tr>
                 
+                {product.type !== 'variable' && renderHistoryRow('product', product.id, product.sku)}
+                
                 {/* Variations rows */}
                 {expandedProductIds.has(product.id) && product.productVariations && 
                   product.productVariations.map(variation => (
-                    <tr key={variation.id} className="bg-gray-50 hover:bg-gray-100">
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 pl-10">
-                        <span className="text-gray-600">└ </span>
-                        {variation.name.replace(product.name + ' - ', '')}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {variation.sku || 'N/A'}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {formatCurrency(variation.regular_price || variation.price)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {variation.sale_price ? formatCurrency(variation.sale_price) : '-'}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {editingProductId === product.id && editingVariationId === variation.id ? (
-                          <div className="flex items-center">
-                            <input
-                              type="number"
-                              step="0.01"
-                              min="0"
-                              className="w-24 p-1 border rounded"
-                              value={editedCostPrice}
-                              onChange={(e) => setEditedCostPrice(e.target.value)}
-                            />
-                          </div>
-                        ) : (
-                          formatCurrency(variation.cost_price || 0)
-                        )}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {variation.supplier_price ? (
-                          <div>
-                            {formatCurrency(variation.supplier_price)}
-                            {variation.supplier_name && (
-                              <div className="text-xs text-gray-400">
-                                {variation.supplier_name}
-                                {variation.supplier_updated && (
-                                  <span> ({new Date(variation.supplier_updated).toLocaleDateString()})</span>
-                                )}
-                              </div>
-                            )}
-                          </div>
-                        ) : '-'}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {calculateMargin(
-                          variation.sale_price || variation.regular_price || variation.price, 
-                          variation.supplier_price || variation.cost_price
-                        ).toFixed(2)}%
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {variation.stock_quantity || 0}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                        {editingProductId === product.id && editingVariationId === variation.id ? (
-                          <div className="flex space-x-2">
-                            <button
-                              onClick={() => saveProductCost(product.id, variation.id)}
-                              className="text-green-600 hover:text-green-900"
-                            >
-                              <Save className="h-5 w-5" />
-                            </button>
-                            <button
-                              onClick={cancelEditing}
-                              className="text-red-600 hover:text-red-900"
-                            >
-                              <X className="h-5 w-5" />
-                            </button>
-                          </div>
-                        ) : (
-                          <button
-                            onClick={() => startEditing(product, variation.id)}
-                            className="text-indigo-600 hover:text-indigo-900"
-                          >
-                            <Edit className="h-5 w-5" />
-                          </button>
-                        )}
-                      </td>
-                    </tr>
+                    <React.Fragment key={variation.id}>
+                      <tr className="bg-gray-50 hover:bg-gray-100">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 pl-10">
+                          <span className="text-gray-600">└ </span>
+                          {variation.name.replace(product.name + ' - ', '')}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {variation.sku || 'N/A'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatCurrency(variation.regular_price || variation.price)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {variation.sale_price ? formatCurrency(variation.sale_price) : '-'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {editingProductId === product.id && editingVariationId === variation.id ? (
+                            <div className="flex items-center">
+                              <input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                className="w-24 p-1 border rounded"
+                                value={editedCostPrice}
+                                onChange={(e) => setEditedCostPrice(e.target.value)}
+                              />
+                              {renderReasonInput()}
+                            </div>
+                          ) : (
+                            formatCurrency(variation.cost_price || 0)
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {variation.supplier_price ? (
+                            <div>
+                              {formatCurrency(variation.supplier_price)}
+                              {variation.supplier_name && (
+                                <div className="text-xs text-gray-400">
+                                  {variation.supplier_name}
+                                  {variation.supplier_updated && (
+                                    <span> ({new Date(variation.supplier_updated).toLocaleDateString()})</span>
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                          ) : '-'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {calculateMargin(
+                            variation.sale_price || variation.regular_price || variation.price, 
+                            variation.supplier_price || variation.cost_price
+                          ).toFixed(2)}%
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {variation.stock_quantity || 0}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                          {editingProductId === product.id && editingVariationId === variation.id ? (
+                            <div className="flex space-x-2">
+                              <button
+                                onClick={() => saveProductCost(product.id, variation.id)}
+                                className="text-green-600 hover:text-green-900"
+                              >
+                                <Save className="h-5 w-5" />
+                              </button>
+                              <button
+                                onClick={cancelEditing}
+                                className="text-red-600 hover:text-red-900"
+                              >
+                                <X className="h-5 w-5" />
+                              </button>
+                            </div>
+                          ) : (
+                            <div className="flex space-x-2">
+                              <button
+                                onClick={() => startEditing(product, variation.id)}
+                                className="text-indigo-600 hover:text-indigo-900"
+                              >
+                                <Edit className="h-5 w-5" />
+                              </button>
+                              <button
+                                onClick={() => toggleHistory(`variation-${variation.id}`)}
+                                className="text-gray-500 hover:text-gray-700"
+                                title="Price history and changes"
+                              >
+                                <History className="h-5 w-5" />
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                      
+                      {renderHistoryRow('variation', variation.id, variation.sku)}
+                    </React.Fragment>
                   ))}
               </React.Fragment>
             ))}
@@ -0,0 +1,37 @@
+import React from 'react';
+import { ReportingBasis } from '../types';
+import { REPORTING_BASIS_LABELS } from '../services/pnl/basis';
+
+interface ReportingBasisToggleProps {
+  basis: ReportingBasis;
+  onChange: (basis: ReportingBasis) => void;
+}
+
+const BASIS_DESCRIPTIONS: Record<ReportingBasis, string> = {
+  accrual: 'Sales on order date, stock costed when sold, costs on invoice date',
+  cash: 'Sales, expenses and stock purchases on the date they were paid'
+};
+
+// Switch the P&L between the accrual and cash basis
+const ReportingBasisToggle: React.FC<ReportingBasisToggleProps> = ({ basis, onChange }) => {
+  return (
+    <div className="flex items-center text-sm">
+      <span className="font-medium text-gray-700 mr-2">Basis:</span>
+      <div className="inline-flex rounded border overflow-hidden">
+        {(Object.keys(REPORTING_BASIS_LABELS) as ReportingBasis[]).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onChange(option)}
+            title={BASIS_DESCRIPTIONS[option]}
+            className={`px-3 py-2 ${basis === option ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+          >
+            {REPORTING_BASIS_LABELS[option]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReportingBasisToggle;
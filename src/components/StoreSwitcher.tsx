@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { Store as StoreIcon, Plus, Check, X } from 'lucide-react';
+import { Store } from '../types';
+import { fetchStores, createStore, getCurrentStoreId, switchStore } from '../services/api';
+
+const StoreSwitcher: React.FC = () => {
+  const [stores, setStores] = useState<Store[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newStoreName, setNewStoreName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const currentStoreId = getCurrentStoreId();
+
+  useEffect(() => {
+    const loadStores = async () => {
+      setStores(await fetchStores());
+    };
+
+    loadStores();
+  }, []);
+
+  // Register the new store and switch to it, so its credentials can be entered
+  const handleAddStore = async () => {
+    try {
+      setError(null);
+      const storeId = await createStore(newStoreName);
+      switchStore(storeId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add store');
+    }
+  };
+
+  const handleCancel = () => {
+    setIsAdding(false);
+    setNewStoreName('');
+    setError(null);
+  };
+
+  return (
+    <div className="mb-6">
+      <label className="flex items-center text-xs text-blue-300 mb-1">
+        <StoreIcon className="h-3 w-3 mr-1" />
+        Store
+      </label>
+
+      {isAdding ? (
+        <div>
+          <div className="flex items-center">
+            <input
+              type="text"
+              autoFocus
+              className="w-full p-1 text-sm text-gray-900 rounded"
+              placeholder="Store name"
+              value={newStoreName}
+              onChange={(e) => setNewStoreName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAddStore();
+                if (e.key === 'Escape') handleCancel();
+              }}
+            />
+            <button
+              onClick={handleAddStore}
+              className="ml-1 p-1 rounded hover:bg-blue-700"
+              title="Add store"
+            >
+              <Check className="h-4 w-4" />
+            </button>
+            <button
+              onClick={handleCancel}
+              className="p-1 rounded hover:bg-blue-700"
+              title="Cancel"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-300 mt-1">{error}</p>}
+        </div>
+      ) : (
+        <div className="flex items-center">
+          <select
+            className="w-full p-1 text-sm text-gray-900 rounded"
+            value={currentStoreId}
+            onChange={(e) => switchStore(parseInt(e.target.value, 10))}
+          >
+            {stores.map(store => (
+              <option key={store.id} value={store.id}>{store.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setIsAdding(true)}
+            className="ml-1 p-1 rounded hover:bg-blue-700"
+            title="Add a store"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoreSwitcher;
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { AlertCircle, Upload, FileText, RefreshCw } from 'lucide-react';
 import { SupplierPriceItem, SupplierPriceImport } from '../types';
 import { processSupplierPriceData, getSupplierImports, getSupplierImportItems } from '../db/operations/supplier';
+import { getDayInZone, startOfDayInZone } from '../utils/dateRange';
 
 interface SupplierImportFormProps {
   onClose: () => void;
@@ -29,6 +30,7 @@ const SupplierImportForm: React.FC<SupplierImportFormProps> = ({
   const [debugInfo, setDebugInfo] = useState<string[]>([]);
   const [selectedImportId, setSelectedImportId] = useState<number | null>(null);
   const [importMode, setImportMode] = useState<'file' | 'existing'>('file');
+  const [effectiveDate, setEffectiveDate] = useState(getDayInZone(new Date()));
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
@@ -102,7 +104,7 @@ const SupplierImportForm: React.FC<SupplierImportFormProps> = ({
       }
       
       // Process the data
-      const result = await processSupplierPriceData(items, supplier, filename);
+      const result = await processSupplierPriceData(items, supplier, filename, startOfDayInZone(effectiveDate));
       
       // Update the UI
       setImportSuccess(`Successfully imported ${result.items_updated} items (${result.items_skipped} skipped)`);
@@ -388,6 +390,22 @@ const SupplierImportForm: React.FC<SupplierImportFormProps> = ({
           </div>
         )}
         
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Prices Effective From
+          </label>
+          <input
+            type="date"
+            className="p-2 border rounded"
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+            required
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Recorded in the price history and used to cost orders placed from this date
+          </p>
+        </div>
+        
         <div className="flex justify-end space-x-2">
           <button
             type="button"
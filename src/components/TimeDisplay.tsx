@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { db } from '../db';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { RefreshCw } from 'lucide-react';
-import { formatNZDate, formatRelativeTime, getCurrentNZDate } from '../utils/dateUtils';
+import { formatStoreDate, formatRelativeTime, getTimeZoneAbbreviation } from '../utils/dateUtils';
 
 interface TimeDisplayProps {
   className?: string;
@@ -15,7 +15,7 @@ interface SyncInfo {
 }
 
 const TimeDisplay: React.FC<TimeDisplayProps> = ({ className = '' }) => {
-  const [currentTime, setCurrentTime] = useState<Date>(getCurrentNZDate());
+  const [currentTime, setCurrentTime] = useState<Date>(new Date());
   
   // Get the last sync times from the database
   const lastSyncTimes = useLiveQuery(async () => {
@@ -25,7 +25,7 @@ const TimeDisplay: React.FC<TimeDisplayProps> = ({ className = '' }) => {
   // Update current time every minute
   useEffect(() => {
     const timer = setInterval(() => {
-      setCurrentTime(getCurrentNZDate());
+      setCurrentTime(new Date());
     }, 60000); // Update every minute
     
     return () => clearInterval(timer);
@@ -43,7 +43,7 @@ const TimeDisplay: React.FC<TimeDisplayProps> = ({ className = '' }) => {
   return (
     <div className={`text-sm ${className}`}>
       <div className="flex justify-between items-center">
-        <div className="font-medium text-gray-800">Current Time (NZ): {formatNZDate(currentTime)}</div>
+        <div className="font-medium text-gray-800">Current Time ({getTimeZoneAbbreviation(currentTime)}): {formatStoreDate(currentTime)}</div>
         
         <div className="flex space-x-6">
           {productSync && (
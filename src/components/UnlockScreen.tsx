@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Lock, AlertCircle } from 'lucide-react';
+
+interface UnlockScreenProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+  onReset: () => Promise<void>;
+}
+
+const UnlockScreen: React.FC<UnlockScreenProps> = ({ onUnlock, onReset }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    setError(null);
+
+    try {
+      await onUnlock(passphrase);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+      setPassphrase('');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Remove the passphrase and this store\'s API credentials? You will need to enter the credentials again.')) {
+      return;
+    }
+
+    try {
+      await onReset();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-100">
+      <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-8 w-full max-w-sm">
+        <div className="flex items-center mb-4">
+          <Lock className="h-6 w-6 mr-2 text-gray-500" />
+          <h1 className="text-xl font-bold">Locked</h1>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">Enter your passphrase to unlock the app.</p>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded mb-4 flex items-center text-sm">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            {error}
+          </div>
+        )}
+
+        <input
+          type="password"
+          className="w-full p-2 border rounded mb-4"
+          placeholder="Passphrase"
+          autoComplete="current-password"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={unlocking || !passphrase}
+          className="w-full bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          {unlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+        <button
+          type="button"
+          onClick={handleReset}
+          className="w-full text-sm text-gray-500 hover:text-gray-700 mt-4"
+        >
+          Forgot passphrase?
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default UnlockScreen;
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Trash2, Edit, Check, X } from 'lucide-react';
 import { AdditionalRevenueCategory } from '../../types';
 import { saveAdditionalRevenueCategory, updateAdditionalRevenueCategory, deleteAdditionalRevenueCategory } from '../../db/operations/additionalRevenue';
+import { formatCurrency } from '../../utils/currencyUtils';
 
 interface CategoryManagerProps {
   categories: AdditionalRevenueCategory[];
@@ -301,7 +302,7 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
                       {category.is_taxable ? 'Yes' : 'No'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {category.budget_monthly ? `$${category.budget_monthly.toFixed(2)}` : '-'}
+                      {category.budget_monthly ? formatCurrency(category.budget_monthly) : '-'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       <button
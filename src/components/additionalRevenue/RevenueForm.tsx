@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { DollarSign, Tag } from 'lucide-react';
 import { AdditionalRevenue, AdditionalRevenueCategory } from '../../types';
 import { saveAdditionalRevenue, updateAdditionalRevenue, saveAdditionalRevenueCategory } from '../../db/operations/additionalRevenue';
+import { learnBankRuleFromRecategorisation } from '../../services/api';
 import { format } from 'date-fns';
 import CategorySelector from './CategorySelector';
 
@@ -169,6 +170,14 @@ const RevenueForm: React.FC<RevenueFormProps> = ({
         // Update existing revenue
         await updateAdditionalRevenue(editingRevenueId, formData);
         
+        // Recategorising an imported bank transaction teaches a rule for its payee
+        if (editingRevenue && formData.category && formData.category !== editingRevenue.category) {
+          await learnBankRuleFromRecategorisation(editingRevenue, 'credit', {
+            category: formData.category,
+            tags: formData.tags
+          });
+        }
+        
         // Update the revenues list
         const updatedRevenues = revenues.map(revenue => 
           revenue.id === editingRevenueId ? { ...revenue, ...formData } as AdditionalRevenue : revenue
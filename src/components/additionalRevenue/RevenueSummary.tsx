@@ -1,5 +1,6 @@
 import React from 'react';
 import { AdditionalRevenue, AdditionalRevenueCategory } from '../../types';
+import { formatCurrency } from '../../utils/currencyUtils';
 
 interface RevenueSummaryProps {
   totalRevenue: number;
@@ -14,14 +15,6 @@ const RevenueSummary: React.FC<RevenueSummaryProps> = ({
   categories,
   revenues
 }) => {
-  // Format currency
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-NZ', {
-      style: 'currency',
-      currency: 'NZD'
-    }).format(amount);
-  };
-  
   // Calculate revenue by category
   const revenueByCategory = categories.map(category => {
     const categoryRevenues = revenues.filter(revenue => revenue.category === category.name);
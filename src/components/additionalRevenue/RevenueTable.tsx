@@ -1,25 +1,38 @@
-import React, { useState } from 'react';
-import { Trash2, Edit } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Trash2, Edit, History, Paperclip } from 'lucide-react';
 import { AdditionalRevenue, AdditionalRevenueCategory } from '../../types';
 import { deleteAdditionalRevenue } from '../../db/operations/additionalRevenue';
-import { formatNZDate } from '../../services/api/utils';
+import { formatDisplayDate } from '../../services/api/utils';
+import { formatCurrency } from '../../utils/currencyUtils';
+import HistoryPanel from '../history/HistoryPanel';
+import AttachmentPanel from '../attachments/AttachmentPanel';
+import { fetchAttachmentCounts } from '../../services/api';
 
 interface RevenueTableProps {
   revenues: AdditionalRevenue[];
   categories: AdditionalRevenueCategory[];
   onEdit: (revenue: AdditionalRevenue) => void;
   onRevenuesUpdated: (revenues: AdditionalRevenue[]) => void;
+  onHistoryReverted: () => void;
 }
 
 const RevenueTable: React.FC<RevenueTableProps> = ({
   revenues,
   categories,
   onEdit,
-  onRevenuesUpdated
+  onRevenuesUpdated,
+  onHistoryReverted
 }) => {
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [attachmentsId, setAttachmentsId] = useState<number | null>(null);
+  const [attachmentCounts, setAttachmentCounts] = useState<Map<number, number>>(new Map());
   const [sortField, setSortField] = useState<keyof AdditionalRevenue>('date');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   
+  useEffect(() => {
+    fetchAttachmentCounts('additional_revenue').then(setAttachmentCounts);
+  }, [revenues]);
+  
   // Handle sort
   const handleSort = (field: keyof AdditionalRevenue) => {
     if (field === sortField) {
@@ -34,7 +47,7 @@ const RevenueTable: React.FC<RevenueTableProps> = ({
   const handleDelete = async (id: number | undefined) => {
     if (!id) return;
     
-    if (!confirm('Are you sure you want to delete this revenue entry?')) {
+    if (!confirm('Move this revenue entry to the trash? It can be restored from the Activity page.')) {
       return;
     }
     
@@ -47,14 +60,6 @@ const RevenueTable: React.FC<RevenueTableProps> = ({
     }
   };
   
-  // Format currency
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-NZ', {
-      style: 'currency',
-      currency: 'NZD'
-    }).format(amount);
-  };
-  
   // Get category color
   const getCategoryColor = (categoryName: string) => {
     const category = categories.find(cat => cat.name === categoryName);
@@ -147,46 +152,83 @@ const RevenueTable: React.FC<RevenueTableProps> = ({
         </thead>
         <tbody className="bg-white divide-y divide-gray-200">
           {sortedRevenues.map(revenue => (
-            <tr key={revenue.id} className="hover:bg-gray-50">
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                {formatNZDate(new Date(revenue.date))}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap">
-                <div className="flex items-center">
-                  <span 
-                    className="inline-block w-3 h-3 rounded-full mr-2" 
-                    style={{ backgroundColor: getCategoryColor(revenue.category) }}
-                  />
-                  <span className="text-sm font-medium text-gray-900">{revenue.category}</span>
-                </div>
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                {revenue.description}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                {formatCurrency(revenue.amount)}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                {revenue.period ? revenue.period.charAt(0).toUpperCase() + revenue.period.slice(1) : 'One-time'}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                {revenue.reference || '-'}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                <button
-                  onClick={() => onEdit(revenue)}
-                  className="text-indigo-600 hover:text-indigo-900 mr-3"
-                >
-                  <Edit className="h-5 w-5" />
-                </button>
-                <button
-                  onClick={() => handleDelete(revenue.id)}
-                  className="text-red-600 hover:text-red-900"
-                >
-                  <Trash2 className="h-5 w-5" />
-                </button>
-              </td>
-            </tr>
+            <React.Fragment key={revenue.id}>
+              <tr className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {formatDisplayDate(new Date(revenue.date))}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="flex items-center">
+                    <span 
+                      className="inline-block w-3 h-3 rounded-full mr-2" 
+                      style={{ backgroundColor: getCategoryColor(revenue.category) }}
+                    />
+                    <span className="text-sm font-medium text-gray-900">{revenue.category}</span>
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {revenue.description}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {formatCurrency(revenue.amount)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {revenue.period ? revenue.period.charAt(0).toUpperCase() + revenue.period.slice(1) : 'One-time'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {revenue.reference || '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  <button
+                    onClick={() => onEdit(revenue)}
+                    className="text-indigo-600 hover:text-indigo-900 mr-3"
+                  >
+                    <Edit className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => setAttachmentsId(attachmentsId === revenue.id ? null : revenue.id!)}
+                    className="inline-flex items-center text-gray-500 hover:text-gray-700 mr-3"
+                    title="Receipts and invoices"
+                  >
+                    <Paperclip className="h-5 w-5" />
+                    {attachmentCounts.get(revenue.id!) ? (
+                      <span className="text-xs ml-0.5">{attachmentCounts.get(revenue.id!)}</span>
+                    ) : null}
+                  </button>
+                  <button
+                    onClick={() => setHistoryId(historyId === revenue.id ? null : revenue.id!)}
+                    className="text-gray-500 hover:text-gray-700 mr-3"
+                    title="History"
+                  >
+                    <History className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(revenue.id)}
+                    className="text-red-600 hover:text-red-900"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                </td>
+              </tr>
+              {attachmentsId === revenue.id && (
+                <tr className="bg-gray-50">
+                  <td colSpan={7} className="px-6 py-4">
+                    <AttachmentPanel
+                      ownerType="additional_revenue"
+                      ownerId={revenue.id!}
+                      onChange={(count) => setAttachmentCounts(new Map(attachmentCounts).set(revenue.id!, count))}
+                    />
+                  </td>
+                </tr>
+              )}
+              {historyId === revenue.id && (
+                <tr className="bg-indigo-50">
+                  <td colSpan={7} className="px-6 py-4">
+                    <HistoryPanel entityType="additional_revenue" entityId={revenue.id!} onReverted={onHistoryReverted} />
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
           ))}
           
           {revenues.length === 0 && (
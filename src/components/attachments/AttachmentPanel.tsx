@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Paperclip, FileText, Trash2 } from 'lucide-react';
+import { Attachment, AttachmentOwnerType } from '../../types';
+import { fetchAttachments, addAttachment, removeAttachment } from '../../services/api';
+import { ATTACHMENT_ACCEPT, formatFileSize } from '../../utils/attachments';
+import AttachmentViewer from './AttachmentViewer';
+import AttachmentUsageBar from './AttachmentUsageBar';
+
+interface AttachmentPanelProps {
+  ownerType: AttachmentOwnerType;
+  ownerId: number;
+  onChange?: (count: number) => void;
+}
+
+// A thumbnail for images; other files show an icon
+const AttachmentThumbnail: React.FC<{ attachment: Attachment }> = ({ attachment }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!attachment.thumbnail) return;
+    const objectUrl = URL.createObjectURL(attachment.thumbnail);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [attachment]);
+
+  return url
+    ? <img src={url} alt={attachment.name} className="w-full h-full object-cover" />
+    : <FileText className="h-10 w-10 text-gray-400" />;
+};
+
+// The receipts, invoices and other documents attached to one record
+const AttachmentPanel: React.FC<AttachmentPanelProps> = ({ ownerType, ownerId, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [viewing, setViewing] = useState<Attachment | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [usageKey, setUsageKey] = useState(0);
+
+  const loadAttachments = useCallback(async () => {
+    const loaded = await fetchAttachments(ownerType, ownerId);
+    setAttachments(loaded);
+    setLoading(false);
+    return loaded;
+  }, [ownerType, ownerId]);
+
+  useEffect(() => {
+    loadAttachments();
+  }, [loadAttachments]);
+
+  const reload = async () => {
+    const loaded = await loadAttachments();
+    setUsageKey(key => key + 1);
+    onChange?.(loaded.length);
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Allow the same file to be chosen again
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    setError(null);
+
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        await addAttachment(ownerType, ownerId, file);
+      } catch (err) {
+        failures.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+    if (failures.length > 0) {
+      setError(failures.join('; '));
+    }
+
+    await reload();
+    setUploading(false);
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!window.confirm(`Remove ${attachment.name}? The file is deleted and cannot be restored.`)) {
+      return;
+    }
+
+    try {
+      await removeAttachment(attachment.id!);
+      await reload();
+    } catch (err) {
+      setError(`Failed to remove ${attachment.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading attachments...</div>;
+  }
+
+  return (
+    <div>
+      {error && <div className="text-sm text-red-600 mb-2">{error}</div>}
+
+      <div className="flex flex-wrap gap-3 mb-3">
+        {attachments.map(attachment => (
+          <div key={attachment.id} className="w-28">
+            <button
+              type="button"
+              onClick={() => setViewing(attachment)}
+              className="w-28 h-28 border rounded bg-white flex items-center justify-center overflow-hidden hover:border-indigo-500"
+              title={`View ${attachment.name}`}
+            >
+              <AttachmentThumbnail attachment={attachment} />
+            </button>
+            <div className="flex items-start justify-between gap-1 mt-1">
+              <div className="min-w-0">
+                <div className="text-xs text-gray-800 truncate" title={attachment.name}>{attachment.name}</div>
+                <div className="text-xs text-gray-500">{formatFileSize(attachment.size)}</div>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDelete(attachment)}
+                className="text-red-600 hover:text-red-900"
+                title="Remove"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {attachments.length === 0 && (
+          <div className="text-sm text-gray-500">No receipts or invoices attached.</div>
+        )}
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <input
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          multiple
+          ref={fileInputRef}
+          onChange={handleFileUpload}
+          className="hidden"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+          className="flex items-center text-sm bg-gray-100 text-gray-700 px-3 py-2 rounded hover:bg-gray-200 disabled:opacity-50 whitespace-nowrap"
+        >
+          <Paperclip className="h-4 w-4 mr-1" />
+          {uploading ? 'Attaching...' : 'Attach PDF or Image'}
+        </button>
+        <div className="flex-1">
+          <AttachmentUsageBar refreshKey={usageKey} />
+        </div>
+      </div>
+
+      {viewing && <AttachmentViewer attachment={viewing} onClose={() => setViewing(null)} />}
+    </div>
+  );
+};
+
+export default AttachmentPanel;
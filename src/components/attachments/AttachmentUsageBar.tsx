@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import { AttachmentUsage, fetchAttachmentUsage } from '../../services/api';
+import { formatFileSize } from '../../utils/attachments';
+
+interface AttachmentUsageBarProps {
+  refreshKey?: number; // Change to reload after files are added or removed
+}
+
+// How much space attachments take, out of what the browser lets the app store
+const AttachmentUsageBar: React.FC<AttachmentUsageBarProps> = ({ refreshKey }) => {
+  const [usage, setUsage] = useState<AttachmentUsage | null>(null);
+
+  useEffect(() => {
+    fetchAttachmentUsage().then(setUsage);
+  }, [refreshKey]);
+
+  if (!usage) return null;
+
+  const { storageUsed, storageQuota } = usage;
+  const hasQuota = storageQuota !== undefined && storageQuota > 0;
+  const attachmentsPercent = hasQuota ? Math.min(100, usage.bytes / storageQuota * 100) : 0;
+  const otherPercent = hasQuota && storageUsed !== undefined
+    ? Math.min(100 - attachmentsPercent, Math.max(0, storageUsed - usage.bytes) / storageQuota * 100)
+    : 0;
+
+  return (
+    <div className="text-xs text-gray-500">
+      <div>
+        {usage.count} {usage.count === 1 ? 'file' : 'files'} attached, using {formatFileSize(usage.bytes)}
+        {hasQuota && storageUsed !== undefined && (
+          <> · {formatFileSize(storageUsed)} of {formatFileSize(storageQuota)} browser storage used in all</>
+        )}
+      </div>
+      {hasQuota && (
+        <div className="flex w-full h-2 bg-gray-200 rounded mt-1 overflow-hidden">
+          <div className="bg-indigo-500" style={{ width: `${attachmentsPercent}%` }} title="Attachments" />
+          <div className="bg-gray-400" style={{ width: `${otherPercent}%` }} title="Other data" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentUsageBar;
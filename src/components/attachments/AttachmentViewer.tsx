@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { X, Download } from 'lucide-react';
+import { Attachment } from '../../types';
+import { formatFileSize, isImageType } from '../../utils/attachments';
+
+interface AttachmentViewerProps {
+  attachment: Attachment;
+  onClose: () => void;
+}
+
+// Show an attached image or PDF over the page
+const AttachmentViewer: React.FC<AttachmentViewerProps> = ({ attachment, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(attachment.data);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [attachment]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-white p-4 rounded-lg w-11/12 max-w-5xl h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-3 gap-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold truncate">{attachment.name}</h2>
+            <div className="text-xs text-gray-500">{formatFileSize(attachment.size)}</div>
+          </div>
+          <div className="flex items-center gap-3">
+            {url && (
+              <a href={url} download={attachment.name} className="text-indigo-600 hover:text-indigo-900" title="Download">
+                <Download size={20} />
+              </a>
+            )}
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 flex items-center justify-center bg-gray-100 rounded">
+          {url && (isImageType(attachment.type)
+            ? <img src={url} alt={attachment.name} className="max-w-full max-h-full object-contain" />
+            : <iframe src={url} title={attachment.name} className="w-full h-full rounded" />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentViewer;
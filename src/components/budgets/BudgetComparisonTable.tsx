@@ -0,0 +1,76 @@
+import React from 'react';
+import { BudgetCategoryType } from '../../types';
+import { BudgetComparisonRow, getBudgetComparisonTotal } from '../../services/budgets';
+import { formatCurrency } from '../../utils/currencyUtils';
+
+interface BudgetComparisonTableProps {
+  title: string;
+  categoryType: BudgetCategoryType;
+  rows: BudgetComparisonRow[];
+  threshold: number;
+}
+
+const formatPercent = (value: number | null): string => {
+  return value === null ? '-' : `${value.toFixed(1)}%`;
+};
+
+// Green when better than budget, red when worse
+const varianceClass = (variance: number): string => {
+  return variance >= 0 ? 'text-green-700' : 'text-red-600';
+};
+
+const BudgetComparisonTable: React.FC<BudgetComparisonTableProps> = ({ title, categoryType, rows, threshold }) => {
+  const total = getBudgetComparisonTotal(rows, categoryType);
+
+  const renderRow = (row: BudgetComparisonRow, isTotal = false) => {
+    const overThreshold = categoryType === 'expense' && row.usedPercent !== null && row.usedPercent >= threshold;
+
+    return (
+      <tr key={isTotal ? 'total' : row.category} className={isTotal ? 'bg-gray-50 font-semibold' : 'hover:bg-gray-50'}>
+        <td className="px-4 py-3 text-sm text-gray-900">{row.category}</td>
+        <td className="px-4 py-3 text-sm text-right">{formatCurrency(row.budget)}</td>
+        <td className="px-4 py-3 text-sm text-right">
+          {formatCurrency(row.actual)}
+          <div className={`text-xs ${overThreshold ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+            {formatPercent(row.usedPercent)} of budget
+          </div>
+        </td>
+        <td className={`px-4 py-3 text-sm text-right ${varianceClass(row.variance)}`}>{formatCurrency(row.variance)}</td>
+        <td className={`px-4 py-3 text-sm text-right ${varianceClass(row.variance)}`}>{formatPercent(row.variancePercent)}</td>
+        <td className="px-4 py-3 text-sm text-right">{formatCurrency(row.forecast)}</td>
+        <td className={`px-4 py-3 text-sm text-right ${varianceClass(row.forecastVariance)}`}>{formatCurrency(row.forecastVariance)}</td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-md font-semibold mb-2">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No budget or actuals for this period.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Budget</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actual</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variance %</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Forecast</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Forecast Variance</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map(row => renderRow(row))}
+              {renderRow(total, true)}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetComparisonTable;
@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { Save, Copy } from 'lucide-react';
+import { Budget, BudgetCategoryType, BudgetLine } from '../../types';
+import { getFiscalMonthLabel } from '../../services/budgets';
+import { formatCurrency } from '../../utils/currencyUtils';
+
+interface BudgetEditorProps {
+  budget: Budget;
+  expenseCategories: string[];
+  revenueCategories: string[];
+  saving: boolean;
+  onSave: (budget: Budget) => void;
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, month) => month);
+
+// Monthly amounts per category for one budget version
+const BudgetEditor: React.FC<BudgetEditorProps> = ({ budget, expenseCategories, revenueCategories, saving, onSave }) => {
+  const [name, setName] = useState(budget.name);
+  const [notes, setNotes] = useState(budget.notes || '');
+  const [lines, setLines] = useState<BudgetLine[]>(budget.lines);
+
+  useEffect(() => {
+    setName(budget.name);
+    setNotes(budget.notes || '');
+    setLines(budget.lines);
+  }, [budget]);
+
+  const getMonths = (categoryType: BudgetCategoryType, category: string): number[] => {
+    const line = lines.find(entry => entry.category_type === categoryType && entry.category === category);
+    return line ? line.months : Array(12).fill(0);
+  };
+
+  const setMonths = (categoryType: BudgetCategoryType, category: string, months: number[]) => {
+    const others = lines.filter(entry => !(entry.category_type === categoryType && entry.category === category));
+    setLines([...others, { category_type: categoryType, category, months }]);
+  };
+
+  const handleAmountChange = (categoryType: BudgetCategoryType, category: string, month: number, value: string) => {
+    const months = [...getMonths(categoryType, category)];
+    months[month] = parseFloat(value) || 0;
+    setMonths(categoryType, category, months);
+  };
+
+  // Copy the first month's amount to the rest of the year
+  const handleFillYear = (categoryType: BudgetCategoryType, category: string) => {
+    setMonths(categoryType, category, Array(12).fill(getMonths(categoryType, category)[0]));
+  };
+
+  // Categories of the type, including any only the budget still has
+  const getCategories = (categoryType: BudgetCategoryType, names: string[]): string[] => {
+    const budgeted = lines.filter(line => line.category_type === categoryType).map(line => line.category);
+    return Array.from(new Set([...names, ...budgeted]));
+  };
+
+  const renderSection = (title: string, categoryType: BudgetCategoryType, names: string[]) => (
+    <>
+      <tr className="bg-gray-100">
+        <td colSpan={15} className="px-2 py-2 text-xs font-semibold text-gray-700 uppercase">{title}</td>
+      </tr>
+      {getCategories(categoryType, names).map(category => {
+        const months = getMonths(categoryType, category);
+        return (
+          <tr key={`${categoryType}-${category}`}>
+            <td className="px-2 py-1 text-sm text-gray-900 whitespace-nowrap">{category}</td>
+            {MONTHS.map(month => (
+              <td key={month} className="px-1 py-1">
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  className="w-20 p-1 border rounded text-sm text-right"
+                  value={months[month] || ''}
+                  onChange={(e) => handleAmountChange(categoryType, category, month, e.target.value)}
+                />
+              </td>
+            ))}
+            <td className="px-2 py-1 text-sm text-right font-medium whitespace-nowrap">
+              {formatCurrency(months.reduce((sum, amount) => sum + (amount || 0), 0))}
+            </td>
+            <td className="px-2 py-1">
+              <button
+                type="button"
+                onClick={() => handleFillYear(categoryType, category)}
+                className="text-gray-500 hover:text-gray-700"
+                title="Use the first month's amount for every month"
+              >
+                <Copy className="h-4 w-4" />
+              </button>
+            </td>
+          </tr>
+        );
+      })}
+    </>
+  );
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Version Name</label>
+          <input
+            type="text"
+            className="w-full p-2 border rounded"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+          <input
+            type="text"
+            className="w-full p-2 border rounded"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto mb-4">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+              {MONTHS.map(month => (
+                <th key={month} className="px-1 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                  {getFiscalMonthLabel(budget.fiscal_year, month)}
+                </th>
+              ))}
+              <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Year</th>
+              <th className="px-2 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {renderSection('Expenses', 'expense', expenseCategories)}
+            {renderSection('Additional Revenue', 'revenue', revenueCategories)}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => onSave({ ...budget, name: name.trim() || budget.name, notes: notes.trim() || undefined, lines })}
+          disabled={saving}
+          className="flex items-center text-sm bg-indigo-600 text-white px-4 py-2 rounded hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Save className="h-4 w-4 mr-1" />
+          {saving ? 'Saving...' : 'Save Version'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetEditor;
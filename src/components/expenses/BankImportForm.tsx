@@ -0,0 +1,447 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Upload, AlertCircle, FileText, X, ListFilter } from 'lucide-react';
+import * as Papa from 'papaparse';
+import { format } from 'date-fns';
+import { BankRule, BankStatementFormat, BankTransaction, ExpenseCategory } from '../../types';
+import {
+  fetchBankRules,
+  saveBankRules,
+  previewBankStatement,
+  importBankTransactions,
+  BankImportLine,
+  BankImportResult
+} from '../../services/api';
+import { getAdditionalRevenueCategories } from '../../db/operations/additionalRevenue';
+import {
+  addFingerprints,
+  detectBankStatementFormat,
+  guessBankCsvColumns,
+  parseBankCsv,
+  parseOfx,
+  parseQif,
+  BankCsvColumns,
+  BankDateFormat
+} from '../../utils/bankStatement';
+import { formatCurrency } from '../../utils/currencyUtils';
+import BankRules from './BankRules';
+
+interface BankImportFormProps {
+  categories: ExpenseCategory[];
+  onClose: () => void;
+  onSuccess: (result: BankImportResult) => void;
+}
+
+const FORMAT_LABELS: Record<BankStatementFormat, string> = {
+  ofx: 'OFX',
+  qif: 'QIF',
+  csv: 'CSV'
+};
+
+const CSV_COLUMN_LABELS: Record<keyof BankCsvColumns, string> = {
+  date: 'Date',
+  amount: 'Amount (signed)',
+  debit: 'Money Out',
+  credit: 'Money In',
+  payee: 'Payee / Description',
+  memo: 'Memo',
+  reference: 'Reference'
+};
+
+const EMPTY_COLUMNS: BankCsvColumns = { date: '', amount: '', debit: '', credit: '', payee: '', memo: '', reference: '' };
+
+const pickCategory = (names: string[]): string => names.includes('Other') ? 'Other' : names[0] || 'Other';
+
+// Import a bank statement as expenses and additional revenue, categorised by rules
+const BankImportForm: React.FC<BankImportFormProps> = ({ categories, onClose, onSuccess }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const expenseCategories = categories.map(category => category.name);
+  const [revenueCategories, setRevenueCategories] = useState<string[]>([]);
+
+  const [fileName, setFileName] = useState('');
+  const [fileText, setFileText] = useState('');
+  const [statementFormat, setStatementFormat] = useState<BankStatementFormat>('csv');
+  const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
+  const [csvRows, setCsvRows] = useState<Record<string, string>[]>([]);
+  const [columns, setColumns] = useState<BankCsvColumns>(EMPTY_COLUMNS);
+  const [dateFormat, setDateFormat] = useState<BankDateFormat>('dmy');
+  const [defaultExpenseCategory, setDefaultExpenseCategory] = useState(pickCategory(expenseCategories));
+  const [defaultRevenueCategory, setDefaultRevenueCategory] = useState('Other');
+
+  const [transactions, setTransactions] = useState<BankTransaction[]>([]);
+  const [lines, setLines] = useState<BankImportLine[]>([]);
+  const [step, setStep] = useState<'upload' | 'options' | 'preview'>('upload');
+
+  const [rules, setRules] = useState<BankRule[]>([]);
+  const [showRules, setShowRules] = useState(false);
+  const [savingRules, setSavingRules] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadData = async () => {
+      const revenue = (await getAdditionalRevenueCategories()).map(category => category.name);
+      setRevenueCategories(revenue);
+      setDefaultRevenueCategory(pickCategory(revenue));
+      setRules(await fetchBankRules());
+    };
+
+    loadData();
+  }, []);
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const text = event.target?.result as string;
+      const detected = detectBankStatementFormat(file.name, text);
+
+      setError(null);
+      setFileName(file.name);
+      setFileText(text);
+      setStatementFormat(detected);
+
+      if (detected === 'csv') {
+        const results = Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: true });
+        const fields = results.meta.fields || [];
+        if (fields.length === 0 || results.data.length === 0) {
+          setError('The file has no rows to import');
+          return;
+        }
+        setCsvHeaders(fields);
+        setCsvRows(results.data);
+        setColumns(guessBankCsvColumns(fields));
+      }
+      setStep('options');
+    };
+    reader.onerror = () => setError('Failed to read file');
+    reader.readAsText(file);
+
+    // Allow the same file to be chosen again
+    e.target.value = '';
+  };
+
+  // Categorise transactions with the saved rules
+  const buildPreview = async (statement: BankTransaction[]) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setLines(await previewBankStatement(statement, {
+        expenseCategory: defaultExpenseCategory,
+        revenueCategory: defaultRevenueCategory
+      }));
+      setStep('preview');
+    } catch (err) {
+      setError(`Failed to read statement: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePreview = () => {
+    if (statementFormat === 'csv' && (!columns.date || !(columns.amount || columns.debit || columns.credit))) {
+      setError('Choose the date column and either the amount column or the money out and money in columns');
+      return;
+    }
+
+    const parsed = statementFormat === 'ofx'
+      ? parseOfx(fileText)
+      : statementFormat === 'qif'
+        ? parseQif(fileText, dateFormat)
+        : parseBankCsv(csvRows, columns, dateFormat);
+
+    if (parsed.length === 0) {
+      setError(`No transactions could be read from ${fileName}. Check the date format and columns.`);
+      return;
+    }
+
+    const statement = addFingerprints(parsed);
+    setTransactions(statement);
+    buildPreview(statement);
+  };
+
+  const handleLineChange = (index: number, changes: Partial<BankImportLine>) => {
+    setLines(lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      onSuccess(await importBankTransactions(lines, fileName));
+      onClose();
+    } catch (err) {
+      setError(`Failed to import statement: ${err instanceof Error ? err.message : String(err)}`);
+      setLoading(false);
+    }
+  };
+
+  // Rule handlers
+  const handleAddRule = () => {
+    setRules([...rules, {
+      id: Date.now(), // Use timestamp as temporary ID
+      name: '',
+      direction: 'debit',
+      match_type: 'contains',
+      pattern: '',
+      category: ''
+    }]);
+  };
+
+  const handleSaveRules = async () => {
+    if (rules.some(rule => !rule.category)) {
+      setError('Choose a category for every rule');
+      return;
+    }
+
+    setSavingRules(true);
+    setError(null);
+
+    try {
+      await saveBankRules(rules);
+      // Recategorise the statement being reviewed with the new rules
+      if (step === 'preview') {
+        await buildPreview(transactions);
+      }
+    } catch (err) {
+      setError(`Failed to save rules: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setSavingRules(false);
+    }
+  };
+
+  const renderSelect = (value: string, options: string[], onChange: (value: string) => void, placeholder?: string) => (
+    <select className="w-full p-2 border rounded text-sm" value={value} onChange={(e) => onChange(e.target.value)}>
+      {placeholder !== undefined && <option value="">{placeholder}</option>}
+      {options.map(option => <option key={option} value={option}>{option}</option>)}
+    </select>
+  );
+
+  const renderOptions = () => (
+    <div className="space-y-4">
+      <div className="flex items-center text-sm text-gray-700">
+        <FileText className="h-4 w-4 mr-1 text-gray-500" />
+        {fileName} ({FORMAT_LABELS[statementFormat]}{statementFormat === 'csv' ? `, ${csvRows.length} rows` : ''})
+      </div>
+
+      {statementFormat === 'csv' && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          {(Object.keys(CSV_COLUMN_LABELS) as (keyof BankCsvColumns)[]).map(field => (
+            <div key={field}>
+              <label className="block text-xs font-medium text-gray-500 mb-1">{CSV_COLUMN_LABELS[field]}</label>
+              {renderSelect(columns[field], csvHeaders, (value) => setColumns({ ...columns, [field]: value }), 'None')}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {statementFormat !== 'ofx' && (
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Date Format</label>
+            <select
+              className="w-full p-2 border rounded text-sm"
+              value={dateFormat}
+              onChange={(e) => setDateFormat(e.target.value as BankDateFormat)}
+            >
+              <option value="dmy">Day first (31/01/2024)</option>
+              <option value="mdy">Month first (01/31/2024)</option>
+            </select>
+          </div>
+        )}
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Money Out Without a Rule</label>
+          {renderSelect(defaultExpenseCategory, expenseCategories, setDefaultExpenseCategory)}
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Money In Without a Rule</label>
+          {renderSelect(defaultRevenueCategory, revenueCategories, setDefaultRevenueCategory)}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setStep('upload')}
+          className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+        >
+          Back
+        </button>
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={loading}
+          className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Preview
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderPreview = () => {
+    const duplicates = lines.filter(line => line.duplicate).length;
+    const included = lines.filter(line => line.include && !line.duplicate);
+    const expenseCount = included.filter(line => line.direction === 'debit').length;
+
+    return (
+      <div>
+        <p className="text-sm text-gray-600 mb-3">
+          {lines.length} transactions in {fileName}.
+          {duplicates > 0 && ` ${duplicates} were imported before and will be skipped.`}
+          {` ${expenseCount} will be imported as expenses and ${included.length - expenseCount} as additional revenue.`}
+        </p>
+
+        <div className="overflow-x-auto max-h-[32rem] mb-4">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-3 py-3"></th>
+                <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payee</th>
+                <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {lines.map((line, index) => {
+                const { transaction } = line;
+                const recategorised = line.category !== line.suggestedCategory;
+                return (
+                  <tr key={transaction.fingerprint} className={line.duplicate ? 'bg-gray-50 text-gray-400' : ''}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={line.include && !line.duplicate}
+                        disabled={line.duplicate}
+                        onChange={(e) => handleLineChange(index, { include: e.target.checked })}
+                        className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-sm whitespace-nowrap">
+                      {format(new Date(`${transaction.day}T00:00:00`), 'dd/MM/yyyy')}
+                    </td>
+                    <td className="px-3 py-2 text-sm">
+                      {transaction.payee}
+                      {transaction.memo && <div className="text-xs text-gray-500">{transaction.memo}</div>}
+                    </td>
+                    <td className={`px-3 py-2 text-sm text-right whitespace-nowrap ${line.direction === 'debit' ? 'text-red-600' : 'text-green-700'}`}>
+                      {formatCurrency(transaction.amount)}
+                    </td>
+                    <td className="px-3 py-2">
+                      {line.duplicate ? (
+                        <span className="text-sm">Already imported</span>
+                      ) : (
+                        renderSelect(
+                          line.category,
+                          line.direction === 'debit' ? expenseCategories : revenueCategories,
+                          (category) => handleLineChange(index, { category })
+                        )
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-gray-500">
+                      {recategorised
+                        ? <span className="text-indigo-600">Will learn a rule</span>
+                        : line.ruleName || 'No rule'}
+                      {line.tags.length > 0 && <div>{line.tags.join(', ')}</div>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => setStep('options')}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+          >
+            Back
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={loading || included.length === 0}
+            className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+          >
+            {loading ? 'Importing...' : `Import ${included.length} Transactions`}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-6">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg font-semibold">Import Bank Statement</h2>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setShowRules(!showRules)}
+            className="flex items-center text-sm bg-gray-100 text-gray-700 px-3 py-2 rounded hover:bg-gray-200"
+          >
+            <ListFilter className="h-4 w-4 mr-1" />
+            {showRules ? 'Hide Rules' : `Rules (${rules.length})`}
+          </button>
+          <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Upload an OFX, QIF or CSV export from your bank. Money out is imported as expenses and money in as additional
+        revenue. Transactions imported before, including ones since deleted, are skipped.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {showRules && (
+        <BankRules
+          rules={rules}
+          expenseCategories={expenseCategories}
+          revenueCategories={revenueCategories}
+          saving={savingRules}
+          onAddRule={handleAddRule}
+          onRemoveRule={(id) => setRules(rules.filter(rule => rule.id !== id))}
+          onRuleChange={(id, changes) => setRules(rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule))}
+          onSave={handleSaveRules}
+        />
+      )}
+
+      <input
+        type="file"
+        accept=".ofx,.qfx,.qif,.csv"
+        ref={fileInputRef}
+        onChange={handleFileUpload}
+        className="hidden"
+      />
+
+      {step === 'upload' && (
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center text-sm bg-gray-100 text-gray-700 px-3 py-2 rounded hover:bg-gray-200"
+        >
+          <Upload className="h-4 w-4 mr-1" />
+          Choose Statement
+        </button>
+      )}
+      {step === 'options' && renderOptions()}
+      {step === 'preview' && renderPreview()}
+    </div>
+  );
+};
+
+export default BankImportForm;
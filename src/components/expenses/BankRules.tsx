@@ -0,0 +1,214 @@
+import React from 'react';
+import { Plus, Trash2, Save } from 'lucide-react';
+import { BankRule, BankRuleMatchType } from '../../types';
+import { getCurrencySymbol } from '../../utils/currencyUtils';
+
+interface BankRulesProps {
+  rules: BankRule[];
+  expenseCategories: string[];
+  revenueCategories: string[];
+  saving: boolean;
+  onAddRule: () => void;
+  onRemoveRule: (id: number) => void;
+  onRuleChange: (id: number, changes: Partial<BankRule>) => void;
+  onSave: () => void;
+}
+
+const MATCH_TYPE_LABELS: Record<BankRuleMatchType, string> = {
+  contains: 'Payee contains',
+  amount_range: 'Amount between',
+  regex: 'Matches pattern'
+};
+
+const BankRules: React.FC<BankRulesProps> = ({
+  rules,
+  expenseCategories,
+  revenueCategories,
+  saving,
+  onAddRule,
+  onRemoveRule,
+  onRuleChange,
+  onSave
+}) => {
+  const currencySymbol = getCurrencySymbol();
+
+  return (
+    <div className="border rounded p-4 mb-4">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-md font-semibold">Categorisation Rules</h3>
+        <button
+          type="button"
+          onClick={onAddRule}
+          className="flex items-center text-sm bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Rule
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Rules are tried in order and the first that matches a transaction sets its category. Money out is matched
+        against expense categories, money in against additional revenue categories. Patterns are regular expressions
+        tested against the payee and memo, ignoring case. Changing a transaction's category teaches a rule for its
+        payee.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Match</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tags</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tax Deductible</th>
+              <th className="px-3 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rules.map(rule => {
+              const categories = rule.direction === 'debit' ? expenseCategories : revenueCategories;
+              return (
+                <tr key={rule.id}>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      className="w-40 p-2 border rounded"
+                      placeholder="e.g. Power bill"
+                      value={rule.name}
+                      onChange={(e) => onRuleChange(rule.id, { name: e.target.value })}
+                    />
+                    {rule.learned && <div className="text-xs text-gray-500 mt-1">Learned</div>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      className="p-2 border rounded"
+                      value={rule.direction}
+                      onChange={(e) => onRuleChange(rule.id, { direction: e.target.value as BankRule['direction'], category: '' })}
+                    >
+                      <option value="debit">Money out</option>
+                      <option value="credit">Money in</option>
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center gap-1">
+                      <select
+                        className="p-2 border rounded"
+                        value={rule.match_type}
+                        onChange={(e) => onRuleChange(rule.id, { match_type: e.target.value as BankRuleMatchType })}
+                      >
+                        {Object.entries(MATCH_TYPE_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                      {rule.match_type === 'amount_range' ? (
+                        <>
+                          <span className="ml-1">{currencySymbol}</span>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            className="w-20 p-2 border rounded"
+                            value={rule.min_amount ?? ''}
+                            onChange={(e) => onRuleChange(rule.id, { min_amount: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0 })}
+                          />
+                          <span>to</span>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            className="w-20 p-2 border rounded"
+                            placeholder="No limit"
+                            value={rule.max_amount ?? ''}
+                            onChange={(e) => onRuleChange(rule.id, { max_amount: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0 })}
+                          />
+                        </>
+                      ) : (
+                        <input
+                          type="text"
+                          className="w-40 p-2 border rounded"
+                          placeholder={rule.match_type === 'regex' ? 'e.g. ^(bp|z) ' : 'e.g. mercury'}
+                          value={rule.pattern}
+                          onChange={(e) => onRuleChange(rule.id, { pattern: e.target.value })}
+                        />
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      className="p-2 border rounded"
+                      value={rule.category}
+                      onChange={(e) => onRuleChange(rule.id, { category: e.target.value })}
+                    >
+                      <option value="">Choose...</option>
+                      {Array.from(new Set([...categories, rule.category].filter(Boolean))).map(category => (
+                        <option key={category} value={category}>{category}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      className="w-32 p-2 border rounded"
+                      placeholder="Comma-separated"
+                      value={(rule.tags || []).join(', ')}
+                      onChange={(e) => onRuleChange(rule.id, {
+                        tags: e.target.value.split(',').map(tag => tag.trim()).filter(Boolean)
+                      })}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    {rule.direction === 'debit' && (
+                      <select
+                        className="p-2 border rounded"
+                        value={rule.tax_deductible === undefined ? '' : String(rule.tax_deductible)}
+                        onChange={(e) => onRuleChange(rule.id, {
+                          tax_deductible: e.target.value === '' ? undefined : e.target.value === 'true'
+                        })}
+                      >
+                        <option value="">As category</option>
+                        <option value="true">Yes</option>
+                        <option value="false">No</option>
+                      </select>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    <button
+                      type="button"
+                      onClick={() => onRemoveRule(rule.id)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+
+            {rules.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No rules defined. Click "Add Rule" to add one.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end mt-4">
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={saving}
+          className="flex items-center text-sm bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          <Save className="h-4 w-4 mr-1" />
+          {saving ? 'Saving...' : 'Save Rules'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BankRules;
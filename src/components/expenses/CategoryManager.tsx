@@ -12,7 +12,8 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
   const [newCategory, setNewCategory] = useState<ExpenseCategory>({
     name: '',
     description: '',
-    color: '#64748b'
+    color: '#64748b',
+    is_tax_deductible: true
   });
   
   const [editingCategoryId, setEditingCategoryId] = useState<number | null>(null);
@@ -36,7 +37,8 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
     setNewCategory({
       name: '',
       description: '',
-      color: availableColors[Math.floor(Math.random() * availableColors.length)]
+      color: availableColors[Math.floor(Math.random() * availableColors.length)],
+      is_tax_deductible: true
     });
     setEditingCategoryId(null);
     setShowForm(true);
@@ -46,7 +48,8 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
     setNewCategory({
       name: category.name,
       description: category.description || '',
-      color: category.color || '#64748b'
+      color: category.color || '#64748b',
+      is_tax_deductible: category.is_tax_deductible || false
     });
     setEditingCategoryId(category.id || null);
     setShowForm(true);
@@ -94,7 +97,8 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
       setNewCategory({
         name: '',
         description: '',
-        color: '#64748b'
+        color: '#64748b',
+        is_tax_deductible: true
       });
     } catch (error) {
       console.error('Error saving category:', error);
@@ -171,6 +175,19 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
                 </div>
               </div>
             </div>
+            
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="is_tax_deductible"
+                className="mr-2"
+                checked={newCategory.is_tax_deductible || false}
+                onChange={(e) => setNewCategory({ ...newCategory, is_tax_deductible: e.target.checked })}
+              />
+              <label htmlFor="is_tax_deductible" className="text-sm font-medium text-gray-700">
+                Includes GST that can be claimed back
+              </label>
+            </div>
           </div>
           
           <div className="flex justify-end space-x-2">
@@ -204,6 +221,9 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Description
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                GST Claimable
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Actions
               </th>
@@ -224,6 +244,9 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                   {category.description || '-'}
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {category.is_tax_deductible ? 'Yes' : 'No'}
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                   <div className="flex space-x-2">
                     <button
@@ -245,7 +268,7 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
             
             {categories.length === 0 && (
               <tr>
-                <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500">
+                <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
                   No categories found. Click "Add Category" to create one.
                 </td>
               </tr>
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { DollarSign, Tag } from 'lucide-react';
-import { Expense, ExpenseCategory } from '../../types';
+import { Expense, ExpenseCategory, ExpensePeriod } from '../../types';
 import { saveExpense, updateExpense, saveExpenseCategory } from '../../db/operations/expenses';
-import { format } from 'date-fns';
+import { learnBankRuleFromRecategorisation } from '../../services/api';
 import CategorySelector from './CategorySelector';
+import { getDayInZone, startOfDayInZone } from '../../utils/dateRange';
 
 interface ExpenseFormProps {
   categories: ExpenseCategory[];
@@ -60,7 +61,10 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
         category: editingExpense.category,
         amount: editingExpense.amount,
         description: editingExpense.description,
-        period: editingExpense.period || 'monthly',
+        period: editingExpense.period,
+        end_date: editingExpense.end_date ? new Date(editingExpense.end_date) : undefined,
+        date_paid: editingExpense.date_paid ? new Date(editingExpense.date_paid) : undefined,
+        day_of_month: editingExpense.day_of_month,
         reference: editingExpense.reference || '',
         payment_method: editingExpense.payment_method || ''
       });
@@ -70,14 +74,28 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    if (newExpense.end_date && newExpense.end_date < newExpense.date) {
+      alert('The end date must be on or after the start date');
+      return;
+    }
+    
     try {
       if (editingExpenseId) {
         // Update existing expense
         await updateExpense(editingExpenseId, newExpense);
         
+        // Recategorising an imported bank transaction teaches a rule for its payee
+        if (editingExpense && newExpense.category !== editingExpense.category) {
+          await learnBankRuleFromRecategorisation(editingExpense, 'debit', {
+            category: newExpense.category,
+            tags: editingExpense.tags,
+            tax_deductible: editingExpense.tax_deductible
+          });
+        }
+        
         // Update the expenses list
         onExpensesUpdated(expenses.map(expense => 
-          expense.id === editingExpenseId ? { ...newExpense, id: editingExpenseId } : expense
+          expense.id === editingExpenseId ? { ...expense, ...newExpense, id: editingExpenseId } : expense
         ));
       } else {
         // Add new expense
@@ -154,15 +172,15 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Date
+              {newExpense.period ? 'Start Date' : 'Date'}
             </label>
             <input
               type="date"
               className="w-full p-2 border rounded"
-              value={format(new Date(newExpense.date), 'yyyy-MM-dd')}
+              value={getDayInZone(new Date(newExpense.date))}
               onChange={(e) => setNewExpense({
                 ...newExpense,
-                date: new Date(e.target.value)
+                date: startOfDayInZone(e.target.value)
               })}
               required
             />
@@ -300,22 +318,91 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
             </label>
             <select
               className="w-full p-2 border rounded"
-              value={newExpense.period || 'monthly'}
-              onChange={(e) => setNewExpense({
-                ...newExpense,
-                period: e.target.value as 'daily' | 'weekly' | 'monthly' | 'yearly'
-              })}
-              required
+              value={newExpense.period || ''}
+              onChange={(e) => {
+                const period = (e.target.value || undefined) as ExpensePeriod | undefined;
+                setNewExpense({
+                  ...newExpense,
+                  period,
+                  end_date: period ? newExpense.end_date : undefined,
+                  date_paid: period ? undefined : newExpense.date_paid,
+                  day_of_month: period === 'monthly' ? newExpense.day_of_month : undefined
+                });
+              }}
             >
+              <option value="">One-time</option>
               <option value="daily">Daily</option>
               <option value="weekly">Weekly</option>
               <option value="monthly">Monthly</option>
               <option value="yearly">Yearly</option>
             </select>
             <p className="text-xs text-gray-500 mt-1">
-              How often this expense occurs. Used for reporting and forecasting.
+              How often this expense occurs. Recurring expenses are charged to the P&L for each day between the start and end dates.
             </p>
           </div>
+          
+          {!newExpense.period && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Paid Date
+              </label>
+              <input
+                type="date"
+                className="w-full p-2 border rounded"
+                value={newExpense.date_paid ? getDayInZone(new Date(newExpense.date_paid)) : ''}
+                onChange={(e) => setNewExpense({
+                  ...newExpense,
+                  date_paid: e.target.value ? startOfDayInZone(e.target.value) : undefined
+                })}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                When the bill was paid, for cash-basis reports. Leave empty until it is paid; unpaid bills are left out of cash-basis reports.
+              </p>
+            </div>
+          )}
+          
+          {newExpense.period && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                End Date
+              </label>
+              <input
+                type="date"
+                className="w-full p-2 border rounded"
+                value={newExpense.end_date ? getDayInZone(new Date(newExpense.end_date)) : ''}
+                onChange={(e) => setNewExpense({
+                  ...newExpense,
+                  end_date: e.target.value ? startOfDayInZone(e.target.value) : undefined
+                })}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Last day the expense is charged for. Leave empty if it is ongoing.
+              </p>
+            </div>
+          )}
+          
+          {newExpense.period === 'monthly' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Day of Month
+              </label>
+              <input
+                type="number"
+                min="1"
+                max="31"
+                className="w-full p-2 border rounded"
+                placeholder={String(parseInt(getDayInZone(new Date(newExpense.date)).slice(8), 10))}
+                value={newExpense.day_of_month || ''}
+                onChange={(e) => setNewExpense({
+                  ...newExpense,
+                  day_of_month: parseInt(e.target.value) || undefined
+                })}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Day the expense falls due; the start date's day if empty. Shorter months use their last day.
+              </p>
+            </div>
+          )}
         </div>
         
         <div className="flex justify-end space-x-2">
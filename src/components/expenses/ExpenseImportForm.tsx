@@ -1,5 +1,6 @@
 import React, { useState, useRef } from 'react';
 import { Upload, AlertCircle, Check, X, FileText, Info } from 'lucide-react';
+import * as Papa from 'papaparse';
 import { ExpenseCategory } from '../../types';
 import { processExpenseImport } from '../../db/operations/expenses';
 
@@ -47,7 +48,7 @@ const ExpenseImportForm: React.FC<ExpenseImportFormProps> = ({
           
           // Extract headers for column mapping
           if (lines.length > 0) {
-            const headers = lines[0].split(',').map(h => h.trim());
+            const headers = (Papa.parse<string[]>(lines[0]).data[0] || []).map(h => h.trim());
             setAvailableColumns(headers);
             
             // Try to auto-map columns based on common names
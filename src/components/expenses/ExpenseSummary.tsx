@@ -1,4 +1,5 @@
 import React from 'react';
+import { formatCurrency } from '../../utils/currencyUtils';
 
 interface ExpenseSummaryProps {
   totalExpenses: number;
@@ -9,14 +10,6 @@ const ExpenseSummary: React.FC<ExpenseSummaryProps> = ({
   totalExpenses,
   expenseCount
 }) => {
-  // Format currency
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-NZ', {
-      style: 'currency',
-      currency: 'NZD'
-    }).format(value);
-  };
-
   return (
     <div className="bg-white shadow rounded-lg p-6 mb-6">
       <h2 className="text-lg font-semibold mb-4">Expenses Summary</h2>
@@ -1,31 +1,37 @@
-import React, { useState } from 'react';
-import { Trash2, Edit } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Trash2, Edit, History, Paperclip } from 'lucide-react';
 import { Expense, ExpenseCategory } from '../../types';
 import { deleteExpense } from '../../db/operations/expenses';
-import { formatNZDate } from '../../services/api/utils';
+import { formatDisplayDate } from '../../services/api/utils';
+import { formatCurrency } from '../../utils/currencyUtils';
+import { describeExpenseSchedule } from '../../utils/expenseSchedule';
+import HistoryPanel from '../history/HistoryPanel';
+import AttachmentPanel from '../attachments/AttachmentPanel';
+import { fetchAttachmentCounts } from '../../services/api';
 
 interface ExpenseTableProps {
   expenses: Expense[];
   categories: ExpenseCategory[];
   onEdit: (expense: Expense) => void;
   onExpensesUpdated: (expenses: Expense[]) => void;
+  onHistoryReverted: () => void;
 }
 
 const ExpenseTable: React.FC<ExpenseTableProps> = ({
   expenses,
   categories,
   onEdit,
-  onExpensesUpdated
+  onExpensesUpdated,
+  onHistoryReverted
 }) => {
   const [confirmDelete, setConfirmDelete] = useState<number | null>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [attachmentsId, setAttachmentsId] = useState<number | null>(null);
+  const [attachmentCounts, setAttachmentCounts] = useState<Map<number, number>>(new Map());
 
-  // Format currency
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-NZ', {
-      style: 'currency',
-      currency: 'NZD'
-    }).format(value);
-  };
+  useEffect(() => {
+    fetchAttachmentCounts('expense').then(setAttachmentCounts);
+  }, [expenses]);
 
   // Handle expense deletion
   const handleDeleteExpense = async (id: number) => {
@@ -72,62 +78,100 @@ const ExpenseTable: React.FC<ExpenseTableProps> = ({
                 const category = categories.find(c => c.name === expense.category);
                 
                 return (
-                  <tr key={expense.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {formatNZDate(new Date(expense.date))}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div 
-                          className="w-3 h-3 rounded-full mr-2" 
-                          style={{ backgroundColor: category?.color || '#64748b' }}
-                        />
-                        <span className="text-sm text-gray-900">{expense.category}</span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {expense.description}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {expense.reference || '-'}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                      {formatCurrency(expense.amount)}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                      {confirmDelete === expense.id ? (
-                        <div className="flex space-x-2">
-                          <button
-                            onClick={() => handleDeleteExpense(expense.id!)}
-                            className="text-red-600 hover:text-red-900 text-xs"
-                          >
-                            Confirm
-                          </button>
-                          <button
-                            onClick={() => setConfirmDelete(null)}
-                            className="text-gray-600 hover:text-gray-900 text-xs"
-                          >
-                            Cancel
-                          </button>
-                        </div>
-                      ) : (
-                        <div className="flex space-x-2">
-                          <button
-                            onClick={() => onEdit(expense)}
-                            className="text-indigo-600 hover:text-indigo-900"
-                          >
-                            <Edit className="h-5 w-5" />
-                          </button>
-                          <button
-                            onClick={() => setConfirmDelete(expense.id!)}
-                            className="text-red-600 hover:text-red-900"
-                          >
-                            <Trash2 className="h-5 w-5" />
-                          </button>
+                  <React.Fragment key={expense.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDisplayDate(new Date(expense.date))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <div 
+                            className="w-3 h-3 rounded-full mr-2" 
+                            style={{ backgroundColor: category?.color || '#64748b' }}
+                          />
+                          <span className="text-sm text-gray-900">{expense.category}</span>
                         </div>
-                      )}
-                    </td>
-                  </tr>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {expense.description}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {expense.reference || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {formatCurrency(expense.amount)}
+                        <div className="text-xs font-normal text-gray-500">{describeExpenseSchedule(expense)}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        {confirmDelete === expense.id ? (
+                          <div className="flex space-x-2">
+                            <button
+                              onClick={() => handleDeleteExpense(expense.id!)}
+                              className="text-red-600 hover:text-red-900 text-xs"
+                            >
+                              Confirm
+                            </button>
+                            <button
+                              onClick={() => setConfirmDelete(null)}
+                              className="text-gray-600 hover:text-gray-900 text-xs"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        ) : (
+                          <div className="flex space-x-2">
+                            <button
+                              onClick={() => onEdit(expense)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                            >
+                              <Edit className="h-5 w-5" />
+                            </button>
+                            <button
+                              onClick={() => setAttachmentsId(attachmentsId === expense.id ? null : expense.id!)}
+                              className="flex items-center text-gray-500 hover:text-gray-700"
+                              title="Receipts and invoices"
+                            >
+                              <Paperclip className="h-5 w-5" />
+                              {attachmentCounts.get(expense.id!) ? (
+                                <span className="text-xs ml-0.5">{attachmentCounts.get(expense.id!)}</span>
+                              ) : null}
+                            </button>
+                            <button
+                              onClick={() => setHistoryId(historyId === expense.id ? null : expense.id!)}
+                              className="text-gray-500 hover:text-gray-700"
+                              title="History"
+                            >
+                              <History className="h-5 w-5" />
+                            </button>
+                            <button
+                              onClick={() => setConfirmDelete(expense.id!)}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              <Trash2 className="h-5 w-5" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                    {attachmentsId === expense.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-6 py-4">
+                          <AttachmentPanel
+                            ownerType="expense"
+                            ownerId={expense.id!}
+                            onChange={(count) => setAttachmentCounts(new Map(attachmentCounts).set(expense.id!, count))}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                    {historyId === expense.id && (
+                      <tr className="bg-indigo-50">
+                        <td colSpan={6} className="px-6 py-4">
+                          <HistoryPanel entityType="expense" entityId={expense.id!} onReverted={onHistoryReverted} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
                 );
               })
             ) : (
@@ -0,0 +1,53 @@
+import React from 'react';
+import { CalendarClock } from 'lucide-react';
+import { Expense } from '../../types';
+import { formatCurrency } from '../../utils/currencyUtils';
+import { getDayInZone, shiftDay } from '../../utils/dateRange';
+import { EXPENSE_PERIOD_LABELS, getExpenseOccurrences } from '../../utils/expenseSchedule';
+
+interface UpcomingExpensesProps {
+  expenses: Expense[];
+  days?: number;
+}
+
+// Recurring expenses falling due over the next few weeks
+const UpcomingExpenses: React.FC<UpcomingExpensesProps> = ({ expenses, days = 30 }) => {
+  const today = getDayInZone(new Date());
+  const occurrences = getExpenseOccurrences(expenses, today, shiftDay(today, days - 1));
+  const total = occurrences.reduce((sum, occurrence) => sum + occurrence.expense.amount, 0);
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold flex items-center">
+          <CalendarClock className="h-5 w-5 mr-2 text-indigo-600" />
+          Upcoming Recurring Expenses
+        </h2>
+        <span className="text-sm text-gray-500">
+          Next {days} days: <span className="font-medium text-gray-900">{formatCurrency(total)}</span>
+        </span>
+      </div>
+
+      {occurrences.length === 0 ? (
+        <p className="text-sm text-gray-500">No recurring expenses fall due in the next {days} days.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 max-h-64 overflow-y-auto">
+          {occurrences.map(occurrence => (
+            <li key={`${occurrence.expense.id}-${occurrence.day}`} className="py-2 flex justify-between text-sm">
+              <div>
+                <span className="text-gray-500 mr-3">{occurrence.day}</span>
+                <span className="text-gray-900">{occurrence.expense.description}</span>
+                <span className="text-xs text-gray-500 ml-2">
+                  {occurrence.expense.category} · {EXPENSE_PERIOD_LABELS[occurrence.expense.period!]}
+                </span>
+              </div>
+              <span className="font-medium text-gray-900">{formatCurrency(occurrence.expense.amount)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UpcomingExpenses;
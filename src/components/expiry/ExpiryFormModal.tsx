@@ -8,7 +8,7 @@ import {
   getTotalQuantityBySku
 } from '../../db/operations/expiry';
 import { db } from '../../db/schema';
-import { formatNZDateOnly } from '../../utils/dateUtils';
+import { formatStoreDateOnly } from '../../utils/dateUtils';
 
 interface ExpiryFormModalProps {
   isOpen: boolean;
@@ -127,7 +127,7 @@ const ExpiryFormModal: React.FC<ExpiryFormModalProps> = ({
     if (expiryRecord) {
       // Editing existing record
       setSelectedSku(expiryRecord.sku);
-      setExpiryDate(formatNZDateOnly(new Date(expiryRecord.expiry_date)));
+      setExpiryDate(formatStoreDateOnly(new Date(expiryRecord.expiry_date)));
       setQuantity(expiryRecord.quantity.toString());
       setOriginalQuantity(expiryRecord.quantity);
       setBatchNumber(expiryRecord.batch_number || '');
@@ -0,0 +1,49 @@
+import React from 'react';
+import { AuditEntry, PurchaseOrderItem } from '../../types';
+import { formatAuditField, getAuditChanges } from '../../utils/audit';
+import { formatCurrency } from '../../utils/currencyUtils';
+import { formatStoreDateOnly } from '../../utils/dateUtils';
+
+interface AuditChangesProps {
+  entry: AuditEntry;
+}
+
+const MONEY_FIELD = /price|amount|cost/;
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return formatStoreDateOnly(value);
+  if (field === 'items' && Array.isArray(value)) {
+    return (value as PurchaseOrderItem[])
+      .map(item => `${item.sku || item.product_name} × ${item.quantity} @ ${formatCurrency(item.unit_price)}`)
+      .join(', ');
+  }
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'number' && MONEY_FIELD.test(field)) return formatCurrency(value);
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// The fields a change altered, from before to after
+const AuditChanges: React.FC<AuditChangesProps> = ({ entry }) => {
+  if (entry.action !== 'update') {
+    return null;
+  }
+
+  const changes = getAuditChanges(entry);
+
+  return (
+    <ul className="text-xs text-gray-600 space-y-0.5">
+      {changes.map(change => (
+        <li key={change.field}>
+          <span className="text-gray-500">{formatAuditField(change.field)}:</span>{' '}
+          <span className="line-through text-red-600">{formatValue(change.field, change.before)}</span>
+          {' → '}
+          <span className="text-green-700">{formatValue(change.field, change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default AuditChanges;
@@ -0,0 +1,88 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Undo2 } from 'lucide-react';
+import { AuditEntityType, AuditEntry } from '../../types';
+import { fetchRecordHistory, revertAuditEntry } from '../../services/api';
+import { AUDIT_ACTION_LABELS, describeAuditReason } from '../../utils/audit';
+import { formatStoreDate } from '../../utils/dateUtils';
+import AuditChanges from './AuditChanges';
+
+interface HistoryPanelProps {
+  entityType: AuditEntityType;
+  entityId: number;
+  onReverted?: () => void;
+}
+
+// Every recorded change to one record, each of which can be undone
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entityType, entityId, onReverted }) => {
+  const [history, setHistory] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    setHistory(await fetchRecordHistory(entityType, entityId));
+    setLoading(false);
+  }, [entityType, entityId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleRevert = async (entry: AuditEntry) => {
+    setRevertingId(entry.id!);
+    setError(null);
+
+    try {
+      await revertAuditEntry(entry.id!);
+      await loadHistory();
+      onReverted?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading history...</div>;
+  }
+
+  if (history.length === 0) {
+    return <div className="text-sm text-gray-500">No changes have been recorded for this record yet.</div>;
+  }
+
+  return (
+    <div>
+      {error && <div className="text-sm text-red-600 mb-2">{error}</div>}
+      <ul className="divide-y divide-gray-200">
+        {history.map(entry => (
+          <li key={entry.id} className="py-2 flex justify-between items-start gap-4">
+            <div>
+              <div className="text-sm">
+                <span className="font-medium text-gray-800">{AUDIT_ACTION_LABELS[entry.action]}</span>{' '}
+                <span className="text-gray-500">{formatStoreDate(new Date(entry.created_at))}</span>
+                <span className="text-gray-400"> #{entry.id}</span>
+              </div>
+              <AuditChanges entry={entry} />
+              {describeAuditReason(entry) && (
+                <div className="text-xs text-gray-500 italic">{describeAuditReason(entry)}</div>
+              )}
+            </div>
+            <button
+              onClick={() => handleRevert(entry)}
+              disabled={revertingId !== null}
+              className="flex items-center text-xs text-indigo-600 hover:text-indigo-900 disabled:opacity-50 whitespace-nowrap"
+              title="Undo this change"
+            >
+              <Undo2 className="h-4 w-4 mr-1" />
+              {revertingId === entry.id ? 'Reverting...' : 'Revert'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default HistoryPanel;
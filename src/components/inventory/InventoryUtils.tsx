@@ -1,6 +1,7 @@
 import React from 'react';
 import { HelpCircle } from 'lucide-react';
 import { InventoryItem } from '../../types';
+import { formatCurrency as formatStoreCurrency } from '../../utils/currencyUtils';
 
 // Tooltip component for explanations
 export const Tooltip: React.FC<{ text: string }> = ({ text }) => (
@@ -15,10 +16,7 @@ export const Tooltip: React.FC<{ text: string }> = ({ text }) => (
 
 // Format currency
 export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(amount);
+  return formatStoreCurrency(amount);
 };
 
 // Calculate profit margin with color coding
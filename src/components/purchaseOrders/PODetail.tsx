@@ -1,8 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { format } from 'date-fns';
-import { ArrowLeft, Edit, Trash2, CheckCircle, Clock, AlertCircle, Printer, Download, Calendar, Tag } from 'lucide-react';
+import { ArrowLeft, Edit, Trash2, CheckCircle, Clock, AlertCircle, Printer, Download, Calendar, Tag, PackageCheck } from 'lucide-react';
 import { PurchaseOrder, PurchaseOrderItem } from '../../types';
 import { getPurchaseOrderWithItems, deletePurchaseOrder } from '../../db/operations/purchaseOrders';
+import { getGoodsReceipts, deleteGoodsReceipt, GoodsReceiptWithLines } from '../../db/operations/goodsReceipts';
+import { formatCurrency } from '../../utils/currencyUtils';
+import POReceiveForm from './POReceiveForm';
+import HistoryPanel from '../history/HistoryPanel';
+import AttachmentPanel from '../attachments/AttachmentPanel';
 
 interface PODetailProps {
   purchaseOrderId: number;
@@ -21,34 +26,61 @@ const PODetail: React.FC<PODetailProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [purchaseOrder, setPurchaseOrder] = useState<PurchaseOrder | null>(null);
   const [items, setItems] = useState<PurchaseOrderItem[]>([]);
-  const [activeTab, setActiveTab] = useState<'details' | 'items'>('details');
+  const [receipts, setReceipts] = useState<GoodsReceiptWithLines[]>([]);
+  const [activeTab, setActiveTab] = useState<'details' | 'items' | 'receipts' | 'documents' | 'history'>('details');
+  const [showReceiveForm, setShowReceiveForm] = useState(false);
 
-  useEffect(() => {
-    const loadPurchaseOrder = async () => {
-      setLoading(true);
-      setError(null);
-      
-      try {
-        const result = await getPurchaseOrderWithItems(purchaseOrderId);
-        if (!result) {
-          setError('Purchase order not found');
-          return;
-        }
-        
-        setPurchaseOrder(result.purchaseOrder);
-        setItems(result.items);
-      } catch (err) {
-        setError(`Failed to load purchase order: ${err instanceof Error ? err.message : String(err)}`);
-      } finally {
-        setLoading(false);
-      }
-    };
+  const loadPurchaseOrder = useCallback(async () => {
+    setLoading(true);
+    setError(null);
     
-    loadPurchaseOrder();
+    try {
+      const result = await getPurchaseOrderWithItems(purchaseOrderId);
+      if (!result) {
+        setError('Purchase order not found');
+        return;
+      }
+      
+      setPurchaseOrder(result.purchaseOrder);
+      setItems(result.items);
+      setReceipts(await getGoodsReceipts(purchaseOrderId));
+    } catch (err) {
+      setError(`Failed to load purchase order: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoading(false);
+    }
   }, [purchaseOrderId]);
 
+  useEffect(() => {
+    loadPurchaseOrder();
+  }, [loadPurchaseOrder]);
+
+  const handleReceived = () => {
+    setShowReceiveForm(false);
+    setActiveTab('receipts');
+    loadPurchaseOrder();
+  };
+
+  const handleDeleteReceipt = async (receiptId: number) => {
+    if (!window.confirm('Move this receipt to the trash? The received quantities will be taken back out of stock until it is restored.')) {
+      return;
+    }
+
+    try {
+      await deleteGoodsReceipt(receiptId);
+      loadPurchaseOrder();
+    } catch (err) {
+      setError(`Failed to delete receipt: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const getItemLabel = (itemId: number) => {
+    const item = items.find(i => i.id === itemId);
+    return item ? `${item.product_name}${item.sku ? ` (${item.sku})` : ''}` : 'Removed item';
+  };
+
   const handleDelete = async () => {
-    if (!window.confirm('Are you sure you want to delete this purchase order?')) {
+    if (!window.confirm('Move this purchase order to the trash? It can be restored from the Activity page.')) {
       return;
     }
     
@@ -153,6 +185,15 @@ const PODetail: React.FC<PODetailProps> = ({
         </div>
         
         <div className="flex space-x-2">
+          {purchaseOrder.status !== 'received' && !showReceiveForm && (
+            <button
+              onClick={() => setShowReceiveForm(true)}
+              className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors flex items-center"
+            >
+              <PackageCheck size={16} className="mr-1" /> Receive Goods
+            </button>
+          )}
+
           <button
             onClick={handlePrint}
             className="px-3 py-1 border border-gray-300 text-gray-600 rounded hover:bg-gray-50 transition-colors flex items-center"
@@ -180,6 +221,23 @@ const PODetail: React.FC<PODetailProps> = ({
       </div>
       
       <div className="p-6">
+        {showReceiveForm && (
+          <POReceiveForm
+            purchaseOrder={purchaseOrder}
+            items={items}
+            onCancel={() => setShowReceiveForm(false)}
+            onReceived={handleReceived}
+          />
+        )}
+
+        {purchaseOrder.receipts_unknown && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-300 text-yellow-800 rounded flex items-center">
+            <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+            This order was marked partially received before goods receipts were recorded, so what arrived is not known.
+            Receive the goods already delivered so they are in stock and costed.
+          </div>
+        )}
+
         <div className="flex items-center mb-6">
           <div className={`flex items-center px-4 py-2 rounded-full border ${getStatusBadgeClass(purchaseOrder.status)}`}>
             {getStatusIcon(purchaseOrder.status)}
@@ -204,6 +262,24 @@ const PODetail: React.FC<PODetailProps> = ({
             >
               Items ({items.length})
             </button>
+            <button
+              className={`px-4 py-2 font-medium ${activeTab === 'receipts' ? 'text-blue-600 border-b-2 border-blue-500' : 'text-gray-500 hover:text-gray-700'}`}
+              onClick={() => setActiveTab('receipts')}
+            >
+              Receipts ({receipts.length})
+            </button>
+            <button
+              className={`px-4 py-2 font-medium ${activeTab === 'documents' ? 'text-blue-600 border-b-2 border-blue-500' : 'text-gray-500 hover:text-gray-700'}`}
+              onClick={() => setActiveTab('documents')}
+            >
+              Documents
+            </button>
+            <button
+              className={`px-4 py-2 font-medium ${activeTab === 'history' ? 'text-blue-600 border-b-2 border-blue-500' : 'text-gray-500 hover:text-gray-700'}`}
+              onClick={() => setActiveTab('history')}
+            >
+              History
+            </button>
           </div>
         </div>
         
@@ -230,6 +306,12 @@ const PODetail: React.FC<PODetailProps> = ({
                   <div className="text-xs text-gray-500">Payment Method</div>
                   <div className="font-medium">{purchaseOrder.payment_method}</div>
                 </div>
+                {purchaseOrder.date_paid && (
+                  <div>
+                    <div className="text-xs text-gray-500">Paid</div>
+                    <div className="font-medium">{format(new Date(purchaseOrder.date_paid), 'MMMM d, yyyy')}</div>
+                  </div>
+                )}
                 <div>
                   <div className="text-xs text-gray-500">Created</div>
                   <div className="font-medium">{format(new Date(purchaseOrder.created_at), 'MMMM d, yyyy h:mm a')}</div>
@@ -328,17 +410,15 @@ const PODetail: React.FC<PODetailProps> = ({
                       </td>
                       <td className="px-4 py-3 whitespace-nowrap text-right">
                         <div className="text-sm text-gray-900">{item.quantity}</div>
-                        {item.quantity_received !== undefined && (
-                          <div className="text-xs text-gray-500">
-                            Received: {item.quantity_received}
-                          </div>
-                        )}
+                        <div className={`text-xs ${(item.quantity_received || 0) >= item.quantity ? 'text-green-600' : 'text-gray-500'}`}>
+                          Received: {item.quantity_received || 0} of {item.quantity}
+                        </div>
                       </td>
                       <td className="px-4 py-3 whitespace-nowrap text-right">
-                        <div className="text-sm text-gray-900">${item.unit_price.toFixed(2)}</div>
+                        <div className="text-sm text-gray-900">{formatCurrency(item.unit_price)}</div>
                       </td>
                       <td className="px-4 py-3 whitespace-nowrap text-right">
-                        <div className="text-sm font-medium text-gray-900">${item.total_price.toFixed(2)}</div>
+                        <div className="text-sm font-medium text-gray-900">{formatCurrency(item.total_price)}</div>
                       </td>
                     </tr>
                   ))
@@ -357,6 +437,61 @@ const PODetail: React.FC<PODetailProps> = ({
             </table>
           </div>
         )}
+
+        {activeTab === 'receipts' && (
+          <div className="space-y-4">
+            {receipts.length === 0 ? (
+              <div className="text-center py-6 text-gray-500">
+                No deliveries have been received against this purchase order yet.
+              </div>
+            ) : (
+              receipts.map(receipt => (
+                <div key={receipt.id} className="border rounded-lg">
+                  <div className="px-4 py-3 bg-gray-50 flex justify-between items-center">
+                    <div>
+                      <div className="font-medium">
+                        {format(new Date(receipt.date), 'MMMM d, yyyy')}
+                        {receipt.reference && <span className="ml-2 text-sm text-gray-500">Ref: {receipt.reference}</span>}
+                      </div>
+                      {receipt.notes && <div className="text-xs text-gray-500">{receipt.notes}</div>}
+                    </div>
+                    <button
+                      onClick={() => handleDeleteReceipt(receipt.id!)}
+                      className="text-red-600 hover:text-red-800"
+                      title="Delete receipt"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {receipt.lines.map(line => (
+                        <tr key={line.id}>
+                          <td className="px-4 py-2 text-sm text-gray-900">{getItemLabel(line.purchase_order_item_id)}</td>
+                          <td className="px-4 py-2 text-sm text-gray-500">
+                            {line.batch_number ? `Batch ${line.batch_number}` : ''}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-500">
+                            {line.expiry_date ? `Expires ${format(new Date(line.expiry_date), 'MMM d, yyyy')}` : ''}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-right text-gray-900">{line.quantity}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        {activeTab === 'documents' && (
+          <AttachmentPanel ownerType="purchase_order" ownerId={purchaseOrderId} />
+        )}
+
+        {activeTab === 'history' && (
+          <HistoryPanel entityType="purchase_order" entityId={purchaseOrderId} onReverted={loadPurchaseOrder} />
+        )}
       </div>
     </div>
   );
@@ -113,10 +113,18 @@ const POForm: React.FC<POFormProps> = ({ purchaseOrderId, onCancel, onSave }) =>
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  const handleTaxAmountChange = (taxAmount: number | undefined) => {
+    setFormData(prev => ({ ...prev, tax_amount: taxAmount }));
+  };
+
   const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({ ...prev, date: new Date(e.target.value) }));
   };
 
+  const handlePaidDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData(prev => ({ ...prev, date_paid: e.target.value ? new Date(e.target.value) : undefined }));
+  };
+
   const handleSupplierChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const supplierId = e.target.value ? parseInt(e.target.value, 10) : undefined;
     const supplier = suppliers.find(s => s.id === supplierId);
@@ -243,7 +251,9 @@ const POForm: React.FC<POFormProps> = ({ purchaseOrderId, onCancel, onSave }) =>
             suppliers={suppliers}
             handleInputChange={handleInputChange}
             handleDateChange={handleDateChange}
+            handlePaidDateChange={handlePaidDateChange}
             handleSupplierChange={handleSupplierChange}
+            handleTaxAmountChange={handleTaxAmountChange}
           />
           
           <POFormItemsTable 
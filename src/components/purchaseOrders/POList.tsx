@@ -2,6 +2,7 @@ import React from 'react';
 import { format } from 'date-fns';
 import { PurchaseOrder } from '../../types';
 import { Eye, Edit, Trash2, ExternalLink, AlertCircle, CheckCircle, Clock, ShoppingBag } from 'lucide-react';
+import { formatCurrency } from '../../utils/currencyUtils';
 
 interface POListProps {
   purchaseOrders: PurchaseOrder[];
@@ -117,9 +118,14 @@ const POList: React.FC<POListProps> = ({
                   {getStatusIcon(po.status)}
                   {formatStatus(po.status)}
                 </span>
+                {po.receipts_unknown && (
+                  <span title="Received quantities unknown; record receipts">
+                    <AlertCircle className="inline h-4 w-4 ml-1 text-yellow-600" />
+                  </span>
+                )}
               </td>
               <td className="px-4 py-3 whitespace-nowrap text-right">
-                <div className="text-sm font-medium text-gray-900">${po.total_amount.toFixed(2)}</div>
+                <div className="text-sm font-medium text-gray-900">{formatCurrency(po.total_amount)}</div>
               </td>
               <td className="px-4 py-3 whitespace-nowrap text-center" onClick={(e) => e.stopPropagation()}>
                 <div className="flex justify-center space-x-2">
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { PackageCheck, X } from 'lucide-react';
+import { PurchaseOrder, PurchaseOrderItem } from '../../types';
+import { receiveGoods } from '../../db/operations/goodsReceipts';
+import { getDayInZone, startOfDayInZone } from '../../utils/dateRange';
+
+interface POReceiveFormProps {
+  purchaseOrder: PurchaseOrder;
+  items: PurchaseOrderItem[];
+  onCancel: () => void;
+  onReceived: () => void;
+}
+
+interface ReceiveLineState {
+  quantity: string;
+  batch_number: string;
+  expiry_date: string;
+}
+
+const getOutstanding = (item: PurchaseOrderItem) => item.quantity - (item.quantity_received || 0);
+
+const POReceiveForm: React.FC<POReceiveFormProps> = ({
+  purchaseOrder,
+  items,
+  onCancel,
+  onReceived
+}) => {
+  const outstandingItems = items.filter(item => getOutstanding(item) > 0);
+
+  const [receiptDate, setReceiptDate] = useState(getDayInZone(new Date()));
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to receiving everything outstanding, with the batch and expiry from the order
+  const [lines, setLines] = useState<Record<number, ReceiveLineState>>(() =>
+    Object.fromEntries(outstandingItems.map(item => [item.id!, {
+      quantity: getOutstanding(item).toString(),
+      batch_number: item.batch_number || '',
+      expiry_date: item.expiry_date ? new Date(item.expiry_date).toISOString().split('T')[0] : ''
+    }]))
+  );
+
+  const updateLine = (itemId: number, field: keyof ReceiveLineState, value: string) => {
+    setLines(prev => ({ ...prev, [itemId]: { ...prev[itemId], [field]: value } }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      await receiveGoods(
+        purchaseOrder.id!,
+        {
+          date: startOfDayInZone(receiptDate),
+          reference: reference.trim() || undefined,
+          notes: notes.trim() || undefined
+        },
+        outstandingItems.map(item => {
+          const line = lines[item.id!];
+          return {
+            purchase_order_item_id: item.id!,
+            quantity: parseInt(line.quantity, 10) || 0,
+            batch_number: line.batch_number.trim() || undefined,
+            expiry_date: line.expiry_date ? new Date(line.expiry_date) : undefined
+          };
+        })
+      );
+
+      onReceived();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-gray-800 flex items-center">
+          <PackageCheck className="h-5 w-5 mr-2 text-blue-600" />
+          Receive Goods
+        </h3>
+        <button type="button" onClick={onCancel} className="text-gray-500 hover:text-gray-700">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Date Received <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="date"
+            className="w-full p-2 border border-gray-300 rounded"
+            value={receiptDate}
+            onChange={(e) => setReceiptDate(e.target.value)}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Delivery Reference
+          </label>
+          <input
+            type="text"
+            className="w-full p-2 border border-gray-300 rounded"
+            placeholder="Packing slip or invoice number"
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Notes
+          </label>
+          <input
+            type="text"
+            className="w-full p-2 border border-gray-300 rounded"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 bg-white rounded">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received Now</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Batch #</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expiry Date</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {outstandingItems.map(item => (
+              <tr key={item.id}>
+                <td className="px-3 py-2 text-sm">
+                  <div className="font-medium text-gray-900">{item.product_name}</div>
+                  <div className="text-xs text-gray-500">{item.sku || 'N/A'}</div>
+                </td>
+                <td className="px-3 py-2 text-sm text-right text-gray-700">{getOutstanding(item)}</td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min="0"
+                    max={getOutstanding(item)}
+                    className="w-24 p-1 border border-gray-300 rounded"
+                    value={lines[item.id!].quantity}
+                    onChange={(e) => updateLine(item.id!, 'quantity', e.target.value)}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="text"
+                    className="w-32 p-1 border border-gray-300 rounded"
+                    value={lines[item.id!].batch_number}
+                    onChange={(e) => updateLine(item.id!, 'batch_number', e.target.value)}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="date"
+                    className="p-1 border border-gray-300 rounded"
+                    value={lines[item.id!].expiry_date}
+                    onChange={(e) => updateLine(item.id!, 'expiry_date', e.target.value)}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end space-x-2 mt-4">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50"
+          disabled={saving}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:bg-blue-400"
+          disabled={saving}
+        >
+          {saving ? 'Saving...' : 'Record Receipt'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default POReceiveForm;
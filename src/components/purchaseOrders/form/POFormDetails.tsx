@@ -2,6 +2,8 @@ import React from 'react';
 import { PurchaseOrder, Supplier } from '../../../types';
 import { Plus } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { storeStorageKey } from '../../../db/stores';
+import { getStoreProfile } from '../../../utils/storeProfile';
 
 const PAYMENT_METHODS = [
   'Credit Card',
@@ -23,7 +25,9 @@ interface POFormDetailsProps {
   suppliers: Supplier[];
   handleInputChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => void;
   handleDateChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  handlePaidDateChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   handleSupplierChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
+  handleTaxAmountChange: (taxAmount: number | undefined) => void;
 }
 
 const POFormDetails: React.FC<POFormDetailsProps> = ({
@@ -31,17 +35,25 @@ const POFormDetails: React.FC<POFormDetailsProps> = ({
   suppliers,
   handleInputChange,
   handleDateChange,
-  handleSupplierChange
+  handlePaidDateChange,
+  handleSupplierChange,
+  handleTaxAmountChange
 }) => {
   const navigate = useNavigate();
+  const { gstRate } = getStoreProfile();
   
   const handleAddSupplier = () => {
     // Save current form state to localStorage
-    localStorage.setItem('poFormData', JSON.stringify(formData));
+    localStorage.setItem(storeStorageKey('poFormData'), JSON.stringify(formData));
     // Navigate to suppliers page
     navigate('/suppliers');
   };
 
+  // Item prices are entered excluding GST, so the GST is added on top of the total
+  const handleCalculateTax = () => {
+    handleTaxAmountChange(Math.round(formData.total_amount * gstRate) / 100);
+  };
+
   return (
     <div className="bg-gray-50 p-4 rounded-lg">
       <h3 className="text-lg font-medium text-gray-700 mb-4">Order Information</h3>
@@ -124,21 +136,57 @@ const POFormDetails: React.FC<POFormDetailsProps> = ({
         
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
-            Status <span className="text-red-500">*</span>
+            Paid Date
           </label>
-          <select
-            name="status"
-            value={formData.status}
-            onChange={handleInputChange}
+          <input
+            type="date"
+            name="date_paid"
+            value={formData.date_paid ? new Date(formData.date_paid).toISOString().split('T')[0] : ''}
+            onChange={handlePaidDateChange}
             className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-            required
-          >
-            {STATUS_OPTIONS.map(option => (
-              <option key={option.value} value={option.value}>
-                {option.label}
-              </option>
-            ))}
-          </select>
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            When the supplier was paid, for cash-basis reports; the order date if empty
+          </p>
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Status
+          </label>
+          <div className="w-full p-2 border border-gray-200 rounded bg-gray-100 text-gray-700">
+            {STATUS_OPTIONS.find(option => option.value === formData.status)?.label || formData.status}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Updated automatically when deliveries are received
+          </p>
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            GST Paid
+          </label>
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              name="tax_amount"
+              min="0"
+              step="0.01"
+              value={formData.tax_amount ?? ''}
+              onChange={(e) => handleTaxAmountChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+              className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            />
+            <button
+              type="button"
+              onClick={handleCalculateTax}
+              className="px-3 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 text-sm whitespace-nowrap transition-colors"
+            >
+              Add {gstRate}%
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Claimed back in the GST report
+          </p>
         </div>
         
         <div>
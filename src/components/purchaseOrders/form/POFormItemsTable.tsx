@@ -2,6 +2,7 @@ import React, { useRef } from 'react';
 import { PurchaseOrderItem, Product } from '../../../types';
 import { X, Plus, Upload, Calendar, Tag, FileText } from 'lucide-react';
 import * as Papa from 'papaparse';
+import { formatCurrency } from '../../../utils/currencyUtils';
 
 interface POFormItemsTableProps {
   items: PurchaseOrderItem[];
@@ -302,7 +303,7 @@ const POFormItemsTable: React.FC<POFormItemsTableProps> = ({
             <tfoot className="bg-gray-50">
               <tr>
                 <td colSpan={6} className="px-4 py-2 text-right font-medium">Total:</td>
-                <td className="px-4 py-2 text-right font-bold">${totalAmount.toFixed(2)}</td>
+                <td className="px-4 py-2 text-right font-bold">{formatCurrency(totalAmount)}</td>
                 <td></td>
               </tr>
             </tfoot>
@@ -4,6 +4,7 @@ import {
   PieChart, Pie, Cell
 } from 'recharts';
 import { ChevronDown, ChevronUp } from 'lucide-react';
+import { formatCurrency } from '../../utils/currencyUtils';
 
 // Define props interface
 interface AdditionalRevenueReportProps {
@@ -30,14 +31,6 @@ const AdditionalRevenueReport: React.FC<AdditionalRevenueReportProps> = ({ categ
   const totalAmount = categoryData.reduce((sum, item) => sum + item.amount, 0);
   const totalCount = categoryData.reduce((sum, item) => sum + item.count, 0);
   
-  // Format currency
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(value);
-  };
-  
   // Custom tooltip for pie chart
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
+} from 'recharts';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { CouponReport } from '../../types';
+import { formatCurrency, formatPercentage } from '../../services/reports/utils';
+
+interface CouponsReportProps {
+  data: CouponReport;
+}
+
+const CouponsReport: React.FC<CouponsReportProps> = ({ data }) => {
+  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['coupons-overview', 'coupons-chart', 'coupons-table']));
+
+  // Toggle section expansion
+  const toggleSection = (section: string) => {
+    const newExpandedSections = new Set(expandedSections);
+    if (newExpandedSections.has(section)) {
+      newExpandedSections.delete(section);
+    } else {
+      newExpandedSections.add(section);
+    }
+    setExpandedSections(newExpandedSections);
+  };
+
+  const { coupons, undiscounted } = data;
+
+  // Calculate totals; an order with two coupons counts under both codes
+  const totalDiscount = coupons.reduce((sum, item) => sum + item.discount, 0);
+  const discountedRevenue = coupons.reduce((sum, item) => sum + item.revenue, 0);
+  const discountedProfit = coupons.reduce((sum, item) => sum + item.gross_profit, 0);
+  const discountedMargin = discountedRevenue > 0 ? (discountedProfit / discountedRevenue) * 100 : 0;
+  const discountShare = discountedRevenue + totalDiscount > 0 ? (totalDiscount / (discountedRevenue + totalDiscount)) * 100 : 0;
+
+  return (
+    <>
+      <div className="bg-white shadow rounded-lg p-6">
+        <div
+          className="flex justify-between items-center cursor-pointer"
+          onClick={() => toggleSection('coupons-overview')}
+        >
+          <h2 className="text-lg font-semibold">Coupons Overview</h2>
+          {expandedSections.has('coupons-overview') ? (
+            <ChevronUp className="h-5 w-5 text-gray-500" />
+          ) : (
+            <ChevronDown className="h-5 w-5 text-gray-500" />
+          )}
+        </div>
+
+        {expandedSections.has('coupons-overview') && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">Discounts Given</p>
+                <p className="text-2xl font-bold">
+                  {formatCurrency(totalDiscount)}
+                </p>
+                <p className="text-xs text-gray-500">{formatPercentage(discountShare)} off full price</p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">Revenue with Coupons</p>
+                <p className="text-2xl font-bold">
+                  {formatCurrency(discountedRevenue)}
+                </p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">Margin with Coupons</p>
+                <p className={`text-2xl font-bold ${discountedMargin < undiscounted.margin ? 'text-red-600' : 'text-green-600'}`}>
+                  {formatPercentage(discountedMargin)}
+                </p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">Margin without Coupons</p>
+                <p className="text-2xl font-bold">
+                  {formatPercentage(undiscounted.margin)}
+                </p>
+                <p className="text-xs text-gray-500">{undiscounted.orders} orders</p>
+              </div>
+            </div>
+            <p className="text-sm text-gray-500 mt-4">
+              Revenue and gross profit are after discounts and refunds and exclude GST. Margin erosion is how many
+              percentage points a coupon's orders fell below the margin of orders without a coupon; the full price
+              margin shows what those orders would have made without the discount.
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <div
+          className="flex justify-between items-center cursor-pointer"
+          onClick={() => toggleSection('coupons-chart')}
+        >
+          <h2 className="text-lg font-semibold">Discount and Profit by Coupon</h2>
+          {expandedSections.has('coupons-chart') ? (
+            <ChevronUp className="h-5 w-5 text-gray-500" />
+          ) : (
+            <ChevronDown className="h-5 w-5 text-gray-500" />
+          )}
+        </div>
+
+        {expandedSections.has('coupons-chart') && (
+          <div className="h-80 mt-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={coupons}
+                margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="code" />
+                <YAxis />
+                <Tooltip formatter={(value) => formatCurrency(value as number)} />
+                <Legend />
+                <Bar dataKey="discount" name="Discount" fill="#f59e0b" />
+                <Bar dataKey="gross_profit" name="Gross Profit" fill="#10b981" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <div
+          className="flex justify-between items-center cursor-pointer"
+          onClick={() => toggleSection('coupons-table')}
+        >
+          <h2 className="text-lg font-semibold">Coupons Data</h2>
+          {expandedSections.has('coupons-table') ? (
+            <ChevronUp className="h-5 w-5 text-gray-500" />
+          ) : (
+            <ChevronDown className="h-5 w-5 text-gray-500" />
+          )}
+        </div>
+
+        {expandedSections.has('coupons-table') && (
+          <div className="overflow-x-auto mt-4">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Coupon
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Uses
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Discount
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Revenue
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Gross Profit
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Margin
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Full Price Margin
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Margin Erosion
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {coupons.map(item => (
+                  <tr key={item.code} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {item.code}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {item.orders}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(item.discount)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(item.revenue)}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${item.gross_profit < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                      {formatCurrency(item.gross_profit)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatPercentage(item.margin)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatPercentage(item.undiscounted_margin)}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${item.margin_erosion > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {item.margin_erosion > 0 ? '-' : '+'}{Math.abs(item.margin_erosion).toFixed(2)} pts
+                    </td>
+                  </tr>
+                ))}
+
+                {coupons.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-4 text-center text-sm text-gray-500">
+                      No orders used a coupon in this period
+                    </td>
+                  </tr>
+                )}
+
+                {/* Orders without a coupon, for comparison */}
+                <tr className="bg-gray-50 font-medium">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    No coupon
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {undiscounted.orders}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    -
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(undiscounted.revenue)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(undiscounted.gross_profit)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatPercentage(undiscounted.margin)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatPercentage(undiscounted.margin)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    -
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default CouponsReport;
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
+} from 'recharts';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { GstPeriod } from '../../types';
+import { formatCurrency } from '../../services/reports/utils';
+
+interface GstReportProps {
+  data: GstPeriod[];
+}
+
+const GstReport: React.FC<GstReportProps> = ({ data }) => {
+  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['gst-overview', 'gst-chart', 'gst-table']));
+
+  // Toggle section expansion
+  const toggleSection = (section: string) => {
+    const newExpandedSections = new Set(expandedSections);
+    if (newExpandedSections.has(section)) {
+      newExpandedSections.delete(section);
+    } else {
+      newExpandedSections.add(section);
+    }
+    setExpandedSections(newExpandedSections);
+  };
+
+  // Calculate totals
+  const totalCollected = data.reduce((sum, item) => sum + item.collected, 0);
+  const totalPaidOnExpenses = data.reduce((sum, item) => sum + item.paidOnExpenses, 0);
+  const totalPaidOnPurchases = data.reduce((sum, item) => sum + item.paidOnPurchases, 0);
+  const totalPayable = data.reduce((sum, item) => sum + item.payable, 0);
+
+  return (
+    <>
+      <div className="bg-white shadow rounded-lg p-6">
+        <div
+          className="flex justify-between items-center cursor-pointer"
+          onClick={() => toggleSection('gst-overview')}
+        >
+          <h2 className="text-lg font-semibold">GST Overview</h2>
+          {expandedSections.has('gst-overview') ? (
+            <ChevronUp className="h-5 w-5 text-gray-500" />
+          ) : (
+            <ChevronDown className="h-5 w-5 text-gray-500" />
+          )}
+        </div>
+
+        {expandedSections.has('gst-overview') && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">GST Collected</p>
+                <p className="text-2xl font-bold">
+                  {formatCurrency(totalCollected)}
+                </p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">GST Paid on Expenses</p>
+                <p className="text-2xl font-bold">
+                  {formatCurrency(totalPaidOnExpenses)}
+                </p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">GST Paid on Purchases</p>
+                <p className="text-2xl font-bold">
+                  {formatCurrency(totalPaidOnPurchases)}
+                </p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">{totalPayable >= 0 ? 'GST Payable' : 'GST Refund Due'}</p>
+                <p className={`text-2xl font-bold ${totalPayable >= 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {formatCurrency(Math.abs(totalPayable))}
+                </p>
+              </div>
+            </div>
+            <p className="text-sm text-gray-500 mt-4">
+              GST collected is the tax WooCommerce charged on orders, less refunds, plus GST on additional revenue
+              that includes tax. GST paid covers expenses in tax-deductible categories and the GST entered on purchase orders.
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <div
+          className="flex justify-between items-center cursor-pointer"
+          onClick={() => toggleSection('gst-chart')}
+        >
+          <h2 className="text-lg font-semibold">GST by Period</h2>
+          {expandedSections.has('gst-chart') ? (
+            <ChevronUp className="h-5 w-5 text-gray-500" />
+          ) : (
+            <ChevronDown className="h-5 w-5 text-gray-500" />
+          )}
+        </div>
+
+        {expandedSections.has('gst-chart') && (
+          <div className="h-80 mt-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={data}
+                margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" />
+                <YAxis />
+                <Tooltip formatter={(value) => formatCurrency(value as number)} />
+                <Legend />
+                <Bar dataKey="collected" name="Collected" fill="#3b82f6" />
+                <Bar dataKey="paidOnExpenses" name="Paid on Expenses" fill="#f59e0b" />
+                <Bar dataKey="paidOnPurchases" name="Paid on Purchases" fill="#10b981" />
+                <Bar dataKey="payable" name="Payable" fill="#8b5cf6" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <div
+          className="flex justify-between items-center cursor-pointer"
+          onClick={() => toggleSection('gst-table')}
+        >
+          <h2 className="text-lg font-semibold">GST Data</h2>
+          {expandedSections.has('gst-table') ? (
+            <ChevronUp className="h-5 w-5 text-gray-500" />
+          ) : (
+            <ChevronDown className="h-5 w-5 text-gray-500" />
+          )}
+        </div>
+
+        {expandedSections.has('gst-table') && (
+          <div className="overflow-x-auto mt-4">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Period
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Collected
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Paid on Expenses
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Paid on Purchases
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Payable
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {data.map((item, index) => (
+                  <tr key={index} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {item.period}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(item.collected)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(item.paidOnExpenses)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(item.paidOnPurchases)}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${item.payable >= 0 ? 'text-gray-500' : 'text-green-600'}`}>
+                      {formatCurrency(item.payable)}
+                    </td>
+                  </tr>
+                ))}
+
+                {/* Totals row */}
+                <tr className="bg-gray-50 font-medium">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    Total
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(totalCollected)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(totalPaidOnExpenses)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(totalPaidOnPurchases)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(totalPayable)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default GstReport;
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
+} from 'recharts';
+import { ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
+import { PaymentFeeSummary } from '../../types';
+import { formatCurrency, formatPercentage } from '../../services/reports/utils';
+
+interface PaymentFeesReportProps {
+  data: PaymentFeeSummary[];
+}
+
+const PaymentFeesReport: React.FC<PaymentFeesReportProps> = ({ data }) => {
+  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['fees-overview', 'fees-chart', 'fees-table']));
+
+  // Toggle section expansion
+  const toggleSection = (section: string) => {
+    const newExpandedSections = new Set(expandedSections);
+    if (newExpandedSections.has(section)) {
+      newExpandedSections.delete(section);
+    } else {
+      newExpandedSections.add(section);
+    }
+    setExpandedSections(newExpandedSections);
+  };
+
+  // Calculate totals
+  const totalOrders = data.reduce((sum, item) => sum + item.orders, 0);
+  const totalAmount = data.reduce((sum, item) => sum + item.amount, 0);
+  const totalFees = data.reduce((sum, item) => sum + item.fees, 0);
+  const totalUnmatched = data.reduce((sum, item) => sum + item.unmatched_orders, 0);
+  const effectiveRate = totalAmount > 0 ? (totalFees / totalAmount) * 100 : 0;
+
+  return (
+    <>
+      <div className="bg-white shadow rounded-lg p-6">
+        <div
+          className="flex justify-between items-center cursor-pointer"
+          onClick={() => toggleSection('fees-overview')}
+        >
+          <h2 className="text-lg font-semibold">Payment Fees Overview</h2>
+          {expandedSections.has('fees-overview') ? (
+            <ChevronUp className="h-5 w-5 text-gray-500" />
+          ) : (
+            <ChevronDown className="h-5 w-5 text-gray-500" />
+          )}
+        </div>
+
+        {expandedSections.has('fees-overview') && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">Amount Charged</p>
+                <p className="text-2xl font-bold">
+                  {formatCurrency(totalAmount)}
+                </p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">Gateway Fees</p>
+                <p className="text-2xl font-bold text-red-600">
+                  {formatCurrency(totalFees)}
+                </p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">Effective Rate</p>
+                <p className="text-2xl font-bold">
+                  {formatPercentage(effectiveRate)}
+                </p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">Orders</p>
+                <p className="text-2xl font-bold">
+                  {totalOrders}
+                </p>
+              </div>
+            </div>
+            {totalUnmatched > 0 && (
+              <div className="flex items-center text-sm text-yellow-700 bg-yellow-50 border border-yellow-200 rounded p-3 mt-4">
+                <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+                {totalUnmatched} orders have no fee schedule for their payment method and date.
+                Add one under Settings to include their fees.
+              </div>
+            )}
+            <p className="text-sm text-gray-500 mt-4">
+              Fees are worked out from the fee schedule of each order's payment method on the day it was placed,
+              on the full amount charged. Gateways keep their fees when an order is refunded.
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <div
+          className="flex justify-between items-center cursor-pointer"
+          onClick={() => toggleSection('fees-chart')}
+        >
+          <h2 className="text-lg font-semibold">Fees by Gateway</h2>
+          {expandedSections.has('fees-chart') ? (
+            <ChevronUp className="h-5 w-5 text-gray-500" />
+          ) : (
+            <ChevronDown className="h-5 w-5 text-gray-500" />
+          )}
+        </div>
+
+        {expandedSections.has('fees-chart') && (
+          <div className="h-80 mt-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={data}
+                margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="payment_method_title" />
+                <YAxis />
+                <Tooltip formatter={(value) => formatCurrency(value as number)} />
+                <Legend />
+                <Bar dataKey="fees" name="Fees" fill="#ef4444" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <div
+          className="flex justify-between items-center cursor-pointer"
+          onClick={() => toggleSection('fees-table')}
+        >
+          <h2 className="text-lg font-semibold">Payment Fees Data</h2>
+          {expandedSections.has('fees-table') ? (
+            <ChevronUp className="h-5 w-5 text-gray-500" />
+          ) : (
+            <ChevronDown className="h-5 w-5 text-gray-500" />
+          )}
+        </div>
+
+        {expandedSections.has('fees-table') && (
+          <div className="overflow-x-auto mt-4">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Gateway
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Orders
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Amount Charged
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Fees
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Effective Rate
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Avg. Fee per Order
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {data.map(item => (
+                  <tr key={item.payment_method} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="font-medium text-gray-900">{item.payment_method_title}</div>
+                      <div className="text-gray-500">
+                        {item.payment_method}
+                        {item.unmatched_orders > 0 && (
+                          <span className="ml-2 text-xs text-yellow-700">
+                            {item.unmatched_orders} without a fee schedule
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {item.orders}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(item.amount)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(item.fees)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatPercentage(item.effective_rate)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(item.orders > 0 ? item.fees / item.orders : 0)}
+                    </td>
+                  </tr>
+                ))}
+
+                {/* Totals row */}
+                <tr className="bg-gray-50 font-medium">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    Total
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {totalOrders}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(totalAmount)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(totalFees)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatPercentage(effectiveRate)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(totalOrders > 0 ? totalFees / totalOrders : 0)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default PaymentFeesReport;
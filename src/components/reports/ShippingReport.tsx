@@ -0,0 +1,328 @@
+import React, { useState } from 'react';
+import {
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
+} from 'recharts';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { Order, ShippingPeriod } from '../../types';
+import { formatCurrency } from '../../services/reports/utils';
+import { getOrderShippingCharged } from '../../services/pnl/shipping';
+import { formatStoreDateOnly } from '../../utils/dateUtils';
+import { getOrderDate } from '../../utils/dateRange';
+
+interface ShippingReportProps {
+  data: ShippingPeriod[];
+  orders: Order[];
+}
+
+// Orders listed as losing money on freight, worst first
+const MAX_LOSS_ORDERS = 50;
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: 'Entered',
+  import: 'Invoice',
+  estimate: 'Estimate'
+};
+
+const ShippingReport: React.FC<ShippingReportProps> = ({ data, orders }) => {
+  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['shipping-overview', 'shipping-chart', 'shipping-losses', 'shipping-table']));
+
+  // Toggle section expansion
+  const toggleSection = (section: string) => {
+    const newExpandedSections = new Set(expandedSections);
+    if (newExpandedSections.has(section)) {
+      newExpandedSections.delete(section);
+    } else {
+      newExpandedSections.add(section);
+    }
+    setExpandedSections(newExpandedSections);
+  };
+
+  // Calculate totals
+  const totalCharged = data.reduce((sum, item) => sum + item.charged, 0);
+  const totalPaid = data.reduce((sum, item) => sum + item.paid, 0);
+  const totalProfit = totalCharged - totalPaid;
+  const totalOrders = data.reduce((sum, item) => sum + item.orders, 0);
+  const totalWithCost = data.reduce((sum, item) => sum + item.ordersWithCost, 0);
+
+  const lossOrders = orders
+    .filter(order => order.shipping_cost !== undefined && order.shipping_cost > getOrderShippingCharged(order))
+    .map(order => ({
+      order,
+      charged: getOrderShippingCharged(order),
+      loss: order.shipping_cost! - getOrderShippingCharged(order)
+    }))
+    .sort((a, b) => b.loss - a.loss);
+
+  return (
+    <>
+      <div className="bg-white shadow rounded-lg p-6">
+        <div
+          className="flex justify-between items-center cursor-pointer"
+          onClick={() => toggleSection('shipping-overview')}
+        >
+          <h2 className="text-lg font-semibold">Shipping Overview</h2>
+          {expandedSections.has('shipping-overview') ? (
+            <ChevronUp className="h-5 w-5 text-gray-500" />
+          ) : (
+            <ChevronDown className="h-5 w-5 text-gray-500" />
+          )}
+        </div>
+
+        {expandedSections.has('shipping-overview') && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">Shipping Charged</p>
+                <p className="text-2xl font-bold">
+                  {formatCurrency(totalCharged)}
+                </p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">Paid to Carriers</p>
+                <p className="text-2xl font-bold">
+                  {formatCurrency(totalPaid)}
+                </p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">{totalProfit >= 0 ? 'Shipping Profit' : 'Shipping Loss'}</p>
+                <p className={`text-2xl font-bold ${totalProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(Math.abs(totalProfit))}
+                </p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-500">Orders Losing Money on Freight</p>
+                <p className="text-2xl font-bold text-red-600">
+                  {lossOrders.length}
+                </p>
+              </div>
+            </div>
+            <p className="text-sm text-gray-500 mt-4">
+              {totalWithCost} of {totalOrders} orders have a carrier cost, entered by hand, imported from a courier
+              invoice or estimated from rate rules. Orders without one count as charged but not paid, so add costs
+              on the Shipping page before relying on the totals. Amounts exclude GST.
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <div
+          className="flex justify-between items-center cursor-pointer"
+          onClick={() => toggleSection('shipping-chart')}
+        >
+          <h2 className="text-lg font-semibold">Shipping by Period</h2>
+          {expandedSections.has('shipping-chart') ? (
+            <ChevronUp className="h-5 w-5 text-gray-500" />
+          ) : (
+            <ChevronDown className="h-5 w-5 text-gray-500" />
+          )}
+        </div>
+
+        {expandedSections.has('shipping-chart') && (
+          <div className="h-80 mt-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart
+                data={data}
+                margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" />
+                <YAxis />
+                <Tooltip formatter={(value) => formatCurrency(value as number)} />
+                <Legend />
+                <Bar dataKey="charged" name="Charged" fill="#3b82f6" />
+                <Bar dataKey="paid" name="Paid" fill="#f59e0b" />
+                <Line type="monotone" dataKey="profit" name="Profit" stroke="#10b981" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <div
+          className="flex justify-between items-center cursor-pointer"
+          onClick={() => toggleSection('shipping-losses')}
+        >
+          <h2 className="text-lg font-semibold">Orders Losing Money on Freight</h2>
+          {expandedSections.has('shipping-losses') ? (
+            <ChevronUp className="h-5 w-5 text-gray-500" />
+          ) : (
+            <ChevronDown className="h-5 w-5 text-gray-500" />
+          )}
+        </div>
+
+        {expandedSections.has('shipping-losses') && (
+          <div className="overflow-x-auto mt-4">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Order
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Destination
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Charged
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Paid
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Loss
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {lossOrders.slice(0, MAX_LOSS_ORDERS).map(({ order, charged, loss }) => (
+                  <tr key={`${order.store_id || 0}-${order.id}`} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      #{order.number}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatStoreDateOnly(getOrderDate(order))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {[order.shipping?.state, order.shipping?.postcode, order.shipping?.country].filter(Boolean).join(' ')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(charged)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(order.shipping_cost!)}
+                      {order.shipping_cost_source && (
+                        <span className="ml-2 text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">
+                          {SOURCE_LABELS[order.shipping_cost_source]}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-red-600">
+                      {formatCurrency(loss)}
+                    </td>
+                  </tr>
+                ))}
+
+                {lossOrders.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                      No orders cost more to ship than was charged
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+            {lossOrders.length > MAX_LOSS_ORDERS && (
+              <p className="text-sm text-gray-500 mt-2">
+                Showing the {MAX_LOSS_ORDERS} largest of {lossOrders.length} losses.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <div
+          className="flex justify-between items-center cursor-pointer"
+          onClick={() => toggleSection('shipping-table')}
+        >
+          <h2 className="text-lg font-semibold">Shipping Data</h2>
+          {expandedSections.has('shipping-table') ? (
+            <ChevronUp className="h-5 w-5 text-gray-500" />
+          ) : (
+            <ChevronDown className="h-5 w-5 text-gray-500" />
+          )}
+        </div>
+
+        {expandedSections.has('shipping-table') && (
+          <div className="overflow-x-auto mt-4">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Period
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Orders
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    With Cost
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Charged
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Paid
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Profit
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Loss-making Orders
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {data.map((item, index) => (
+                  <tr key={index} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {item.period}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {item.orders}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {item.ordersWithCost}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(item.charged)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(item.paid)}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${item.profit >= 0 ? 'text-gray-500' : 'text-red-600'}`}>
+                      {formatCurrency(item.profit)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {item.lossOrders}
+                    </td>
+                  </tr>
+                ))}
+
+                {/* Totals row */}
+                <tr className="bg-gray-50 font-medium">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    Total
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {totalOrders}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {totalWithCost}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(totalCharged)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(totalPaid)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(totalProfit)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {lossOrders.length}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default ShippingReport;
@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Archive, Download, Upload, Lock } from 'lucide-react';
+import { BackupRestoreMode, BackupSummary } from '../../types';
+import { formatStoreDate } from '../../utils/dateUtils';
+import AttachmentUsageBar from '../attachments/AttachmentUsageBar';
+
+interface BackupSectionProps {
+  working: boolean;
+  restoreSummary: BackupSummary | null;
+  vaultUnlocked: boolean;
+  onExport: (passphrase: string, useVault: boolean) => void;
+  onLoad: (json: string, passphrase: string) => void;
+  onRestore: (mode: BackupRestoreMode) => void;
+  onCancelRestore: () => void;
+}
+
+const BackupSection: React.FC<BackupSectionProps> = ({
+  working,
+  restoreSummary,
+  vaultUnlocked,
+  onExport,
+  onLoad,
+  onRestore,
+  onCancelRestore
+}) => {
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [useVault, setUseVault] = useState(false);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [fileContent, setFileContent] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [restoreMode, setRestoreMode] = useState<BackupRestoreMode>('merge');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Once a backup has been read it is held by the page, so the file and passphrase are no longer needed
+  useEffect(() => {
+    if (restoreSummary) {
+      setFileContent(null);
+      setRestorePassphrase('');
+    }
+  }, [restoreSummary]);
+
+  const encryptWithVault = vaultUnlocked && useVault;
+  const passphraseMismatch = !encryptWithVault && exportPassphrase !== '' && exportPassphrase !== confirmPassphrase;
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const json = event.target?.result as string;
+      setFileContent(json);
+      setFileName(file.name);
+      onLoad(json, restorePassphrase);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleCancel = () => {
+    setFileContent(null);
+    setFileName('');
+    setRestorePassphrase('');
+    onCancelRestore();
+  };
+
+  const tableEntries = restoreSummary ? Object.entries(restoreSummary.tables).filter(([, count]) => count > 0) : [];
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <div className="flex items-center mb-4">
+        <Archive className="h-5 w-5 mr-2 text-gray-500" />
+        <h2 className="text-lg font-semibold">Backup and Restore</h2>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        A backup holds everything stored for this store in this browser: synced data, expenses, purchase orders,
+        expiry batches, suppliers, categories, overhead costs, attached receipts and invoices, and settings. Restore it in another browser to move
+        the store there, or here after browser data has been cleared. Backups include the store's API keys, so
+        set a passphrase to encrypt them; a lost passphrase cannot be recovered.
+      </p>
+
+      {/* Attachments make up most of a backup's size */}
+      <div className="mb-4">
+        <AttachmentUsageBar refreshKey={working ? 1 : 0} />
+      </div>
+
+      {/* Export */}
+      <div className="border-t pt-4 mb-6">
+        <h3 className="font-medium mb-2">Create Backup</h3>
+        {vaultUnlocked && (
+          <label className="flex items-center text-sm text-gray-700 mb-2">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={useVault}
+              onChange={(e) => setUseVault(e.target.checked)}
+            />
+            Encrypt with this store's passphrase
+          </label>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          {!encryptWithVault && (
+            <input
+              type="password"
+              className="p-2 border rounded text-sm"
+              placeholder="Passphrase (optional)"
+              autoComplete="new-password"
+              value={exportPassphrase}
+              onChange={(e) => setExportPassphrase(e.target.value)}
+            />
+          )}
+          {!encryptWithVault && exportPassphrase && (
+            <input
+              type="password"
+              className={`p-2 border rounded text-sm ${passphraseMismatch ? 'border-red-400' : ''}`}
+              placeholder="Confirm passphrase"
+              autoComplete="new-password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+            />
+          )}
+          <button
+            onClick={() => onExport(encryptWithVault ? '' : exportPassphrase, encryptWithVault)}
+            disabled={working || passphraseMismatch}
+            className="flex items-center text-sm bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700 disabled:bg-blue-400"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            {encryptWithVault || exportPassphrase ? 'Download Encrypted Backup' : 'Download Backup'}
+          </button>
+        </div>
+        {passphraseMismatch && confirmPassphrase && (
+          <p className="text-xs text-red-600 mt-1">The passphrases do not match</p>
+        )}
+      </div>
+
+      {/* Restore */}
+      <div className="border-t pt-4">
+        <h3 className="font-medium mb-2">Restore Backup</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="file"
+            accept=".json"
+            ref={fileInputRef}
+            onChange={handleFileUpload}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={working}
+            className="flex items-center text-sm bg-gray-100 text-gray-700 px-3 py-2 rounded hover:bg-gray-200"
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            Choose Backup
+          </button>
+          {fileContent && !restoreSummary && (
+            <>
+              <span className="text-sm text-gray-700">{fileName}</span>
+              <input
+                type="password"
+                className="p-2 border rounded text-sm"
+                placeholder="Backup passphrase"
+                autoComplete="off"
+                value={restorePassphrase}
+                onChange={(e) => setRestorePassphrase(e.target.value)}
+              />
+              <button
+                onClick={() => onLoad(fileContent, restorePassphrase)}
+                disabled={working || !restorePassphrase}
+                className="flex items-center text-sm bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700 disabled:bg-blue-400"
+              >
+                <Lock className="h-4 w-4 mr-1" />
+                Unlock
+              </button>
+            </>
+          )}
+        </div>
+
+        {restoreSummary && (
+          <div className="bg-gray-50 p-4 rounded-md mt-4">
+            <p className="text-sm text-gray-700 mb-2">
+              Backup of <strong>{restoreSummary.store_name || 'a store'}</strong> from{' '}
+              {formatStoreDate(new Date(restoreSummary.created_at))}, database version {restoreSummary.schema_version}
+              {restoreSummary.encrypted ? ', encrypted' : ''}.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-1 text-xs text-gray-600 mb-4">
+              {tableEntries.map(([name, count]) => (
+                <div key={name} className="flex justify-between">
+                  <span>{name}</span>
+                  <span>{count}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2 mb-4">
+              <label className="flex items-start text-sm text-gray-700">
+                <input
+                  type="radio"
+                  className="mr-2 mt-1"
+                  checked={restoreMode === 'merge'}
+                  onChange={() => setRestoreMode('merge')}
+                />
+                <span>
+                  <strong>Merge</strong> into this store's data. Products, orders, customers and settings in the
+                  backup replace the same ones here, and stock levels, categories and budgets replace those for
+                  the same product, name or budget version. Expenses, revenue, purchase orders and other records
+                  you created are added alongside yours, with new ids where theirs are taken here; records
+                  identical to one here are skipped, but a record changed since the backup is added as a second
+                  copy. The sync history and the changes waiting to be pushed to WooCommerce are not merged.
+                </span>
+              </label>
+              <label className="flex items-start text-sm text-gray-700">
+                <input
+                  type="radio"
+                  className="mr-2 mt-1"
+                  checked={restoreMode === 'replace'}
+                  onChange={() => setRestoreMode('replace')}
+                />
+                <span>
+                  <strong>Replace</strong> all of this store's data with the backup.
+                </span>
+              </label>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => onRestore(restoreMode)}
+                disabled={working}
+                className={`text-sm text-white px-3 py-2 rounded disabled:opacity-60 ${restoreMode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+              >
+                {working ? 'Restoring...' : 'Restore'}
+              </button>
+              <button
+                onClick={handleCancel}
+                disabled={working}
+                className="text-sm bg-gray-100 text-gray-700 px-3 py-2 rounded hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupSection;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Layers, RefreshCw } from 'lucide-react';
+import { CostingMethod } from '../../types';
+
+interface CostingSectionProps {
+  costingMethod: CostingMethod;
+  recalculating: boolean;
+  onCostingMethodChange: (method: CostingMethod) => void;
+  onRecalculate: () => void;
+}
+
+const COSTING_METHODS: Array<{ value: CostingMethod; label: string; description: string }> = [
+  {
+    value: 'fifo',
+    label: 'FIFO (first in, first out)',
+    description: 'Each sale uses the cost of the oldest stock received from purchase orders.'
+  },
+  {
+    value: 'weighted_average',
+    label: 'Weighted average',
+    description: 'Each sale uses the average cost of all stock on hand at the time of sale.'
+  }
+];
+
+const CostingSection: React.FC<CostingSectionProps> = ({
+  costingMethod,
+  recalculating,
+  onCostingMethodChange,
+  onRecalculate
+}) => {
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <div className="flex items-center mb-4">
+        <Layers className="h-5 w-5 mr-2 text-gray-500" />
+        <h2 className="text-lg font-semibold">Cost of Goods</h2>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Order costs are worked out from the stock received on purchase orders and frozen the first time
+        an order is costed, so later price changes do not alter past margins. Stock sold without a matching
+        purchase order is costed at the supplier price in effect on the order date.
+      </p>
+
+      <div className="space-y-3 mb-4">
+        {COSTING_METHODS.map(method => (
+          <label key={method.value} className="flex items-start">
+            <input
+              type="radio"
+              name="costingMethod"
+              className="mt-1 mr-2"
+              value={method.value}
+              checked={costingMethod === method.value}
+              onChange={() => onCostingMethodChange(method.value)}
+            />
+            <div>
+              <span className="text-sm font-medium text-gray-700">{method.label}</span>
+              <p className="text-xs text-gray-500">{method.description}</p>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <div className="bg-gray-50 p-4 rounded-md flex items-center justify-between">
+        <p className="text-xs text-gray-600 mr-4">
+          A new method only applies to orders that have not been costed yet. Recalculate to re-cost every
+          order with the selected method, for example after correcting a purchase order.
+        </p>
+        <button
+          onClick={onRecalculate}
+          disabled={recalculating}
+          className="flex items-center text-sm bg-gray-100 text-gray-700 px-3 py-2 rounded hover:bg-gray-200 disabled:opacity-50 whitespace-nowrap"
+        >
+          <RefreshCw className={`h-4 w-4 mr-1 ${recalculating ? 'animate-spin' : ''}`} />
+          Recalculate Costs
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CostingSection;
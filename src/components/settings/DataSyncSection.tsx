@@ -1,5 +1,6 @@
 import React from 'react';
 import { RefreshCw } from 'lucide-react';
+import { SyncJob, SyncJobType } from '../../types';
 import SyncOptionsSection from './SyncOptionsSection';
 import SyncStatusSection from './SyncStatusSection';
 
@@ -8,7 +9,7 @@ interface DataSyncSectionProps {
   syncProgress: number;
   credentialsExist: boolean;
   showSyncOptions: boolean;
-  syncType: 'all' | 'products' | 'year' | 'custom';
+  syncType: SyncJobType;
   syncYear: number;
   syncStartDate: string;
   syncEndDate: string;
@@ -17,13 +18,17 @@ interface DataSyncSectionProps {
     products: Date | null;
     orders: Date | null;
     inventory: Date | null;
+    customers: Date | null;
   };
+  resumableJob: SyncJob | null;
+  syncHistory: SyncJob[];
   onToggleSyncOptions: () => void;
-  onSyncTypeChange: (type: 'all' | 'products' | 'year' | 'custom') => void;
+  onSyncTypeChange: (type: SyncJobType) => void;
   onSyncYearChange: (year: number) => void;
   onSyncStartDateChange: (date: string) => void;
   onSyncEndDateChange: (date: string) => void;
   onSyncData: () => void;
+  onResumeSync: () => void;
 }
 
 const DataSyncSection: React.FC<DataSyncSectionProps> = ({
@@ -37,12 +42,15 @@ const DataSyncSection: React.FC<DataSyncSectionProps> = ({
   syncEndDate,
   years,
   lastSyncTimes,
+  resumableJob,
+  syncHistory,
   onToggleSyncOptions,
   onSyncTypeChange,
   onSyncYearChange,
   onSyncStartDateChange,
   onSyncEndDateChange,
-  onSyncData
+  onSyncData,
+  onResumeSync
 }) => {
   return (
     <div className="bg-white shadow rounded-lg p-6 mb-8">
@@ -100,6 +108,11 @@ const DataSyncSection: React.FC<DataSyncSectionProps> = ({
       <SyncStatusSection
         lastSyncTimes={lastSyncTimes}
         syncProgress={syncProgress}
+        isSyncing={syncing}
+        canSync={credentialsExist}
+        resumableJob={resumableJob}
+        history={syncHistory}
+        onResume={onResumeSync}
       />
     </div>
   );
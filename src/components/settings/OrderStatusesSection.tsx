@@ -0,0 +1,54 @@
+import React from 'react';
+import { ListChecks } from 'lucide-react';
+import { ORDER_STATUSES } from '../../services/pnl/refunds';
+
+interface OrderStatusesSectionProps {
+  orderStatuses: string[];
+  onOrderStatusesChange: (statuses: string[]) => void;
+}
+
+const formatStatus = (status: string) => {
+  return status.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase());
+};
+
+const OrderStatusesSection: React.FC<OrderStatusesSectionProps> = ({
+  orderStatuses,
+  onOrderStatusesChange
+}) => {
+  const toggleStatus = (status: string) => {
+    onOrderStatusesChange(orderStatuses.includes(status)
+      ? orderStatuses.filter(s => s !== status)
+      : [...orderStatuses, status]
+    );
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <div className="flex items-center mb-4">
+        <ListChecks className="h-5 w-5 mr-2 text-gray-500" />
+        <h2 className="text-lg font-semibold">Orders in Profit &amp; Loss</h2>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Choose which order statuses count towards revenue and cost of goods. Refunds are taken off the
+        order they belong to, and refunded items that went back into stock are taken off the cost of goods.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {ORDER_STATUSES.map(status => (
+          <label key={status} className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={orderStatuses.includes(status)}
+              onChange={() => toggleStatus(status)}
+            />
+            {formatStatus(status)}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default OrderStatusesSection;
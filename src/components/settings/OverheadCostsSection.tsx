@@ -1,6 +1,7 @@
 import React from 'react';
 import { Plus, Trash2 } from 'lucide-react';
 import { OverheadCost } from '../../types';
+import { getCurrencySymbol } from '../../utils/currencyUtils';
 
 interface OverheadCostsSectionProps {
   overheadCosts: OverheadCost[];
@@ -78,7 +79,7 @@ const OverheadCostsSection: React.FC<OverheadCostsSectionProps> = ({
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="flex items-center">
                     {cost.type === 'percentage' && <span className="mr-2">%</span>}
-                    {cost.type !== 'percentage' && <span className="mr-2">$</span>}
+                    {cost.type !== 'percentage' && <span className="mr-2">{getCurrencySymbol()}</span>}
                     <input
                       type="number"
                       step="0.01"
@@ -0,0 +1,220 @@
+import React from 'react';
+import { CreditCard, Plus, Trash2 } from 'lucide-react';
+import { PaymentFeeSchedule, PaymentFeeTier } from '../../types';
+import { getCurrencySymbol } from '../../utils/currencyUtils';
+
+interface PaymentFeesSectionProps {
+  schedules: PaymentFeeSchedule[];
+  paymentMethods: Array<{ id: string; title: string }>;
+  onAddSchedule: () => void;
+  onRemoveSchedule: (id: number) => void;
+  onScheduleChange: (id: number, field: keyof PaymentFeeSchedule, value: PaymentFeeSchedule[keyof PaymentFeeSchedule]) => void;
+}
+
+const PaymentFeesSection: React.FC<PaymentFeesSectionProps> = ({
+  schedules,
+  paymentMethods,
+  onAddSchedule,
+  onRemoveSchedule,
+  onScheduleChange
+}) => {
+  const currencySymbol = getCurrencySymbol();
+
+  const handleAddTier = (schedule: PaymentFeeSchedule) => {
+    const tiers = schedule.tiers || [];
+    const lastTier = tiers[tiers.length - 1];
+    onScheduleChange(schedule.id, 'tiers', [
+      ...tiers,
+      {
+        min_amount: lastTier ? lastTier.min_amount + 100 : 100,
+        percentage: lastTier ? lastTier.percentage : schedule.percentage,
+        fixed: lastTier ? lastTier.fixed : schedule.fixed
+      }
+    ]);
+  };
+
+  const handleRemoveTier = (schedule: PaymentFeeSchedule, index: number) => {
+    onScheduleChange(schedule.id, 'tiers', (schedule.tiers || []).filter((_, i) => i !== index));
+  };
+
+  const handleTierChange = (schedule: PaymentFeeSchedule, index: number, field: keyof PaymentFeeTier, value: number) => {
+    onScheduleChange(schedule.id, 'tiers', (schedule.tiers || []).map((tier, i) =>
+      i === index ? { ...tier, [field]: value } : tier
+    ));
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center">
+          <CreditCard className="h-5 w-5 mr-2 text-gray-500" />
+          <h2 className="text-lg font-semibold">Payment Gateway Fees</h2>
+        </div>
+        <button
+          onClick={onAddSchedule}
+          className="flex items-center text-sm bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Fee Schedule
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Set what each payment method costs per order: a percentage of the amount charged plus a fixed fee.
+        Tiers replace these rates for orders of at least their amount. When a gateway changes its fees, add a
+        schedule for the new rates with the date they start so past orders keep the old ones. Remove any
+        percentage overhead cost you used to approximate card fees, or they will be counted twice.
+      </p>
+
+      {/* Gateway ids seen on orders, offered as suggestions */}
+      <datalist id="payment-methods">
+        {paymentMethods.map(method => (
+          <option key={method.id} value={method.id}>{method.title}</option>
+        ))}
+      </datalist>
+
+      <div className="space-y-4">
+        {schedules.map(schedule => (
+          <div key={schedule.id} className="border rounded-lg p-4">
+            <div className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Payment Method</label>
+                <input
+                  type="text"
+                  list="payment-methods"
+                  className="w-full p-2 border rounded"
+                  placeholder="e.g. stripe"
+                  value={schedule.payment_method}
+                  onChange={(e) => onScheduleChange(schedule.id, 'payment_method', e.target.value.trim())}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Name</label>
+                <input
+                  type="text"
+                  className="w-full p-2 border rounded"
+                  placeholder="e.g. Stripe domestic cards"
+                  value={schedule.name}
+                  onChange={(e) => onScheduleChange(schedule.id, 'name', e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Percentage</label>
+                <div className="flex items-center">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="w-24 p-2 border rounded"
+                    value={schedule.percentage}
+                    onChange={(e) => onScheduleChange(schedule.id, 'percentage', parseFloat(e.target.value) || 0)}
+                  />
+                  <span className="ml-2">%</span>
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Fixed Fee</label>
+                <div className="flex items-center">
+                  <span className="mr-2">{currencySymbol}</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="w-24 p-2 border rounded"
+                    value={schedule.fixed}
+                    onChange={(e) => onScheduleChange(schedule.id, 'fixed', parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Effective From</label>
+                <input
+                  type="date"
+                  className="w-full p-2 border rounded"
+                  value={schedule.effective_from || ''}
+                  onChange={(e) => onScheduleChange(schedule.id, 'effective_from', e.target.value || undefined)}
+                />
+              </div>
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <label className="block text-xs font-medium text-gray-500 mb-1">Effective To</label>
+                  <input
+                    type="date"
+                    className="w-full p-2 border rounded"
+                    value={schedule.effective_to || ''}
+                    onChange={(e) => onScheduleChange(schedule.id, 'effective_to', e.target.value || undefined)}
+                  />
+                </div>
+                <button
+                  onClick={() => onRemoveSchedule(schedule.id)}
+                  className="text-red-600 hover:text-red-900 p-2"
+                  title="Remove fee schedule"
+                >
+                  <Trash2 className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+
+            {/* Tiers */}
+            <div className="mt-3">
+              {(schedule.tiers || []).map((tier, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 text-sm text-gray-700 mb-2">
+                  <span>Orders from</span>
+                  <span>{currencySymbol}</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="w-24 p-1 border rounded"
+                    value={tier.min_amount}
+                    onChange={(e) => handleTierChange(schedule, index, 'min_amount', parseFloat(e.target.value) || 0)}
+                  />
+                  <span>pay</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="w-20 p-1 border rounded"
+                    value={tier.percentage}
+                    onChange={(e) => handleTierChange(schedule, index, 'percentage', parseFloat(e.target.value) || 0)}
+                  />
+                  <span>% plus {currencySymbol}</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="w-20 p-1 border rounded"
+                    value={tier.fixed}
+                    onChange={(e) => handleTierChange(schedule, index, 'fixed', parseFloat(e.target.value) || 0)}
+                  />
+                  <button
+                    onClick={() => handleRemoveTier(schedule, index)}
+                    className="text-red-600 hover:text-red-900"
+                    title="Remove tier"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => handleAddTier(schedule)}
+                className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add tier
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {schedules.length === 0 && (
+          <p className="text-center text-sm text-gray-500 py-4">
+            No fee schedules defined. Click "Add Fee Schedule" to add one.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PaymentFeesSection;
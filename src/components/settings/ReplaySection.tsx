@@ -0,0 +1,253 @@
+import React, { useRef, useState } from 'react';
+import { PlayCircle, Download, Upload, Trash2, Wand2 } from 'lucide-react';
+import { ReplayFixturesSummary, ReplayScenarioOptions } from '../../types';
+import { formatStoreDate } from '../../utils/dateUtils';
+import { DEFAULT_SCENARIO_OPTIONS } from '../../services/replay/scenario';
+
+interface ReplaySectionProps {
+  fixtures: ReplayFixturesSummary[];
+  replayName: string | null;
+  recordName: string | null;
+  working: boolean;
+  onReplayChange: (name: string | null) => void;
+  onRecordChange: (name: string | null) => void;
+  onGenerate: (name: string, options: Partial<ReplayScenarioOptions>) => void;
+  onExport: (name: string) => void;
+  onImport: (json: string) => void;
+  onDelete: (name: string) => void;
+}
+
+const SOURCE_LABELS: Record<ReplayFixturesSummary['source'], string> = {
+  recorded: 'Recorded',
+  generated: 'Generated',
+  imported: 'Imported'
+};
+
+const ReplaySection: React.FC<ReplaySectionProps> = ({
+  fixtures,
+  replayName,
+  recordName,
+  working,
+  onReplayChange,
+  onRecordChange,
+  onGenerate,
+  onExport,
+  onImport,
+  onDelete
+}) => {
+  const [scenarioName, setScenarioName] = useState('Demo store');
+  const [scenario, setScenario] = useState<ReplayScenarioOptions>(DEFAULT_SCENARIO_OPTIONS);
+  const [recordInto, setRecordInto] = useState('Recorded store');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleScenarioChange = (field: keyof ReplayScenarioOptions, value: string) => {
+    setScenario({ ...scenario, [field]: parseFloat(value) || 0 });
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      onImport(event.target?.result as string);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const scenarioFields: Array<{ field: keyof ReplayScenarioOptions; label: string; step: string }> = [
+    { field: 'seed', label: 'Seed', step: '1' },
+    { field: 'productCount', label: 'Products', step: '1' },
+    { field: 'variableShare', label: 'Share with variations', step: '0.05' },
+    { field: 'months', label: 'Months of orders', step: '1' },
+    { field: 'ordersPerDay', label: 'Orders per day', step: '1' },
+    { field: 'refundRate', label: 'Refund rate', step: '0.01' },
+    { field: 'couponRate', label: 'Coupon rate', step: '0.01' },
+    { field: 'gstRate', label: 'GST rate (%)', step: '0.5' }
+  ];
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <div className="flex items-center mb-4">
+        <PlayCircle className="h-5 w-5 mr-2 text-gray-500" />
+        <h2 className="text-lg font-semibold">Offline Replay</h2>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Replay mode answers sync requests from recorded or generated WooCommerce responses instead of the
+        live store, so syncing, the P&amp;L and reports can be demonstrated and checked without network access.
+        Replayed orders are stored like real ones; use a separate store for replaying.
+      </p>
+
+      {replayName && (
+        <div className="bg-purple-50 p-3 rounded-md mb-4 flex justify-between items-center">
+          <p className="text-sm text-purple-700">
+            Syncing from <strong>{replayName}</strong> instead of the live store.
+          </p>
+          <button
+            onClick={() => onReplayChange(null)}
+            disabled={working}
+            className="text-sm bg-purple-600 text-white px-3 py-1 rounded hover:bg-purple-700 disabled:bg-purple-400"
+          >
+            Use Live Store
+          </button>
+        </div>
+      )}
+
+      {/* Fixture sets */}
+      {fixtures.length > 0 ? (
+        <div className="overflow-x-auto mb-6">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fixtures</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Products</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Orders</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Updated</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {fixtures.map(fixture => (
+                <tr key={fixture.name}>
+                  <td className="px-4 py-2 text-sm text-gray-900">
+                    {fixture.name}
+                    {fixture.name === recordName && (
+                      <span className="ml-2 text-xs bg-red-100 text-red-800 px-2 py-0.5 rounded">Recording</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-500">{SOURCE_LABELS[fixture.source]}</td>
+                  <td className="px-4 py-2 text-sm text-gray-500">{fixture.productCount}</td>
+                  <td className="px-4 py-2 text-sm text-gray-500">{fixture.orderCount}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{formatStoreDate(new Date(fixture.updated_at))}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right text-sm">
+                    {fixture.name === replayName ? (
+                      <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded">Replaying</span>
+                    ) : (
+                      <button
+                        onClick={() => onReplayChange(fixture.name)}
+                        disabled={working}
+                        className="text-blue-600 hover:text-blue-800 disabled:text-gray-300 mr-3"
+                      >
+                        Replay
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onExport(fixture.name)}
+                      className="p-1 text-gray-600 hover:text-gray-800"
+                      title="Download as JSON"
+                    >
+                      <Download className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => onDelete(fixture.name)}
+                      disabled={working}
+                      className="p-1 text-red-600 hover:text-red-800 disabled:text-gray-300"
+                      title="Delete fixtures"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mb-6">No fixtures yet. Generate a scenario, record the live store or import a file.</p>
+      )}
+
+      {/* Scenario generator */}
+      <h3 className="text-sm font-medium text-gray-700 mb-2">Generate a Scenario</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Name</label>
+          <input
+            type="text"
+            className="w-full p-2 border rounded"
+            value={scenarioName}
+            onChange={(e) => setScenarioName(e.target.value)}
+          />
+        </div>
+        {scenarioFields.map(({ field, label, step }) => (
+          <div key={field}>
+            <label className="block text-xs text-gray-500 mb-1">{label}</label>
+            <input
+              type="number"
+              min="0"
+              step={step}
+              className="w-full p-2 border rounded"
+              value={scenario[field]}
+              onChange={(e) => handleScenarioChange(field, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => onGenerate(scenarioName.trim(), scenario)}
+        disabled={working || !scenarioName.trim()}
+        className="flex items-center text-sm bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700 disabled:bg-blue-400 mb-6"
+      >
+        <Wand2 className="h-4 w-4 mr-1" />
+        Generate
+      </button>
+
+      {/* Recording and import */}
+      <h3 className="text-sm font-medium text-gray-700 mb-2">Record or Import</h3>
+      <div className="flex flex-wrap items-center gap-2">
+        {recordName ? (
+          <button
+            onClick={() => onRecordChange(null)}
+            className="text-sm bg-red-600 text-white px-3 py-2 rounded hover:bg-red-700"
+          >
+            Stop Recording
+          </button>
+        ) : (
+          <>
+            <input
+              type="text"
+              className="p-2 border rounded text-sm"
+              value={recordInto}
+              onChange={(e) => setRecordInto(e.target.value)}
+            />
+            <button
+              onClick={() => onRecordChange(recordInto.trim())}
+              disabled={!recordInto.trim() || !!replayName}
+              className="text-sm bg-gray-100 text-gray-700 px-3 py-2 rounded hover:bg-gray-200 disabled:text-gray-400"
+              title={replayName ? 'Only the live store can be recorded' : 'Record responses of the next syncs'}
+            >
+              Record Live Syncs
+            </button>
+          </>
+        )}
+
+        <input
+          type="file"
+          accept=".json"
+          onChange={handleFileUpload}
+          ref={fileInputRef}
+          className="hidden"
+          id="replay-fixtures-upload"
+        />
+        <label
+          htmlFor="replay-fixtures-upload"
+          className="text-sm px-3 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 flex items-center cursor-pointer"
+        >
+          <Upload className="h-4 w-4 mr-1" />
+          Import Fixtures
+        </label>
+      </div>
+      {recordName && (
+        <p className="text-xs text-gray-500 mt-2">
+          Product, variation, order and refund responses of syncs are being saved to {recordName}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReplaySection;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { ShieldCheck, Lock } from 'lucide-react';
+
+interface SecuritySectionProps {
+  vaultConfigured: boolean;
+  autoLockMinutes: number;
+  working: boolean;
+  onSetPassphrase: (passphrase: string) => void;
+  onChangePassphrase: (currentPassphrase: string, newPassphrase: string) => void;
+  onAutoLockChange: (minutes: number) => void;
+  onLock: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [
+  { value: 5, label: '5 minutes' },
+  { value: 15, label: '15 minutes' },
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 240, label: '4 hours' },
+  { value: 0, label: 'Never' }
+];
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const SecuritySection: React.FC<SecuritySectionProps> = ({
+  vaultConfigured,
+  autoLockMinutes,
+  working,
+  onSetPassphrase,
+  onChangePassphrase,
+  onAutoLockChange,
+  onLock
+}) => {
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+
+  const tooShort = newPassphrase.length > 0 && newPassphrase.length < MIN_PASSPHRASE_LENGTH;
+  const mismatch = confirmPassphrase.length > 0 && newPassphrase !== confirmPassphrase;
+  const canSubmit = newPassphrase.length >= MIN_PASSPHRASE_LENGTH
+    && newPassphrase === confirmPassphrase
+    && (!vaultConfigured || currentPassphrase.length > 0);
+
+  const handleSubmit = () => {
+    if (vaultConfigured) {
+      onChangePassphrase(currentPassphrase, newPassphrase);
+    } else {
+      onSetPassphrase(newPassphrase);
+    }
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center">
+          <ShieldCheck className="h-5 w-5 mr-2 text-gray-500" />
+          <h2 className="text-lg font-semibold">Passphrase</h2>
+        </div>
+        {vaultConfigured && (
+          <button
+            onClick={onLock}
+            className="flex items-center text-sm bg-gray-100 text-gray-700 px-3 py-2 rounded hover:bg-gray-200"
+          >
+            <Lock className="h-4 w-4 mr-1" />
+            Lock Now
+          </button>
+        )}
+      </div>
+
+      {vaultConfigured ? (
+        <p className="text-sm text-gray-500 mb-4">
+          This store's API credentials are encrypted with a key derived from your passphrase. The app asks for it
+          when opened and after it has been left idle. Changing the passphrase re-encrypts the credentials.
+        </p>
+      ) : (
+        <div className="bg-yellow-50 p-4 rounded-md mb-4">
+          <p className="text-sm text-yellow-700">
+            Without a passphrase, API credentials are only obfuscated, and anyone using this browser can open the
+            app. Set a passphrase to encrypt them and lock the app when it is left idle. A forgotten passphrase
+            cannot be recovered; the credentials then have to be entered again.
+          </p>
+        </div>
+      )}
+
+      {vaultConfigured && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Lock after inactivity</label>
+          <select
+            className="p-2 border rounded"
+            value={autoLockMinutes}
+            onChange={(e) => onAutoLockChange(parseInt(e.target.value, 10))}
+            disabled={working}
+          >
+            {AUTO_LOCK_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <h3 className="font-medium mb-2">{vaultConfigured ? 'Change Passphrase' : 'Set Passphrase'}</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {vaultConfigured && (
+          <input
+            type="password"
+            className="p-2 border rounded"
+            placeholder="Current passphrase"
+            autoComplete="current-password"
+            value={currentPassphrase}
+            onChange={(e) => setCurrentPassphrase(e.target.value)}
+          />
+        )}
+        <input
+          type="password"
+          className={`p-2 border rounded ${tooShort ? 'border-red-400' : ''}`}
+          placeholder="New passphrase"
+          autoComplete="new-password"
+          value={newPassphrase}
+          onChange={(e) => setNewPassphrase(e.target.value)}
+        />
+        <input
+          type="password"
+          className={`p-2 border rounded ${mismatch ? 'border-red-400' : ''}`}
+          placeholder="Confirm new passphrase"
+          autoComplete="new-password"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+        />
+      </div>
+      {tooShort && (
+        <p className="text-xs text-red-600 mt-1">Use at least {MIN_PASSPHRASE_LENGTH} characters</p>
+      )}
+      {mismatch && (
+        <p className="text-xs text-red-600 mt-1">The passphrases do not match</p>
+      )}
+      <div className="flex justify-end mt-4">
+        <button
+          onClick={handleSubmit}
+          disabled={working || !canSubmit}
+          className="text-sm bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          {vaultConfigured ? 'Change Passphrase' : 'Set Passphrase'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SecuritySection;
@@ -0,0 +1,144 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { StoreProfile } from '../../types';
+
+interface StoreProfileSectionProps {
+  storeProfile: StoreProfile;
+  onStoreProfileChange: (field: keyof StoreProfile, value: string | number) => void;
+}
+
+// Common choices; any valid IANA timezone, currency code or locale can still be typed in
+const COMMON_TIMEZONES = [
+  'Pacific/Auckland',
+  'Australia/Sydney',
+  'Australia/Melbourne',
+  'Australia/Brisbane',
+  'Australia/Adelaide',
+  'Australia/Perth',
+  'Europe/London',
+  'America/New_York',
+  'America/Los_Angeles',
+  'UTC'
+];
+const COMMON_CURRENCIES = ['NZD', 'AUD', 'USD', 'GBP', 'EUR', 'CAD'];
+const COMMON_LOCALES = ['en-NZ', 'en-AU', 'en-US', 'en-GB', 'en-CA'];
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const StoreProfileSection: React.FC<StoreProfileSectionProps> = ({
+  storeProfile,
+  onStoreProfileChange
+}) => {
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <div className="flex items-center mb-4">
+        <Globe className="h-5 w-5 mr-2 text-gray-500" />
+        <h2 className="text-lg font-semibold">Store Profile</h2>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        These settings control how dates, periods and amounts are calculated and displayed.
+        Use the timezone and currency your WooCommerce store is configured with.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Timezone
+          </label>
+          <input
+            type="text"
+            list="store-timezones"
+            className="w-full p-2 border rounded"
+            placeholder="Pacific/Auckland"
+            value={storeProfile.timezone}
+            onChange={(e) => onStoreProfileChange('timezone', e.target.value.trim())}
+          />
+          <datalist id="store-timezones">
+            {COMMON_TIMEZONES.map(timezone => (
+              <option key={timezone} value={timezone} />
+            ))}
+          </datalist>
+          <p className="text-xs text-gray-500 mt-1">IANA timezone name, e.g. Australia/Sydney</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Currency
+          </label>
+          <input
+            type="text"
+            list="store-currencies"
+            className="w-full p-2 border rounded"
+            placeholder="NZD"
+            value={storeProfile.currency}
+            onChange={(e) => onStoreProfileChange('currency', e.target.value.trim().toUpperCase())}
+          />
+          <datalist id="store-currencies">
+            {COMMON_CURRENCIES.map(currency => (
+              <option key={currency} value={currency} />
+            ))}
+          </datalist>
+          <p className="text-xs text-gray-500 mt-1">Three-letter currency code, e.g. AUD</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Locale
+          </label>
+          <input
+            type="text"
+            list="store-locales"
+            className="w-full p-2 border rounded"
+            placeholder="en-NZ"
+            value={storeProfile.locale}
+            onChange={(e) => onStoreProfileChange('locale', e.target.value.trim())}
+          />
+          <datalist id="store-locales">
+            {COMMON_LOCALES.map(locale => (
+              <option key={locale} value={locale} />
+            ))}
+          </datalist>
+          <p className="text-xs text-gray-500 mt-1">Used for number and date formats, e.g. en-AU</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Fiscal Year Starts
+          </label>
+          <select
+            className="w-full p-2 border rounded"
+            value={storeProfile.fiscalYearStartMonth}
+            onChange={(e) => onStoreProfileChange('fiscalYearStartMonth', parseInt(e.target.value, 10))}
+          >
+            {MONTHS.map((month, index) => (
+              <option key={month} value={index + 1}>{month}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">April for New Zealand, July for Australia</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            GST Rate (%)
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            className="w-full p-2 border rounded"
+            value={storeProfile.gstRate}
+            onChange={(e) => onStoreProfileChange('gstRate', parseFloat(e.target.value))}
+          />
+          <p className="text-xs text-gray-500 mt-1">15 for New Zealand, 10 for Australia, 0 if not registered</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoreProfileSection;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Store as StoreIcon, Trash2 } from 'lucide-react';
+import { Store } from '../../types';
+import { DEFAULT_STORE_ID } from '../../db';
+
+interface StoresSectionProps {
+  stores: Store[];
+  currentStoreId: number;
+  onStoreNameChange: (storeId: number, name: string) => void;
+  onDeleteStore: (storeId: number) => void;
+}
+
+const StoresSection: React.FC<StoresSectionProps> = ({
+  stores,
+  currentStoreId,
+  onStoreNameChange,
+  onDeleteStore
+}) => {
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <div className="flex items-center mb-4">
+        <StoreIcon className="h-5 w-5 mr-2 text-gray-500" />
+        <h2 className="text-lg font-semibold">Stores</h2>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Each store has its own API credentials, profile and data. Use the store selector in the
+        sidebar to switch between stores or add a new one. The settings on this page apply to the
+        current store only.
+      </p>
+
+      <div className="space-y-2">
+        {stores.map(store => (
+          <div key={store.id} className="flex items-center space-x-2">
+            <input
+              type="text"
+              className="flex-1 p-2 border rounded"
+              value={store.name}
+              onChange={(e) => onStoreNameChange(store.id!, e.target.value)}
+            />
+            {store.id === currentStoreId ? (
+              <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">Current</span>
+            ) : (
+              <button
+                onClick={() => onDeleteStore(store.id!)}
+                disabled={store.id === DEFAULT_STORE_ID}
+                className="p-2 text-red-600 hover:text-red-800 disabled:text-gray-300"
+                title={store.id === DEFAULT_STORE_ID ? 'The default store cannot be deleted' : 'Delete store and all of its data'}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StoresSection;
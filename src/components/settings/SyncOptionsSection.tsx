@@ -1,16 +1,18 @@
 import React from 'react';
 import { format } from 'date-fns';
 import { ChevronDown, ChevronUp, AlertCircle } from 'lucide-react';
+import { getStoreTimezone } from '../../utils/storeProfile';
+import { SyncJobType } from '../../types';
 
 interface SyncOptionsSectionProps {
   showSyncOptions: boolean;
-  syncType: 'all' | 'products' | 'inventory' | 'year' | 'custom';
+  syncType: SyncJobType;
   syncYear: number;
   syncStartDate: string;
   syncEndDate: string;
   years: number[];
   onToggleSyncOptions: () => void;
-  onSyncTypeChange: (type: 'all' | 'products' | 'inventory' | 'year' | 'custom') => void;
+  onSyncTypeChange: (type: SyncJobType) => void;
   onSyncYearChange: (year: number) => void;
   onSyncStartDateChange: (date: string) => void;
   onSyncEndDateChange: (date: string) => void;
@@ -70,10 +72,11 @@ const SyncOptionsSection: React.FC<SyncOptionsSectionProps> = ({
                 checked={syncType === 'all'}
                 onChange={() => onSyncTypeChange('all')}
               />
-              <span className="ml-2">Sync all data (last 3 months)</span>
+              <span className="ml-2">Sync all changes</span>
             </label>
             <p className="text-xs text-gray-500 mt-1 ml-6">
-              This will sync products, inventory, and orders from the last 3 months, month by month.
+              This will sync products and orders created or modified since the last sync and all customers, then rebuild inventory.
+              The first sync fetches orders from the last 3 months.
             </p>
           </div>
           
@@ -94,6 +97,23 @@ const SyncOptionsSection: React.FC<SyncOptionsSectionProps> = ({
             </p>
           </div>
           
+          <div>
+            <label className="inline-flex items-center">
+              <input
+                type="radio"
+                className="form-radio"
+                name="syncType"
+                value="customers"
+                checked={syncType === 'customers'}
+                onChange={() => onSyncTypeChange('customers')}
+              />
+              <span className="ml-2">Sync customers only</span>
+            </label>
+            <p className="text-xs text-gray-500 mt-1 ml-6">
+              This will sync registered customers. Guest customers are taken from their orders.
+            </p>
+          </div>
+          
           <div>
             <label className="inline-flex items-center">
               <input
@@ -198,7 +218,7 @@ const SyncOptionsSection: React.FC<SyncOptionsSectionProps> = ({
           
           <div className="bg-blue-50 p-3 rounded-md">
             <p className="text-xs text-blue-700">
-              <strong>Note:</strong> All dates and times are in New Zealand timezone (NZST/NZDT).
+              <strong>Note:</strong> All dates and times are in the store timezone ({getStoreTimezone()}).
               Data is processed in small batches to avoid overwhelming the WooCommerce API.
             </p>
           </div>
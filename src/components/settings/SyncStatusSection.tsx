@@ -1,24 +1,77 @@
 import React from 'react';
-import { format } from 'date-fns';
-import { Info } from 'lucide-react';
-import { formatNZDate, getNZTimezone } from '../../services/api/utils';
+import { Info, AlertTriangle, RotateCw } from 'lucide-react';
+import { SyncJob } from '../../types';
+import { getStoreTimezoneName } from '../../services/api/utils';
+import { formatStoreDate } from '../../utils/dateUtils';
 
 interface SyncStatusSectionProps {
   lastSyncTimes: {
     products: Date | null;
     orders: Date | null;
     inventory: Date | null;
+    customers: Date | null;
   };
   syncProgress: number;
+  isSyncing: boolean;
+  canSync: boolean;
+  resumableJob: SyncJob | null;
+  history: SyncJob[];
+  onResume: () => void;
 }
 
+const SYNC_TYPE_LABELS: Record<SyncJob['request']['type'], string> = {
+  all: 'All data',
+  products: 'Products',
+  customers: 'Customers',
+  inventory: 'Inventory',
+  year: 'Orders by year',
+  custom: 'Orders by date range'
+};
+
+const STATUS_CLASSES: Record<SyncJob['status'], string> = {
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+};
+
+const getJobLabel = (job: SyncJob) => {
+  const { request } = job;
+  if (request.type === 'year') return `${SYNC_TYPE_LABELS.year} ${request.year}`;
+  if (request.type === 'custom') return `${SYNC_TYPE_LABELS.custom} ${request.startDay} to ${request.endDay}`;
+  return SYNC_TYPE_LABELS[request.type];
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const formatCounts = (counts: Record<string, number>) => {
+  const entries = Object.entries(counts);
+  if (entries.length === 0) return '-';
+  return entries.map(([entity, count]) => `${count} ${entity}`).join(', ');
+};
+
 const SyncStatusSection: React.FC<SyncStatusSectionProps> = ({
   lastSyncTimes,
-  syncProgress
+  syncProgress,
+  isSyncing,
+  canSync,
+  resumableJob,
+  history,
+  onResume
 }) => {
   const formatSyncTime = (date: Date | null) => {
     if (!date) return 'Never';
-    return format(date, `dd/MM/yyyy h:mm a '(${getNZTimezone()}')`);
+    return `${formatStoreDate(date)} (${getStoreTimezoneName(date)})`;
+  };
+
+  // A job still marked running while this page isn't syncing was interrupted
+  const getStatusLabel = (job: SyncJob) => {
+    if (job.status === 'running' && !isSyncing) return 'Interrupted';
+    return job.status.charAt(0).toUpperCase() + job.status.slice(1);
   };
 
   return (
@@ -36,21 +89,47 @@ const SyncStatusSection: React.FC<SyncStatusSectionProps> = ({
         </div>
       )}
       
+      {/* Resume an unfinished sync */}
+      {resumableJob && !isSyncing && (
+        <div className="bg-orange-50 p-4 rounded-md mb-4 flex items-start justify-between">
+          <div className="flex items-start">
+            <AlertTriangle className="h-5 w-5 text-orange-600 mr-2 mt-0.5" />
+            <div>
+              <p className="text-orange-700 font-medium">
+                {getJobLabel(resumableJob)} sync {resumableJob.status === 'failed' ? 'failed' : 'was interrupted'}
+              </p>
+              <p className="text-sm text-orange-600">
+                Started {formatStoreDate(new Date(resumableJob.started_at))}, {formatCounts(resumableJob.counts)} stored so far.
+                Resuming carries on from the last page that was saved.
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onResume}
+            disabled={!canSync}
+            className="flex items-center text-sm bg-orange-600 text-white px-3 py-2 rounded hover:bg-orange-700 disabled:bg-orange-400 ml-4"
+          >
+            <RotateCw className="h-4 w-4 mr-1" />
+            Resume
+          </button>
+        </div>
+      )}
+      
       {/* Sync Optimization Info */}
       <div className="bg-blue-50 p-4 rounded-md mb-4 flex items-start">
         <Info className="h-5 w-5 text-blue-600 mr-2 mt-0.5" />
         <div>
           <p className="text-blue-700 font-medium">Smart Synchronization</p>
           <p className="text-sm text-blue-600">
-            The system syncs data month by month and avoids re-syncing existing data to optimize performance and reduce API calls.
-            Products are only synced if they haven't been updated in the last 24 hours. All dates and times are in New Zealand timezone.
+            The system remembers the latest change it has seen and only asks the store for products and orders modified since then,
+            so routine syncs take seconds. Changed records replace their stored copies. All dates and times are in New Zealand timezone.
           </p>
         </div>
       </div>
       
       <div className="bg-gray-50 p-4 rounded-md mb-4">
         <h3 className="text-sm font-medium text-gray-700 mb-2">Last Sync Times</h3>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <div>
             <p className="text-xs text-gray-500">Products</p>
             <p className="text-sm">{formatSyncTime(lastSyncTimes.products)}</p>
@@ -63,13 +142,64 @@ const SyncStatusSection: React.FC<SyncStatusSectionProps> = ({
             <p className="text-xs text-gray-500">Inventory</p>
             <p className="text-sm">{formatSyncTime(lastSyncTimes.inventory)}</p>
           </div>
+          <div>
+            <p className="text-xs text-gray-500">Customers</p>
+            <p className="text-sm">{formatSyncTime(lastSyncTimes.customers)}</p>
+          </div>
         </div>
       </div>
       
+      {/* Sync History */}
+      {history.length > 0 && (
+        <div className="mb-4">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Sync History</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sync</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Started</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Records</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Duration</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Retries</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {history.map(job => (
+                  <tr key={job.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {getJobLabel(job)}
+                      {job.errors.length > 0 && (
+                        <p className="text-xs text-red-600">{job.errors[job.errors.length - 1]}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {formatStoreDate(new Date(job.started_at))}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        getStatusLabel(job) === 'Interrupted' ? STATUS_CLASSES.failed : STATUS_CLASSES[job.status]
+                      }`}>
+                        {getStatusLabel(job)}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{formatCounts(job.counts)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{formatDuration(job.duration_ms)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{job.retries}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+      
       <div className="bg-yellow-50 p-3 rounded-md">
         <p className="text-xs text-yellow-700">
           <strong>API Rate Limiting:</strong> WooCommerce REST API has a limit of 100 items per page. 
           This application optimizes requests by processing data in small batches to avoid overwhelming the API.
+          Rate-limited and failed requests are retried with increasing delays, honouring the store's Retry-After header.
         </p>
       </div>
     </div>
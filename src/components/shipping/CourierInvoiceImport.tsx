@@ -0,0 +1,180 @@
+import React, { useRef, useState } from 'react';
+import { Upload, FileText } from 'lucide-react';
+import * as Papa from 'papaparse';
+import { CourierInvoiceLine } from '../../services/api';
+
+interface CourierInvoiceImportProps {
+  importing: boolean;
+  onImport: (lines: CourierInvoiceLine[], options: { includesGst: boolean; carrier?: string }) => void;
+  onError: (message: string) => void;
+}
+
+// Guess a column from common courier invoice headings
+const guessColumn = (headers: string[], patterns: RegExp[]): string => {
+  for (const pattern of patterns) {
+    const header = headers.find(h => pattern.test(h));
+    if (header) return header;
+  }
+  return '';
+};
+
+const CourierInvoiceImport: React.FC<CourierInvoiceImportProps> = ({
+  importing,
+  onImport,
+  onError
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<Record<string, string>[]>([]);
+  const [orderColumn, setOrderColumn] = useState('');
+  const [amountColumn, setAmountColumn] = useState('');
+  const [referenceColumn, setReferenceColumn] = useState('');
+  const [carrier, setCarrier] = useState('');
+  const [includesGst, setIncludesGst] = useState(true);
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const csvData = event.target?.result as string;
+
+        Papa.parse<Record<string, string>>(csvData, {
+          header: true,
+          skipEmptyLines: true,
+          complete: (results) => {
+            const fields = results.meta.fields || [];
+            if (fields.length === 0 || results.data.length === 0) {
+              onError('The file has no rows to import');
+              return;
+            }
+
+            setFileName(file.name);
+            setHeaders(fields);
+            setRows(results.data);
+            setOrderColumn(guessColumn(fields, [/order/i, /reference/i, /ref/i]));
+            setAmountColumn(guessColumn(fields, [/total/i, /amount/i, /charge/i, /cost/i]));
+            setReferenceColumn(guessColumn(fields, [/consignment/i, /tracking/i, /connote/i, /invoice/i]));
+          },
+          error: (error: Error) => {
+            onError(`Error parsing CSV: ${error.message}`);
+          }
+        });
+      } catch (error) {
+        onError('Error reading CSV file: ' + (error instanceof Error ? error.message : String(error)));
+      }
+    };
+    reader.readAsText(file);
+
+    // Allow the same file to be chosen again
+    e.target.value = '';
+  };
+
+  const handleImport = () => {
+    const lines: CourierInvoiceLine[] = rows
+      .map(row => ({
+        order_number: (row[orderColumn] || '').trim(),
+        amount: parseFloat((row[amountColumn] || '').replace(/[^0-9.-]/g, '')),
+        reference: referenceColumn ? (row[referenceColumn] || '').trim() || undefined : undefined
+      }))
+      .filter(line => line.order_number && !isNaN(line.amount));
+
+    if (lines.length === 0) {
+      onError('No rows have both an order number and an amount');
+      return;
+    }
+
+    onImport(lines, { includesGst, carrier: carrier.trim() || undefined });
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-semibold mb-2">Import Courier Invoice</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Upload a courier invoice or consignment report as CSV. Rows are matched to orders by order number,
+        and rows for the same order are added up. Imported costs replace estimates and earlier imports;
+        costs entered by hand are kept.
+      </p>
+
+      <input
+        type="file"
+        accept=".csv"
+        ref={fileInputRef}
+        onChange={handleFileUpload}
+        className="hidden"
+      />
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        className="flex items-center text-sm bg-gray-100 text-gray-700 px-3 py-2 rounded hover:bg-gray-200"
+      >
+        <Upload className="h-4 w-4 mr-1" />
+        Choose CSV
+      </button>
+
+      {headers.length > 0 && (
+        <div className="mt-4 space-y-3">
+          <div className="flex items-center text-sm text-gray-700">
+            <FileText className="h-4 w-4 mr-1 text-gray-500" />
+            {fileName} ({rows.length} rows)
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Order Number Column</label>
+              <select className="w-full p-2 border rounded" value={orderColumn} onChange={(e) => setOrderColumn(e.target.value)}>
+                <option value="">Choose...</option>
+                {headers.map(header => <option key={header} value={header}>{header}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Amount Column</label>
+              <select className="w-full p-2 border rounded" value={amountColumn} onChange={(e) => setAmountColumn(e.target.value)}>
+                <option value="">Choose...</option>
+                {headers.map(header => <option key={header} value={header}>{header}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Reference Column (optional)</label>
+              <select className="w-full p-2 border rounded" value={referenceColumn} onChange={(e) => setReferenceColumn(e.target.value)}>
+                <option value="">None</option>
+                {headers.map(header => <option key={header} value={header}>{header}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <input
+              type="text"
+              className="p-2 border rounded text-sm"
+              placeholder="Carrier, e.g. Australia Post"
+              value={carrier}
+              onChange={(e) => setCarrier(e.target.value)}
+            />
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={includesGst}
+                onChange={(e) => setIncludesGst(e.target.checked)}
+              />
+              Amounts include GST
+            </label>
+            <button
+              onClick={handleImport}
+              disabled={importing || !orderColumn || !amountColumn}
+              className="text-sm bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700 disabled:bg-blue-400"
+            >
+              {importing ? 'Importing...' : 'Import Costs'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CourierInvoiceImport;
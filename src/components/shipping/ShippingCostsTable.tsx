@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Order, ShippingCost } from '../../types';
+import { formatCurrency, getCurrencySymbol } from '../../utils/currencyUtils';
+import { formatStoreDateOnly } from '../../utils/dateUtils';
+import { getOrderDate } from '../../utils/dateRange';
+import { getOrderShippingCharged } from '../../services/pnl/shipping';
+
+interface ShippingCostsTableProps {
+  orders: Order[];
+  shippingCosts: Map<number, ShippingCost>;
+  onCostChange: (order: Order, amount: number | null) => void;
+}
+
+const SOURCE_STYLES: Record<string, { label: string; className: string }> = {
+  manual: { label: 'Entered', className: 'bg-blue-100 text-blue-800' },
+  import: { label: 'Invoice', className: 'bg-green-100 text-green-800' },
+  estimate: { label: 'Estimate', className: 'bg-yellow-100 text-yellow-800' }
+};
+
+const ShippingCostsTable: React.FC<ShippingCostsTableProps> = ({
+  orders,
+  shippingCosts,
+  onCostChange
+}) => {
+  // Amounts being typed, saved when the field loses focus
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [showMissingOnly, setShowMissingOnly] = useState(false);
+
+  const handleBlur = (order: Order) => {
+    const draft = drafts[order.id];
+    if (draft === undefined) return;
+
+    const amount = draft.trim() === '' ? null : parseFloat(draft);
+    if (amount === null || !isNaN(amount)) {
+      onCostChange(order, amount);
+    }
+
+    const remaining = { ...drafts };
+    delete remaining[order.id];
+    setDrafts(remaining);
+  };
+
+  const visibleOrders = showMissingOnly
+    ? orders.filter(order => !shippingCosts.has(order.id))
+    : orders;
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="flex justify-between items-center p-4 border-b">
+        <h2 className="text-lg font-semibold">Carrier Costs by Order</h2>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            className="mr-2"
+            checked={showMissingOnly}
+            onChange={(e) => setShowMissingOnly(e.target.checked)}
+          />
+          Only orders without a cost
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Destination</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Charged</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Carrier Cost</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Profit</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visibleOrders.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No orders found
+                </td>
+              </tr>
+            ) : (
+              visibleOrders.map(order => {
+                const cost = shippingCosts.get(order.id);
+                const charged = getOrderShippingCharged(order);
+                const source = cost ? SOURCE_STYLES[cost.source] : undefined;
+
+                return (
+                  <tr key={order.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">#{order.number}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatStoreDateOnly(getOrderDate(order))}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {[order.shipping?.state, order.shipping?.postcode, order.shipping?.country].filter(Boolean).join(' ')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatCurrency(charged)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="flex items-center">
+                        <span className="mr-1 text-gray-500">{getCurrencySymbol()}</span>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          className="w-24 p-1 border rounded"
+                          placeholder="None"
+                          value={drafts[order.id] ?? (cost ? cost.amount.toFixed(2) : '')}
+                          onChange={(e) => setDrafts({ ...drafts, [order.id]: e.target.value })}
+                          onBlur={() => handleBlur(order)}
+                        />
+                        {source && (
+                          <span
+                            className={`ml-2 text-xs px-2 py-0.5 rounded ${source.className}`}
+                            title={[cost?.carrier, cost?.reference].filter(Boolean).join(' · ')}
+                          >
+                            {source.label}
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${cost && cost.amount > charged ? 'text-red-600' : 'text-gray-500'}`}>
+                      {cost ? formatCurrency(charged - cost.amount) : '-'}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ShippingCostsTable;
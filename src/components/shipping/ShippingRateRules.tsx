@@ -0,0 +1,183 @@
+import React from 'react';
+import { Plus, Trash2, Calculator, Save } from 'lucide-react';
+import { ShippingRateRule } from '../../types';
+import { getCurrencySymbol } from '../../utils/currencyUtils';
+
+interface ShippingRateRulesProps {
+  rules: ShippingRateRule[];
+  saving: boolean;
+  estimating: boolean;
+  onAddRule: () => void;
+  onRemoveRule: (id: number) => void;
+  onRuleChange: (id: number, field: keyof ShippingRateRule, value: ShippingRateRule[keyof ShippingRateRule]) => void;
+  onSave: () => void;
+  onEstimate: () => void;
+}
+
+const ShippingRateRules: React.FC<ShippingRateRulesProps> = ({
+  rules,
+  saving,
+  estimating,
+  onAddRule,
+  onRemoveRule,
+  onRuleChange,
+  onSave,
+  onEstimate
+}) => {
+  const currencySymbol = getCurrencySymbol();
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg font-semibold">Rate Rules</h2>
+        <button
+          onClick={onAddRule}
+          className="flex items-center text-sm bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Rule
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Estimate carrier costs for orders without one from their weight and where they were sent. Weights are
+        in the unit your products use. Regions list states, postcodes or postcode ranges such as 2000-2999; rules
+        for regions win over rules for a whole country. Costs exclude GST.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Country</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Regions</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Weight From</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Weight Under</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Base Cost</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Per Weight</th>
+              <th className="px-3 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rules.map(rule => (
+              <tr key={rule.id}>
+                <td className="px-3 py-2">
+                  <input
+                    type="text"
+                    className="w-40 p-2 border rounded"
+                    placeholder="e.g. AusPost metro"
+                    value={rule.name}
+                    onChange={(e) => onRuleChange(rule.id, 'name', e.target.value)}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="text"
+                    className="w-16 p-2 border rounded uppercase"
+                    placeholder="Any"
+                    maxLength={2}
+                    value={rule.country}
+                    onChange={(e) => onRuleChange(rule.id, 'country', e.target.value.toUpperCase())}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="text"
+                    className="w-48 p-2 border rounded"
+                    placeholder="All"
+                    value={rule.regions}
+                    onChange={(e) => onRuleChange(rule.id, 'regions', e.target.value)}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="w-20 p-2 border rounded"
+                    value={rule.min_weight}
+                    onChange={(e) => onRuleChange(rule.id, 'min_weight', parseFloat(e.target.value) || 0)}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="w-20 p-2 border rounded"
+                    placeholder="No limit"
+                    value={rule.max_weight ?? ''}
+                    onChange={(e) => onRuleChange(rule.id, 'max_weight', e.target.value === '' ? undefined : parseFloat(e.target.value) || 0)}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <div className="flex items-center">
+                    <span className="mr-1">{currencySymbol}</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className="w-20 p-2 border rounded"
+                      value={rule.base_cost}
+                      onChange={(e) => onRuleChange(rule.id, 'base_cost', parseFloat(e.target.value) || 0)}
+                    />
+                  </div>
+                </td>
+                <td className="px-3 py-2">
+                  <div className="flex items-center">
+                    <span className="mr-1">{currencySymbol}</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className="w-20 p-2 border rounded"
+                      value={rule.cost_per_weight}
+                      onChange={(e) => onRuleChange(rule.id, 'cost_per_weight', parseFloat(e.target.value) || 0)}
+                    />
+                  </div>
+                </td>
+                <td className="px-3 py-2">
+                  <button
+                    onClick={() => onRemoveRule(rule.id)}
+                    className="text-red-600 hover:text-red-900"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+
+            {rules.length === 0 && (
+              <tr>
+                <td colSpan={8} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No rate rules defined. Click "Add Rule" to add one.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end gap-2 mt-4">
+        <button
+          onClick={onSave}
+          disabled={saving}
+          className="flex items-center text-sm bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          <Save className="h-4 w-4 mr-1" />
+          {saving ? 'Saving...' : 'Save Rules'}
+        </button>
+        <button
+          onClick={onEstimate}
+          disabled={estimating || rules.length === 0}
+          className="flex items-center text-sm bg-green-600 text-white px-3 py-2 rounded hover:bg-green-700 disabled:bg-green-400"
+        >
+          <Calculator className="h-4 w-4 mr-1" />
+          {estimating ? 'Estimating...' : 'Estimate Missing Costs'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShippingRateRules;
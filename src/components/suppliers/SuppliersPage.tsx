@@ -5,6 +5,7 @@ import SupplierList from './SupplierList';
 import SupplierForm from './SupplierForm';
 import { useNavigate } from 'react-router-dom';
 import { ArrowLeft } from 'lucide-react';
+import { storeStorageKey } from '../../db/stores';
 
 type PageView = 'list' | 'add' | 'edit';
 
@@ -20,7 +21,7 @@ const SuppliersPage: React.FC = () => {
   useEffect(() => {
     loadSuppliers();
     // Check if we came from the purchase order form
-    const poFormData = localStorage.getItem('poFormData');
+    const poFormData = localStorage.getItem(storeStorageKey('poFormData'));
     if (poFormData) {
       setReturnToPO(true);
     }
@@ -69,7 +70,7 @@ const SuppliersPage: React.FC = () => {
   };
 
   const handleReturnToPO = () => {
-    localStorage.removeItem('poFormData');
+    localStorage.removeItem(storeStorageKey('poFormData'));
     navigate('/purchase-orders');
   };
 
@@ -21,4 +21,21 @@ export * from './operations/overhead';
 export * from './operations/expenses';
 export * from './operations/sync';
 export * from './operations/supplier';
-export * from './operations/expiry';
\ No newline at end of file
+export * from './operations/expiry';
+export * from './operations/settings';
+export * from './operations/storeData';
+export * from './operations/orderCosts';
+export * from './operations/priceHistory';
+export * from './operations/goodsReceipts';
+export * from './operations/outboundChanges';
+export * from './operations/syncJobs';
+export * from './operations/customers';
+export * from './operations/shippingCosts';
+export * from './operations/backup';
+export * from './operations/auditLog';
+export * from './operations/trash';
+export * from './operations/budgets';
+export * from './operations/bankImport';
+export * from './operations/attachments';
+export * from './stores';
+export * from './replay';
@@ -1,39 +1,76 @@
 import { db } from '../schema';
 import { AdditionalRevenue, AdditionalRevenueCategory } from '../../types';
 import { format } from 'date-fns';
-import { convertToNZTimezone } from '../../services/api/utils';
+import { AuditDetails, recordAuditEntry, toAuditSnapshot } from './auditLog';
+import { trashRecord } from './trash';
+
+// How revenue is named in the audit log and the trash
+const additionalRevenueLabel = (revenue: AdditionalRevenue) => `${revenue.category}: ${revenue.description}`;
 
 // Additional Revenue operations
-export async function saveAdditionalRevenue(revenue: AdditionalRevenue): Promise<number> {
+export async function saveAdditionalRevenue(revenue: AdditionalRevenue, audit: AuditDetails = {}): Promise<number> {
   try {
     // Ensure the database is initialized before accessing
     await db.initializeDatabase();
     
-    return await db.additionalRevenue.add(revenue) as number;
+    return await db.transaction('rw', db.additionalRevenue, db.auditLog, async () => {
+      const id = await db.additionalRevenue.add(revenue) as number;
+      await recordAuditEntry({
+        entity_type: 'additional_revenue',
+        entity_id: id,
+        label: additionalRevenueLabel(revenue),
+        action: 'create',
+        after: toAuditSnapshot({ ...revenue, id }),
+        ...audit
+      });
+      return id;
+    });
   } catch (error) {
     console.error('Error saving additional revenue:', error);
     throw error;
   }
 }
 
-export async function updateAdditionalRevenue(id: number, revenue: Partial<AdditionalRevenue>): Promise<void> {
+export async function updateAdditionalRevenue(id: number, revenue: Partial<AdditionalRevenue>, audit: AuditDetails = {}): Promise<void> {
   try {
     // Ensure the database is initialized before accessing
     await db.initializeDatabase();
     
-    await db.additionalRevenue.update(id, revenue);
+    await db.transaction('rw', db.additionalRevenue, db.auditLog, async () => {
+      const before = await db.additionalRevenue.get(id);
+      await db.additionalRevenue.update(id, revenue);
+      const after = await db.additionalRevenue.get(id);
+      if (!before || !after) return;
+      
+      await recordAuditEntry({
+        entity_type: 'additional_revenue',
+        entity_id: id,
+        label: additionalRevenueLabel(after),
+        action: 'update',
+        before: toAuditSnapshot(before),
+        after: toAuditSnapshot(after),
+        ...audit
+      });
+    });
   } catch (error) {
     console.error('Error updating additional revenue:', error);
     throw error;
   }
 }
 
-export async function deleteAdditionalRevenue(id: number): Promise<void> {
+// Deleted revenue is kept in the trash until the trash is emptied
+export async function deleteAdditionalRevenue(id: number, audit: AuditDetails = {}): Promise<void> {
   try {
     // Ensure the database is initialized before accessing
     await db.initializeDatabase();
     
-    await db.additionalRevenue.delete(id);
+    await db.transaction('rw', db.additionalRevenue, db.trash, db.auditLog, async () => {
+      const revenue = await db.additionalRevenue.get(id);
+      if (!revenue) return;
+      
+      await db.additionalRevenue.delete(id);
+      await trashRecord('additional_revenue', id, additionalRevenueLabel(revenue), revenue, audit);
+    });
   } catch (error) {
     console.error('Error deleting additional revenue:', error);
     throw error;
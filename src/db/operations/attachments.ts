@@ -0,0 +1,83 @@
+import Dexie from 'dexie';
+import { db } from '../schema';
+import { Attachment, AttachmentOwnerType } from '../../types';
+
+export async function saveAttachment(attachment: Attachment): Promise<number> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    return await db.attachments.add(attachment) as number;
+  } catch (error) {
+    console.error('Error saving attachment:', error);
+    throw error;
+  }
+}
+
+// Get the attachments of a record, oldest first
+export async function getAttachments(ownerType: AttachmentOwnerType, ownerId: number): Promise<Attachment[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    const attachments = await db.attachments.where('[owner_type+owner_id]').equals([ownerType, ownerId]).toArray();
+    return attachments.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  } catch (error) {
+    console.error(`Error getting attachments of ${ownerType} ${ownerId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Count the attachments of each record of a kind, by record id
+ * Reads only the index, so the files themselves are not loaded.
+ */
+export async function getAttachmentCounts(ownerType: AttachmentOwnerType): Promise<Map<number, number>> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    const keys = await db.attachments
+      .where('[owner_type+owner_id]')
+      .between([ownerType, Dexie.minKey], [ownerType, Dexie.maxKey])
+      .keys() as unknown as [AttachmentOwnerType, number][];
+
+    const counts = new Map<number, number>();
+    keys.forEach(([, ownerId]) => counts.set(ownerId, (counts.get(ownerId) || 0) + 1));
+    return counts;
+  } catch (error) {
+    console.error(`Error counting attachments of ${ownerType} records:`, error);
+    return new Map();
+  }
+}
+
+export async function deleteAttachment(id: number): Promise<void> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    await db.attachments.delete(id);
+  } catch (error) {
+    console.error(`Error deleting attachment ${id}:`, error);
+    throw error;
+  }
+}
+
+// Get how many files are attached and their total size in bytes
+export async function getAttachmentTotals(): Promise<{ count: number; bytes: number }> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    let count = 0;
+    let bytes = 0;
+    await db.attachments.each(attachment => {
+      count++;
+      bytes += attachment.size + (attachment.thumbnail?.size || 0);
+    });
+    return { count, bytes };
+  } catch (error) {
+    console.error('Error getting attachment totals:', error);
+    return { count: 0, bytes: 0 };
+  }
+}
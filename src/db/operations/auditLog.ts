@@ -0,0 +1,97 @@
+import { db } from '../schema';
+import { Table } from 'dexie';
+import { AuditEntityType, AuditEntry, AuditSnapshot } from '../../types';
+import { getSnapshotChanges } from '../../utils/audit';
+
+export type AuditEntryInput = Omit<AuditEntry, 'id' | 'created_at'>;
+
+// Why a change was made, passed through by the operations that record one
+export type AuditDetails = Pick<AuditEntry, 'reason' | 'source' | 'reverts'>;
+
+// Copy a record for the audit log, so later changes to the object do not alter it
+export const toAuditSnapshot = (record: object): AuditSnapshot => {
+  return structuredClone(record) as AuditSnapshot;
+};
+
+/**
+ * Record a change to a record in the audit log
+ * Updates that change nothing are not recorded. Must be called inside a
+ * transaction that includes auditLog, or outside any transaction.
+ */
+export async function recordAuditEntry(entry: AuditEntryInput): Promise<void> {
+  try {
+    if (entry.action === 'update' && getSnapshotChanges(entry.before, entry.after).length === 0) {
+      return;
+    }
+
+    await db.auditLog.add({
+      ...entry,
+      created_at: new Date()
+    });
+  } catch (error) {
+    console.error(`Error recording ${entry.action} of ${entry.entity_type} ${entry.entity_id}:`, error);
+    throw error;
+  }
+}
+
+// Get the most recent changes, newest first, optionally to one kind of record
+export async function getAuditLog(entityType?: AuditEntityType, limit: number = 200): Promise<AuditEntry[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    const collection = entityType
+      ? db.auditLog.where('entity_type').equals(entityType).reverse()
+      : db.auditLog.orderBy('created_at').reverse();
+
+    return await collection.limit(limit).toArray();
+  } catch (error) {
+    console.error('Error getting audit log:', error);
+    return [];
+  }
+}
+
+// Get every change to one record, newest first
+export async function getRecordHistory(entityType: AuditEntityType, entityId: number): Promise<AuditEntry[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    const entries = await db.auditLog
+      .where('[entity_type+entity_id]')
+      .equals([entityType, entityId])
+      .toArray();
+
+    return entries.reverse();
+  } catch (error) {
+    console.error(`Error getting history of ${entityType} ${entityId}:`, error);
+    return [];
+  }
+}
+
+export async function getAuditEntry(id: number): Promise<AuditEntry | undefined> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    return await db.auditLog.get(id);
+  } catch (error) {
+    console.error(`Error getting audit entry ${id}:`, error);
+    throw error;
+  }
+}
+
+// Check whether a record in the audit log still exists, e.g. before reverting a change to it
+export async function auditedRecordExists(entityType: AuditEntityType, entityId: number): Promise<boolean> {
+  const tables: Record<AuditEntityType, Table> = {
+    product: db.products,
+    variation: db.productVariations,
+    expense: db.expenses,
+    additional_revenue: db.additionalRevenue,
+    purchase_order: db.purchaseOrders,
+    product_expiry: db.productExpiry,
+    goods_receipt: db.goodsReceipts
+  };
+
+  return (await tables[entityType].get(entityId)) !== undefined;
+}
@@ -0,0 +1,384 @@
+import { db } from '../schema';
+import { AuditEntityType, BackupArchive, BackupRestoreMode } from '../../types';
+import { fromBase64, toBase64 } from '../../utils/crypto';
+
+export const BACKUP_FORMAT = 'woocommerce-pnl-backup';
+// Version 2 adds files, written as { $blob: base64, type }
+export const BACKUP_FORMAT_VERSION = 2;
+
+// Dates do not survive JSON, so they are written as { $date: iso } and revived on reading
+const DATE_KEY = '$date';
+const BLOB_KEY = '$blob';
+
+type BackupRow = Record<string, unknown>;
+type Remap = (table: string, id: number) => number;
+
+/**
+ * Tables of records created in the app, merged in this order
+ * Their ids are generated by each database, so the same id in a backup from
+ * another database is a different record. A record's references are always
+ * merged before it.
+ */
+const MERGED_BY_ID = [
+  'suppliers', 'supplierImports', 'supplierImportItems', 'purchaseOrders', 'purchaseOrderItems',
+  'productExpiry', 'goodsReceipts', 'goodsReceiptLines', 'expenses', 'expenseImports', 'additionalRevenue',
+  'overheadCosts', 'supplierPriceHistory', 'attachments', 'auditLog', 'trash'
+];
+
+// Tables of records created in the app that are matched on what they describe
+const NATURAL_KEYS: Record<string, (row: BackupRow) => string> = {
+  inventory: row => `${row.product_id}:${row.variation_id ?? ''}`,
+  expenseCategories: row => String(row.name),
+  additionalRevenueCategories: row => String(row.name),
+  budgets: row => `${row.fiscal_year}:${row.version}`
+};
+
+// This device's sync history and push queue; merging another database's
+// queue would push its stock changes to WooCommerce again
+const NOT_MERGED = ['outboundChanges', 'syncJobs'];
+
+// Tables of the records the audit log, the trash and attachments refer to
+const ENTITY_TABLES: Partial<Record<AuditEntityType, string>> = {
+  expense: 'expenses',
+  additional_revenue: 'additionalRevenue',
+  purchase_order: 'purchaseOrders',
+  product_expiry: 'productExpiry',
+  goods_receipt: 'goodsReceipts'
+};
+
+// Fields holding the id of a record in another table
+const REFERENCES: Record<string, Array<[field: string, table: string | ((row: BackupRow) => string | undefined)]>> = {
+  supplierImportItems: [['import_id', 'supplierImports']],
+  purchaseOrders: [['supplier_id', 'suppliers']],
+  purchaseOrderItems: [['purchase_order_id', 'purchaseOrders']],
+  goodsReceipts: [['purchase_order_id', 'purchaseOrders']],
+  goodsReceiptLines: [
+    ['receipt_id', 'goodsReceipts'],
+    ['purchase_order_id', 'purchaseOrders'],
+    ['purchase_order_item_id', 'purchaseOrderItems'],
+    ['expiry_id', 'productExpiry']
+  ],
+  attachments: [['owner_id', row => ENTITY_TABLES[row.owner_type as AuditEntityType]]],
+  auditLog: [['entity_id', row => ENTITY_TABLES[row.entity_type as AuditEntityType]], ['reverts', 'auditLog']],
+  trash: [['entity_id', row => ENTITY_TABLES[row.entity_type as AuditEntityType]]]
+};
+
+// Replace the files in records with base64, as blobs cannot be written as JSON
+async function encodeBlobs(rows: unknown[]): Promise<unknown[]> {
+  return await Promise.all(rows.map(async row => {
+    if (!row || typeof row !== 'object' || !Object.values(row).some(value => value instanceof Blob)) {
+      return row;
+    }
+
+    const encoded: Record<string, unknown> = { ...row };
+    for (const [key, value] of Object.entries(encoded)) {
+      if (value instanceof Blob) {
+        encoded[key] = { [BLOB_KEY]: toBase64(new Uint8Array(await value.arrayBuffer())), type: value.type };
+      }
+    }
+    return encoded;
+  }));
+}
+
+/**
+ * Export every table in the active store's database
+ * Tables are read in one transaction so the backup is consistent.
+ */
+export async function exportDatabase(storeName?: string): Promise<BackupArchive> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    const tables: Record<string, unknown[]> = {};
+    await db.transaction('r', db.tables, async () => {
+      for (const table of db.tables) {
+        tables[table.name] = await table.toArray();
+      }
+    });
+
+    // Files are read outside the transaction, which would otherwise commit while waiting
+    for (const [name, rows] of Object.entries(tables)) {
+      tables[name] = await encodeBlobs(rows);
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_FORMAT_VERSION,
+      schema_version: db.verno,
+      store_name: storeName,
+      created_at: new Date().toISOString(),
+      tables
+    };
+  } catch (error) {
+    console.error('Error exporting database:', error);
+    throw error;
+  }
+}
+
+// Write a backup archive as JSON, keeping dates
+export function serializeBackup(archive: unknown): string {
+  return JSON.stringify(archive, function (this: Record<string, unknown>, key: string, value: unknown) {
+    const original = this[key];
+    return original instanceof Date ? { [DATE_KEY]: original.toISOString() } : value;
+  });
+}
+
+// Read JSON written by serializeBackup, reviving dates and files
+export function parseBackup(json: string): unknown {
+  try {
+    return JSON.parse(json, (_key, value) => {
+      if (value && typeof value === 'object' && typeof value[DATE_KEY] === 'string' && Object.keys(value).length === 1) {
+        return new Date(value[DATE_KEY]);
+      }
+      if (value && typeof value === 'object' && typeof value[BLOB_KEY] === 'string' && typeof value.type === 'string') {
+        return new Blob([fromBase64(value[BLOB_KEY])], { type: value.type });
+      }
+      return value;
+    });
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+}
+
+/**
+ * Check that a backup can be restored into this version of the database
+ * Backups from older schema versions are accepted, as tables only gain fields;
+ * backups from a newer version of the app are not.
+ */
+export function validateBackup(archive: BackupArchive): void {
+  if (!archive || archive.format !== BACKUP_FORMAT || !archive.tables || typeof archive.tables !== 'object') {
+    throw new Error('The file is not a backup');
+  }
+  if (archive.version > BACKUP_FORMAT_VERSION) {
+    throw new Error(`The backup uses format version ${archive.version}; update the app to restore it`);
+  }
+  if (archive.schema_version > db.verno) {
+    throw new Error(`The backup is from database version ${archive.schema_version}, newer than this app's version ${db.verno}; update the app to restore it`);
+  }
+
+  const knownTables = new Set(db.tables.map(table => table.name));
+  Object.entries(archive.tables).forEach(([name, rows]) => {
+    if (!knownTables.has(name)) {
+      throw new Error(`The backup contains an unknown table "${name}"`);
+    }
+    if (!Array.isArray(rows)) {
+      throw new Error(`The backup's "${name}" table is damaged`);
+    }
+  });
+}
+
+// Rewrite the ids a record holds of other records, including in the snapshots of audited and deleted records
+function remapReferences(table: string, row: BackupRow, remap: Remap): BackupRow {
+  const rewritten = { ...row };
+  for (const [field, target] of REFERENCES[table] || []) {
+    const targetTable = typeof target === 'string' ? target : target(row);
+    if (targetTable && typeof row[field] === 'number') {
+      rewritten[field] = remap(targetTable, row[field] as number);
+    }
+  }
+
+  const entityTable = ENTITY_TABLES[row.entity_type as AuditEntityType];
+  if ((table === 'auditLog' || table === 'trash') && entityTable) {
+    for (const field of ['before', 'after', 'record']) {
+      if (row[field]) {
+        rewritten[field] = remapSnapshot(entityTable, row[field] as BackupRow, remap);
+      }
+    }
+  }
+  return rewritten;
+}
+
+// Snapshots keep the record's own id; purchase orders include their items and goods receipts their lines
+function remapSnapshot(table: string, snapshot: BackupRow, remap: Remap): BackupRow {
+  const rewritten = remapReferences(table, snapshot, remap);
+  if (typeof snapshot.id === 'number') {
+    rewritten.id = remap(table, snapshot.id);
+  }
+  if (Array.isArray(snapshot.items)) {
+    rewritten.items = snapshot.items.map(item => remapSnapshot('purchaseOrderItems', item as BackupRow, remap));
+  }
+  if (Array.isArray(snapshot.lines)) {
+    rewritten.lines = snapshot.lines.map(line => remapSnapshot('goodsReceiptLines', line as BackupRow, remap));
+  }
+  return rewritten;
+}
+
+// Describe a record's fields other than its id, so records can be compared; files are compared by size and type
+function getRecordSignature(row: BackupRow): string {
+  const fields = { ...row };
+  delete fields.id;
+  return JSON.stringify(fields, (_key, value) => {
+    if (value instanceof Blob) {
+      return { size: value.size, type: value.type };
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.fromEntries(Object.keys(value).sort().map(key => [key, value[key]]));
+    }
+    return value;
+  });
+}
+
+/**
+ * Merge a backup into the database; must be called inside a transaction over every table
+ * Records created in the app keep their id unless it is taken here by another
+ * record, in which case they get a new id and the records referring to them
+ * are rewritten to match. Records identical to a local record, such as when
+ * merging a backup of this database or merging the same backup again, are
+ * already here and are skipped.
+ */
+async function mergeBackup(archive: BackupArchive): Promise<void> {
+  // Ids in use here, including those of deleted records that can still be restored
+  const localRows = new Map<string, Map<number, BackupRow>>();
+  const usedIds = new Map<string, Set<number>>();
+  for (const name of MERGED_BY_ID) {
+    const rows = await db.table(name).toArray() as BackupRow[];
+    localRows.set(name, new Map(rows.map(row => [row.id as number, row])));
+    usedIds.set(name, new Set(rows.map(row => row.id as number)));
+  }
+  for (const row of [...localRows.get('auditLog')!.values(), ...localRows.get('trash')!.values()]) {
+    const entityTable = ENTITY_TABLES[row.entity_type as AuditEntityType];
+    if (entityTable) {
+      usedIds.get(entityTable)!.add(row.entity_id as number);
+    }
+  }
+
+  // New ids are numbered above every id used here or in the backup
+  const nextIds = new Map<string, number>();
+  const noteId: Remap = (table, id) => {
+    nextIds.set(table, Math.max(nextIds.get(table) || 1, id + 1));
+    return id;
+  };
+  usedIds.forEach((ids, table) => ids.forEach(id => noteId(table, id)));
+  for (const name of MERGED_BY_ID) {
+    for (const row of (archive.tables[name] || []) as BackupRow[]) {
+      noteId(name, row.id as number);
+      remapReferences(name, row, noteId);
+    }
+  }
+
+  const allocateId = (table: string) => {
+    const id = nextIds.get(table) || 1;
+    nextIds.set(table, id + 1);
+    return id;
+  };
+
+  // Backup ids are kept unless taken here; ids of records referred to but not
+  // in the backup, such as deleted ones, are mapped the same way
+  const idMaps = new Map(MERGED_BY_ID.map(name => [name, new Map<number, number>()]));
+  const remap: Remap = (table, id) => {
+    const idMap = idMaps.get(table)!;
+    if (!idMap.has(id)) {
+      idMap.set(id, usedIds.get(table)!.has(id) ? allocateId(table) : id);
+    }
+    return idMap.get(id)!;
+  };
+
+  // A record identical to the local one with its id is already here, unless
+  // the records it refers to were given new ids
+  const keepsReferences = (table: string, row: BackupRow) => {
+    let kept = true;
+    remapReferences(table, row, (referencedTable, referencedId) => {
+      const mappedId = idMaps.get(referencedTable)!.get(referencedId);
+      kept = kept && (mappedId === undefined || mappedId === referencedId);
+      return referencedId;
+    });
+    return kept;
+  };
+
+  for (const name of MERGED_BY_ID) {
+    const rows = [...(archive.tables[name] || []) as BackupRow[]].sort((a, b) => (a.id as number) - (b.id as number));
+    const merged: BackupRow[] = [];
+
+    // Local records by what they hold, each matched to at most one backup record
+    const localIds = new Map<string, number[]>();
+    localRows.get(name)!.forEach((localRow, localId) => {
+      const signature = getRecordSignature(localRow);
+      localIds.set(signature, [...(localIds.get(signature) || []), localId]);
+    });
+    const takeLocalId = (signature: string, id?: number) => {
+      const ids = localIds.get(signature) || [];
+      const index = id === undefined ? 0 : ids.indexOf(id);
+      return index >= 0 && index < ids.length ? ids.splice(index, 1)[0] : undefined;
+    };
+
+    for (const row of rows) {
+      const id = row.id as number;
+
+      // A backup of this database holds the same record under the same id
+      if (keepsReferences(name, row) && takeLocalId(getRecordSignature(row), id) !== undefined) {
+        idMaps.get(name)!.set(id, id);
+        remapReferences(name, row, (table, referencedId) => {
+          idMaps.get(table)!.set(referencedId, referencedId);
+          return referencedId;
+        });
+        continue;
+      }
+
+      const rewritten = remapReferences(name, row, remap);
+      const localId = takeLocalId(getRecordSignature(rewritten));
+      if (localId !== undefined) {
+        idMaps.get(name)!.set(id, localId);
+        continue;
+      }
+
+      merged.push({ ...rewritten, id: remap(name, id) });
+    }
+
+    await db.table(name).bulkAdd(merged);
+  }
+
+  for (const [name, getKey] of Object.entries(NATURAL_KEYS)) {
+    const localIds = new Map((await db.table(name).toArray() as BackupRow[]).map(row => [getKey(row), row.id]));
+    const merged = ((archive.tables[name] || []) as BackupRow[]).map(row => {
+      const id = localIds.get(getKey(row));
+      const mergedRow: BackupRow = { ...row, id };
+      if (id === undefined) {
+        delete mergedRow.id; // Let Dexie auto-generate the id
+      }
+      return mergedRow;
+    });
+    await db.table(name).bulkPut(merged);
+  }
+
+  // The remaining tables are keyed by WooCommerce ids or by name, so the same key is the same record
+  const mergedTables = new Set([...MERGED_BY_ID, ...Object.keys(NATURAL_KEYS), ...NOT_MERGED]);
+  for (const table of db.tables) {
+    const rows = archive.tables[table.name] || [];
+    if (!mergedTables.has(table.name) && rows.length > 0) {
+      await table.bulkPut(rows);
+    }
+  }
+}
+
+/**
+ * Restore a backup into the active store's database
+ * Merging adds the backup's records to the existing ones (see mergeBackup);
+ * replacing clears every table first. Either way the restore is a single
+ * transaction, so a failure leaves the database unchanged.
+ */
+export async function restoreDatabase(archive: BackupArchive, mode: BackupRestoreMode): Promise<void> {
+  validateBackup(archive);
+
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    await db.transaction('rw', db.tables, async () => {
+      if (mode === 'merge') {
+        await mergeBackup(archive);
+        return;
+      }
+
+      for (const table of db.tables) {
+        const rows = archive.tables[table.name] || [];
+        await table.clear();
+        if (rows.length > 0) {
+          await table.bulkPut(rows);
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error restoring database:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,34 @@
+import { db } from '../schema';
+import { AdditionalRevenue, Expense } from '../../types';
+
+/**
+ * Get which of the given bank transaction fingerprints have been imported before
+ * Records in the trash count, so deleting an imported transaction keeps it from
+ * being imported again.
+ */
+export async function getImportedFingerprints(fingerprints: string[]): Promise<Set<string>> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    const [expenses, revenue, trash] = await Promise.all([
+      db.expenses.where('import_fingerprint').anyOf(fingerprints).toArray(),
+      db.additionalRevenue.where('import_fingerprint').anyOf(fingerprints).toArray(),
+      db.trash.toArray()
+    ]);
+
+    const trashed = trash
+      .filter(item => item.entity_type === 'expense' || item.entity_type === 'additional_revenue')
+      .map(item => (item.record as Partial<Expense | AdditionalRevenue>).import_fingerprint)
+      .filter((fingerprint): fingerprint is string => !!fingerprint && fingerprints.includes(fingerprint));
+
+    return new Set([
+      ...expenses.map(expense => expense.import_fingerprint!),
+      ...revenue.map(entry => entry.import_fingerprint!),
+      ...trashed
+    ]);
+  } catch (error) {
+    console.error('Error getting imported bank transactions:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,107 @@
+import { db } from '../schema';
+import { Budget } from '../../types';
+
+// Budget versions of a fiscal year, the latest first
+export async function getBudgets(fiscalYear: number): Promise<Budget[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    const budgets = await db.budgets.where('fiscal_year').equals(fiscalYear).toArray();
+    return budgets.sort((a, b) => b.version - a.version);
+  } catch (error) {
+    console.error('Error getting budgets:', error);
+    return [];
+  }
+}
+
+// The budget version compared with actuals for a fiscal year, if it has one
+export async function getActiveBudget(fiscalYear: number): Promise<Budget | undefined> {
+  const budgets = await getBudgets(fiscalYear);
+  return budgets.find(budget => budget.is_active) || budgets[0];
+}
+
+/**
+ * Save a new version of a fiscal year's budget
+ * The new version is numbered after the latest one and becomes the active version.
+ */
+export async function saveBudgetVersion(budget: Omit<Budget, 'id' | 'version' | 'is_active' | 'created_at'>): Promise<number> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    return await db.transaction('rw', db.budgets, async () => {
+      const versions = await db.budgets.where('fiscal_year').equals(budget.fiscal_year).toArray();
+      const version = versions.reduce((latest, existing) => Math.max(latest, existing.version), 0) + 1;
+
+      await db.budgets.where('fiscal_year').equals(budget.fiscal_year).modify({ is_active: false });
+      return await db.budgets.add({
+        ...budget,
+        version,
+        is_active: true,
+        created_at: new Date()
+      }) as number;
+    });
+  } catch (error) {
+    console.error('Error saving budget version:', error);
+    throw error;
+  }
+}
+
+export async function updateBudget(id: number, changes: Partial<Pick<Budget, 'name' | 'notes' | 'lines'>>): Promise<void> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    await db.budgets.update(id, { ...changes, updated_at: new Date() });
+  } catch (error) {
+    console.error('Error updating budget:', error);
+    throw error;
+  }
+}
+
+// Make a version the one compared with actuals for its fiscal year
+export async function setActiveBudget(id: number): Promise<void> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    await db.transaction('rw', db.budgets, async () => {
+      const budget = await db.budgets.get(id);
+      if (!budget) {
+        throw new Error('Budget version not found');
+      }
+
+      await db.budgets.where('fiscal_year').equals(budget.fiscal_year).modify({ is_active: false });
+      await db.budgets.update(id, { is_active: true });
+    });
+  } catch (error) {
+    console.error('Error setting active budget:', error);
+    throw error;
+  }
+}
+
+// Delete a version; the latest remaining version becomes active if the deleted one was
+export async function deleteBudget(id: number): Promise<void> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    await db.transaction('rw', db.budgets, async () => {
+      const budget = await db.budgets.get(id);
+      if (!budget) return;
+
+      await db.budgets.delete(id);
+      if (budget.is_active) {
+        const remaining = await db.budgets.where('fiscal_year').equals(budget.fiscal_year).toArray();
+        const latest = remaining.sort((a, b) => b.version - a.version)[0];
+        if (latest) {
+          await db.budgets.update(latest.id!, { is_active: true });
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error deleting budget:', error);
+    throw error;
+  }
+}
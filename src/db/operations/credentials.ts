@@ -1,66 +1,99 @@
 import { db } from '../schema';
-import { ApiCredentials } from '../../types';
+import { ApiCredentials, CredentialVault, StoredApiCredentials } from '../../types';
 import CryptoJS from 'crypto-js';
+import { storeStorageKey } from '../stores';
+import { CREDENTIAL_VAULT_SETTING } from './settings';
+import { decryptWithKey, encryptWithKey } from '../../utils/crypto';
 
-// Secret key for encryption (in a real app, this would be stored in a secure environment variable)
-const ENCRYPTION_KEY = 'woocommerce-pnl-tracker-secret-key';
+// Credentials saved before a passphrase is set are only obfuscated with this key,
+// which ships in the bundle; setting a passphrase re-encrypts them with a key derived from it
+const LEGACY_ENCRYPTION_KEY = 'woocommerce-pnl-tracker-secret-key';
 
-// Helper function to encrypt sensitive data
-const encryptData = (data: string): string => {
-  return CryptoJS.AES.encrypt(data, ENCRYPTION_KEY).toString();
+const legacyEncrypt = (data: string): string => {
+  return CryptoJS.AES.encrypt(data, LEGACY_ENCRYPTION_KEY).toString();
 };
 
-// Helper function to decrypt sensitive data
-const decryptData = (encryptedData: string): string => {
-  const bytes = CryptoJS.AES.decrypt(encryptedData, ENCRYPTION_KEY);
+const legacyDecrypt = (encryptedData: string): string => {
+  const bytes = CryptoJS.AES.decrypt(encryptedData, LEGACY_ENCRYPTION_KEY);
   return bytes.toString(CryptoJS.enc.Utf8);
 };
 
+// Encrypt credentials for storing, with the passphrase key if there is one
+const toStoredCredentials = async (credentials: ApiCredentials, key?: CryptoKey): Promise<StoredApiCredentials> => {
+  if (!key) {
+    return {
+      url: credentials.url,
+      consumerKey: legacyEncrypt(credentials.consumerKey),
+      consumerSecret: legacyEncrypt(credentials.consumerSecret),
+      id: 1
+    };
+  }
+  
+  return {
+    url: credentials.url,
+    consumerKey: '',
+    consumerSecret: '',
+    encrypted: await encryptWithKey(JSON.stringify({
+      consumerKey: credentials.consumerKey,
+      consumerSecret: credentials.consumerSecret
+    }), key),
+    id: 1
+  };
+};
+
 // Helper functions for API credentials operations
-export async function saveApiCredentials(credentials: ApiCredentials): Promise<void> {
+// Pass the passphrase key once a passphrase is set; without it credentials are only obfuscated
+export async function saveApiCredentials(credentials: ApiCredentials, key?: CryptoKey): Promise<void> {
   try {
     // Ensure the database is initialized before accessing
     await db.initializeDatabase();
     
     // Encrypt sensitive data before storing
-    const encryptedCredentials = {
-      ...credentials,
-      consumerKey: encryptData(credentials.consumerKey),
-      consumerSecret: encryptData(credentials.consumerSecret)
-    };
+    const storedCredentials = await toStoredCredentials(credentials, key);
     
     await db.transaction('rw', db.apiCredentials, async () => {
       await db.apiCredentials.clear();
-      await db.apiCredentials.add({
-        ...encryptedCredentials,
-        id: 1
-      });
+      await db.apiCredentials.add(storedCredentials);
     });
     
     // Also store a flag in localStorage to indicate credentials exist
-    localStorage.setItem('has_api_credentials', 'true');
+    localStorage.setItem(storeStorageKey('has_api_credentials'), 'true');
   } catch (error) {
     console.error('Error saving API credentials:', error);
     throw error;
   }
 }
 
-export async function getApiCredentials(): Promise<ApiCredentials | null> {
+// Get the credentials, or null if there are none or they are encrypted and no key is given
+export async function getApiCredentials(key?: CryptoKey): Promise<ApiCredentials | null> {
   try {
     // Ensure the database is initialized before accessing
     await db.initializeDatabase();
     
-    const encryptedCredentials = await db.apiCredentials.get(1);
+    const storedCredentials = await db.apiCredentials.get(1);
     
-    if (!encryptedCredentials) {
+    if (!storedCredentials) {
       return null;
     }
     
     // Decrypt sensitive data
+    if (storedCredentials.encrypted) {
+      if (!key) {
+        return null;
+      }
+      
+      const secrets = JSON.parse(await decryptWithKey(storedCredentials.encrypted, key));
+      return {
+        url: storedCredentials.url,
+        consumerKey: secrets.consumerKey,
+        consumerSecret: secrets.consumerSecret
+      };
+    }
+    
     return {
-      url: encryptedCredentials.url,
-      consumerKey: decryptData(encryptedCredentials.consumerKey),
-      consumerSecret: decryptData(encryptedCredentials.consumerSecret)
+      url: storedCredentials.url,
+      consumerKey: legacyDecrypt(storedCredentials.consumerKey),
+      consumerSecret: legacyDecrypt(storedCredentials.consumerSecret)
     };
   } catch (error) {
     console.error('Error getting API credentials:', error);
@@ -74,7 +107,7 @@ export async function hasApiCredentials(): Promise<boolean> {
     await db.initializeDatabase();
     
     // First check localStorage for a quick answer
-    const hasCredentialsFlag = localStorage.getItem('has_api_credentials');
+    const hasCredentialsFlag = localStorage.getItem(storeStorageKey('has_api_credentials'));
     if (hasCredentialsFlag === 'true') {
       // Double-check by actually querying the database
       const credentials = await db.apiCredentials.get(1);
@@ -85,7 +118,7 @@ export async function hasApiCredentials(): Promise<boolean> {
     const credentials = await db.apiCredentials.get(1);
     if (credentials) {
       // Set the flag if credentials exist
-      localStorage.setItem('has_api_credentials', 'true');
+      localStorage.setItem(storeStorageKey('has_api_credentials'), 'true');
       return true;
     }
     
@@ -94,4 +127,49 @@ export async function hasApiCredentials(): Promise<boolean> {
     console.error('Error checking API credentials:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Save the credential vault together with the credentials encrypted with its key
+ * Both are written in one transaction, so the stored credentials always match
+ * the vault's passphrase.
+ */
+export async function saveCredentialVault(
+  vault: CredentialVault,
+  credentials: ApiCredentials | null,
+  key: CryptoKey
+): Promise<void> {
+  try {
+    await db.initializeDatabase();
+    
+    // Encrypt first; the transaction cannot wait on Web Crypto
+    const storedCredentials = credentials ? await toStoredCredentials(credentials, key) : null;
+    
+    await db.transaction('rw', db.settings, db.apiCredentials, async () => {
+      await db.settings.put({ key: CREDENTIAL_VAULT_SETTING, value: vault });
+      if (storedCredentials) {
+        await db.apiCredentials.put(storedCredentials);
+      }
+    });
+  } catch (error) {
+    console.error('Error saving credential vault:', error);
+    throw error;
+  }
+}
+
+// Remove the vault and the credentials it protects, for when the passphrase is forgotten
+export async function clearCredentialVault(): Promise<void> {
+  try {
+    await db.initializeDatabase();
+    
+    await db.transaction('rw', db.settings, db.apiCredentials, async () => {
+      await db.settings.delete(CREDENTIAL_VAULT_SETTING);
+      await db.apiCredentials.clear();
+    });
+    
+    localStorage.removeItem(storeStorageKey('has_api_credentials'));
+  } catch (error) {
+    console.error('Error clearing credential vault:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,41 @@
+import { db } from '../schema';
+import { Customer } from '../../types';
+import { updateLastSync } from './sync';
+
+export async function getCustomers(): Promise<Customer[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+    
+    return await db.customers.toArray();
+  } catch (error) {
+    console.error('Error getting customers:', error);
+    return [];
+  }
+}
+
+// Add or replace synced customers
+export async function upsertCustomers(customers: Customer[]): Promise<void> {
+  try {
+    if (customers.length > 0) {
+      await db.customers.bulkPut(customers);
+    }
+    await updateLastSync('customers');
+  } catch (error) {
+    console.error('Error upserting customers:', error);
+    throw error;
+  }
+}
+
+// Get a customer's orders, newest first
+export async function getCustomerOrders(customerId: number) {
+  try {
+    await db.initializeDatabase();
+    
+    const orders = await db.orders.where('customer_id').equals(customerId).toArray();
+    return orders.sort((a, b) => b.date_created.localeCompare(a.date_created));
+  } catch (error) {
+    console.error(`Error getting orders for customer ${customerId}:`, error);
+    return [];
+  }
+}
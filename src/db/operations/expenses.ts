@@ -1,39 +1,78 @@
 import { db } from '../schema';
-import { Expense, ExpenseCategory, ExpenseImport } from '../../types';
+import { Expense, ExpenseCategory, ExpenseImport, ReportingBasis } from '../../types';
 import { format } from 'date-fns';
-import { convertToNZTimezone } from '../../services/api/utils';
+import { AuditDetails, recordAuditEntry, toAuditSnapshot } from './auditLog';
+import { trashRecord } from './trash';
+import { convertToStoreTimezone } from '../../services/api/utils';
+import { isExpenseRecognised } from '../../utils/expenseSchedule';
+
+// How an expense is named in the audit log and the trash
+const expenseLabel = (expense: Expense) => `${expense.category}: ${expense.description}`;
 
 // Expense operations
-export async function saveExpense(expense: Expense): Promise<number> {
+export async function saveExpense(expense: Expense, audit: AuditDetails = {}): Promise<number> {
   try {
     // Ensure the database is initialized before accessing
     await db.initializeDatabase();
     
-    return await db.expenses.add(expense);
+    return await db.transaction('rw', db.expenses, db.auditLog, async () => {
+      const id = await db.expenses.add(expense) as number;
+      await recordAuditEntry({
+        entity_type: 'expense',
+        entity_id: id,
+        label: expenseLabel(expense),
+        action: 'create',
+        after: toAuditSnapshot({ ...expense, id }),
+        ...audit
+      });
+      return id;
+    });
   } catch (error) {
     console.error('Error saving expense:', error);
     throw error;
   }
 }
 
-export async function updateExpense(id: number, expense: Partial<Expense>): Promise<void> {
+export async function updateExpense(id: number, expense: Partial<Expense>, audit: AuditDetails = {}): Promise<void> {
   try {
     // Ensure the database is initialized before accessing
     await db.initializeDatabase();
     
-    await db.expenses.update(id, expense);
+    await db.transaction('rw', db.expenses, db.auditLog, async () => {
+      const before = await db.expenses.get(id);
+      await db.expenses.update(id, expense);
+      const after = await db.expenses.get(id);
+      if (!before || !after) return;
+      
+      await recordAuditEntry({
+        entity_type: 'expense',
+        entity_id: id,
+        label: expenseLabel(after),
+        action: 'update',
+        before: toAuditSnapshot(before),
+        after: toAuditSnapshot(after),
+        ...audit
+      });
+    });
   } catch (error) {
     console.error('Error updating expense:', error);
     throw error;
   }
 }
 
-export async function deleteExpense(id: number): Promise<void> {
+// A deleted expense is kept in the trash until the trash is emptied
+export async function deleteExpense(id: number, audit: AuditDetails = {}): Promise<void> {
   try {
     // Ensure the database is initialized before accessing
     await db.initializeDatabase();
     
-    await db.expenses.delete(id);
+    await db.transaction('rw', db.expenses, db.trash, db.auditLog, async () => {
+      const expense = await db.expenses.get(id);
+      if (!expense) return;
+      
+      await db.expenses.delete(id);
+      await trashRecord('expense', id, expenseLabel(expense), expense, audit);
+    });
   } catch (error) {
     console.error('Error deleting expense:', error);
     throw error;
@@ -68,6 +107,26 @@ export async function getExpenses(startDate?: Date, endDate?: Date): Promise<Exp
   }
 }
 
+/**
+ * Get the expenses charged for any day of a date range
+ * Unlike getExpenses, recurring expenses that started before the range and
+ * are still running are included. On the cash basis, one-time expenses are
+ * included by the date they were paid.
+ */
+export async function getExpensesInEffect(startDate: Date, endDate: Date, basis: ReportingBasis = 'accrual'): Promise<Expense[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+    
+    return await db.expenses
+      .filter(expense => isExpenseRecognised(expense, { startDate, endDate }, basis))
+      .toArray();
+  } catch (error) {
+    console.error('Error getting expenses in effect:', error);
+    return [];
+  }
+}
+
 export async function getExpensesByCategory(category: string, startDate?: Date, endDate?: Date): Promise<Expense[]> {
   try {
     // Ensure the database is initialized before accessing
@@ -240,7 +299,7 @@ export async function processExpenseImport(
     }
     
     // Get headers
-    const headers = lines[0].split(',').map(h => h.trim());
+    const headers = parseCSVLine(lines[0]).map(h => h.trim());
     
     // Get expense categories for validation
     const categories = await getExpenseCategories();
@@ -318,7 +377,7 @@ export async function processExpenseImport(
         }
         
         // Convert to NZ timezone
-        expense.date = convertToNZTimezone(expense.date);
+        expense.date = convertToStoreTimezone(expense.date);
         
         // Add to expenses array
         expenses.push(expense);
@@ -1,10 +1,16 @@
 import { db } from '../../schema';
 import { ProductExpiry } from '../../../types';
+import { AuditDetails, recordAuditEntry, toAuditSnapshot } from '../auditLog';
+import { trashRecord } from '../trash';
+
+// How an expiry record is named in the audit log and the trash
+const expiryLabel = (expiry: Pick<ProductExpiry, 'sku' | 'batch_number'>) =>
+  `${expiry.sku}${expiry.batch_number ? ` batch ${expiry.batch_number}` : ''}`;
 
 /**
  * Add a new product expiry record
  */
-export async function addProductExpiry(expiry: Omit<ProductExpiry, 'id' | 'created_at' | 'updated_at'>): Promise<number> {
+export async function addProductExpiry(expiry: Omit<ProductExpiry, 'id' | 'created_at' | 'updated_at'>, audit: AuditDetails = {}): Promise<number> {
   // Check if there's already an expiry record with the same SKU and batch number
   if (expiry.batch_number) {
     const existingRecords = await db.productExpiry
@@ -18,18 +24,31 @@ export async function addProductExpiry(expiry: Omit<ProductExpiry, 'id' | 'creat
     }
   }
   
-  const id = await db.productExpiry.add({
-    ...expiry,
-    created_at: new Date(),
-    updated_at: new Date()
+  return await db.transaction('rw', db.productExpiry, db.auditLog, async () => {
+    const record = {
+      ...expiry,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    const key = await db.productExpiry.add(record);
+    const id = typeof key === 'number' ? key : parseInt(key.toString(), 10);
+    
+    await recordAuditEntry({
+      entity_type: 'product_expiry',
+      entity_id: id,
+      label: expiryLabel(record),
+      action: 'create',
+      after: toAuditSnapshot({ ...record, id }),
+      ...audit
+    });
+    return id;
   });
-  return typeof id === 'number' ? id : parseInt(id.toString(), 10);
 }
 
 /**
  * Update an existing product expiry record
  */
-export async function updateProductExpiry(id: number, expiry: Partial<ProductExpiry>): Promise<number> {
+export async function updateProductExpiry(id: number, expiry: Partial<ProductExpiry>, audit: AuditDetails = {}): Promise<number> {
   // If batch number is being updated, check for duplicates
   if (expiry.batch_number) {
     const currentRecord = await db.productExpiry.get(id);
@@ -47,17 +66,41 @@ export async function updateProductExpiry(id: number, expiry: Partial<ProductExp
     }
   }
   
-  return await db.productExpiry.update(id, {
-    ...expiry,
-    updated_at: new Date()
+  return await db.transaction('rw', db.productExpiry, db.auditLog, async () => {
+    const before = await db.productExpiry.get(id);
+    const updated = await db.productExpiry.update(id, {
+      ...expiry,
+      updated_at: new Date()
+    });
+    const after = await db.productExpiry.get(id);
+    
+    if (before && after) {
+      await recordAuditEntry({
+        entity_type: 'product_expiry',
+        entity_id: id,
+        label: expiryLabel(after),
+        action: 'update',
+        before: toAuditSnapshot(before),
+        after: toAuditSnapshot(after),
+        ...audit
+      });
+    }
+    return updated;
   });
 }
 
 /**
  * Delete a product expiry record
+ * It is kept in the trash until the trash is emptied.
  */
-export async function deleteProductExpiry(id: number): Promise<void> {
-  await db.productExpiry.delete(id);
+export async function deleteProductExpiry(id: number, audit: AuditDetails = {}): Promise<void> {
+  await db.transaction('rw', db.productExpiry, db.trash, db.auditLog, async () => {
+    const expiry = await db.productExpiry.get(id);
+    if (!expiry) return;
+    
+    await db.productExpiry.delete(id);
+    await trashRecord('product_expiry', id, expiryLabel(expiry), expiry, audit);
+  });
 }
 
 /**
@@ -130,8 +173,22 @@ export async function addBulkProductExpiry(expiryData: Array<Omit<ProductExpiry,
     updated_at: now
   }));
   
-  const ids = await db.productExpiry.bulkAdd(dataWithTimestamps, { allKeys: true });
-  return ids.map(id => typeof id === 'number' ? id : parseInt(id.toString(), 10));
+  return await db.transaction('rw', db.productExpiry, db.auditLog, async () => {
+    const keys = await db.productExpiry.bulkAdd(dataWithTimestamps, { allKeys: true });
+    const ids = keys.map(id => typeof id === 'number' ? id : parseInt(id.toString(), 10));
+    
+    for (let i = 0; i < ids.length; i++) {
+      await recordAuditEntry({
+        entity_type: 'product_expiry',
+        entity_id: ids[i],
+        label: expiryLabel(dataWithTimestamps[i]),
+        action: 'create',
+        after: toAuditSnapshot({ ...dataWithTimestamps[i], id: ids[i] }),
+        source: 'Expiry upload'
+      });
+    }
+    return ids;
+  });
 }
 
 /**
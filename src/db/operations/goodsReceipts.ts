@@ -0,0 +1,400 @@
+import { db } from '../schema';
+import { GoodsReceipt, GoodsReceiptLine, Order, PurchaseOrder, PurchaseOrderItem } from '../../types';
+import { recordSupplierPrice } from './priceHistory';
+import { queueOutboundChange } from './outboundChanges';
+import { AuditDetails, recordAuditEntry, toAuditSnapshot } from './auditLog';
+import { trashRecord } from './trash';
+import { getOrderDate } from '../../utils/dateRange';
+
+export interface GoodsReceiptWithLines extends GoodsReceipt {
+  lines: GoodsReceiptLine[];
+}
+
+export type GoodsReceiptLineInput = Pick<GoodsReceiptLine, 'purchase_order_item_id' | 'quantity' | 'batch_number' | 'expiry_date'>;
+
+// Tables touched when stock is received or a receipt is reversed or restored
+export const receiptTables = () => [
+  db.purchaseOrders,
+  db.purchaseOrderItems,
+  db.goodsReceipts,
+  db.goodsReceiptLines,
+  db.inventory,
+  db.productExpiry,
+  db.products,
+  db.productVariations,
+  db.supplierPriceHistory,
+  db.outboundChanges,
+  db.orders,
+  db.orderCosts,
+  db.trash,
+  db.auditLog
+];
+
+/**
+ * Derive a purchase order's status from the quantities received on its items
+ */
+export function derivePurchaseOrderStatus(items: PurchaseOrderItem[]): PurchaseOrder['status'] {
+  const anyReceived = items.some(item => (item.quantity_received || 0) > 0);
+  if (!anyReceived) {
+    return 'ordered';
+  }
+
+  const allReceived = items.every(item => (item.quantity_received || 0) >= item.quantity);
+  return allReceived ? 'received' : 'partially_received';
+}
+
+// Find the product or variation a SKU belongs to
+async function findProductBySku(sku: string) {
+  const product = await db.products.where('sku').equals(sku).first();
+  if (product) {
+    return { product_id: product.id, variation_id: undefined };
+  }
+
+  const variation = await db.productVariations.where('sku').equals(sku).first();
+  if (variation) {
+    return { product_id: variation.parent_id, variation_id: variation.id };
+  }
+
+  return { product_id: 0, variation_id: undefined };
+}
+
+// Add (or with a negative quantity, remove) stock for a SKU
+async function adjustInventoryStock(
+  item: PurchaseOrderItem,
+  quantity: number,
+  supplierName: string
+): Promise<void> {
+  const inventoryItem = await db.inventory.where('sku').equals(item.sku).first();
+
+  if (inventoryItem) {
+    await db.inventory.update(inventoryItem.id!, {
+      stock_quantity: (inventoryItem.stock_quantity || 0) + quantity
+    });
+  } else if (quantity > 0) {
+    await db.inventory.add({
+      ...(await findProductBySku(item.sku)),
+      sku: item.sku,
+      cost_price: item.unit_price,
+      stock_quantity: quantity,
+      supplier_name: supplierName,
+      supplier_updated: new Date()
+    });
+  }
+}
+
+// Queue the stock adjustment to be pushed to WooCommerce
+async function queueStockChange(item: PurchaseOrderItem, quantity: number, source: string): Promise<void> {
+  if (!item.sku) return;
+
+  const { product_id, variation_id } = await findProductBySku(item.sku);
+  await queueOutboundChange({
+    type: 'stock',
+    product_id,
+    variation_id,
+    sku: item.sku,
+    name: item.product_name,
+    value: quantity,
+    source
+  });
+}
+
+// Add received quantity to the expiry record for the batch, creating it if needed
+async function addExpiryQuantity(
+  item: PurchaseOrderItem,
+  line: GoodsReceiptLineInput,
+  purchaseOrder: PurchaseOrder
+): Promise<number | undefined> {
+  if (!line.expiry_date) return undefined;
+
+  if (line.batch_number) {
+    const existing = await db.productExpiry
+      .where('sku')
+      .equals(item.sku)
+      .and(record => record.batch_number === line.batch_number)
+      .first();
+
+    if (existing) {
+      await db.productExpiry.update(existing.id!, {
+        quantity: existing.quantity + line.quantity,
+        updated_at: new Date()
+      });
+      return existing.id;
+    }
+  }
+
+  return await db.productExpiry.add({
+    ...(await findProductBySku(item.sku)),
+    sku: item.sku,
+    product_name: item.product_name,
+    expiry_date: line.expiry_date,
+    batch_number: line.batch_number,
+    quantity: line.quantity,
+    notes: `Received on Purchase Order #${purchaseOrder.reference_number}`,
+    created_at: new Date(),
+    updated_at: new Date()
+  }) as number;
+}
+
+// Load a purchase order with its items, to record or reverse a receipt against it
+async function getReceivingPurchaseOrder(purchaseOrderId: number) {
+  const purchaseOrder = await db.purchaseOrders.get(purchaseOrderId);
+  const items = await db.purchaseOrderItems
+    .where('purchase_order_id')
+    .equals(purchaseOrderId)
+    .toArray();
+
+  return { purchaseOrder, items, itemMap: new Map(items.map(item => [item.id!, item])) };
+}
+
+// Check every line of a receipt against what is still to be received, before changing anything
+function checkReceiptLines(itemMap: Map<number, PurchaseOrderItem>, lines: GoodsReceiptLineInput[]): void {
+  for (const line of lines) {
+    const item = itemMap.get(line.purchase_order_item_id);
+    if (!item) {
+      throw new Error('Receipt line does not belong to this purchase order');
+    }
+
+    const outstanding = item.quantity - (item.quantity_received || 0);
+    if (line.quantity > outstanding) {
+      throw new Error(`Only ${outstanding} of ${item.sku || item.product_name} are still to be received`);
+    }
+  }
+}
+
+// Add a receipt's lines to stock, the expiry records and the items' received quantities
+async function addReceiptLines(
+  purchaseOrder: PurchaseOrder,
+  itemMap: Map<number, PurchaseOrderItem>,
+  receiptId: number,
+  lines: Array<GoodsReceiptLineInput & { id?: number }>
+): Promise<void> {
+  for (const line of lines) {
+    const item = itemMap.get(line.purchase_order_item_id)!;
+
+    await adjustInventoryStock(item, line.quantity, purchaseOrder.supplier_name);
+    await queueStockChange(item, line.quantity, `PO ${purchaseOrder.reference_number}`);
+    const expiryId = await addExpiryQuantity(item, line, purchaseOrder);
+
+    await db.goodsReceiptLines.add({
+      ...line,
+      receipt_id: receiptId,
+      purchase_order_id: purchaseOrder.id!,
+      sku: item.sku,
+      expiry_id: expiryId
+    });
+
+    item.quantity_received = (item.quantity_received || 0) + line.quantity;
+    await db.purchaseOrderItems.update(item.id!, { quantity_received: item.quantity_received });
+  }
+}
+
+// How a receipt is named in the audit log and the trash
+const receiptLabel = (receipt: GoodsReceipt, purchaseOrder?: PurchaseOrder) =>
+  `Receipt ${receipt.reference || receipt.id} on PO ${purchaseOrder?.reference_number || receipt.purchase_order_id}`;
+
+// Snapshot a receipt together with its lines
+const getGoodsReceiptSnapshot = async (receiptId: number) => {
+  const receipt = await db.goodsReceipts.get(receiptId);
+  if (!receipt) return null;
+
+  const lines = await db.goodsReceiptLines.where('receipt_id').equals(receiptId).toArray();
+  return { receipt, lines, snapshot: toAuditSnapshot({ ...receipt, lines }) };
+};
+
+/**
+ * Unfreeze the costs of orders that may have drawn stock from a receipt's cost layers
+ * Those are the orders of the receipt's SKUs placed since it was received;
+ * they are costed again the next time the P&L is calculated.
+ */
+async function invalidateReceiptOrderCosts(receipt: GoodsReceipt, lines: GoodsReceiptLine[]): Promise<void> {
+  const skus = new Set(lines.map(line => line.sku).filter(Boolean));
+  const costs = await db.orderCosts
+    .filter(cost => cost.line_items.some(line => !!line.sku && skus.has(line.sku)))
+    .toArray();
+  if (costs.length === 0) return;
+
+  const receivedAt = new Date(receipt.date);
+  const orders = await db.orders.bulkGet(costs.map(cost => cost.order_id));
+  await db.orderCosts.bulkDelete(
+    orders
+      .filter((order): order is Order => !!order && getOrderDate(order) >= receivedAt)
+      .map(order => order.id)
+  );
+}
+
+/**
+ * Record a delivery against a purchase order
+ * Stock and expiry records are increased by the quantities in this receipt
+ * only, and the purchase order status is derived from the running totals.
+ */
+export async function receiveGoods(
+  purchaseOrderId: number,
+  receipt: Pick<GoodsReceipt, 'date' | 'reference' | 'notes'>,
+  lines: GoodsReceiptLineInput[],
+  audit: AuditDetails = {}
+): Promise<number> {
+  const receivedLines = lines.filter(line => line.quantity > 0);
+  if (receivedLines.length === 0) {
+    throw new Error('Enter a received quantity for at least one item');
+  }
+
+  return db.transaction('rw', receiptTables(), async () => {
+    const { purchaseOrder, items, itemMap } = await getReceivingPurchaseOrder(purchaseOrderId);
+    if (!purchaseOrder) {
+      throw new Error('Purchase order not found');
+    }
+
+    checkReceiptLines(itemMap, receivedLines);
+
+    const receiptId = await db.goodsReceipts.add({
+      ...receipt,
+      purchase_order_id: purchaseOrderId,
+      created_at: new Date()
+    }) as number;
+
+    await addReceiptLines(purchaseOrder, itemMap, receiptId, receivedLines);
+
+    // Record the price paid in the supplier price history
+    for (const line of receivedLines) {
+      const item = itemMap.get(line.purchase_order_item_id)!;
+      if (item.sku && item.unit_price) {
+        await recordSupplierPrice({
+          sku: item.sku,
+          supplier_name: purchaseOrder.supplier_name,
+          price: item.unit_price,
+          effective_date: new Date(receipt.date),
+          source: 'purchase_order',
+          reference: purchaseOrder.reference_number
+        });
+      }
+    }
+
+    // Once a receipt is recorded, what arrived is known
+    await db.purchaseOrders.update(purchaseOrderId, {
+      status: derivePurchaseOrderStatus(items),
+      receipts_unknown: undefined,
+      updated_at: new Date()
+    });
+
+    const created = await getGoodsReceiptSnapshot(receiptId);
+    if (created) {
+      await recordAuditEntry({
+        entity_type: 'goods_receipt',
+        entity_id: receiptId,
+        label: receiptLabel(created.receipt, purchaseOrder),
+        action: 'create',
+        after: created.snapshot,
+        ...audit
+      });
+    }
+
+    return receiptId;
+  });
+}
+
+/**
+ * Reverse a receipt entered by mistake
+ * Takes the received quantities back out of stock and the expiry records, and
+ * keeps the receipt in the trash until the trash is emptied. Orders that may
+ * have been costed from its stock are costed again.
+ */
+export async function deleteGoodsReceipt(receiptId: number, audit: AuditDetails = {}): Promise<void> {
+  return db.transaction('rw', receiptTables(), async () => {
+    const deleted = await getGoodsReceiptSnapshot(receiptId);
+    if (!deleted) return;
+
+    const { receipt, lines } = deleted;
+    const { purchaseOrder, items, itemMap } = await getReceivingPurchaseOrder(receipt.purchase_order_id);
+
+    for (const line of lines) {
+      const item = itemMap.get(line.purchase_order_item_id);
+      if (item) {
+        await adjustInventoryStock(item, -line.quantity, purchaseOrder?.supplier_name || '');
+        await queueStockChange(item, -line.quantity, `PO ${purchaseOrder?.reference_number || receipt.purchase_order_id} (receipt reversed)`);
+
+        item.quantity_received = Math.max(0, (item.quantity_received || 0) - line.quantity);
+        await db.purchaseOrderItems.update(item.id!, { quantity_received: item.quantity_received });
+      }
+
+      if (line.expiry_id) {
+        const expiry = await db.productExpiry.get(line.expiry_id);
+        if (expiry && expiry.quantity <= line.quantity) {
+          await db.productExpiry.delete(line.expiry_id);
+        } else if (expiry) {
+          await db.productExpiry.update(line.expiry_id, {
+            quantity: expiry.quantity - line.quantity,
+            updated_at: new Date()
+          });
+        }
+      }
+    }
+
+    await db.goodsReceiptLines.where('receipt_id').equals(receiptId).delete();
+    await db.goodsReceipts.delete(receiptId);
+    await invalidateReceiptOrderCosts(receipt, lines);
+
+    if (purchaseOrder) {
+      await db.purchaseOrders.update(receipt.purchase_order_id, {
+        status: derivePurchaseOrderStatus(items),
+        updated_at: new Date()
+      });
+    }
+
+    await trashRecord('goods_receipt', receiptId, receiptLabel(receipt, purchaseOrder), deleted.snapshot, audit);
+  });
+}
+
+/**
+ * Put a deleted receipt back, with its original ids, and receive its stock again
+ * Must be called inside a transaction that includes receiptTables().
+ */
+export async function putBackGoodsReceipt(record: GoodsReceiptWithLines): Promise<void> {
+  const { lines, ...receipt } = record;
+  const { purchaseOrder, items, itemMap } = await getReceivingPurchaseOrder(receipt.purchase_order_id);
+  if (!purchaseOrder) {
+    throw new Error('The purchase order of this receipt has been deleted; restore it first');
+  }
+
+  checkReceiptLines(itemMap, lines);
+
+  await db.goodsReceipts.put(receipt);
+  await addReceiptLines(purchaseOrder, itemMap, receipt.id!, lines);
+  await invalidateReceiptOrderCosts(receipt, lines);
+
+  await db.purchaseOrders.update(purchaseOrder.id!, {
+    status: derivePurchaseOrderStatus(items),
+    receipts_unknown: undefined,
+    updated_at: new Date()
+  });
+}
+
+// Get the receipts of a purchase order with their lines, oldest first
+export async function getGoodsReceipts(purchaseOrderId: number): Promise<GoodsReceiptWithLines[]> {
+  const receipts = await db.goodsReceipts
+    .where('purchase_order_id')
+    .equals(purchaseOrderId)
+    .sortBy('date');
+
+  const lines = await db.goodsReceiptLines
+    .where('purchase_order_id')
+    .equals(purchaseOrderId)
+    .toArray();
+
+  return receipts.map(receipt => ({
+    ...receipt,
+    lines: lines.filter(line => line.receipt_id === receipt.id)
+  }));
+}
+
+// Get every receipt line with the date it was received, for building cost layers
+export async function getAllGoodsReceiptLines(): Promise<Array<GoodsReceiptLine & { date: Date }>> {
+  const [receipts, lines] = await Promise.all([
+    db.goodsReceipts.toArray(),
+    db.goodsReceiptLines.toArray()
+  ]);
+  const receiptDates = new Map(receipts.map(receipt => [receipt.id, receipt.date]));
+
+  return lines
+    .filter(line => receiptDates.has(line.receipt_id))
+    .map(line => ({ ...line, date: new Date(receiptDates.get(line.receipt_id)!) }));
+}
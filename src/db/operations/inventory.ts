@@ -1,6 +1,26 @@
 import { db } from '../schema';
 import { InventoryItem } from '../../types';
 import { updateLastSync } from './sync';
+import { AuditDetails, recordAuditEntry } from './auditLog';
+
+// Record a supplier price change to a product or variation in the audit log
+const recordSupplierPriceChange = async (
+  entityType: 'product' | 'variation',
+  record: { id: number; name: string; sku?: string; supplier_price?: number; supplier_name?: string },
+  supplierPrice: number,
+  supplierName: string,
+  audit: AuditDetails
+) => {
+  await recordAuditEntry({
+    entity_type: entityType,
+    entity_id: record.id,
+    label: record.name,
+    action: 'update',
+    before: { sku: record.sku, supplier_price: record.supplier_price, supplier_name: record.supplier_name },
+    after: { sku: record.sku, supplier_price: supplierPrice, supplier_name: supplierName },
+    ...audit
+  });
+};
 
 export async function saveInventory(inventory: InventoryItem[]): Promise<void> {
   try {
@@ -73,7 +93,8 @@ export async function updateInventoryItem(item: InventoryItem): Promise<void> {
 export async function updateSupplierPrice(
   sku: string, 
   supplierPrice: number, 
-  supplierName: string
+  supplierName: string,
+  audit: AuditDetails = { source: 'Supplier import' }
 ): Promise<boolean> {
   try {
     // Ensure the database is initialized before accessing
@@ -96,6 +117,7 @@ export async function updateSupplierPrice(
         supplier_name: supplierName,
         supplier_updated: new Date()
       });
+      await recordSupplierPriceChange('product', product, supplierPrice, supplierName, audit);
       
       // Also update or create inventory item
       await updateInventoryItem({
@@ -126,6 +148,7 @@ export async function updateSupplierPrice(
         supplier_name: supplierName,
         supplier_updated: new Date()
       });
+      await recordSupplierPriceChange('variation', variation, supplierPrice, supplierName, audit);
       
       // Also update or create inventory item
       await updateInventoryItem({
@@ -173,6 +196,7 @@ export async function updateSupplierPrice(
               supplier_name: supplierName,
               supplier_updated: new Date()
             });
+            await recordSupplierPriceChange('variation', variation, supplierPrice, supplierName, audit);
             console.log(`Updated variation ID: ${item.variation_id} with supplier price: ${supplierPrice}`);
           }
         } else {
@@ -185,6 +209,7 @@ export async function updateSupplierPrice(
               supplier_name: supplierName,
               supplier_updated: new Date()
             });
+            await recordSupplierPriceChange('product', product, supplierPrice, supplierName, audit);
             console.log(`Updated product ID: ${item.product_id} with supplier price: ${supplierPrice}`);
           }
         }
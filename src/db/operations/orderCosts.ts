@@ -0,0 +1,36 @@
+import { db } from '../schema';
+import { OrderCost } from '../../types';
+
+// Setting key for the costing method
+export const COSTING_METHOD_SETTING = 'costingMethod';
+
+export async function getOrderCosts(): Promise<OrderCost[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+    
+    return await db.orderCosts.toArray();
+  } catch (error) {
+    console.error('Error getting order costs:', error);
+    return [];
+  }
+}
+
+export async function saveOrderCosts(orderCosts: OrderCost[]): Promise<void> {
+  try {
+    await db.orderCosts.bulkPut(orderCosts);
+  } catch (error) {
+    console.error('Error saving order costs:', error);
+    throw error;
+  }
+}
+
+// Remove all frozen costs so every order is costed again
+export async function clearOrderCosts(): Promise<void> {
+  try {
+    await db.orderCosts.clear();
+  } catch (error) {
+    console.error('Error clearing order costs:', error);
+    throw error;
+  }
+}
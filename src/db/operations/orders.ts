@@ -24,4 +24,65 @@ export async function getOrders(): Promise<Order[]> {
     console.error('Error getting orders:', error);
     return [];
   }
-}
\ No newline at end of file
+}
+
+// Get the earliest created order, using the date_created index
+export async function getFirstOrder(): Promise<Order | undefined> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+    return await db.orders.orderBy('date_created').first();
+  } catch (error) {
+    console.error('Error getting first order:', error);
+    return undefined;
+  }
+}
+
+// Get the orders created between two instants, using the date_created index
+// date_created is store-local time without an offset, so the bounds are widened
+// by a day to cover any timezone; callers filter the result to the exact range.
+export async function getOrdersCreatedBetween(startDate: Date, endDate: Date): Promise<Order[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+    
+    const day = 24 * 60 * 60 * 1000;
+    const lower = new Date(startDate.getTime() - day).toISOString().slice(0, 19);
+    const upper = new Date(endDate.getTime() + day).toISOString().slice(0, 19);
+    
+    return await db.orders.where('date_created').between(lower, upper, true, true).toArray();
+  } catch (error) {
+    console.error('Error getting orders for date range:', error);
+    return [];
+  }
+}
+
+// Get the orders paid between two instants, using the date_paid_gmt index
+// Orders that have not been paid have no payment date and are left out.
+export async function getOrdersPaidBetween(startDate: Date, endDate: Date): Promise<Order[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+    
+    const lower = startDate.toISOString().slice(0, 19);
+    const upper = endDate.toISOString().slice(0, 19);
+    
+    return await db.orders.where('date_paid_gmt').between(lower, upper, true, true).toArray();
+  } catch (error) {
+    console.error('Error getting orders paid in date range:', error);
+    return [];
+  }
+}
+
+// Insert new orders and replace existing ones with the same id
+export async function upsertOrders(orders: Order[]): Promise<void> {
+  try {
+    if (orders.length > 0) {
+      await db.orders.bulkPut(orders);
+    }
+    await updateLastSync('orders');
+  } catch (error) {
+    console.error('Error upserting orders:', error);
+    throw error;
+  }
+}
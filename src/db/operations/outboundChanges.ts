@@ -0,0 +1,162 @@
+import { db } from '../schema';
+import { OutboundChange } from '../../types';
+
+export type OutboundChangeInput = Pick<OutboundChange, 'type' | 'product_id' | 'variation_id' | 'sku' | 'name' | 'value' | 'source'>;
+
+/**
+ * Queue a stock or cost change to be pushed to WooCommerce
+ * A change to a product that is already waiting is merged into it: stock
+ * adjustments add up, and a new cost replaces the old one. Must be called inside
+ * a transaction that includes outboundChanges, or outside any transaction.
+ */
+export async function queueOutboundChange(change: OutboundChangeInput): Promise<void> {
+  try {
+    // Changes to products that are not in WooCommerce cannot be pushed
+    if (!change.product_id) return;
+
+    const existing = await db.outboundChanges
+      .where('product_id')
+      .equals(change.product_id)
+      .and(queued =>
+        queued.status !== 'pushed' &&
+        queued.type === change.type &&
+        (queued.variation_id || 0) === (change.variation_id || 0)
+      )
+      .first();
+
+    if (!existing) {
+      if (change.type === 'stock' && change.value === 0) return;
+
+      await db.outboundChanges.add({
+        ...change,
+        status: 'pending',
+        attempts: 0,
+        created_at: new Date(),
+        updated_at: new Date()
+      });
+      return;
+    }
+
+    const value = change.type === 'stock' ? existing.value + change.value : change.value;
+
+    // Stock adjustments that cancel out leave nothing to push
+    if (change.type === 'stock' && value === 0) {
+      await db.outboundChanges.delete(existing.id!);
+      return;
+    }
+
+    const sources = existing.source.split(', ');
+    await db.outboundChanges.update(existing.id!, {
+      value,
+      source: sources.includes(change.source) ? existing.source : `${existing.source}, ${change.source}`,
+      status: 'pending',
+      updated_at: new Date()
+    });
+  } catch (error) {
+    console.error(`Error queueing ${change.type} change for product ${change.product_id}:`, error);
+    throw error;
+  }
+}
+
+// Get the changes waiting to be pushed, including failed ones, oldest first
+export async function getQueuedOutboundChanges(): Promise<OutboundChange[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    return await db.outboundChanges
+      .where('status')
+      .anyOf(['pending', 'failed'])
+      .sortBy('created_at');
+  } catch (error) {
+    console.error('Error getting queued outbound changes:', error);
+    return [];
+  }
+}
+
+// Get the most recently pushed changes, newest first
+export async function getPushedOutboundChanges(limit: number = 50): Promise<OutboundChange[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    const pushed = await db.outboundChanges.where('status').equals('pushed').toArray();
+    return pushed
+      .sort((a, b) => new Date(b.pushed_at!).getTime() - new Date(a.pushed_at!).getTime())
+      .slice(0, limit);
+  } catch (error) {
+    console.error('Error getting pushed outbound changes:', error);
+    return [];
+  }
+}
+
+// Get queued changes by id
+export async function getOutboundChangesByIds(ids: number[]): Promise<OutboundChange[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    const changes = await db.outboundChanges.bulkGet(ids);
+    return changes.filter((change): change is OutboundChange => !!change && change.status !== 'pushed');
+  } catch (error) {
+    console.error('Error getting outbound changes:', error);
+    return [];
+  }
+}
+
+// Record the stock quantities stock changes are about to be pushed as, so a retry can tell whether they were applied
+export async function recordOutboundStockTargets(
+  targets: Array<Required<Pick<OutboundChange, 'id' | 'target_quantity' | 'target_value'>>>
+): Promise<void> {
+  try {
+    await db.transaction('rw', db.outboundChanges, async () => {
+      for (const { id, target_quantity, target_value } of targets) {
+        await db.outboundChanges.update(id, { target_quantity, target_value });
+      }
+    });
+  } catch (error) {
+    console.error('Error recording outbound stock targets:', error);
+    throw error;
+  }
+}
+
+// Mark changes as written to WooCommerce
+export async function markOutboundChangesPushed(ids: number[]): Promise<void> {
+  try {
+    const now = new Date();
+    await db.outboundChanges.where('id').anyOf(ids).modify({
+      status: 'pushed',
+      last_error: undefined,
+      pushed_at: now,
+      updated_at: now
+    });
+  } catch (error) {
+    console.error('Error marking outbound changes as pushed:', error);
+    throw error;
+  }
+}
+
+// Record a failed push attempt; the changes stay queued so they can be retried
+export async function markOutboundChangesFailed(ids: number[], message: string): Promise<void> {
+  try {
+    await db.outboundChanges.where('id').anyOf(ids).modify(change => {
+      change.status = 'failed';
+      change.attempts += 1;
+      change.last_error = message;
+      change.updated_at = new Date();
+    });
+  } catch (error) {
+    console.error('Error marking outbound changes as failed:', error);
+    throw error;
+  }
+}
+
+// Drop queued changes without pushing them
+export async function discardOutboundChanges(ids: number[]): Promise<void> {
+  try {
+    await db.outboundChanges.bulkDelete(ids);
+  } catch (error) {
+    console.error('Error discarding outbound changes:', error);
+    throw error;
+  }
+}
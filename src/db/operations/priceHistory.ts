@@ -0,0 +1,62 @@
+import Dexie from 'dexie';
+import { db } from '../schema';
+import { SupplierPriceHistory } from '../../types';
+
+/**
+ * Record a supplier price for a SKU
+ * Nothing is added when the same supplier price is already in effect on that
+ * date, so re-applying an import does not fill the history with duplicates.
+ * Must be called inside a transaction that includes supplierPriceHistory, or
+ * outside any transaction.
+ */
+export async function recordSupplierPrice(
+  entry: Omit<SupplierPriceHistory, 'id' | 'created_at'>
+): Promise<void> {
+  try {
+    const previous = await db.supplierPriceHistory
+      .where('[sku+effective_date]')
+      .between([entry.sku, Dexie.minKey], [entry.sku, entry.effective_date], true, true)
+      .last();
+    
+    if (previous && previous.price === entry.price && previous.supplier_name === entry.supplier_name) {
+      return;
+    }
+    
+    await db.supplierPriceHistory.add({
+      ...entry,
+      created_at: new Date()
+    });
+  } catch (error) {
+    console.error(`Error recording supplier price for SKU ${entry.sku}:`, error);
+    throw error;
+  }
+}
+
+// Get the price history of a SKU, oldest first
+export async function getPriceHistory(sku: string): Promise<SupplierPriceHistory[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+    
+    return await db.supplierPriceHistory
+      .where('[sku+effective_date]')
+      .between([sku, Dexie.minKey], [sku, Dexie.maxKey], true, true)
+      .toArray();
+  } catch (error) {
+    console.error(`Error getting price history for SKU ${sku}:`, error);
+    return [];
+  }
+}
+
+// Get the price history of every SKU
+export async function getAllPriceHistory(): Promise<SupplierPriceHistory[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+    
+    return await db.supplierPriceHistory.orderBy('effective_date').toArray();
+  } catch (error) {
+    console.error('Error getting price history:', error);
+    return [];
+  }
+}
@@ -2,6 +2,9 @@ import { db } from '../schema';
 import { Product, ProductVariation } from '../../types';
 import { updateLastSync } from './sync';
 import { updateInventoryItem } from './inventory';
+import { queueOutboundChange } from './outboundChanges';
+import { storeStorageKey } from '../stores';
+import { AuditDetails, recordAuditEntry } from './auditLog';
 
 export async function saveProducts(products: Product[]): Promise<void> {
   try {
@@ -71,12 +74,17 @@ export async function getProductVariations(): Promise<ProductVariation[]> {
   }
 }
 
-export async function updateProductCostPrice(productId: number, costPrice: number, variationId?: number): Promise<void> {
+export async function updateProductCostPrice(
+  productId: number,
+  costPrice: number,
+  variationId?: number,
+  audit: AuditDetails = {}
+): Promise<void> {
   try {
     // Ensure the database is initialized before updating
     await db.initializeDatabase();
     
-    await db.transaction('rw', db.inventory, db.products, db.productVariations, async () => {
+    await db.transaction('rw', [db.inventory, db.products, db.productVariations, db.outboundChanges, db.auditLog], async () => {
       if (variationId) {
         // Update variation cost price
         const variation = await db.productVariations.get(variationId);
@@ -84,6 +92,16 @@ export async function updateProductCostPrice(productId: number, costPrice: numbe
           // Update the variation in productVariations table
           await db.productVariations.update(variationId, { cost_price: costPrice });
           
+          await recordAuditEntry({
+            entity_type: 'variation',
+            entity_id: variationId,
+            label: variation.name,
+            action: 'update',
+            before: { product_id: productId, sku: variation.sku, cost_price: variation.cost_price },
+            after: { product_id: productId, sku: variation.sku, cost_price: costPrice },
+            ...audit
+          });
+          
           // Update or create inventory item
           await updateInventoryItem({
             product_id: productId,
@@ -93,7 +111,17 @@ export async function updateProductCostPrice(productId: number, costPrice: numbe
           });
           
           // Store in localStorage as a backup
-          localStorage.setItem(`variation_cost_${variationId}`, costPrice.toString());
+          localStorage.setItem(storeStorageKey(`variation_cost_${variationId}`), costPrice.toString());
+          
+          await queueOutboundChange({
+            type: 'cost',
+            product_id: productId,
+            variation_id: variationId,
+            sku: variation.sku || '',
+            name: variation.name,
+            value: costPrice,
+            source: 'Manual edit'
+          });
         }
       } else {
         // Update product cost price
@@ -102,6 +130,16 @@ export async function updateProductCostPrice(productId: number, costPrice: numbe
           // Update the product in products table
           await db.products.update(productId, { cost_price: costPrice });
           
+          await recordAuditEntry({
+            entity_type: 'product',
+            entity_id: productId,
+            label: product.name,
+            action: 'update',
+            before: { sku: product.sku, cost_price: product.cost_price },
+            after: { sku: product.sku, cost_price: costPrice },
+            ...audit
+          });
+          
           // Update or create inventory item
           await updateInventoryItem({
             product_id: productId,
@@ -110,7 +148,16 @@ export async function updateProductCostPrice(productId: number, costPrice: numbe
           });
           
           // Store in localStorage as a backup
-          localStorage.setItem(`product_cost_${productId}`, costPrice.toString());
+          localStorage.setItem(storeStorageKey(`product_cost_${productId}`), costPrice.toString());
+          
+          await queueOutboundChange({
+            type: 'cost',
+            product_id: productId,
+            sku: product.sku || '',
+            name: product.name,
+            value: costPrice,
+            source: 'Manual edit'
+          });
         }
       }
     });
@@ -118,4 +165,50 @@ export async function updateProductCostPrice(productId: number, costPrice: numbe
     console.error('Error updating product cost price:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Insert new products and replace existing ones with the same id
+export async function upsertProducts(products: Product[]): Promise<void> {
+  try {
+    if (products.length > 0) {
+      await db.products.bulkPut(products);
+    }
+    await updateLastSync('products');
+  } catch (error) {
+    console.error('Error upserting products:', error);
+    throw error;
+  }
+}
+
+// Remove products the store no longer has, along with their variations
+export async function removeMissingProducts(keptIds: number[]): Promise<void> {
+  try {
+    const kept = new Set(keptIds);
+    await db.transaction('rw', db.products, db.productVariations, async () => {
+      const missingIds = (await db.products.toCollection().primaryKeys() as number[]).filter(id => !kept.has(id));
+      if (missingIds.length > 0) {
+        await db.products.bulkDelete(missingIds);
+      }
+      await db.productVariations.filter(variation => !kept.has(variation.parent_id)).delete();
+    });
+  } catch (error) {
+    console.error('Error removing missing products:', error);
+    throw error;
+  }
+}
+
+// Replace the variations of the given parent products
+export async function replaceProductVariations(parentIds: number[], variations: ProductVariation[]): Promise<void> {
+  try {
+    await db.transaction('rw', db.productVariations, async () => {
+      await db.productVariations.where('parent_id').anyOf(parentIds).delete();
+      if (variations.length > 0) {
+        await db.productVariations.bulkPut(variations);
+      }
+    });
+    await updateLastSync('product_variations');
+  } catch (error) {
+    console.error('Error replacing product variations:', error);
+    throw error;
+  }
+}
@@ -1,16 +1,34 @@
 import { db } from '../index';
-import { PurchaseOrder, PurchaseOrderItem, ProductExpiry } from '../../types';
-import { addProductExpiry } from './expiry';
+import { PurchaseOrder, PurchaseOrderItem } from '../../types';
+import { derivePurchaseOrderStatus } from './goodsReceipts';
+import { AuditDetails, recordAuditEntry, toAuditSnapshot } from './auditLog';
+import { trashRecord } from './trash';
+
+// How a purchase order is named in the audit log and the trash
+const purchaseOrderLabel = (purchaseOrder: PurchaseOrder) =>
+  `PO ${purchaseOrder.reference_number || purchaseOrder.id} (${purchaseOrder.supplier_name})`;
+
+// Snapshot a purchase order together with its items
+const getPurchaseOrderSnapshot = async (id: number) => {
+  const purchaseOrder = await db.purchaseOrders.get(id);
+  if (!purchaseOrder) return null;
+  
+  const items = await db.purchaseOrderItems.where('purchase_order_id').equals(id).toArray();
+  return { purchaseOrder, snapshot: toAuditSnapshot({ ...purchaseOrder, items }) };
+};
 
 // Create a new purchase order
+// Nothing is in stock yet; deliveries are recorded as goods receipts
 export const createPurchaseOrder = async (
   purchaseOrder: PurchaseOrder,
-  items: PurchaseOrderItem[]
+  items: PurchaseOrderItem[],
+  audit: AuditDetails = {}
 ): Promise<number> => {
-  return db.transaction('rw', db.purchaseOrders, db.purchaseOrderItems, db.productExpiry, async () => {
+  return db.transaction('rw', db.purchaseOrders, db.purchaseOrderItems, db.auditLog, async () => {
     // Add the purchase order
     const id = await db.purchaseOrders.add({
       ...purchaseOrder,
+      status: 'ordered',
       created_at: new Date()
     }) as number;
     
@@ -18,44 +36,21 @@ export const createPurchaseOrder = async (
     await db.purchaseOrderItems.bulkAdd(
       items.map(item => ({
         ...item,
-        purchase_order_id: id
+        purchase_order_id: id,
+        quantity_received: 0
       }))
     );
     
-    // Add expiry tracking for items with expiry dates
-    for (const item of items) {
-      if (item.expiry_date && item.batch_number) {
-        try {
-          // Create expiry tracking record
-          const expiryData: Omit<ProductExpiry, 'id' | 'created_at' | 'updated_at'> = {
-            product_id: 0, // Will be updated if product is found
-            sku: item.sku,
-            product_name: item.product_name,
-            expiry_date: item.expiry_date,
-            batch_number: item.batch_number,
-            quantity: item.quantity,
-            notes: `Added from Purchase Order #${id}`
-          };
-          
-          // Try to find the product ID by SKU
-          const product = await db.products.where('sku').equals(item.sku).first();
-          if (product) {
-            expiryData.product_id = product.id;
-          } else {
-            // Check if it's a variation
-            const variation = await db.productVariations.where('sku').equals(item.sku).first();
-            if (variation) {
-              expiryData.product_id = variation.parent_id;
-              expiryData.variation_id = variation.id;
-            }
-          }
-          
-          await addProductExpiry(expiryData);
-        } catch (error) {
-          console.error(`Failed to add expiry tracking for item ${item.sku}:`, error);
-          // Continue with other items even if one fails
-        }
-      }
+    const created = await getPurchaseOrderSnapshot(id);
+    if (created) {
+      await recordAuditEntry({
+        entity_type: 'purchase_order',
+        entity_id: id,
+        label: purchaseOrderLabel(created.purchaseOrder),
+        action: 'create',
+        after: created.snapshot,
+        ...audit
+      });
     }
     
     return id;
@@ -116,167 +111,109 @@ export const getPurchaseOrderWithItems = async (id: number): Promise<{
 };
 
 // Update a purchase order
+// Items keep their ids so receipts still point at them. Received quantities
+// and the status come from receipts, never from the form.
 export const updatePurchaseOrder = async (
   id: number,
   purchaseOrder: Partial<PurchaseOrder>,
-  items?: PurchaseOrderItem[]
+  items?: PurchaseOrderItem[],
+  audit: AuditDetails = {}
 ): Promise<void> => {
-  return db.transaction('rw', db.purchaseOrders, db.purchaseOrderItems, db.productExpiry, db.inventory, async () => {
-    // Get the current purchase order to check for status changes
-    const currentPO = await db.purchaseOrders.get(id);
+  return db.transaction('rw', db.purchaseOrders, db.purchaseOrderItems, db.auditLog, async () => {
+    const before = await getPurchaseOrderSnapshot(id);
+    
+    const details = { ...purchaseOrder };
+    delete details.status;
     
     // Update the purchase order
     await db.purchaseOrders.update(id, {
-      ...purchaseOrder,
+      ...details,
       updated_at: new Date()
     });
     
     // If items are provided, update them
     if (items) {
-      // Get existing items to check for changes in expiry data
       const existingItems = await db.purchaseOrderItems
         .where('purchase_order_id')
         .equals(id)
         .toArray();
+      const existingMap = new Map(existingItems.map(item => [item.id, item]));
+      const keptIds = new Set(items.filter(item => item.id).map(item => item.id));
       
-      // Delete existing items
-      await db.purchaseOrderItems
-        .where('purchase_order_id')
-        .equals(id)
-        .delete();
+      // Stock that has arrived cannot be taken off the order
+      for (const existing of existingItems) {
+        const received = existing.quantity_received || 0;
+        const updated = items.find(item => item.id === existing.id);
+        
+        if (received > 0 && !keptIds.has(existing.id)) {
+          throw new Error(`${existing.sku || existing.product_name} has been received and cannot be removed`);
+        }
+        if (updated && updated.quantity < received) {
+          throw new Error(`${existing.sku || existing.product_name} cannot be less than the ${received} already received`);
+        }
+      }
       
-      // Add new items
-      await db.purchaseOrderItems.bulkAdd(
-        items.map(item => ({
-          ...item,
-          purchase_order_id: id
-        }))
+      // Delete removed items
+      await db.purchaseOrderItems.bulkDelete(
+        existingItems.filter(item => !keptIds.has(item.id)).map(item => item.id!)
       );
       
-      // Update expiry tracking for items with expiry dates
+      // Update kept items and add new ones
       for (const item of items) {
-        if (item.expiry_date && item.batch_number) {
-          try {
-            // Check if this item already had expiry tracking
-            const existingItem = existingItems.find(ei => ei.sku === item.sku && ei.batch_number === item.batch_number);
-            
-            if (existingItem) {
-              // Find the existing expiry record
-              const existingExpiry = await db.productExpiry
-                .where('sku')
-                .equals(item.sku)
-                .and(record => record.batch_number === item.batch_number)
-                .first();
-              
-              if (existingExpiry) {
-                // Update the existing expiry record
-                await db.productExpiry.update(existingExpiry.id!, {
-                  expiry_date: item.expiry_date,
-                  quantity: item.quantity,
-                  updated_at: new Date()
-                });
-              } else {
-                // Create a new expiry record
-                await createExpiryRecord(item, id);
-              }
-            } else {
-              // Create a new expiry record
-              await createExpiryRecord(item, id);
-            }
-          } catch (error) {
-            console.error(`Failed to update expiry tracking for item ${item.sku}:`, error);
-            // Continue with other items even if one fails
-          }
-        }
-      }
-      
-      // If the status changed to received or partially_received, update inventory
-      if (currentPO && 
-          (purchaseOrder.status === 'received' || purchaseOrder.status === 'partially_received') && 
-          currentPO.status === 'ordered') {
+        const existing = item.id ? existingMap.get(item.id) : undefined;
         
-        // Update inventory for each item
-        for (const item of items) {
-          try {
-            // Get the current inventory item
-            const inventoryItem = await db.inventory
-              .where('sku')
-              .equals(item.sku)
-              .first();
-            
-            if (inventoryItem) {
-              // Update existing inventory item
-              const receivedQuantity = purchaseOrder.status === 'received' ? 
-                item.quantity : 
-                (item.quantity_received || 0);
-              
-              await db.inventory.update(inventoryItem.id!, {
-                stock_quantity: (inventoryItem.stock_quantity || 0) + receivedQuantity,
-                updated_at: new Date()
-              });
-            } else {
-              // Create new inventory item
-              const receivedQuantity = purchaseOrder.status === 'received' ? 
-                item.quantity : 
-                (item.quantity_received || 0);
-              
-              // Try to find product information
-              const product = await db.products.where('sku').equals(item.sku).first();
-              const variation = !product ? 
-                await db.productVariations.where('sku').equals(item.sku).first() : 
-                null;
-              
-              await db.inventory.add({
-                product_id: product ? product.id : (variation ? variation.parent_id : 0),
-                variation_id: variation ? variation.id : undefined,
-                sku: item.sku,
-                cost_price: item.unit_price,
-                stock_quantity: receivedQuantity,
-                supplier_name: currentPO.supplier_name,
-                supplier_updated: new Date()
-              });
-            }
-          } catch (error) {
-            console.error(`Failed to update inventory for item ${item.sku}:`, error);
-            // Continue with other items even if one fails
-          }
+        if (existing) {
+          await db.purchaseOrderItems.put({
+            ...item,
+            purchase_order_id: id,
+            quantity_received: existing.quantity_received || 0
+          });
+        } else {
+          await db.purchaseOrderItems.add({
+            ...item,
+            id: undefined,
+            purchase_order_id: id,
+            quantity_received: 0
+          });
         }
       }
+      
+      // More may now be outstanding, or everything may now be in
+      const updatedItems = await db.purchaseOrderItems
+        .where('purchase_order_id')
+        .equals(id)
+        .toArray();
+      await db.purchaseOrders.update(id, { status: derivePurchaseOrderStatus(updatedItems) });
+    }
+    
+    const after = await getPurchaseOrderSnapshot(id);
+    if (before && after) {
+      await recordAuditEntry({
+        entity_type: 'purchase_order',
+        entity_id: id,
+        label: purchaseOrderLabel(after.purchaseOrder),
+        action: 'update',
+        before: before.snapshot,
+        after: after.snapshot,
+        ...audit
+      });
     }
   });
 };
 
-// Helper function to create an expiry record from a purchase order item
-async function createExpiryRecord(item: PurchaseOrderItem, purchaseOrderId: number): Promise<void> {
-  const expiryData: Omit<ProductExpiry, 'id' | 'created_at' | 'updated_at'> = {
-    product_id: 0, // Will be updated if product is found
-    sku: item.sku,
-    product_name: item.product_name,
-    expiry_date: item.expiry_date!,
-    batch_number: item.batch_number,
-    quantity: item.quantity,
-    notes: `Added from Purchase Order #${purchaseOrderId}`
-  };
-  
-  // Try to find the product ID by SKU
-  const product = await db.products.where('sku').equals(item.sku).first();
-  if (product) {
-    expiryData.product_id = product.id;
-  } else {
-    // Check if it's a variation
-    const variation = await db.productVariations.where('sku').equals(item.sku).first();
-    if (variation) {
-      expiryData.product_id = variation.parent_id;
-      expiryData.variation_id = variation.id;
-    }
-  }
-  
-  await addProductExpiry(expiryData);
-}
-
 // Delete a purchase order and its items
-export const deletePurchaseOrder = async (id: number): Promise<void> => {
-  return db.transaction('rw', db.purchaseOrders, db.purchaseOrderItems, async () => {
+// They are kept together in the trash until the trash is emptied
+export const deletePurchaseOrder = async (id: number, audit: AuditDetails = {}): Promise<void> => {
+  return db.transaction('rw', [db.purchaseOrders, db.purchaseOrderItems, db.goodsReceipts, db.trash, db.auditLog], async () => {
+    // Received stock is in inventory and in the cost layers; its receipts must be reversed first
+    const receiptCount = await db.goodsReceipts.where('purchase_order_id').equals(id).count();
+    if (receiptCount > 0) {
+      throw new Error('This purchase order has goods receipts. Delete its receipts before deleting the order.');
+    }
+    
+    const deleted = await getPurchaseOrderSnapshot(id);
+    if (!deleted) return;
+    
     // Delete the items first
     await db.purchaseOrderItems
       .where('purchase_order_id')
@@ -285,6 +222,8 @@ export const deletePurchaseOrder = async (id: number): Promise<void> => {
     
     // Delete the purchase order
     await db.purchaseOrders.delete(id);
+    
+    await trashRecord('purchase_order', id, purchaseOrderLabel(deleted.purchaseOrder), deleted.snapshot, audit);
   });
 };
 
@@ -296,12 +235,15 @@ export const getPurchaseOrderItemsBySku = async (sku: string): Promise<PurchaseO
     .toArray();
 };
 
-// Get total purchase amount for a date range
-export const getTotalPurchaseAmount = async (startDate: Date, endDate: Date): Promise<number> => {
-  const orders = await db.purchaseOrders
-    .where('date')
-    .between(startDate, endDate)
+// Get the purchase orders paid in a date range
+// Orders without a paid date have not been paid, so they are left out
+export const getPurchaseOrdersPaidBetween = async (startDate: Date, endDate: Date): Promise<PurchaseOrder[]> => {
+  return db.purchaseOrders
+    .filter(po => !!po.date_paid && po.date_paid >= startDate && po.date_paid <= endDate)
     .toArray();
-  
-  return orders.reduce((total, order) => total + order.total_amount, 0);
-}; 
\ No newline at end of file
+};
+
+// Get the items of every purchase order
+export const getAllPurchaseOrderItems = async (): Promise<PurchaseOrderItem[]> => {
+  return db.purchaseOrderItems.toArray();
+};
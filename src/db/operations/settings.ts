@@ -0,0 +1,33 @@
+import { db } from '../schema';
+
+// Setting keys
+export const STORE_PROFILE_SETTING = 'storeProfile';
+export const PNL_ORDER_STATUSES_SETTING = 'pnlOrderStatuses';
+export const PAYMENT_FEE_SCHEDULES_SETTING = 'paymentFeeSchedules';
+export const SHIPPING_RATE_RULES_SETTING = 'shippingRateRules';
+export const CREDENTIAL_VAULT_SETTING = 'credentialVault';
+export const BUDGET_ALERT_THRESHOLD_SETTING = 'budgetAlertThreshold';
+export const BANK_RULES_SETTING = 'bankRules';
+export const REPORTING_BASIS_SETTING = 'reportingBasis';
+
+export async function getSetting<T>(key: string): Promise<T | null> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+    
+    const setting = await db.settings.get(key);
+    return setting ? (setting.value as T) : null;
+  } catch (error) {
+    console.error(`Error getting setting ${key}:`, error);
+    return null;
+  }
+}
+
+export async function saveSetting<T>(key: string, value: T): Promise<void> {
+  try {
+    await db.settings.put({ key, value });
+  } catch (error) {
+    console.error(`Error saving setting ${key}:`, error);
+    throw error;
+  }
+}
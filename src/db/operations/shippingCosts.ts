@@ -0,0 +1,32 @@
+import { db } from '../schema';
+import { ShippingCost } from '../../types';
+
+export async function getShippingCosts(): Promise<ShippingCost[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+    
+    return await db.shippingCosts.toArray();
+  } catch (error) {
+    console.error('Error getting shipping costs:', error);
+    return [];
+  }
+}
+
+export async function saveShippingCosts(shippingCosts: ShippingCost[]): Promise<void> {
+  try {
+    await db.shippingCosts.bulkPut(shippingCosts);
+  } catch (error) {
+    console.error('Error saving shipping costs:', error);
+    throw error;
+  }
+}
+
+export async function deleteShippingCost(orderId: number): Promise<void> {
+  try {
+    await db.shippingCosts.delete(orderId);
+  } catch (error) {
+    console.error('Error deleting shipping cost:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,45 @@
+import { AppDatabase, db } from '../schema';
+import { getActiveStoreId, getStoreDatabaseName } from '../stores';
+import { STORE_PROFILE_SETTING } from './settings';
+import { Product, StoreProfile } from '../../types';
+
+export interface StoreDataSnapshot {
+  storeId: number;
+  products: Product[];
+  profile: Partial<StoreProfile> | null;
+}
+
+/**
+ * Read the store details a consolidated view needs besides the store's P&L
+ * Other stores' databases are opened read-only for the duration of the call.
+ * The P&L itself is calculated in the store's own worker, from its own orders.
+ */
+export async function getStoreDataSnapshot(storeId: number): Promise<StoreDataSnapshot> {
+  const isActiveStore = storeId === getActiveStoreId();
+  const storeDb = isActiveStore ? db : new AppDatabase(getStoreDatabaseName(storeId));
+  
+  try {
+    if (isActiveStore) {
+      // Ensure the database is initialized before accessing
+      await db.initializeDatabase();
+    }
+    
+    const [products, profileSetting] = await Promise.all([
+      storeDb.products.toArray(),
+      storeDb.settings.get(STORE_PROFILE_SETTING)
+    ]);
+    
+    return {
+      storeId,
+      products,
+      profile: (profileSetting?.value as Partial<StoreProfile>) || null
+    };
+  } catch (error) {
+    console.error(`Error reading data for store ${storeId}:`, error);
+    throw error;
+  } finally {
+    if (!isActiveStore) {
+      storeDb.close();
+    }
+  }
+}
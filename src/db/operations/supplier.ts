@@ -1,6 +1,7 @@
 import { db } from '../schema';
 import { SupplierPriceImport, SupplierPriceItem } from '../../types';
 import { updateSupplierPrice } from './inventory';
+import { recordSupplierPrice } from './priceHistory';
 
 export async function saveSupplierImport(importData: SupplierPriceImport): Promise<number> {
   try {
@@ -76,7 +77,8 @@ export async function getSupplierImportItems(importId: number): Promise<Supplier
 export async function processSupplierPriceData(
   items: SupplierPriceItem[],
   supplierName: string,
-  filename: string
+  filename: string,
+  effectiveDate: Date = new Date()
 ): Promise<SupplierPriceImport> {
   try {
     console.log(`Processing ${items.length} supplier price items for ${supplierName}`);
@@ -96,12 +98,23 @@ export async function processSupplierPriceData(
       const success = await updateSupplierPrice(
         item.sku,
         item.supplier_price,
-        supplierName || item.supplier_name
+        supplierName || item.supplier_name,
+        { source: `Supplier import ${filename}` }
       );
       
       if (success) {
         console.log(`Successfully updated supplier price for SKU: ${item.sku}`);
         updatedCount++;
+        
+        // Keep the price in the history, so past costs can still be looked up
+        await recordSupplierPrice({
+          sku: item.sku,
+          supplier_name: supplierName || item.supplier_name,
+          price: item.supplier_price,
+          effective_date: effectiveDate,
+          source: 'import',
+          reference: filename
+        });
       } else {
         console.log(`Failed to update supplier price for SKU: ${item.sku}`);
         skippedCount++;
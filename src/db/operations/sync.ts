@@ -1,17 +1,26 @@
 import { db } from '../schema';
 
+// Each sync type has a fixed row in the lastSync table
+function getSyncId(type: string): number {
+  return type === 'products' ? 1 :
+    type === 'orders' ? 2 :
+    type === 'inventory' ? 3 :
+    type === 'product_variations' ? 4 :
+    type === 'customers' ? 6 : 5;
+}
+
 export async function updateLastSync(type: string): Promise<void> {
   try {
-    const id = 
-      type === 'products' ? 1 : 
-      type === 'orders' ? 2 : 
-      type === 'inventory' ? 3 : 
-      type === 'product_variations' ? 4 : 5;
-      
+    const id = getSyncId(type);
+
+    // Keep the incremental sync cursor when only the timestamp changes
+    const existing = await db.lastSync.get(id);
+
     await db.lastSync.put({
       id,
       type,
-      timestamp: new Date()
+      timestamp: new Date(),
+      cursor: existing?.cursor
     });
   } catch (error) {
     console.error('Error updating last sync:', error);
@@ -22,14 +31,8 @@ export async function getLastSync(type: string): Promise<Date | null> {
   try {
     // Ensure the database is initialized before accessing
     await db.initializeDatabase();
-    
-    const id = 
-      type === 'products' ? 1 : 
-      type === 'orders' ? 2 : 
-      type === 'inventory' ? 3 : 
-      type === 'product_variations' ? 4 : 5;
-      
-    const sync = await db.lastSync.get(id);
+
+    const sync = await db.lastSync.get(getSyncId(type));
     return sync?.timestamp || null;
   } catch (error) {
     console.error('Error getting last sync:', error);
@@ -37,18 +40,56 @@ export async function getLastSync(type: string): Promise<Date | null> {
   }
 }
 
+/**
+ * Get the high-water mark for an incremental sync.
+ * This is the latest GMT modification date seen for the entity, or null if
+ * the entity has never been synced incrementally.
+ */
+export async function getSyncCursor(type: string): Promise<string | null> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    const sync = await db.lastSync.get(getSyncId(type));
+    return sync?.cursor || null;
+  } catch (error) {
+    console.error('Error getting sync cursor:', error);
+    return null;
+  }
+}
+
+/**
+ * Store the high-water mark for an incremental sync and mark the entity as synced
+ */
+export async function updateSyncCursor(type: string, cursor: string): Promise<void> {
+  try {
+    await db.lastSync.put({
+      id: getSyncId(type),
+      type,
+      timestamp: new Date(),
+      cursor
+    });
+  } catch (error) {
+    console.error('Error updating sync cursor:', error);
+    throw error;
+  }
+}
+
 export async function getLastSyncTimes(): Promise<{
   products: Date | null;
   orders: Date | null;
   inventory: Date | null;
+  customers: Date | null;
 }> {
   const productsSync = await getLastSync('products');
   const ordersSync = await getLastSync('orders');
   const inventorySync = await getLastSync('inventory');
-  
+  const customersSync = await getLastSync('customers');
+
   return {
     products: productsSync,
     orders: ordersSync,
-    inventory: inventorySync
+    inventory: inventorySync,
+    customers: customersSync
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,87 @@
+import { db } from '../schema';
+import { SyncJob, SyncJobRequest } from '../../types';
+
+/**
+ * Start a sync job
+ * Jobs that never finished are cancelled, so only the newest job can be resumed.
+ */
+export async function createSyncJob(request: SyncJobRequest): Promise<SyncJob> {
+  try {
+    await db.initializeDatabase();
+
+    const now = new Date();
+    const job: SyncJob = {
+      request,
+      status: 'running',
+      checkpoint: { step: 0, page: 0 },
+      counts: {},
+      retries: 0,
+      errors: [],
+      started_at: now,
+      updated_at: now,
+      duration_ms: 0
+    };
+
+    return await db.transaction('rw', db.syncJobs, async () => {
+      await db.syncJobs
+        .where('status')
+        .anyOf(['running', 'failed'])
+        .modify({ status: 'cancelled', updated_at: now });
+
+      const id = await db.syncJobs.add(job) as number;
+      return { ...job, id };
+    });
+  } catch (error) {
+    console.error('Error creating sync job:', error);
+    throw error;
+  }
+}
+
+// Save a sync job's progress or outcome
+export async function updateSyncJob(id: number, changes: Partial<SyncJob>): Promise<void> {
+  try {
+    await db.syncJobs.update(id, { ...changes, updated_at: new Date() });
+  } catch (error) {
+    console.error(`Error updating sync job ${id}:`, error);
+    throw error;
+  }
+}
+
+export async function getSyncJob(id: number): Promise<SyncJob | null> {
+  try {
+    await db.initializeDatabase();
+
+    return await db.syncJobs.get(id) || null;
+  } catch (error) {
+    console.error(`Error getting sync job ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get the job that stopped before finishing, if any
+ * A job still marked running was interrupted, e.g. by reloading the page.
+ */
+export async function getResumableSyncJob(): Promise<SyncJob | null> {
+  try {
+    await db.initializeDatabase();
+
+    const jobs = await db.syncJobs.where('status').anyOf(['running', 'failed']).toArray();
+    return jobs.sort((a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime())[0] || null;
+  } catch (error) {
+    console.error('Error getting resumable sync job:', error);
+    return null;
+  }
+}
+
+// Get the most recent sync jobs, newest first
+export async function getSyncJobs(limit: number = 20): Promise<SyncJob[]> {
+  try {
+    await db.initializeDatabase();
+
+    return await db.syncJobs.orderBy('started_at').reverse().limit(limit).toArray();
+  } catch (error) {
+    console.error('Error getting sync jobs:', error);
+    return [];
+  }
+}
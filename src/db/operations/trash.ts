@@ -0,0 +1,160 @@
+import { db } from '../schema';
+import { AdditionalRevenue, AuditEntityType, AuditSnapshot, Expense, ProductExpiry, PurchaseOrder, PurchaseOrderItem, TrashItem } from '../../types';
+import { AuditDetails, recordAuditEntry, toAuditSnapshot } from './auditLog';
+import { GoodsReceiptWithLines, putBackGoodsReceipt, receiptTables } from './goodsReceipts';
+
+/**
+ * Move a deleted record to the trash and record the delete in the audit log
+ * The caller deletes the record itself. Must be called inside a transaction
+ * that includes trash and auditLog.
+ */
+export async function trashRecord(
+  entityType: AuditEntityType,
+  entityId: number,
+  label: string,
+  record: object,
+  audit: AuditDetails = {}
+): Promise<void> {
+  const snapshot = toAuditSnapshot(record);
+
+  await db.trash.add({
+    entity_type: entityType,
+    entity_id: entityId,
+    label,
+    record: snapshot,
+    reason: audit.reason,
+    deleted_at: new Date()
+  });
+
+  await recordAuditEntry({
+    entity_type: entityType,
+    entity_id: entityId,
+    label,
+    action: 'delete',
+    before: snapshot,
+    ...audit
+  });
+}
+
+// Get everything in the trash, most recently deleted first
+export async function getTrash(): Promise<TrashItem[]> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    return await db.trash.orderBy('deleted_at').reverse().toArray();
+  } catch (error) {
+    console.error('Error getting trash:', error);
+    return [];
+  }
+}
+
+export async function getTrashItem(id: number): Promise<TrashItem | undefined> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    return await db.trash.get(id);
+  } catch (error) {
+    console.error(`Error getting trash item ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Put a deleted record back, with its original id
+ * Used to restore from the trash and to revert a delete; the record is taken
+ * out of the trash if it is still there.
+ */
+export async function restoreDeletedRecord(
+  entityType: AuditEntityType,
+  entityId: number,
+  label: string,
+  record: AuditSnapshot,
+  audit: AuditDetails = {}
+): Promise<void> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    // Restoring a goods receipt receives its stock again
+    await db.transaction('rw', [db.expenses, db.additionalRevenue, ...receiptTables()], async () => {
+      switch (entityType) {
+        case 'expense':
+          await db.expenses.put(record as unknown as Expense);
+          break;
+        case 'additional_revenue':
+          await db.additionalRevenue.put(record as unknown as AdditionalRevenue);
+          break;
+        case 'product_expiry':
+          await db.productExpiry.put(record as unknown as ProductExpiry);
+          break;
+        case 'purchase_order': {
+          const { items, ...purchaseOrder } = record as unknown as PurchaseOrder & { items: PurchaseOrderItem[] };
+          await db.purchaseOrders.put(purchaseOrder);
+          await db.purchaseOrderItems.bulkPut(items || []);
+          break;
+        }
+        case 'goods_receipt':
+          await putBackGoodsReceipt(record as unknown as GoodsReceiptWithLines);
+          break;
+        default:
+          throw new Error(`A deleted ${entityType} cannot be restored`);
+      }
+
+      await db.trash.where('[entity_type+entity_id]').equals([entityType, entityId]).delete();
+
+      await recordAuditEntry({
+        entity_type: entityType,
+        entity_id: entityId,
+        label,
+        action: 'restore',
+        after: record,
+        ...audit
+      });
+    });
+  } catch (error) {
+    console.error(`Error restoring ${entityType} ${entityId}:`, error);
+    throw error;
+  }
+}
+
+// Delete the attached files of records leaving the trash for good
+async function deleteTrashedAttachments(items: TrashItem[]): Promise<void> {
+  await db.attachments
+    .where('[owner_type+owner_id]')
+    .anyOf(items.map(item => [item.entity_type, item.entity_id]))
+    .delete();
+}
+
+// Permanently delete records from the trash, with their attachments; their audit history is kept
+export async function deleteTrashItems(ids: number[]): Promise<void> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    await db.transaction('rw', db.trash, db.attachments, async () => {
+      const items = (await db.trash.bulkGet(ids)).filter((item): item is TrashItem => !!item);
+      await deleteTrashedAttachments(items);
+      await db.trash.bulkDelete(ids);
+    });
+  } catch (error) {
+    console.error('Error deleting trash items:', error);
+    throw error;
+  }
+}
+
+export async function emptyTrash(): Promise<void> {
+  try {
+    // Ensure the database is initialized before accessing
+    await db.initializeDatabase();
+
+    await db.transaction('rw', db.trash, db.attachments, async () => {
+      await deleteTrashedAttachments(await db.trash.toArray());
+      await db.trash.clear();
+    });
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    throw error;
+  }
+}
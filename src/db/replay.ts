@@ -0,0 +1,93 @@
+import Dexie, { Table } from 'dexie';
+import { ReplayFixtures, ReplayFixturesSummary } from '../types';
+import { storeStorageKey } from './stores';
+
+const REPLAY_FIXTURES_KEY = 'replay_fixtures';
+const RECORD_FIXTURES_KEY = 'record_fixtures';
+
+// Fixture sets, kept outside the per-store databases so resetting a store's
+// data does not lose the responses it is replayed from
+class ReplayDatabase extends Dexie {
+  fixtures!: Table<ReplayFixtures>;
+
+  constructor() {
+    super('WooCommercePnLReplay');
+    
+    this.version(1).stores({
+      fixtures: '&name, source, updated_at'
+    });
+  }
+}
+
+const replayDb = new ReplayDatabase();
+
+export async function getReplayFixtures(name: string): Promise<ReplayFixtures | null> {
+  try {
+    return await replayDb.fixtures.get(name) || null;
+  } catch (error) {
+    console.error(`Error getting replay fixtures ${name}:`, error);
+    return null;
+  }
+}
+
+// List fixture sets without their records
+export async function getReplayFixtureSummaries(): Promise<ReplayFixturesSummary[]> {
+  try {
+    const fixtures = await replayDb.fixtures.orderBy('updated_at').reverse().toArray();
+    return fixtures.map(fixture => ({
+      name: fixture.name,
+      source: fixture.source,
+      productCount: fixture.products.length,
+      orderCount: fixture.orders.length,
+      created_at: fixture.created_at,
+      updated_at: fixture.updated_at
+    }));
+  } catch (error) {
+    console.error('Error getting replay fixtures:', error);
+    return [];
+  }
+}
+
+export async function saveReplayFixtures(fixtures: ReplayFixtures): Promise<void> {
+  try {
+    await replayDb.fixtures.put({ ...fixtures, updated_at: new Date() });
+  } catch (error) {
+    console.error(`Error saving replay fixtures ${fixtures.name}:`, error);
+    throw error;
+  }
+}
+
+export async function deleteReplayFixtures(name: string): Promise<void> {
+  try {
+    await replayDb.fixtures.delete(name);
+  } catch (error) {
+    console.error(`Error deleting replay fixtures ${name}:`, error);
+    throw error;
+  }
+}
+
+// Get the fixture set the active store is replayed from, or null for the live store
+export function getReplayFixturesName(): string | null {
+  return localStorage.getItem(storeStorageKey(REPLAY_FIXTURES_KEY));
+}
+
+export function setReplayFixturesName(name: string | null): void {
+  if (name) {
+    localStorage.setItem(storeStorageKey(REPLAY_FIXTURES_KEY), name);
+  } else {
+    localStorage.removeItem(storeStorageKey(REPLAY_FIXTURES_KEY));
+  }
+}
+
+// Get the fixture set live responses of the active store are recorded into, if any
+export function getRecordFixturesName(): string | null {
+  return localStorage.getItem(storeStorageKey(RECORD_FIXTURES_KEY));
+}
+
+export function setRecordFixturesName(name: string | null): void {
+  if (name) {
+    localStorage.setItem(storeStorageKey(RECORD_FIXTURES_KEY), name);
+  } else {
+    localStorage.removeItem(storeStorageKey(RECORD_FIXTURES_KEY));
+  }
+}
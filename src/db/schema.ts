@@ -1,5 +1,6 @@
-import { ApiCredentials, Order, Product, InventoryItem, OverheadCost, ProductVariation, Expense, SupplierPriceImport, SupplierPriceItem, ExpenseCategory, ExpenseImport, ProductExpiry, PurchaseOrder, PurchaseOrderItem, AdditionalRevenue, AdditionalRevenueCategory } from '../types';
+import { StoredApiCredentials, AppSetting, LastSync, Order, Product, InventoryItem, OverheadCost, ProductVariation, Expense, SupplierPriceImport, SupplierPriceItem, ExpenseCategory, ExpenseImport, ProductExpiry, PurchaseOrder, PurchaseOrderItem, AdditionalRevenue, AdditionalRevenueCategory, OrderCost, SupplierPriceHistory, GoodsReceipt, GoodsReceiptLine, OutboundChange, SyncJob, Customer, ShippingCost, AuditEntry, TrashItem, Budget, Attachment } from '../types';
 import Dexie, { Table } from 'dexie';
+import { getActiveStoreId, getStoreDatabaseName, storeStorageKey } from './stores';
 
 export class AppDatabase extends Dexie {
   products!: Table<Product>;
@@ -7,8 +8,8 @@ export class AppDatabase extends Dexie {
   orders!: Table<Order>;
   inventory!: Table<InventoryItem & { id?: number }>;
   overheadCosts!: Table<OverheadCost>;
-  apiCredentials!: Table<ApiCredentials & { id?: number }>;
-  lastSync!: Table<{ id: number; timestamp: Date; type: string }>;
+  apiCredentials!: Table<StoredApiCredentials>;
+  lastSync!: Table<LastSync>;
   expenses!: Table<Expense>;
   expenseCategories!: Table<ExpenseCategory>;
   expenseImports!: Table<ExpenseImport>;
@@ -20,9 +21,23 @@ export class AppDatabase extends Dexie {
   suppliers!: Table<{ id: number; name: string; email: string; phone: string; created_at: Date }>;
   additionalRevenue!: Table<AdditionalRevenue>;
   additionalRevenueCategories!: Table<AdditionalRevenueCategory>;
+  settings!: Table<AppSetting>;
+  orderCosts!: Table<OrderCost>;
+  supplierPriceHistory!: Table<SupplierPriceHistory>;
+  goodsReceipts!: Table<GoodsReceipt>;
+  goodsReceiptLines!: Table<GoodsReceiptLine>;
+  outboundChanges!: Table<OutboundChange>;
+  syncJobs!: Table<SyncJob>;
+  customers!: Table<Customer>;
+  shippingCosts!: Table<ShippingCost>;
+  auditLog!: Table<AuditEntry>;
+  trash!: Table<TrashItem>;
+  budgets!: Table<Budget>;
+  attachments!: Table<Attachment>;
 
-  constructor() {
-    super('WooCommercePnLTracker');
+  // Each store has its own database; the default is the active store
+  constructor(name: string = getStoreDatabaseName(getActiveStoreId())) {
+    super(name);
     
     this.version(1).stores({
       products: '++id, name, sku, type',
@@ -60,6 +75,120 @@ export class AppDatabase extends Dexie {
       additionalRevenue: '++id, date, category, period',
       additionalRevenueCategories: '++id, name'
     });
+    
+    // Add key/value settings table (store profile, etc.)
+    this.version(6).stores({
+      settings: 'key'
+    });
+    
+    // Add frozen order costs (cost of goods per order)
+    this.version(7).stores({
+      orderCosts: 'order_id, costed_at'
+    });
+    
+    // Add supplier price history
+    this.version(8).stores({
+      supplierPriceHistory: '++id, sku, supplier_name, effective_date, [sku+effective_date]'
+    });
+    
+    // Add goods-received notes; purchase order status is now derived from them
+    this.version(9).stores({
+      goodsReceipts: '++id, purchase_order_id, date',
+      goodsReceiptLines: '++id, receipt_id, purchase_order_id, purchase_order_item_id, sku'
+    }).upgrade(async tx => {
+      // Purchase orders marked received before receipts existed had no received
+      // quantities; record them so outstanding quantities are right
+      const receivedOrderIds = (await tx.table('purchaseOrders')
+        .where('status')
+        .equals('received')
+        .primaryKeys()) as number[];
+      
+      await tx.table('purchaseOrderItems')
+        .where('purchase_order_id')
+        .anyOf(receivedOrderIds)
+        .modify((item: PurchaseOrderItem) => {
+          if (item.quantity_received === undefined) {
+            item.quantity_received = item.quantity;
+          }
+        });
+    });
+    
+    // Add the queue of stock and cost changes to push back to WooCommerce
+    this.version(10).stores({
+      outboundChanges: '++id, status, type, product_id, created_at'
+    });
+    
+    // Add sync job history and checkpoints
+    this.version(11).stores({
+      syncJobs: '++id, status, started_at'
+    });
+    
+    // Add customers and link orders to them
+    this.version(12).stores({
+      customers: 'id, email, date_created',
+      orders: '++id, number, date_created, status, customer_id'
+    });
+    
+    // Add carrier shipping costs per order
+    this.version(13).stores({
+      shippingCosts: 'order_id, order_number, source'
+    });
+    
+    // Add the audit log of manual edits, and the trash deleted records are kept in
+    this.version(14).stores({
+      auditLog: '++id, [entity_type+entity_id], entity_type, created_at',
+      trash: '++id, [entity_type+entity_id], deleted_at'
+    });
+    
+    // Add versioned budgets per fiscal year
+    this.version(15).stores({
+      budgets: '++id, fiscal_year, [fiscal_year+version]'
+    });
+    
+    // Index expenses and additional revenue by the bank transaction they were imported from
+    this.version(16).stores({
+      expenses: '++id, date, category, period, import_fingerprint',
+      additionalRevenue: '++id, date, category, period, import_fingerprint'
+    });
+    
+    // Add receipts, invoices and other documents attached to expenses, revenue and purchase orders
+    this.version(17).stores({
+      attachments: '++id, [owner_type+owner_id], created_at'
+    });
+    
+    // Index orders by when they were paid, for cash-basis reports
+    this.version(18).stores({
+      orders: '++id, number, date_created, status, customer_id, date_paid_gmt'
+    });
+    
+    // Purchase orders marked partially received before receipts existed may not
+    // say how much arrived, so it cannot be backfilled like fully received ones;
+    // flag them so what arrived is recorded as receipts
+    this.version(19).stores({}).upgrade(async tx => {
+      const partialOrderIds = (await tx.table('purchaseOrders')
+        .where('status')
+        .equals('partially_received')
+        .primaryKeys()) as number[];
+      if (partialOrderIds.length === 0) return;
+      
+      const receipts = await tx.table('goodsReceipts')
+        .where('purchase_order_id')
+        .anyOf(partialOrderIds)
+        .toArray() as GoodsReceipt[];
+      const receiptOrderIds = new Set(receipts.map(receipt => receipt.purchase_order_id));
+      
+      const unknownItems = (await tx.table('purchaseOrderItems')
+        .where('purchase_order_id')
+        .anyOf(partialOrderIds)
+        .toArray() as PurchaseOrderItem[])
+        .filter(item => item.quantity_received === undefined && !receiptOrderIds.has(item.purchase_order_id));
+      
+      const unknownOrderIds = [...new Set(unknownItems.map(item => item.purchase_order_id))];
+      await tx.table('purchaseOrders')
+        .where('id')
+        .anyOf(unknownOrderIds)
+        .modify({ receipts_unknown: true });
+    });
   }
 
   // Initialize the database with default tables if needed
@@ -110,7 +239,7 @@ export class AppDatabase extends Dexie {
         ]);
         
         // Add a flag to indicate the database has been initialized
-        localStorage.setItem('db_initialized', 'true');
+        localStorage.setItem(storeStorageKey('db_initialized'), 'true');
         console.log('Database initialized successfully');
       }
     } catch (error) {
@@ -138,6 +267,19 @@ export class AppDatabase extends Dexie {
       await this.supplierImportItems.count();
       await this.additionalRevenue.count();
       await this.additionalRevenueCategories.count();
+      await this.settings.count();
+      await this.orderCosts.count();
+      await this.supplierPriceHistory.count();
+      await this.goodsReceipts.count();
+      await this.goodsReceiptLines.count();
+      await this.outboundChanges.count();
+      await this.syncJobs.count();
+      await this.customers.count();
+      await this.shippingCosts.count();
+      await this.auditLog.count();
+      await this.trash.count();
+      await this.budgets.count();
+      await this.attachments.count();
       return true;
     } catch (error) {
       return false;
@@ -149,10 +291,10 @@ export class AppDatabase extends Dexie {
     try {
       console.log('Recreating database...');
       // Delete the database
-      await Dexie.delete('WooCommercePnLTracker');
+      await Dexie.delete(this.name);
       
       // Create a new instance
-      const newDb = new AppDatabase();
+      const newDb = new AppDatabase(this.name);
       
       // Open the new database
       await newDb.open();
@@ -174,14 +316,14 @@ export class AppDatabase extends Dexie {
       console.log('Resetting database...');
       
       // Delete the database
-      await Dexie.delete('WooCommercePnLTracker');
+      await Dexie.delete(this.name);
       
       // Remove localStorage flags
-      localStorage.removeItem('db_initialized');
-      localStorage.removeItem('has_api_credentials');
+      localStorage.removeItem(storeStorageKey('db_initialized'));
+      localStorage.removeItem(storeStorageKey('has_api_credentials'));
       
       // Create a new instance
-      const newDb = new AppDatabase();
+      const newDb = new AppDatabase(this.name);
       
       // Open the new database
       await newDb.open();
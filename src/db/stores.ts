@@ -0,0 +1,124 @@
+import Dexie, { Table } from 'dexie';
+import { Store } from '../types';
+
+// The first store keeps the original database name and storage keys, so
+// data from before multi-store support is still found
+export const DEFAULT_STORE_ID = 1;
+const LEGACY_DATABASE_NAME = 'WooCommercePnLTracker';
+const ACTIVE_STORE_KEY = 'active_store_id';
+
+// Workers have no localStorage, so they are told which store to work with
+let workerStoreId: number | null = null;
+
+// Registry of stores, kept outside the per-store databases
+class StoreRegistryDatabase extends Dexie {
+  stores!: Table<Store>;
+
+  constructor() {
+    super('WooCommercePnLStores');
+    
+    this.version(1).stores({
+      stores: '++id, name'
+    });
+  }
+}
+
+const registry = new StoreRegistryDatabase();
+
+// Get the id of the store the app is currently working with
+export function getActiveStoreId(): number {
+  if (typeof localStorage === 'undefined') {
+    return workerStoreId ?? DEFAULT_STORE_ID;
+  }
+  
+  const storedId = parseInt(localStorage.getItem(ACTIVE_STORE_KEY) || '', 10);
+  return isNaN(storedId) ? DEFAULT_STORE_ID : storedId;
+}
+
+// Change the active store; the page must be reloaded for the change to take effect
+export function setActiveStoreId(storeId: number): void {
+  localStorage.setItem(ACTIVE_STORE_KEY, storeId.toString());
+}
+
+// Set the store a worker works with; must be called before the store's database is opened
+export function setWorkerStoreId(storeId: number): void {
+  workerStoreId = storeId;
+}
+
+// Get the IndexedDB database name that holds a store's data
+export function getStoreDatabaseName(storeId: number): string {
+  return storeId === DEFAULT_STORE_ID 
+    ? LEGACY_DATABASE_NAME 
+    : `${LEGACY_DATABASE_NAME}_store_${storeId}`;
+}
+
+// Namespace a localStorage key so stores do not share flags or cached data
+export function storeStorageKey(key: string, storeId: number = getActiveStoreId()): string {
+  return storeId === DEFAULT_STORE_ID ? key : `store_${storeId}_${key}`;
+}
+
+export async function getStores(): Promise<Store[]> {
+  try {
+    // The default store always exists, even before it has been named
+    const defaultStore = await registry.stores.get(DEFAULT_STORE_ID);
+    if (!defaultStore) {
+      await registry.stores.put({
+        id: DEFAULT_STORE_ID,
+        name: 'My Store',
+        created_at: new Date()
+      });
+    }
+    
+    return await registry.stores.orderBy('id').toArray();
+  } catch (error) {
+    console.error('Error getting stores:', error);
+    return [];
+  }
+}
+
+export async function addStore(name: string): Promise<number> {
+  try {
+    // Make sure the default store takes id 1 before any new store is added
+    await getStores();
+    
+    return await registry.stores.add({
+      name,
+      created_at: new Date()
+    }) as number;
+  } catch (error) {
+    console.error('Error adding store:', error);
+    throw error;
+  }
+}
+
+export async function renameStore(storeId: number, name: string): Promise<void> {
+  try {
+    await registry.stores.update(storeId, { name });
+  } catch (error) {
+    console.error('Error renaming store:', error);
+    throw error;
+  }
+}
+
+export async function deleteStore(storeId: number): Promise<void> {
+  if (storeId === DEFAULT_STORE_ID) {
+    throw new Error('The default store cannot be deleted');
+  }
+  if (storeId === getActiveStoreId()) {
+    throw new Error('Switch to another store before deleting this one');
+  }
+  
+  try {
+    await Dexie.delete(getStoreDatabaseName(storeId));
+    await registry.stores.delete(storeId);
+    
+    // Remove the store's namespaced localStorage entries
+    const prefix = storeStorageKey('', storeId);
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => localStorage.removeItem(key));
+  } catch (error) {
+    console.error('Error deleting store:', error);
+    throw error;
+  }
+}
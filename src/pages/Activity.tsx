@@ -0,0 +1,266 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Undo2, ArchiveRestore, Trash2 } from 'lucide-react';
+import { AuditEntityType, AuditEntry, TrashItem } from '../types';
+import {
+  fetchActivity,
+  fetchTrash,
+  revertAuditEntry,
+  restoreTrashItem,
+  purgeTrashItems,
+  emptyTrash
+} from '../services/api';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, describeAuditReason } from '../utils/audit';
+import { formatStoreDate } from '../utils/dateUtils';
+import AuditChanges from '../components/history/AuditChanges';
+
+type ActivityTab = 'activity' | 'trash';
+
+const Activity: React.FC = () => {
+  const [tab, setTab] = useState<ActivityTab>('activity');
+  const [entityType, setEntityType] = useState<AuditEntityType | ''>('');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [trash, setTrash] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [activity, trashItems] = await Promise.all([
+        fetchActivity(entityType || undefined),
+        fetchTrash()
+      ]);
+      setEntries(activity);
+      setTrash(trashItems);
+    } catch (err) {
+      setError(`Failed to load activity: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [entityType]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const runAction = async (action: () => Promise<void>, success: string, failure: string) => {
+    setWorking(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      await action();
+      setMessage(success);
+    } catch (err) {
+      setError(`${failure}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setWorking(false);
+      loadData();
+    }
+  };
+
+  const handleRevert = (entry: AuditEntry) => runAction(
+    () => revertAuditEntry(entry.id!),
+    `Reverted change #${entry.id} to ${entry.label}`,
+    'Failed to revert change'
+  );
+
+  const handleRestore = (item: TrashItem) => runAction(
+    () => restoreTrashItem(item.id!),
+    `Restored ${item.label}`,
+    'Failed to restore'
+  );
+
+  const handlePurge = (item: TrashItem) => {
+    if (!window.confirm(`Permanently delete ${item.label}? It cannot be restored afterwards.`)) {
+      return;
+    }
+    runAction(() => purgeTrashItems([item.id!]), `Permanently deleted ${item.label}`, 'Failed to delete');
+  };
+
+  const handleEmptyTrash = () => {
+    if (!window.confirm(`Permanently delete all ${trash.length} record(s) in the trash? They cannot be restored afterwards.`)) {
+      return;
+    }
+    runAction(emptyTrash, 'Trash emptied', 'Failed to empty trash');
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <h1 className="text-2xl font-bold">Activity</h1>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => setTab('activity')}
+            className={`text-sm px-3 py-2 rounded ${tab === 'activity' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+          >
+            Changes
+          </button>
+          <button
+            onClick={() => setTab('trash')}
+            className={`text-sm px-3 py-2 rounded ${tab === 'trash' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+          >
+            Trash ({trash.length})
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-6">
+        Every edit to cost and supplier prices, expenses, additional revenue, purchase orders and expiry records is
+        recorded here with the values before and after it. Any change can be reverted, and reverting is recorded too.
+        Deleted records stay in the trash until it is emptied.
+      </p>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-6">
+          <strong className="font-bold">Error:</strong>
+          <span className="block sm:inline"> {error}</span>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded relative mb-6">
+          {message}
+        </div>
+      )}
+
+      {tab === 'activity' ? (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-lg font-semibold">Recent Changes</h2>
+            <select
+              className="p-2 border rounded text-sm"
+              value={entityType}
+              onChange={(e) => setEntityType(e.target.value as AuditEntityType | '')}
+            >
+              <option value="">All records</option>
+              {Object.entries(AUDIT_ENTITY_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          {loading ? (
+            <div className="text-gray-500">Loading activity...</div>
+          ) : entries.length === 0 ? (
+            <div className="text-gray-500">No changes have been recorded yet.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Record</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {entries.map(entry => (
+                    <tr key={entry.id} className="hover:bg-gray-50 align-top">
+                      <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">
+                        {formatStoreDate(new Date(entry.created_at))}
+                        <div className="text-xs text-gray-400">#{entry.id}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">{entry.label}</div>
+                        <div className="text-xs text-gray-500">{AUDIT_ENTITY_LABELS[entry.entity_type]}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="text-gray-900">{AUDIT_ACTION_LABELS[entry.action]}</div>
+                        <AuditChanges entry={entry} />
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-500">{describeAuditReason(entry) || '-'}</td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        <button
+                          onClick={() => handleRevert(entry)}
+                          disabled={working}
+                          className="flex items-center text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                          title="Undo this change"
+                        >
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          Revert
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-lg font-semibold">Trash</h2>
+            <button
+              onClick={handleEmptyTrash}
+              disabled={working || trash.length === 0}
+              className="flex items-center text-sm bg-red-600 text-white px-3 py-2 rounded hover:bg-red-700 disabled:opacity-50"
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Empty Trash
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="text-gray-500">Loading trash...</div>
+          ) : trash.length === 0 ? (
+            <div className="text-gray-500">The trash is empty.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deleted</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Record</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {trash.map(item => (
+                    <tr key={item.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">{formatStoreDate(new Date(item.deleted_at))}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">{item.label}</div>
+                        <div className="text-xs text-gray-500">{AUDIT_ENTITY_LABELS[item.entity_type]}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-500">{item.reason || '-'}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="flex justify-end space-x-3">
+                          <button
+                            onClick={() => handleRestore(item)}
+                            disabled={working}
+                            className="flex items-center text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                          >
+                            <ArchiveRestore className="h-4 w-4 mr-1" />
+                            Restore
+                          </button>
+                          <button
+                            onClick={() => handlePurge(item)}
+                            disabled={working}
+                            className="flex items-center text-red-600 hover:text-red-900 disabled:opacity-50"
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Delete Forever
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Activity;
@@ -13,7 +13,7 @@ import RevenueForm from '../components/additionalRevenue/RevenueForm';
 import RevenueTable from '../components/additionalRevenue/RevenueTable';
 import RevenueSummary from '../components/additionalRevenue/RevenueSummary';
 import RevenueFilters from '../components/additionalRevenue/RevenueFilters';
-import { formatNZDate } from '../services/api/utils';
+import { formatDisplayDate } from '../services/api/utils';
 
 const AdditionalRevenuePage: React.FC = () => {
   const [revenues, setRevenues] = useState<AdditionalRevenue[]>([]);
@@ -92,6 +92,11 @@ const AdditionalRevenuePage: React.FC = () => {
     setRevenues(updatedRevenues);
   };
   
+  // Reload revenue after a change is reverted from an entry's history
+  const reloadRevenues = async () => {
+    setRevenues(await getAdditionalRevenue(dateRange.startDate, dateRange.endDate));
+  };
+  
   // Handle edit revenue
   const handleEditRevenue = (revenue: AdditionalRevenue) => {
     setEditingRevenueId(revenue.id || null);
@@ -112,7 +117,7 @@ const AdditionalRevenuePage: React.FC = () => {
     const headers = ['Date', 'Category', 'Amount', 'Description', 'Reference', 'Payment Method', 'Period', 'Tax Included'];
     
     const rows = filteredRevenues.map(revenue => [
-      formatNZDate(new Date(revenue.date)),
+      formatDisplayDate(new Date(revenue.date)),
       revenue.category,
       revenue.amount.toFixed(2),
       revenue.description,
@@ -251,6 +256,7 @@ const AdditionalRevenuePage: React.FC = () => {
           categories={categories}
           onEdit={handleEditRevenue}
           onRevenuesUpdated={handleRevenuesUpdated}
+          onHistoryReverted={reloadRevenues}
         />
       </div>
     </div>
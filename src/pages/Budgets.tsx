@@ -0,0 +1,322 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, CheckCircle, Trash2 } from 'lucide-react';
+import { Budget } from '../types';
+import {
+  fetchBudgets,
+  createBudgetVersion,
+  saveBudget,
+  activateBudget,
+  removeBudget,
+  fetchBudgetComparison,
+  fetchBudgetAlertThreshold,
+  saveBudgetAlertThreshold
+} from '../services/api';
+import {
+  BudgetComparison,
+  BudgetPeriodType,
+  DEFAULT_BUDGET_ALERT_THRESHOLD,
+  getBudgetPeriodForDate,
+  getFiscalMonthLabel,
+  getFiscalYearLabel
+} from '../services/budgets';
+import { getExpenseCategories } from '../db/operations/expenses';
+import { getAdditionalRevenueCategories } from '../db/operations/additionalRevenue';
+import BudgetComparisonTable from '../components/budgets/BudgetComparisonTable';
+import BudgetEditor from '../components/budgets/BudgetEditor';
+
+const Budgets: React.FC = () => {
+  const currentPeriod = getBudgetPeriodForDate('month');
+  const [fiscalYear, setFiscalYear] = useState(currentPeriod.fiscalYear);
+  const [periodType, setPeriodType] = useState<BudgetPeriodType>('month');
+  const [periodIndex, setPeriodIndex] = useState(currentPeriod.index);
+
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [selectedBudgetId, setSelectedBudgetId] = useState<number | null>(null);
+  const [comparison, setComparison] = useState<BudgetComparison | null>(null);
+  const [expenseCategories, setExpenseCategories] = useState<string[]>([]);
+  const [revenueCategories, setRevenueCategories] = useState<string[]>([]);
+  const [threshold, setThreshold] = useState(DEFAULT_BUDGET_ALERT_THRESHOLD);
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selectedBudget = budgets.find(budget => budget.id === selectedBudgetId);
+
+  // Load the fiscal year's versions, selecting the active one
+  const loadBudgets = useCallback(async (selectId?: number) => {
+    const versions = await fetchBudgets(fiscalYear);
+    setBudgets(versions);
+    setSelectedBudgetId(selectId ?? (versions.find(budget => budget.is_active) || versions[0])?.id ?? null);
+  }, [fiscalYear]);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      const [expense, revenue, alertThreshold] = await Promise.all([
+        getExpenseCategories(),
+        getAdditionalRevenueCategories(),
+        fetchBudgetAlertThreshold()
+      ]);
+      setExpenseCategories(expense.map(category => category.name));
+      setRevenueCategories(revenue.map(category => category.name));
+      setThreshold(alertThreshold);
+    };
+
+    loadSettings();
+  }, []);
+
+  useEffect(() => {
+    loadBudgets();
+  }, [loadBudgets]);
+
+  useEffect(() => {
+    const loadComparison = async () => {
+      setLoading(true);
+      try {
+        // Until the year's versions load, compare with its active version
+        const budget = selectedBudget?.fiscal_year === fiscalYear ? selectedBudget : undefined;
+        setComparison(await fetchBudgetComparison({ fiscalYear, type: periodType, index: periodIndex }, budget));
+      } catch (err) {
+        setError(`Failed to compare with budget: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadComparison();
+  }, [fiscalYear, periodType, periodIndex, selectedBudget]);
+
+  const runAction = async (action: () => Promise<void>, success: string, failure: string) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      await action();
+      setMessage(success);
+    } catch (err) {
+      setError(`${failure}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePeriodTypeChange = (type: BudgetPeriodType) => {
+    setPeriodType(type);
+    setPeriodIndex(fiscalYear === currentPeriod.fiscalYear ? getBudgetPeriodForDate(type).index : 0);
+  };
+
+  // Start a version from the selected one, or from the categories' monthly budgets
+  const handleNewVersion = () => {
+    const name = window.prompt('Name for the new budget version', selectedBudget ? `${selectedBudget.name} (revised)` : 'Original budget');
+    if (name === null) return;
+
+    runAction(async () => {
+      const id = await createBudgetVersion(fiscalYear, name.trim() || `Version ${budgets.length + 1}`, selectedBudget);
+      await loadBudgets(id);
+    }, 'New budget version saved and made active', 'Failed to save budget version');
+  };
+
+  const handleSave = (budget: Budget) => runAction(async () => {
+    await saveBudget(budget);
+    await loadBudgets(budget.id);
+  }, `Saved ${budget.name}`, 'Failed to save budget');
+
+  const handleActivate = () => runAction(async () => {
+    await activateBudget(selectedBudgetId!);
+    await loadBudgets(selectedBudgetId!);
+  }, `${selectedBudget?.name} is now the active budget for ${getFiscalYearLabel(fiscalYear)}`, 'Failed to activate budget');
+
+  const handleDelete = () => {
+    if (!selectedBudget || !window.confirm(`Delete budget version ${selectedBudget.version} (${selectedBudget.name})?`)) {
+      return;
+    }
+    runAction(async () => {
+      await removeBudget(selectedBudget.id!);
+      await loadBudgets();
+    }, 'Budget version deleted', 'Failed to delete budget version');
+  };
+
+  const handleSaveThreshold = () => runAction(
+    () => saveBudgetAlertThreshold(threshold),
+    'Alert threshold saved',
+    'Failed to save alert threshold'
+  );
+
+  const periodOptions = periodType === 'month'
+    ? Array.from({ length: 12 }, (_, month) => ({ value: month, label: getFiscalMonthLabel(fiscalYear, month) }))
+    : periodType === 'quarter'
+      ? [0, 1, 2, 3].map(quarter => ({ value: quarter, label: `Q${quarter + 1}` }))
+      : [];
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <h1 className="text-2xl font-bold">Budgets</h1>
+
+        <div className="flex flex-wrap gap-2">
+          <select
+            className="p-2 border rounded text-sm"
+            value={fiscalYear}
+            onChange={(e) => setFiscalYear(Number(e.target.value))}
+          >
+            {[-2, -1, 0, 1].map(offset => currentPeriod.fiscalYear + offset).map(year => (
+              <option key={year} value={year}>{getFiscalYearLabel(year)}</option>
+            ))}
+          </select>
+          <select
+            className="p-2 border rounded text-sm"
+            value={periodType}
+            onChange={(e) => handlePeriodTypeChange(e.target.value as BudgetPeriodType)}
+          >
+            <option value="month">Month</option>
+            <option value="quarter">Quarter</option>
+            <option value="year">Year</option>
+          </select>
+          {periodOptions.length > 0 && (
+            <select
+              className="p-2 border rounded text-sm"
+              value={periodIndex}
+              onChange={(e) => setPeriodIndex(Number(e.target.value))}
+            >
+              {periodOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-6">
+          <strong className="font-bold">Error:</strong>
+          <span className="block sm:inline"> {error}</span>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded relative mb-6">
+          {message}
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow mb-6">
+        <div className="flex flex-col md:flex-row justify-between md:items-center mb-4 gap-2">
+          <div>
+            <h2 className="text-lg font-semibold">Budget vs. Actual: {comparison?.label}</h2>
+            {comparison && (
+              <p className="text-sm text-gray-500">
+                {comparison.budget
+                  ? `Version ${comparison.budget.version}: ${comparison.budget.name}`
+                  : 'Monthly budgets set on categories'}
+                {' · '}
+                {comparison.elapsedDays} of {comparison.totalDays} days elapsed. Amounts exclude GST.
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor="budget-threshold" className="text-gray-700">Warn at</label>
+            <input
+              id="budget-threshold"
+              type="number"
+              min="1"
+              max="200"
+              className="w-20 p-1 border rounded text-right"
+              value={threshold}
+              onChange={(e) => setThreshold(parseFloat(e.target.value) || 0)}
+            />
+            <span className="text-gray-700">% of budget</span>
+            <button
+              onClick={handleSaveThreshold}
+              disabled={saving}
+              className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+
+        {loading || !comparison ? (
+          <div className="text-gray-500">Loading budget comparison...</div>
+        ) : (
+          <>
+            <BudgetComparisonTable title="Expenses" categoryType="expense" rows={comparison.expenses} threshold={threshold} />
+            <BudgetComparisonTable title="Additional Revenue" categoryType="revenue" rows={comparison.revenue} threshold={threshold} />
+            <p className="text-xs text-gray-500">
+              Variance is positive when better than budget. The forecast adds recurring expenses still to come and
+              carries on the daily rate of other expenses and revenue to the end of the period.
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow">
+        <div className="flex flex-col md:flex-row justify-between md:items-center mb-4 gap-2">
+          <h2 className="text-lg font-semibold">Budget Versions for {getFiscalYearLabel(fiscalYear)}</h2>
+          <div className="flex flex-wrap gap-2">
+            {budgets.length > 0 && (
+              <select
+                className="p-2 border rounded text-sm"
+                value={selectedBudgetId ?? ''}
+                onChange={(e) => setSelectedBudgetId(Number(e.target.value))}
+              >
+                {budgets.map(budget => (
+                  <option key={budget.id} value={budget.id}>
+                    v{budget.version}: {budget.name}{budget.is_active ? ' (active)' : ''}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={handleNewVersion}
+              disabled={saving}
+              className="flex items-center text-sm bg-indigo-600 text-white px-3 py-2 rounded hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New Version
+            </button>
+            {selectedBudget && !selectedBudget.is_active && (
+              <button
+                onClick={handleActivate}
+                disabled={saving}
+                className="flex items-center text-sm bg-green-600 text-white px-3 py-2 rounded hover:bg-green-700 disabled:opacity-50"
+              >
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Make Active
+              </button>
+            )}
+            {selectedBudget && (
+              <button
+                onClick={handleDelete}
+                disabled={saving}
+                className="flex items-center text-sm bg-red-600 text-white px-3 py-2 rounded hover:bg-red-700 disabled:opacity-50"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+
+        {selectedBudget ? (
+          <BudgetEditor
+            budget={selectedBudget}
+            expenseCategories={expenseCategories}
+            revenueCategories={revenueCategories}
+            saving={saving}
+            onSave={handleSave}
+          />
+        ) : (
+          <p className="text-sm text-gray-500">
+            {getFiscalYearLabel(fiscalYear)} has no budget yet, so actuals are compared with the monthly budgets set on
+            expense and revenue categories. Create a version to budget each month separately; later versions keep
+            earlier ones for comparison.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Budgets;
@@ -0,0 +1,331 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ChevronDown, ChevronUp, Search, RefreshCw, AlertCircle } from 'lucide-react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
+} from 'recharts';
+import { CustomerAnalytics, CustomerSummary } from '../types';
+import { hasApiCredentials } from '../services/api';
+import { loadCustomerAnalytics } from '../services/reports/customers';
+import { formatCurrency } from '../utils/currencyUtils';
+import { formatStoreDateOnly } from '../utils/dateUtils';
+
+type SortField = 'name' | 'order_count' | 'lifetime_value' | 'average_order_value' | 'gross_profit' | 'margin' | 'last_order';
+
+const COHORT_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
+
+// Shade a retention cell by its percentage
+const getRetentionClass = (percentage: number) => {
+  if (percentage >= 50) return 'bg-blue-600 text-white';
+  if (percentage >= 25) return 'bg-blue-400 text-white';
+  if (percentage >= 10) return 'bg-blue-200 text-blue-900';
+  if (percentage > 0) return 'bg-blue-50 text-blue-900';
+  return 'text-gray-400';
+};
+
+const Customers: React.FC = () => {
+  const [analytics, setAnalytics] = useState<CustomerAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showGuests, setShowGuests] = useState(true);
+
+  // Sorting
+  const [sortField, setSortField] = useState<SortField>('lifetime_value');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Check if API credentials are set
+      const hasCredentials = await hasApiCredentials();
+      if (!hasCredentials) {
+        setError('API credentials not set. Please go to Settings to configure your API credentials.');
+        setLoading(false);
+        return;
+      }
+
+      setAnalytics(await loadCustomerAnalytics());
+    } catch (error) {
+      console.error('Error loading customer data:', error);
+      setError('Failed to load customer data. Please sync your store and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleSort = (field: SortField) => {
+    if (field === sortField) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDirection(field === 'name' ? 'asc' : 'desc');
+    }
+  };
+
+  const renderSortIcon = (field: SortField) => {
+    if (field !== sortField) return null;
+    return sortDirection === 'asc' ? <ChevronUp className="h-4 w-4 inline" /> : <ChevronDown className="h-4 w-4 inline" />;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  const customers = analytics?.customers || [];
+  const totalLifetimeValue = customers.reduce((sum, customer) => sum + customer.lifetime_value, 0);
+  const totalProfit = customers.reduce((sum, customer) => sum + customer.gross_profit, 0);
+  const totalOrders = customers.reduce((sum, customer) => sum + customer.order_count, 0);
+  const unprofitableCount = customers.filter(customer => customer.gross_profit < 0).length;
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredCustomers = customers.filter(customer =>
+    (showGuests || !customer.is_guest) &&
+    (!term || customer.name.toLowerCase().includes(term) || customer.email.includes(term))
+  );
+
+  const sortedCustomers = [...filteredCustomers].sort((a: CustomerSummary, b: CustomerSummary) => {
+    const aValue = sortField === 'last_order' ? a.last_order.getTime() : a[sortField];
+    const bValue = sortField === 'last_order' ? b.last_order.getTime() : b[sortField];
+
+    if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
+    if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
+    return 0;
+  });
+
+  // Retention curves of the most recent cohorts with at least a month of history
+  const cohorts = analytics?.cohorts || [];
+  const maxOffset = Math.max(0, ...cohorts.map(cohort => cohort.retention.length));
+  const chartCohorts = cohorts.filter(cohort => cohort.retention.length > 1).slice(-COHORT_COLORS.length);
+  const retentionChartData = Array.from({ length: maxOffset }, (_, offset) => ({
+    month: `Month ${offset}`,
+    ...Object.fromEntries(chartCohorts
+      .filter(cohort => offset < cohort.retention.length)
+      .map(cohort => [cohort.cohort, Math.round(cohort.retention[offset] * 10) / 10]))
+  }));
+
+  const columns: Array<{ field: SortField; label: string }> = [
+    { field: 'name', label: 'Customer' },
+    { field: 'order_count', label: 'Orders' },
+    { field: 'lifetime_value', label: 'Lifetime Value' },
+    { field: 'average_order_value', label: 'Avg. Order' },
+    { field: 'gross_profit', label: 'Gross Profit' },
+    { field: 'margin', label: 'Margin' },
+    { field: 'last_order', label: 'Last Order' }
+  ];
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <h1 className="text-2xl font-bold">Customers</h1>
+
+        <div className="flex flex-col md:flex-row gap-4 w-full md:w-auto">
+          <div className="relative w-full md:w-64">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder="Search customers..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+
+          <button
+            onClick={loadData}
+            className="px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm flex items-center"
+          >
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-6 flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+        <div className="bg-white shadow rounded-lg p-4">
+          <p className="text-sm text-gray-500">Customers</p>
+          <p className="text-2xl font-bold">{customers.length}</p>
+        </div>
+        <div className="bg-white shadow rounded-lg p-4">
+          <p className="text-sm text-gray-500">Repeat Purchase Rate</p>
+          <p className="text-2xl font-bold">{(analytics?.repeatRate || 0).toFixed(1)}%</p>
+          <p className="text-xs text-gray-500">{analytics?.repeatCustomers || 0} ordered more than once</p>
+        </div>
+        <div className="bg-white shadow rounded-lg p-4">
+          <p className="text-sm text-gray-500">Avg. Lifetime Value</p>
+          <p className="text-2xl font-bold">{formatCurrency(customers.length > 0 ? totalLifetimeValue / customers.length : 0)}</p>
+        </div>
+        <div className="bg-white shadow rounded-lg p-4">
+          <p className="text-sm text-gray-500">Avg. Order Value</p>
+          <p className="text-2xl font-bold">{formatCurrency(totalOrders > 0 ? totalLifetimeValue / totalOrders : 0)}</p>
+        </div>
+        <div className="bg-white shadow rounded-lg p-4">
+          <p className="text-sm text-gray-500">Avg. Gross Profit</p>
+          <p className={`text-2xl font-bold ${totalProfit < 0 ? 'text-red-600' : ''}`}>
+            {formatCurrency(customers.length > 0 ? totalProfit / customers.length : 0)}
+          </p>
+          <p className="text-xs text-gray-500">{unprofitableCount} customers made a loss</p>
+        </div>
+      </div>
+
+      {/* Cohorts */}
+      <div className="bg-white shadow rounded-lg p-6 mb-6">
+        <h2 className="text-lg font-semibold mb-1">Monthly Cohorts</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Customers are grouped by the month of their first order. Each cell shows the share of the cohort
+          that ordered in that month since their first.
+        </p>
+
+        {cohorts.length === 0 ? (
+          <p className="text-sm text-gray-500">No orders in the last 12 months.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto mb-6">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cohort</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customers</th>
+                    {Array.from({ length: maxOffset }, (_, offset) => (
+                      <th key={offset} className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {offset}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {cohorts.map(cohort => (
+                    <tr key={cohort.cohort}>
+                      <td className="px-3 py-1 whitespace-nowrap font-medium text-gray-900">{cohort.cohort}</td>
+                      <td className="px-3 py-1 text-gray-500">{cohort.size}</td>
+                      {Array.from({ length: maxOffset }, (_, offset) => (
+                        <td key={offset} className="px-1 py-1 text-center">
+                          {offset < cohort.retention.length && (
+                            <span className={`block rounded px-2 py-1 text-xs ${getRetentionClass(cohort.retention[offset])}`}>
+                              {cohort.retention[offset].toFixed(0)}%
+                            </span>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {chartCohorts.length > 0 && (
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={retentionChartData.slice(1)} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" />
+                    <YAxis unit="%" />
+                    <Tooltip formatter={(value) => `${value}%`} />
+                    <Legend />
+                    {chartCohorts.map((cohort, index) => (
+                      <Line
+                        key={cohort.cohort}
+                        type="monotone"
+                        dataKey={cohort.cohort}
+                        stroke={COHORT_COLORS[index % COHORT_COLORS.length]}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Customer list */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-lg font-semibold">Customer Profitability</h2>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={showGuests}
+              onChange={(e) => setShowGuests(e.target.checked)}
+            />
+            Include guest checkouts
+          </label>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {columns.map(column => (
+                  <th
+                    key={column.field}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer"
+                    onClick={() => handleSort(column.field)}
+                  >
+                    {column.label} {renderSortIcon(column.field)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sortedCustomers.length === 0 ? (
+                <tr>
+                  <td colSpan={columns.length} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No customers found
+                  </td>
+                </tr>
+              ) : (
+                sortedCustomers.map(customer => (
+                  <tr key={customer.key} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="font-medium text-gray-900">
+                        {customer.name}
+                        {customer.is_guest && (
+                          <span className="ml-2 text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">Guest</span>
+                        )}
+                      </div>
+                      <div className="text-gray-500">{customer.email}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{customer.order_count}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(customer.lifetime_value)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatCurrency(customer.average_order_value)}</td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${customer.gross_profit < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      {formatCurrency(customer.gross_profit)}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${customer.margin < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                      {customer.margin.toFixed(1)}%
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatStoreDateOnly(customer.last_order)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Customers;
@@ -4,25 +4,35 @@ import {
   LineChart, Line
 } from 'recharts';
 import { format } from 'date-fns';
-import { DollarSign, TrendingUp, ShoppingCart, Percent, RefreshCw } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { DollarSign, TrendingUp, ShoppingCart, Percent, RefreshCw, AlertTriangle } from 'lucide-react';
 import DateRangePicker from '../components/DateRangePicker';
 import StatCard from '../components/StatCard';
-import { DateRange, Order, PnLSummary } from '../types';
+import ReportingBasisToggle from '../components/ReportingBasisToggle';
+import { DateRange, Order, PnLSummary, PurchaseOrder, ReportingBasis, Store } from '../types';
 import { 
-  fetchOrders, 
-  fetchInventory, 
-  fetchOverheadCosts, 
+  fetchStorePnL, 
+  fetchStores,
+  fetchBudgetAlerts,
+  fetchReportingBasis,
+  saveReportingBasis,
   hasApiCredentials 
 } from '../services/api';
-import { calculateProfitAndLoss } from '../services/pnl';
+import { BudgetAlerts } from '../services/budgets';
+import { getOrderRevenue } from '../services/pnl/tax';
+import { loadConsolidatedData, StorePnL } from '../services/consolidated';
+import { getOrderRecognisedCost, getPurchaseOrderRecognitionDate, REPORTING_BASIS_LABELS } from '../services/pnl/basis';
+import { getOrderRecognitionDate, getRecentDaysRange } from '../utils/dateRange';
+import { formatCurrency } from '../utils/currencyUtils';
 
 const Dashboard: React.FC = () => {
-  const [dateRange, setDateRange] = useState<DateRange>({
-    startDate: new Date(new Date().setDate(new Date().getDate() - 30)),
-    endDate: new Date()
-  });
+  const [dateRange, setDateRange] = useState<DateRange>(getRecentDaysRange(30));
   
   const [orders, setOrders] = useState<Order[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  
+  // Accrual or cash basis; loaded from the store's settings before anything is calculated
+  const [basis, setBasis] = useState<ReportingBasis | null>(null);
   const [pnlSummary, setPnlSummary] = useState<PnLSummary>({
     totalRevenue: 0,
     totalCost: 0,
@@ -39,59 +49,110 @@ const Dashboard: React.FC = () => {
   const [expensesByCategory, setExpensesByCategory] = useState<Record<string, number>>({});
   const [totalExpenses, setTotalExpenses] = useState(0);
   const [netProfit, setNetProfit] = useState(0);
+  
+  // Multi-store state
+  const [stores, setStores] = useState<Store[]>([]);
+  const [consolidated, setConsolidated] = useState(false);
+  const [storeBreakdown, setStoreBreakdown] = useState<StorePnL[]>([]);
+  const [mixedCurrencies, setMixedCurrencies] = useState(false);
+  
+  // Expense categories past the budget alert threshold this month
+  const [budgetAlerts, setBudgetAlerts] = useState<BudgetAlerts | null>(null);
+
+  useEffect(() => {
+    const loadStores = async () => {
+      setStores(await fetchStores());
+    };
+    
+    const loadBudgetAlerts = async () => {
+      try {
+        setBudgetAlerts(await fetchBudgetAlerts());
+      } catch (error) {
+        console.error('Error loading budget alerts:', error);
+      }
+    };
+    
+    const loadBasis = async () => {
+      setBasis(await fetchReportingBasis());
+    };
+    
+    loadStores();
+    loadBudgetAlerts();
+    loadBasis();
+  }, []);
+  
+  // Remember the basis, so Reports and later visits use it too
+  const handleBasisChange = async (newBasis: ReportingBasis) => {
+    setBasis(newBasis);
+    await saveReportingBasis(newBasis);
+  };
+
+  // Load the active store's orders and expenses
+  const loadStoreData = async (reportingBasis: ReportingBasis) => {
+    // Calculate profit and margins with expenses in the background
+    const result = await fetchStorePnL(dateRange, { basis: reportingBasis });
+    
+    return {
+      orders: result.orders,
+      purchaseOrders: result.purchaseOrders,
+      totalCost: result.summary.totalCost,
+      expensesByCategory: result.summary.expensesByCategory,
+      totalExpenses: result.summary.totalExpenses
+    };
+  };
+
+  // Load orders and expenses from every store
+  const loadAllStoresData = async (reportingBasis: ReportingBasis) => {
+    const data = await loadConsolidatedData(dateRange, reportingBasis);
+    
+    setStoreBreakdown(data.stores);
+    setMixedCurrencies(data.mixedCurrencies);
+    
+    return {
+      orders: data.orders,
+      purchaseOrders: data.purchaseOrders,
+      totalCost: data.stores.reduce((sum, store) => sum + store.cost, 0),
+      expensesByCategory: data.expensesByCategory,
+      totalExpenses: data.stores.reduce((sum, store) => sum + store.expenses, 0)
+    };
+  };
 
   const loadData = async () => {
+    if (!basis) return;
+    
     setLoading(true);
     setError(null);
     
     try {
-      // Check if API credentials are set
-      const hasCredentials = await hasApiCredentials();
-      if (!hasCredentials) {
-        setError('API credentials not set. Please go to Settings to configure your API credentials.');
-        setLoading(false);
-        return;
+      // Check if API credentials are set; other stores may have data even if this one has none
+      if (!consolidated) {
+        const hasCredentials = await hasApiCredentials();
+        if (!hasCredentials) {
+          setError('API credentials not set. Please go to Settings to configure your API credentials.');
+          setLoading(false);
+          return;
+        }
       }
       
-      // Fetch data
-      const ordersData = await fetchOrders();
-      const inventoryData = await fetchInventory();
-      const overheadCosts = await fetchOverheadCosts();
-      
-      // Calculate profit and margins with expenses
-      const result = await calculateProfitAndLoss(
-        ordersData,
-        inventoryData,
-        overheadCosts,
-        dateRange
-      );
-      
-      // Filter orders by date range
-      const filteredOrders = result.orders.filter(order => {
-        const orderDate = new Date(order.date_created);
-        return orderDate >= dateRange.startDate && orderDate <= dateRange.endDate;
-      });
+      const result = consolidated ? await loadAllStoresData(basis) : await loadStoreData(basis);
+      const filteredOrders = result.orders;
       
       setOrders(filteredOrders);
-      setExpensesByCategory(result.summary.expensesByCategory);
-      setTotalExpenses(result.summary.totalExpenses);
+      setPurchaseOrders(result.purchaseOrders);
+      setExpensesByCategory(result.expensesByCategory);
+      setTotalExpenses(result.totalExpenses);
       
       // Calculate P&L summary
-      const totalRevenue = filteredOrders.reduce((sum, order) => {
-        const orderTotal = parseFloat(order.total);
-        return sum + (isNaN(orderTotal) ? 0 : orderTotal);
-      }, 0);
+      const totalRevenue = filteredOrders.reduce((sum, order) => sum + getOrderRevenue(order), 0);
       
-      const totalCost = filteredOrders.reduce((sum, order) => {
-        const orderCost = order.cost_total || 0;
-        return sum + (isNaN(orderCost) ? 0 : orderCost);
-      }, 0);
+      // Cost of goods sold on the accrual basis; stock paid for on the cash basis, plus the orders' other costs
+      const totalCost = result.totalCost;
       
       const totalProfit = totalRevenue - totalCost;
       
       // Calculate net profit based on the filtered orders' gross profit and expenses
       // This ensures consistency between the displayed values
-      const calculatedNetProfit = totalProfit - result.summary.totalExpenses;
+      const calculatedNetProfit = totalProfit - result.totalExpenses;
       setNetProfit(calculatedNetProfit);
       
       const averageMargin = totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0;
@@ -124,30 +185,48 @@ const Dashboard: React.FC = () => {
 
   useEffect(() => {
     loadData();
-  }, [dateRange]);
+  }, [dateRange, consolidated, basis]);
 
   // Prepare data for charts
   const prepareRevenueVsCostData = () => {
-    // Group by date
-    const dataByDate = orders.reduce((acc, order) => {
-      const date = format(new Date(order.date_created), 'MMM dd');
-      if (!acc[date]) {
-        acc[date] = { date, revenue: 0, cost: 0, profit: 0 };
+    const dataByDate: Record<string, { day: string; date: string; revenue: number; cost: number; profit: number }> = {};
+    const getDay = (date: Date) => {
+      const day = format(date, 'yyyy-MM-dd');
+      if (!dataByDate[day]) {
+        dataByDate[day] = { day, date: format(date, 'MMM dd'), revenue: 0, cost: 0, profit: 0 };
       }
-      acc[date].revenue += parseFloat(order.total);
-      acc[date].cost += order.cost_total || 0;
-      acc[date].profit += order.profit || 0;
-      return acc;
-    }, {} as Record<string, { date: string; revenue: number; cost: number; profit: number }>);
+      return dataByDate[day];
+    };
     
-    return Object.values(dataByDate);
-  };
-
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(value);
+    // Group by the date each sale is recognised
+    orders.forEach(order => {
+      const date = getOrderRecognitionDate(order, basis || 'accrual');
+      if (!date) return;
+      const day = getDay(date);
+      day.revenue += getOrderRevenue(order);
+      if (basis === 'cash') {
+        // The stock is counted when it is paid for; the order's fees, shipping and overhead are not
+        const cost = getOrderRecognisedCost(order, basis);
+        day.cost += cost;
+        day.profit += getOrderRevenue(order) - cost;
+      } else {
+        day.cost += order.cost_total || 0;
+        day.profit += order.profit || 0;
+      }
+    });
+    
+    // On the cash basis stock is a cost on the day it is paid for
+    if (basis === 'cash') {
+      purchaseOrders.forEach(purchaseOrder => {
+        const date = getPurchaseOrderRecognitionDate(purchaseOrder, basis);
+        if (!date) return;
+        const day = getDay(new Date(date));
+        day.cost += purchaseOrder.total_amount || 0;
+        day.profit -= purchaseOrder.total_amount || 0;
+      });
+    }
+    
+    return Object.values(dataByDate).sort((a, b) => a.day.localeCompare(b.day));
   };
 
   if (loading) {
@@ -174,6 +253,18 @@ const Dashboard: React.FC = () => {
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Dashboard</h1>
         <div className="flex items-center space-x-4">
+          {stores.length > 1 && (
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={consolidated}
+                onChange={(e) => setConsolidated(e.target.checked)}
+              />
+              All stores
+            </label>
+          )}
+          {basis && <ReportingBasisToggle basis={basis} onChange={handleBasisChange} />}
           <DateRangePicker dateRange={dateRange} onChange={setDateRange} />
           <button 
             onClick={loadData}
@@ -185,9 +276,34 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
       
+      {consolidated && mixedCurrencies && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-300 text-yellow-800 rounded flex items-center">
+          <AlertTriangle className="h-5 w-5 mr-2" />
+          Your stores use different currencies. Consolidated totals add the amounts as they are, without conversion.
+        </div>
+      )}
+      
+      {!consolidated && budgetAlerts && budgetAlerts.alerts.length > 0 && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-300 text-yellow-800 rounded">
+          <div className="flex items-center font-medium mb-2">
+            <AlertTriangle className="h-5 w-5 mr-2" />
+            Budget warnings for {budgetAlerts.label}
+          </div>
+          <ul className="text-sm space-y-1">
+            {budgetAlerts.alerts.map(alert => (
+              <li key={alert.category}>
+                {alert.category}: {formatCurrency(alert.actual)} spent of {formatCurrency(alert.budget)} ({alert.usedPercent!.toFixed(0)}%),
+                forecast {formatCurrency(alert.forecast)} by month end
+              </li>
+            ))}
+          </ul>
+          <Link to="/budgets" className="text-sm underline mt-2 inline-block">View budgets</Link>
+        </div>
+      )}
+      
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         <StatCard 
-          title="Total Revenue" 
+          title="Revenue (excl. GST)" 
           value={formatCurrency(pnlSummary.totalRevenue)}
           icon={<DollarSign className="h-6 w-6 text-blue-600" />}
         />
@@ -275,6 +391,14 @@ const Dashboard: React.FC = () => {
                   {pnlSummary.periodStart} to {pnlSummary.periodEnd}
                 </td>
               </tr>
+              <tr>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  Basis
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {basis && REPORTING_BASIS_LABELS[basis]}
+                </td>
+              </tr>
               <tr>
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                   Total Revenue
@@ -285,7 +409,7 @@ const Dashboard: React.FC = () => {
               </tr>
               <tr>
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                  Total Cost
+                  {basis === 'cash' ? 'Stock Purchases & Order Costs' : 'Total Cost'}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                   {formatCurrency(pnlSummary.totalCost)}
@@ -343,6 +467,48 @@ const Dashboard: React.FC = () => {
           </table>
         </div>
       </div>
+      
+      {consolidated && (
+        <div className="bg-white p-6 rounded-lg shadow mt-8">
+          <h2 className="text-lg font-semibold mb-4">By Store</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Store</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Orders</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gross Profit</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Expenses</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net Profit</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {storeBreakdown.map(storePnL => {
+                  const grossProfit = storePnL.orderRevenue - storePnL.cost;
+                  return (
+                    <tr key={storePnL.store.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {storePnL.store.name}
+                        {mixedCurrencies && <span className="ml-2 text-xs text-gray-500">{storePnL.currency}</span>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">{storePnL.orderCount}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">{formatCurrency(storePnL.orderRevenue)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">{formatCurrency(storePnL.cost)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">{formatCurrency(grossProfit)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">{formatCurrency(storePnL.expenses)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 text-right">
+                        {formatCurrency(grossProfit - storePnL.expenses)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
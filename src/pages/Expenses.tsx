@@ -1,23 +1,29 @@
 import React, { useState, useEffect } from 'react';
 import { format } from 'date-fns';
-import { Plus, Upload, Download, Tag } from 'lucide-react';
+import { Plus, Upload, Download, Tag, Landmark } from 'lucide-react';
 import DateRangePicker from '../components/DateRangePicker';
 import { DateRange, Expense, ExpenseCategory } from '../types';
 import { 
   getExpenses, 
+  getExpensesInEffect,
   getExpenseCategories,
   saveExpenseCategory
 } from '../db/operations/expenses';
 import ExpenseImportForm from '../components/expenses/ExpenseImportForm';
+import BankImportForm from '../components/expenses/BankImportForm';
 import CategoryManager from '../components/expenses/CategoryManager';
 import ExpenseForm from '../components/expenses/ExpenseForm';
 import ExpenseTable from '../components/expenses/ExpenseTable';
 import ExpenseSummary from '../components/expenses/ExpenseSummary';
 import ExpenseFilters from '../components/expenses/ExpenseFilters';
-import { formatNZDate } from '../services/api/utils';
+import UpcomingExpenses from '../components/expenses/UpcomingExpenses';
+import { formatDisplayDate } from '../services/api/utils';
+import { BankImportResult } from '../services/api';
+import { getProratedExpenseAmount } from '../utils/expenseSchedule';
 
 const Expenses: React.FC = () => {
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [recurringExpenses, setRecurringExpenses] = useState<Expense[]>([]);
   const [categories, setCategories] = useState<ExpenseCategory[]>([]);
   const [dateRange, setDateRange] = useState<DateRange>({
     startDate: new Date(new Date().setDate(new Date().getDate() - 30)),
@@ -38,8 +44,15 @@ const Expenses: React.FC = () => {
   
   // Import/Export state
   const [showImportForm, setShowImportForm] = useState(false);
+  const [showBankImport, setShowBankImport] = useState(false);
   const [showCategoryManager, setShowCategoryManager] = useState(false);
   
+  // Load every recurring expense, for listing upcoming occurrences
+  const loadRecurringExpenses = async () => {
+    const allExpenses = await getExpenses();
+    setRecurringExpenses(allExpenses.filter(expense => expense.period));
+  };
+  
   // Load expenses and categories
   useEffect(() => {
     const loadData = async () => {
@@ -47,9 +60,10 @@ const Expenses: React.FC = () => {
       setError(null);
       
       try {
-        // Load expenses for the selected date range
-        const expensesData = await getExpenses(dateRange.startDate, dateRange.endDate);
+        // Load expenses charged for the selected date range
+        const expensesData = await getExpensesInEffect(dateRange.startDate, dateRange.endDate);
         setExpenses(expensesData);
+        await loadRecurringExpenses();
         
         // Load expense categories
         const categoriesData = await getExpenseCategories();
@@ -86,41 +100,55 @@ const Expenses: React.FC = () => {
     return true;
   });
   
-  // Calculate totals
-  const totalExpenses = filteredExpenses.reduce((sum, expense) => sum + expense.amount, 0);
+  // Calculate totals, with recurring expenses prorated to the selected dates
+  const totalExpenses = filteredExpenses.reduce((sum, expense) => sum + getProratedExpenseAmount(expense, dateRange), 0);
   
   // Handle expense updates (add, edit, delete)
   const handleExpensesUpdated = (updatedExpenses: Expense[]) => {
     setExpenses(updatedExpenses);
+    loadRecurringExpenses();
+  };
+  
+  // Reload expenses after a change is reverted from an expense's history
+  const reloadExpenses = async () => {
+    setExpenses(await getExpensesInEffect(dateRange.startDate, dateRange.endDate));
+    await loadRecurringExpenses();
   };
   
   // Handle import success
   const handleImportSuccess = (result: { imported: number, skipped: number }) => {
     // Reload expenses
-    const loadExpenses = async () => {
-      const expensesData = await getExpenses(dateRange.startDate, dateRange.endDate);
-      setExpenses(expensesData);
-    };
-    
-    loadExpenses();
+    reloadExpenses();
     
     // Show success message
     alert(`Import completed: ${result.imported} expenses imported, ${result.skipped} skipped.`);
   };
   
+  // Handle bank statement import success
+  const handleBankImportSuccess = (result: BankImportResult) => {
+    reloadExpenses();
+    
+    const notes = [`Imported ${result.expenses} expenses and ${result.revenue} additional revenue entries, ${result.skipped} skipped.`];
+    if (result.learned > 0) {
+      notes.push(`Rules were learned from ${result.learned} recategorised transactions.`);
+    }
+    alert(notes.join(' '));
+  };
+  
   // Handle export
   const handleExportCSV = () => {
     // Create CSV content
-    const headers = ['Date', 'Category', 'Amount', 'Description', 'Reference', 'Payment Method', 'Period'];
+    const headers = ['Date', 'Category', 'Amount', 'Description', 'Reference', 'Payment Method', 'Period', 'End Date'];
     
     const rows = filteredExpenses.map(expense => [
-      formatNZDate(new Date(expense.date)),
+      formatDisplayDate(new Date(expense.date)),
       expense.category,
       expense.amount.toFixed(2),
       expense.description,
       expense.reference || '',
       expense.payment_method || '',
-      expense.period || 'monthly'
+      expense.period || 'one-time',
+      expense.end_date ? formatDisplayDate(new Date(expense.end_date)) : ''
     ]);
     
     const csvContent = [
@@ -187,6 +215,14 @@ const Expenses: React.FC = () => {
             Import
           </button>
           
+          <button
+            onClick={() => setShowBankImport(true)}
+            className="flex items-center text-sm bg-teal-600 text-white px-3 py-2 rounded hover:bg-teal-700"
+          >
+            <Landmark className="h-4 w-4 mr-1" />
+            Bank Statement
+          </button>
+          
           <button
             onClick={handleExportCSV}
             className="flex items-center text-sm bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700"
@@ -221,6 +257,15 @@ const Expenses: React.FC = () => {
         />
       )}
       
+      {/* Bank Statement Import */}
+      {showBankImport && (
+        <BankImportForm
+          categories={categories}
+          onClose={() => setShowBankImport(false)}
+          onSuccess={handleBankImportSuccess}
+        />
+      )}
+      
       {/* Category Manager */}
       {showCategoryManager && (
         <div className="mb-6">
@@ -273,12 +318,16 @@ const Expenses: React.FC = () => {
         expenseCount={filteredExpenses.length}
       />
       
+      {/* Upcoming recurring expenses */}
+      <UpcomingExpenses expenses={recurringExpenses} />
+      
       {/* Expenses Table */}
       <ExpenseTable
         expenses={filteredExpenses}
         categories={categories}
         onEdit={handleEditExpense}
         onExpensesUpdated={handleExpensesUpdated}
+        onHistoryReverted={reloadExpenses}
       />
     </div>
   );
@@ -7,7 +7,9 @@ import InventoryFilters from '../components/inventory/InventoryFilters';
 import InventoryTable from '../components/inventory/InventoryTable';
 import InventoryStats from '../components/inventory/InventoryStats';
 import InventorySummary from '../components/inventory/InventorySummary';
-import { calculateTotals, Tooltip } from '../components/inventory/InventoryUtils';
+import { calculateTotals, formatCurrency, Tooltip } from '../components/inventory/InventoryUtils';
+import { getStoreProfile } from '../utils/storeProfile';
+import { storeStorageKey } from '../db/stores';
 
 const Inventory: React.FC = () => {
   // State for inventory data
@@ -63,8 +65,8 @@ const Inventory: React.FC = () => {
       setError(null);
       
       // First try to get data from local storage
-      const storedProducts = localStorage.getItem('products');
-      const storedInventory = localStorage.getItem('inventory');
+      const storedProducts = localStorage.getItem(storeStorageKey('products'));
+      const storedInventory = localStorage.getItem(storeStorageKey('inventory'));
       
       if (storedProducts && storedInventory) {
         // Use data from local storage
@@ -97,8 +99,8 @@ const Inventory: React.FC = () => {
       ]);
       
       // Save to local storage for future use
-      localStorage.setItem('products', JSON.stringify(productsData));
-      localStorage.setItem('inventory', JSON.stringify(inventoryData));
+      localStorage.setItem(storeStorageKey('products'), JSON.stringify(productsData));
+      localStorage.setItem(storeStorageKey('inventory'), JSON.stringify(inventoryData));
       
       setProducts(productsData);
       
@@ -189,7 +191,7 @@ const Inventory: React.FC = () => {
       currentCostValue -= costAmount;
       
       months.push({
-        month: projectionDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+        month: projectionDate.toLocaleDateString(getStoreProfile().locale, { month: 'long', year: 'numeric' }),
         retailValue: currentRetailValue,
         costValue: currentCostValue,
         profit: currentRetailValue - currentCostValue
@@ -421,9 +423,9 @@ const Inventory: React.FC = () => {
                 {projectionData.map((data, index) => (
                   <tr key={index}>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{data.month}</td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(data.retailValue)}</td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(data.costValue)}</td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(data.profit)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatCurrency(data.retailValue)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatCurrency(data.costValue)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatCurrency(data.profit)}</td>
                   </tr>
                 ))}
               </tbody>
@@ -456,7 +458,7 @@ const Inventory: React.FC = () => {
         sortField={sortField}
         sortDirection={sortDirection}
         onSort={handleSort}
-        formatCurrency={(amount) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)}
+        formatCurrency={formatCurrency}
         calculateProfitMargin={(retailPrice, costPrice, stockQuantity) => {
           // If there's no stock, return "N/A"
           if (stockQuantity <= 0) {
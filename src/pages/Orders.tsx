@@ -3,14 +3,12 @@ import { format } from 'date-fns';
 import { ChevronDown, ChevronUp, Search, Trash2, RefreshCw, AlertCircle, Filter } from 'lucide-react';
 import DateRangePicker from '../components/DateRangePicker';
 import { DateRange, Order } from '../types';
-import { fetchOrders, fetchInventory, fetchOverheadCosts, hasApiCredentials, deleteOrder } from '../services/api';
-import { calculateProfitAndLoss } from '../services/pnl';
+import { fetchStorePnL, hasApiCredentials, deleteOrder } from '../services/api';
+import { getRecentDaysRange } from '../utils/dateRange';
+import { formatCurrency } from '../utils/currencyUtils';
 
 const Orders: React.FC = () => {
-  const [dateRange, setDateRange] = useState<DateRange>({
-    startDate: new Date(new Date().setDate(new Date().getDate() - 30)),
-    endDate: new Date()
-  });
+  const [dateRange, setDateRange] = useState<DateRange>(getRecentDaysRange(30));
   
   const [orders, setOrders] = useState<Order[]>([]);
   const [filteredOrders, setFilteredOrders] = useState<Order[]>([]);
@@ -38,24 +36,9 @@ const Orders: React.FC = () => {
         return;
       }
       
-      // Fetch data
-      const ordersData = await fetchOrders();
-      const inventoryData = await fetchInventory();
-      const overheadCosts = await fetchOverheadCosts();
-      
-      // Calculate profit and margins
-      const result = await calculateProfitAndLoss(
-        ordersData,
-        inventoryData,
-        overheadCosts,
-        dateRange
-      );
-      
-      // Filter orders by date range
-      const filteredOrders = result.orders.filter(order => {
-        const orderDate = new Date(order.date_created);
-        return orderDate >= dateRange.startDate && orderDate <= dateRange.endDate;
-      });
+      // Calculate profit and margins for the date range, listing orders of every status by when they were created
+      const result = await fetchStorePnL(dateRange, { allStatuses: true, basis: 'accrual' });
+      const filteredOrders = result.orders;
       
       setOrders(filteredOrders);
       setFilteredOrders(filteredOrders);
@@ -105,14 +88,6 @@ const Orders: React.FC = () => {
     setExpandedOrderId(expandedOrderId === orderId ? null : orderId);
   };
 
-  const formatCurrency = (value: number | string) => {
-    const numValue = typeof value === 'string' ? parseFloat(value) : value;
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(numValue);
-  };
-
   const formatDate = (dateString: string) => {
     return format(new Date(dateString), 'MMM dd, yyyy h:mm a');
   };
@@ -321,6 +296,11 @@ const Orders: React.FC = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {formatCurrency(order.total)}
+                      {(order.refund_total || 0) > 0 && (
+                        <div className="text-xs text-red-600">
+                          Refunded {formatCurrency(order.refund_total!)}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {formatCurrency(order.profit || 0)}
@@ -250,6 +250,7 @@ const Products: React.FC = () => {
           setProducts(updatedProducts);
           setFilteredProducts(updatedProducts);
         }}
+        onHistoryReverted={loadProductData}
       />
     </div>
   );
@@ -6,12 +6,16 @@ import {
 } from 'recharts';
 import { Download, Filter, Calendar, RefreshCw, ChevronDown, ChevronUp } from 'lucide-react';
 import DateRangePicker from '../components/DateRangePicker';
-import { DateRange, Order, Product, Expense, ReportData, AdditionalRevenue } from '../types';
+import ReportingBasisToggle from '../components/ReportingBasisToggle';
+import { DateRange, Order, Product, Expense, ReportData, AdditionalRevenue, ReportingBasis } from '../types';
 import { 
   fetchOrders, 
   fetchProducts, 
   fetchInventory, 
   fetchOverheadCosts, 
+  fetchStores,
+  fetchReportingBasis,
+  saveReportingBasis,
   hasApiCredentials 
 } from '../services/api';
 import { calculateProfitAndLoss } from '../services/pnl';
@@ -22,9 +26,13 @@ import ProductsReport from '../components/reports/ProductsReport';
 import ExpensesReport from '../components/reports/ExpensesReport';
 import ProfitabilityReport from '../components/reports/ProfitabilityReport';
 import AdditionalRevenueReport from '../components/reports/AdditionalRevenueReport';
+import GstReport from '../components/reports/GstReport';
+import PaymentFeesReport from '../components/reports/PaymentFeesReport';
+import ShippingReport from '../components/reports/ShippingReport';
+import CouponsReport from '../components/reports/CouponsReport';
 
 // Report types
-type ReportType = 'sales' | 'products' | 'expenses' | 'additionalRevenue' | 'profitability';
+type ReportType = 'sales' | 'products' | 'expenses' | 'additionalRevenue' | 'profitability' | 'gst' | 'paymentFees' | 'shipping' | 'coupons';
 
 // Report period types
 type PeriodType = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom';
@@ -43,22 +51,53 @@ const Reports: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
+  // State for multi-store reports
+  const [storeCount, setStoreCount] = useState(1);
+  const [consolidated, setConsolidated] = useState(false);
+  
+  // Accrual or cash basis; loaded from the store's settings before any report is calculated
+  const [basis, setBasis] = useState<ReportingBasis | null>(null);
+  
+  useEffect(() => {
+    const loadStores = async () => {
+      const stores = await fetchStores();
+      setStoreCount(stores.length);
+    };
+    
+    const loadBasis = async () => {
+      setBasis(await fetchReportingBasis());
+    };
+    
+    loadStores();
+    loadBasis();
+  }, []);
+  
+  // Remember the basis, so the Dashboard and later visits use it too
+  const handleBasisChange = async (newBasis: ReportingBasis) => {
+    setBasis(newBasis);
+    await saveReportingBasis(newBasis);
+  };
+  
   // Load data
   const loadData = async () => {
+    if (!basis) return;
+    
     setLoading(true);
     setError(null);
     
     try {
-      // Check if API credentials are set
-      const hasCredentials = await hasApiCredentials();
-      if (!hasCredentials) {
-        setError('API credentials not set. Please go to Settings to configure your WooCommerce API credentials.');
-        setLoading(false);
-        return;
+      // Check if API credentials are set; other stores may have data even if this one has none
+      if (!consolidated) {
+        const hasCredentials = await hasApiCredentials();
+        if (!hasCredentials) {
+          setError('API credentials not set. Please go to Settings to configure your WooCommerce API credentials.');
+          setLoading(false);
+          return;
+        }
       }
       
       // Load report data
-      const data = await loadReportData(dateRange, periodType);
+      const data = await loadReportData(dateRange, periodType, consolidated, basis);
       setReportData(data);
     } catch (error) {
       console.error('Error loading report data:', error);
@@ -96,6 +135,22 @@ const Reports: React.FC = () => {
         data = reportData.profitabilityData;
         filename = 'profitability-report';
         break;
+      case 'gst':
+        data = reportData.gstData;
+        filename = 'gst-report';
+        break;
+      case 'paymentFees':
+        data = reportData.paymentFeeData;
+        filename = 'payment-fees-report';
+        break;
+      case 'shipping':
+        data = reportData.shippingData;
+        filename = 'shipping-report';
+        break;
+      case 'coupons':
+        data = reportData.couponData.coupons;
+        filename = 'coupons-report';
+        break;
     }
     
     if (data.length === 0) return;
@@ -105,19 +160,19 @@ const Reports: React.FC = () => {
     const rows = data.map(item => Object.values(item).join(','));
     const csv = [headers, ...rows].join('\n');
     
-    // Create download link
+    // Create download link, naming the basis the figures were calculated on
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `${filename}-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    link.download = `${filename}-${reportData.basis}-basis-${format(new Date(), 'yyyy-MM-dd')}.csv`;
     link.click();
   };
   
   // Effect to load data when report type or date range changes
   useEffect(() => {
     loadData();
-  }, [reportType, dateRange, periodType]);
+  }, [reportType, dateRange, periodType, consolidated, basis]);
   
   if (loading) {
     return (
@@ -167,6 +222,10 @@ const Reports: React.FC = () => {
               <option value="expenses">Expenses Report</option>
               <option value="additionalRevenue">Additional Revenue</option>
               <option value="profitability">Profitability Report</option>
+              <option value="gst">GST Report</option>
+              <option value="paymentFees">Payment Fees Report</option>
+              <option value="shipping">Shipping Report</option>
+              <option value="coupons">Coupons Report</option>
             </select>
           </div>
           
@@ -184,6 +243,20 @@ const Reports: React.FC = () => {
             </select>
           </div>
           
+          {storeCount > 1 && (
+            <label className="flex items-center text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={consolidated}
+                onChange={(e) => setConsolidated(e.target.checked)}
+              />
+              All stores
+            </label>
+          )}
+          
+          {basis && <ReportingBasisToggle basis={basis} onChange={handleBasisChange} />}
+          
           <DateRangePicker dateRange={dateRange} onChange={setDateRange} />
           
           <button
@@ -231,6 +304,22 @@ const Reports: React.FC = () => {
         {reportType === 'profitability' && (
           <ProfitabilityReport data={reportData.profitabilityData} />
         )}
+        
+        {reportType === 'gst' && (
+          <GstReport data={reportData.gstData} />
+        )}
+        
+        {reportType === 'paymentFees' && (
+          <PaymentFeesReport data={reportData.paymentFeeData} />
+        )}
+        
+        {reportType === 'shipping' && (
+          <ShippingReport data={reportData.shippingData} orders={reportData.orders} />
+        )}
+        
+        {reportType === 'coupons' && (
+          <CouponsReport data={reportData.couponData} />
+        )}
       </div>
     </div>
   );
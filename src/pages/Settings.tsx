@@ -1,33 +1,71 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { format } from 'date-fns';
-import { Save, AlertCircle, RefreshCw, Calendar, Download, Wifi, Layers, AlertTriangle } from 'lucide-react';
-import { ApiCredentials, OverheadCost } from '../types';
+import { Save, AlertCircle, RefreshCw, AlertTriangle } from 'lucide-react';
+import { ApiCredentials, BackupArchive, BackupRestoreMode, BackupSummary, CostingMethod, OverheadCost, PaymentFeeSchedule, ReplayFixturesSummary, ReplayScenarioOptions, Store, StoreProfile, SyncJob, SyncJobType } from '../types';
+import { getDayInZone } from '../utils/dateRange';
+import { DEFAULT_STORE_PROFILE, isValidCurrency, isValidLocale, isValidTimeZone } from '../utils/storeProfile';
 import { 
   setApiCredentials, 
   getApiCredentials, 
   hasApiCredentials,
   fetchOverheadCosts,
   saveOverheadCosts,
-  syncAllData,
-  syncProductsOnly,
-  syncInventory,
   getLastSyncTimes,
   testApiCredentials,
-  syncOrdersByYear,
-  syncOrdersByDateRange,
-  forceDecemberSync,
-  fetchDecemberOrdersDirectly,
-  fetchDecemberOrdersInChunks,
-  hasDecemberOrders,
-  testDecemberApiConnection,
+  startSyncJob,
+  resumeSyncJob,
+  fetchResumableSyncJob,
+  fetchSyncHistory,
+  fetchReplayFixtures,
+  getReplayMode,
+  setReplayMode,
+  getRecordingFixtures,
+  setRecordingFixtures,
+  generateReplayScenario,
+  exportReplayFixtures,
+  importReplayFixtures,
+  removeReplayFixtures,
+  fetchStoreProfile,
+  saveStoreProfile,
+  fetchStores,
+  renameStore,
+  deleteStore,
+  getCurrentStoreId,
+  fetchCostingMethod,
+  saveCostingMethod,
+  recalculateOrderCosts,
+  fetchPnlOrderStatuses,
+  savePnlOrderStatuses,
+  fetchPaymentFeeSchedules,
+  savePaymentFeeSchedules,
+  fetchPaymentMethods,
+  createBackup,
+  isBackupEncrypted,
+  readBackup,
+  summarizeBackup,
+  restoreBackup,
+  fetchCredentialVault,
+  setVaultPassphrase,
+  changeVaultPassphrase,
+  saveAutoLockMinutes,
+  lockVault,
+  isVaultUnlocked,
+  DEFAULT_AUTO_LOCK_MINUTES,
   resetDatabase
 } from '../services/api';
 
 // Import component sections
 import ApiCredentialsSection from '../components/settings/ApiCredentialsSection';
 import OverheadCostsSection from '../components/settings/OverheadCostsSection';
+import StoreProfileSection from '../components/settings/StoreProfileSection';
+import StoresSection from '../components/settings/StoresSection';
+import CostingSection from '../components/settings/CostingSection';
+import OrderStatusesSection from '../components/settings/OrderStatusesSection';
+import PaymentFeesSection from '../components/settings/PaymentFeesSection';
 import SyncOptionsSection from '../components/settings/SyncOptionsSection';
 import SyncStatusSection from '../components/settings/SyncStatusSection';
+import ReplaySection from '../components/settings/ReplaySection';
+import BackupSection from '../components/settings/BackupSection';
+import SecuritySection from '../components/settings/SecuritySection';
 
 // Custom hook for operation state management
 const useOperationState = (initialState = false) => {
@@ -73,21 +111,58 @@ const Settings: React.FC = () => {
   // Overhead costs state
   const [overheadCosts, setOverheadCosts] = useState<OverheadCost[]>([]);
   
+  // Payment gateway fees state
+  const [paymentFeeSchedules, setPaymentFeeSchedules] = useState<PaymentFeeSchedule[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<Array<{ id: string; title: string }>>([]);
+  
+  // Store profile state
+  const [storeProfile, setStoreProfileState] = useState<StoreProfile>(DEFAULT_STORE_PROFILE);
+  
+  // Stores state
+  const [stores, setStores] = useState<Store[]>([]);
+  
+  // Costing state
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>('fifo');
+  const [recalculating, setRecalculating] = useState(false);
+  
+  // Order statuses counted in the P&L
+  const [pnlOrderStatuses, setPnlOrderStatuses] = useState<string[]>([]);
+  
   // Sync state
   const [lastSyncTimes, setLastSyncTimes] = useState<{
     products: Date | null;
     orders: Date | null;
     inventory: Date | null;
+    customers: Date | null;
   }>({
     products: null,
     orders: null,
-    inventory: null
+    inventory: null,
+    customers: null
   });
   const [showSyncOptions, setShowSyncOptions] = useState(false);
-  const [syncType, setSyncType] = useState<'all' | 'products' | 'inventory' | 'year' | 'custom'>('all');
+  const [syncType, setSyncType] = useState<SyncJobType>('all');
   const [syncYear, setSyncYear] = useState<number>(new Date().getFullYear());
-  const [syncStartDate, setSyncStartDate] = useState<string>(format(new Date(new Date().getFullYear(), 0, 1), 'yyyy-MM-dd'));
-  const [syncEndDate, setSyncEndDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'));
+  const [syncStartDate, setSyncStartDate] = useState<string>(`${getDayInZone(new Date()).slice(0, 4)}-01-01`);
+  const [syncEndDate, setSyncEndDate] = useState<string>(getDayInZone(new Date()));
+  const [resumableSyncJob, setResumableSyncJob] = useState<SyncJob | null>(null);
+  const [syncHistory, setSyncHistory] = useState<SyncJob[]>([]);
+  
+  // Replay state
+  const [replayFixtures, setReplayFixtures] = useState<ReplayFixturesSummary[]>([]);
+  const [replayName, setReplayName] = useState<string | null>(getReplayMode());
+  const [recordName, setRecordName] = useState<string | null>(getRecordingFixtures());
+  const [replayWorking, setReplayWorking] = useState(false);
+  
+  // Passphrase state
+  const [vaultConfigured, setVaultConfigured] = useState(false);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [vaultWorking, setVaultWorking] = useState(false);
+  
+  // Backup state
+  const [backupWorking, setBackupWorking] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<BackupArchive | null>(null);
+  const [pendingBackupSummary, setPendingBackupSummary] = useState<BackupSummary | null>(null);
   
   // UI state
   const [loading, setLoading] = useState(true);
@@ -95,26 +170,8 @@ const Settings: React.FC = () => {
   const [successMessage, setSuccessMessage] = useState('');
   const [errorMessage, setErrorMessage] = useState('');
   
-  // December sync year state
-  const [decemberSyncYear, setDecemberSyncYear] = useState<number>(new Date().getFullYear());
-  
-  // December orders status
-  const [hasDecemberOrdersForYear, setHasDecemberOrdersForYear] = useState<boolean>(false);
-  const [checkingDecemberOrders, setCheckingDecemberOrders] = useState<boolean>(false);
-  
-  // Connection test result
-  const [connectionTestResult, setConnectionTestResult] = useState<{
-    success?: boolean;
-    message?: string;
-    details?: any;
-  }>({});
-  
   // Use the custom hook for operation states
   const syncOperation = useOperationState();
-  const decemberRegularSync = useOperationState();
-  const decemberDirectFetch = useOperationState();
-  const decemberChunkedFetch = useOperationState();
-  const decemberConnectionTest = useOperationState();
   
   // Generate years for selector (last 5 years)
   const currentYear = new Date().getFullYear();
@@ -129,6 +186,32 @@ const Settings: React.FC = () => {
         const costs = await fetchOverheadCosts();
         setOverheadCosts(costs);
         
+        // Load payment gateway fee schedules and the payment methods orders were paid with
+        setPaymentFeeSchedules(await fetchPaymentFeeSchedules());
+        setPaymentMethods(await fetchPaymentMethods());
+        
+        // Load store profile
+        const profile = await fetchStoreProfile();
+        setStoreProfileState(profile);
+        
+        // Load stores
+        const storeList = await fetchStores();
+        setStores(storeList);
+        
+        // Load costing method
+        const method = await fetchCostingMethod();
+        setCostingMethod(method);
+        
+        // Load order statuses counted in the P&L
+        setPnlOrderStatuses(await fetchPnlOrderStatuses());
+        
+        // Load the passphrase settings
+        const vault = await fetchCredentialVault();
+        setVaultConfigured(!!vault);
+        if (vault) {
+          setAutoLockMinutes(vault.auto_lock_minutes);
+        }
+        
         // Load API credentials if they exist
         const hasCredentials = await hasApiCredentials();
         setCredentialsExist(hasCredentials);
@@ -143,9 +226,14 @@ const Settings: React.FC = () => {
           setEditingCredentials(true);
         }
         
-        // Load last sync times
+        // Load last sync times and sync runs
         const syncTimes = await getLastSyncTimes();
         setLastSyncTimes(syncTimes);
+        setResumableSyncJob(await fetchResumableSyncJob());
+        setSyncHistory(await fetchSyncHistory());
+        
+        // Load replay fixtures
+        setReplayFixtures(await fetchReplayFixtures());
       } catch (error) {
         console.error('Error loading settings data:', error);
         setErrorMessage('Failed to load settings data: ' + (error instanceof Error ? error.message : String(error)));
@@ -182,6 +270,84 @@ const Settings: React.FC = () => {
     }));
   };
 
+  // Payment gateway fee handlers
+  const handleAddPaymentFeeSchedule = () => {
+    const newSchedule: PaymentFeeSchedule = {
+      id: Date.now(),
+      payment_method: paymentMethods.find(method => !paymentFeeSchedules.some(schedule => schedule.payment_method === method.id))?.id || '',
+      name: '',
+      percentage: 0,
+      fixed: 0
+    };
+    
+    setPaymentFeeSchedules([...paymentFeeSchedules, newSchedule]);
+  };
+
+  const handleRemovePaymentFeeSchedule = (id: number) => {
+    setPaymentFeeSchedules(paymentFeeSchedules.filter(schedule => schedule.id !== id));
+  };
+
+  const handlePaymentFeeScheduleChange = (id: number, field: keyof PaymentFeeSchedule, value: PaymentFeeSchedule[keyof PaymentFeeSchedule]) => {
+    setPaymentFeeSchedules(paymentFeeSchedules.map(schedule => {
+      if (schedule.id === id) {
+        return { ...schedule, [field]: value };
+      }
+      return schedule;
+    }));
+  };
+
+  // Store profile handlers
+  const handleStoreProfileChange = (field: keyof StoreProfile, value: string | number) => {
+    setStoreProfileState({ ...storeProfile, [field]: value });
+  };
+
+  // Stores handlers
+  const handleStoreNameChange = (storeId: number, name: string) => {
+    setStores(stores.map(store => store.id === storeId ? { ...store, name } : store));
+  };
+
+  const handleDeleteStore = async (storeId: number) => {
+    const store = stores.find(s => s.id === storeId);
+    if (!window.confirm(`Delete "${store?.name}" and all of its data? This cannot be undone.`)) {
+      return;
+    }
+    
+    try {
+      await deleteStore(storeId);
+      setStores(stores.filter(s => s.id !== storeId));
+    } catch (error) {
+      console.error('Error deleting store:', error);
+      setErrorMessage('Failed to delete store: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  // Costing handlers
+  const handleRecalculateCosts = async () => {
+    if (!window.confirm('Re-cost every order? Past margins will change to reflect the current purchase orders and costing method.')) {
+      return;
+    }
+    
+    setRecalculating(true);
+    setSuccessMessage('');
+    setErrorMessage('');
+    
+    try {
+      await saveCostingMethod(costingMethod);
+      await recalculateOrderCosts();
+      setSuccessMessage('Order costs will be recalculated the next time the dashboard or reports are opened');
+      
+      // Clear success message after 3 seconds
+      setTimeout(() => {
+        setSuccessMessage('');
+      }, 3000);
+    } catch (error) {
+      console.error('Error recalculating order costs:', error);
+      setErrorMessage('Failed to recalculate order costs: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setRecalculating(false);
+    }
+  };
+
   // API credentials handlers
   const handleApiCredentialsChange = (field: keyof ApiCredentials, value: string) => {
     setApiCreds({ ...apiCredentials, [field]: value });
@@ -194,9 +360,52 @@ const Settings: React.FC = () => {
     setErrorMessage('');
     
     try {
+      // Validate the store profile before saving anything
+      if (!isValidTimeZone(storeProfile.timezone)) {
+        setErrorMessage(`Unknown timezone "${storeProfile.timezone}". Use an IANA name such as Australia/Sydney.`);
+        setSaving(false);
+        return;
+      }
+      if (!isValidCurrency(storeProfile.currency)) {
+        setErrorMessage(`Unknown currency code "${storeProfile.currency}". Use a three-letter code such as AUD.`);
+        setSaving(false);
+        return;
+      }
+      if (!isValidLocale(storeProfile.locale)) {
+        setErrorMessage(`Unsupported locale "${storeProfile.locale}". Use a locale such as en-AU.`);
+        setSaving(false);
+        return;
+      }
+      if (isNaN(storeProfile.gstRate) || storeProfile.gstRate < 0 || storeProfile.gstRate > 100) {
+        setErrorMessage('GST rate must be a percentage between 0 and 100');
+        setSaving(false);
+        return;
+      }
+      
+      if (stores.some(store => !store.name.trim())) {
+        setErrorMessage('Store names cannot be empty');
+        setSaving(false);
+        return;
+      }
+      
+      // Save store profile
+      await saveStoreProfile(storeProfile);
+      
+      // Save costing method
+      await saveCostingMethod(costingMethod);
+      
+      // Save order statuses counted in the P&L
+      await savePnlOrderStatuses(pnlOrderStatuses);
+      
+      // Save store names
+      await Promise.all(stores.map(store => renameStore(store.id!, store.name)));
+      
       // Save overhead costs
       await saveOverheadCosts(overheadCosts);
       
+      // Save payment gateway fee schedules
+      await savePaymentFeeSchedules(paymentFeeSchedules);
+      
       // Save API credentials if they've been edited
       if (editingCredentials) {
         // Validate credentials before saving
@@ -233,217 +442,207 @@ const Settings: React.FC = () => {
     }
   };
 
-  // Sync data handler
-  const handleSyncData = async () => {
+  // Run a sync job, either a new one or one resumed from its checkpoint
+  const runSync = async (sync: () => Promise<SyncJob>) => {
     syncOperation.start();
     setSuccessMessage('');
     setErrorMessage('');
     
     try {
-      let result;
-      
-      switch (syncType) {
-        case 'all':
-          result = await syncAllData(syncOperation.updateProgress);
-          break;
-        case 'products':
-          result = await syncProductsOnly(syncOperation.updateProgress);
-          break;
-        case 'inventory':
-          result = await syncInventory(syncOperation.updateProgress);
-          break;
-        case 'year':
-          // Create date range for the selected year
-          const yearStartDate = new Date(syncYear, 0, 1);
-          const yearEndDate = new Date(syncYear, 11, 31, 23, 59, 59);
-          result = await syncOrdersByYear(
-            yearStartDate.toISOString(), 
-            yearEndDate.toISOString(), 
-            syncOperation.updateProgress
-          );
-          break;
-        case 'custom':
-          const startDate = new Date(syncStartDate);
-          const endDate = new Date(syncEndDate);
-          // Set end date to end of day
-          endDate.setHours(23, 59, 59);
-          result = await syncOrdersByDateRange(
-            startDate.toISOString(), 
-            endDate.toISOString(), 
-            syncOperation.updateProgress
-          );
-          break;
-      }
-      
-      // Refresh last sync times
-      const syncTimes = await getLastSyncTimes();
-      setLastSyncTimes(syncTimes);
+      await sync();
       
       setSuccessMessage(`Data sync completed successfully.`);
     } catch (error) {
       console.error('Sync error:', error);
       setErrorMessage(`Failed to sync data: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
+      // Refresh last sync times and sync runs
+      setLastSyncTimes(await getLastSyncTimes());
+      setResumableSyncJob(await fetchResumableSyncJob());
+      setSyncHistory(await fetchSyncHistory());
+      
       syncOperation.reset();
     }
   };
 
-  // Generic function to handle all December sync operations
-  const handleDecemberOperation = async (
-    operationType: 'regular' | 'direct' | 'chunked' | 'testing',
-    syncFunction: (year: number, progressCallback?: (progress: number) => void) => Promise<any>,
-    successMessage: string
-  ) => {
-    // Set operation state
+  // Sync data handler
+  const handleSyncData = () => runSync(() => startSyncJob({
+    type: syncType,
+    year: syncYear,
+    startDay: syncStartDate,
+    endDay: syncEndDate
+  }, syncOperation.updateProgress));
+
+  // Resume the sync job that stopped before finishing
+  const handleResumeSync = () => {
+    if (resumableSyncJob?.id) {
+      runSync(() => resumeSyncJob(resumableSyncJob.id!, syncOperation.updateProgress));
+    }
+  };
+
+  // Replay handlers
+  const runReplayAction = async (action: () => Promise<void>, failure: string) => {
+    setReplayWorking(true);
     setSuccessMessage('');
     setErrorMessage('');
     
-    // Determine which operation state to use
-    const operationState = 
-      operationType === 'regular' ? decemberRegularSync :
-      operationType === 'direct' ? decemberDirectFetch :
-      operationType === 'chunked' ? decemberChunkedFetch :
-      decemberConnectionTest;
-    
-    // Reset all operation states
-    decemberRegularSync.reset();
-    decemberDirectFetch.reset();
-    decemberChunkedFetch.reset();
-    decemberConnectionTest.reset();
-    
-    // Start the current operation
-    operationState.start();
-    
     try {
-      // Skip credentials check for testing operation
-      if (operationType !== 'testing') {
-        // Check if API credentials are set
-        const hasCredentials = await hasApiCredentials();
-        if (!hasCredentials) {
-          setErrorMessage('API credentials not set. Please save your API credentials first.');
-          operationState.reset();
-          return;
-        }
-      }
-      
-      // Create a progress update function
-      const updateProgress = (progress: number) => {
-        operationState.updateProgress(progress);
-      };
-      
-      // Execute the appropriate sync function
-      const result = await syncFunction(decemberSyncYear, updateProgress);
-      
-      // For testing, handle the result differently
-      if (operationType === 'testing') {
-        setConnectionTestResult(result);
-        if (result.success) {
-          setSuccessMessage(result.message);
-        } else {
-          setErrorMessage(result.message);
-        }
-      } else {
-        // Update last sync times for non-testing operations
-        const lastSyncTimes = await getLastSyncTimes();
-        setLastSyncTimes(lastSyncTimes);
-        
-        // Check if December orders are now present
-        await checkDecemberOrdersStatus(decemberSyncYear);
-        
-        setSuccessMessage(successMessage);
-      }
+      await action();
+      setReplayFixtures(await fetchReplayFixtures());
+      setReplayName(getReplayMode());
+      setRecordName(getRecordingFixtures());
+      setCredentialsExist(await hasApiCredentials());
     } catch (error) {
-      console.error(`Error during December ${operationType} operation:`, error);
-      const errorMsg = `Failed to ${operationType === 'testing' ? 'test API connection' : 'fetch December data'}: ${error instanceof Error ? error.message : String(error)}`;
-      setErrorMessage(errorMsg);
-      
-      if (operationType === 'testing') {
-        setConnectionTestResult({
-          success: false,
-          message: `Error: ${error instanceof Error ? error.message : String(error)}`
-        });
-      }
+      console.error(`${failure}:`, error);
+      setErrorMessage(`${failure}: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
-      operationState.reset();
+      setReplayWorking(false);
     }
   };
 
-  // Add this function to check for December orders
-  const checkDecemberOrdersStatus = async (year: number) => {
-    setCheckingDecemberOrders(true);
+  const handleReplayChange = (name: string | null) => runReplayAction(async () => {
+    await setReplayMode(name);
+    setSuccessMessage(name ? `Syncs now replay "${name}".` : 'Syncs now use the live store.');
+  }, 'Failed to change replay mode');
+
+  const handleRecordChange = (name: string | null) => runReplayAction(async () => {
+    await setRecordingFixtures(name);
+    setSuccessMessage(name ? `Live syncs are being recorded to "${name}".` : 'Recording stopped.');
+  }, 'Failed to change recording');
+
+  const handleGenerateScenario = (name: string, options: Partial<ReplayScenarioOptions>) => runReplayAction(async () => {
+    const summary = await generateReplayScenario(name, options);
+    setSuccessMessage(`Generated "${name}" with ${summary.productCount} products and ${summary.orderCount} orders.`);
+  }, 'Failed to generate scenario');
+
+  const handleExportFixtures = (name: string) => runReplayAction(async () => {
+    const json = await exportReplayFixtures(name);
+    
+    const blob = new Blob([json], { type: 'application/json;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `${name.replace(/[^a-z0-9]+/gi, '_').toLowerCase()}_fixtures.json`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }, 'Failed to export fixtures');
+
+  const handleImportFixtures = (json: string) => runReplayAction(async () => {
+    const name = await importReplayFixtures(json);
+    setSuccessMessage(`Imported "${name}".`);
+  }, 'Failed to import fixtures');
+
+  const handleDeleteFixtures = (name: string) => {
+    if (!window.confirm(`Delete the fixtures "${name}"?`)) {
+      return;
+    }
+    runReplayAction(() => removeReplayFixtures(name), 'Failed to delete fixtures');
+  };
+
+  // Backup handlers
+  const runBackupAction = async (action: () => Promise<void>, failure: string) => {
+    setBackupWorking(true);
+    setSuccessMessage('');
+    setErrorMessage('');
+    
     try {
-      const hasOrders = await hasDecemberOrders(year);
-      setHasDecemberOrdersForYear(hasOrders);
+      await action();
     } catch (error) {
-      console.error('Error checking December orders status:', error);
+      console.error(`${failure}:`, error);
+      setErrorMessage(`${failure}: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
-      setCheckingDecemberOrders(false);
+      setBackupWorking(false);
     }
   };
-  
-  // Update the useEffect to check for December orders when the year changes
-  useEffect(() => {
-    checkDecemberOrdersStatus(decemberSyncYear);
-  }, [decemberSyncYear]);
-
-  // Create adapter functions to match the expected signature
-  const syncOrdersByYearAdapter = async (year: number, progressCallback?: (progress: number) => void) => {
-    // Create date range for the entire year
-    const startDate = new Date(year, 0, 1); // January 1st
-    const endDate = new Date(year, 11, 31, 23, 59, 59); // December 31st 23:59:59
+
+  const handleExportBackup = (passphrase: string, useVault: boolean) => runBackupAction(async () => {
+    const json = await createBackup(passphrase || undefined, useVault);
     
-    // Convert to ISO strings as required by syncOrdersByYear
-    return await syncOrdersByYear(startDate.toISOString(), endDate.toISOString(), progressCallback);
-  };
+    const blob = new Blob([json], { type: 'application/json;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `pnl_backup_${getDayInZone(new Date())}${passphrase || useVault ? '_encrypted' : ''}.json`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, 'Failed to create backup');
 
-  const fetchDecemberOrdersDirectlyAdapter = async (year: number, progressCallback?: (progress: number) => void) => {
-    return await fetchDecemberOrdersDirectly(year, progressCallback);
-  };
+  // Read a backup and show what it holds before restoring it
+  const handleLoadBackup = (json: string, passphrase: string) => runBackupAction(async () => {
+    const encrypted = isBackupEncrypted(json);
+    if (encrypted && !passphrase) {
+      setErrorMessage('The backup is encrypted; enter its passphrase and choose Unlock.');
+      return;
+    }
+    
+    const archive = await readBackup(json, passphrase);
+    setPendingBackup(archive);
+    setPendingBackupSummary(summarizeBackup(archive, encrypted));
+  }, 'Failed to read backup');
 
-  const fetchDecemberOrdersInChunksAdapter = async (year: number, progressCallback?: (progress: number) => void) => {
-    return await fetchDecemberOrdersInChunks(year, progressCallback);
+  const handleRestoreBackup = (mode: BackupRestoreMode) => {
+    if (!pendingBackup) return;
+    if (mode === 'replace' && !window.confirm('Replace all of this store\'s data with the backup? This cannot be undone.')) {
+      return;
+    }
+    
+    runBackupAction(async () => {
+      await restoreBackup(pendingBackup, mode);
+      setPendingBackup(null);
+      setPendingBackupSummary(null);
+      
+      // Reload so every page picks up the restored data
+      setSuccessMessage('Backup restored. Reloading...');
+      setTimeout(() => window.location.reload(), 1500);
+    }, 'Failed to restore backup');
   };
 
-  const testDecemberApiConnectionAdapter = async (year: number, progressCallback?: (progress: number) => void) => {
-    // The original function doesn't accept a progressCallback, so we ignore it
-    return await testDecemberApiConnection(year);
+  const handleCancelRestore = () => {
+    setPendingBackup(null);
+    setPendingBackupSummary(null);
   };
 
-  // Handle regular December sync
-  const handleDecemberSync = async () => {
-    await handleDecemberOperation(
-      'regular',
-      syncOrdersByYearAdapter,
-      `Successfully synced December ${decemberSyncYear} orders.`
-    );
+  // Passphrase handlers
+  const runVaultAction = async (action: () => Promise<void>, success: string, failure: string) => {
+    setVaultWorking(true);
+    setSuccessMessage('');
+    setErrorMessage('');
+    
+    try {
+      await action();
+      setSuccessMessage(success);
+      setTimeout(() => {
+        setSuccessMessage('');
+      }, 3000);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      setErrorMessage(`${failure}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setVaultWorking(false);
+    }
   };
 
-  // Handle direct December fetch
-  const handleDirectDecemberFetch = async () => {
-    await handleDecemberOperation(
-      'direct',
-      fetchDecemberOrdersDirectlyAdapter,
-      `Successfully fetched December ${decemberSyncYear} orders directly.`
-    );
-  };
+  const handleSetPassphrase = (passphrase: string) => runVaultAction(async () => {
+    await setVaultPassphrase(passphrase);
+    setVaultConfigured(true);
+    setAutoLockMinutes(DEFAULT_AUTO_LOCK_MINUTES);
+  }, 'Passphrase set. API credentials are now encrypted with it.', 'Failed to set passphrase');
 
-  // Handle chunked December fetch
-  const handleChunkedDecemberFetch = async () => {
-    await handleDecemberOperation(
-      'chunked',
-      fetchDecemberOrdersInChunksAdapter,
-      `Successfully fetched December ${decemberSyncYear} orders in chunks.`
-    );
-  };
+  const handleChangePassphrase = (currentPassphrase: string, newPassphrase: string) => runVaultAction(
+    () => changeVaultPassphrase(currentPassphrase, newPassphrase),
+    'Passphrase changed. API credentials have been re-encrypted.',
+    'Failed to change passphrase'
+  );
 
-  // Handle test December connection
-  const handleTestDecemberConnection = async () => {
-    await handleDecemberOperation(
-      'testing',
-      testDecemberApiConnectionAdapter,
-      'Successfully tested December API connection.'
-    );
-  };
+  const handleAutoLockChange = (minutes: number) => runVaultAction(async () => {
+    await saveAutoLockMinutes(minutes);
+    setAutoLockMinutes(minutes);
+  }, 'Auto-lock updated', 'Failed to save auto-lock');
 
   // Reset database handler
   const handleResetDatabase = async () => {
@@ -501,6 +700,31 @@ const Settings: React.FC = () => {
         onApiCredentialsChange={handleApiCredentialsChange}
       />
       
+      {/* Passphrase Section */}
+      <SecuritySection
+        vaultConfigured={vaultConfigured}
+        autoLockMinutes={autoLockMinutes}
+        working={vaultWorking}
+        onSetPassphrase={handleSetPassphrase}
+        onChangePassphrase={handleChangePassphrase}
+        onAutoLockChange={handleAutoLockChange}
+        onLock={lockVault}
+      />
+      
+      {/* Stores Section */}
+      <StoresSection
+        stores={stores}
+        currentStoreId={getCurrentStoreId()}
+        onStoreNameChange={handleStoreNameChange}
+        onDeleteStore={handleDeleteStore}
+      />
+      
+      {/* Store Profile Section */}
+      <StoreProfileSection
+        storeProfile={storeProfile}
+        onStoreProfileChange={handleStoreProfileChange}
+      />
+      
       {/* Data Sync Section */}
       <div className="bg-white shadow rounded-lg p-6 mb-8">
         <div className="flex justify-between items-center mb-4">
@@ -553,210 +777,57 @@ const Settings: React.FC = () => {
           onSyncEndDateChange={(date) => setSyncEndDate(date)}
         />
         
-        {/* December Sync Section */}
-        <div className="bg-yellow-50 p-4 rounded-md mb-4 border border-yellow-200">
-          <h3 className="text-sm font-medium text-yellow-800 mb-2 flex items-center">
-            <Calendar className="h-4 w-4 mr-2" />
-            December Data Sync Options
-          </h3>
-          <p className="text-xs text-yellow-700 mb-4">
-            Use these options to specifically sync December data, which may require special handling due to year-end processing.
-            If the regular sync method doesn't work, try the chunked fetch method which breaks the request into smaller date ranges.
-          </p>
-          
-          <div className="flex items-center space-x-4 mb-4">
-            <div>
-              <label className="block text-xs text-yellow-700 mb-1">Year</label>
-              <select
-                className="p-2 border rounded text-sm"
-                value={decemberSyncYear}
-                onChange={(e) => setDecemberSyncYear(parseInt(e.target.value))}
-                disabled={decemberRegularSync.isOperating}
-              >
-                {years.map(year => (
-                  <option key={year} value={year}>{year}</option>
-                ))}
-              </select>
-            </div>
-            
-            <div className="flex space-x-2">
-              <button
-                onClick={handleTestDecemberConnection}
-                disabled={decemberRegularSync.isOperating}
-                className={`px-3 py-2 rounded text-sm font-medium flex items-center ${
-                  decemberConnectionTest.isOperating 
-                    ? 'bg-gray-300 text-gray-700 cursor-not-allowed' 
-                    : 'bg-gray-500 text-white hover:bg-gray-600'
-                }`}
-              >
-                {decemberConnectionTest.isOperating ? (
-                  <>
-                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                    Testing...
-                  </>
-                ) : (
-                  <>
-                    <Wifi className="h-4 w-4 mr-2" />
-                    Test Connection
-                  </>
-                )}
-              </button>
-            </div>
-          </div>
-          
-          {/* Connection Test Results */}
-          {connectionTestResult.message && (
-            <div className={`p-3 rounded-md text-xs mb-4 ${
-              connectionTestResult.success ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-            }`}>
-              <p className="font-medium">{connectionTestResult.message}</p>
-              {connectionTestResult.details && connectionTestResult.success && (
-                <div className="mt-2">
-                  <p>Total Orders: {connectionTestResult.details.totalOrders || 0}</p>
-                  {connectionTestResult.details.firstOrderDate && (
-                    <p>First Order Date: {connectionTestResult.details.firstOrderDate}</p>
-                  )}
-                </div>
-              )}
-              {connectionTestResult.details && !connectionTestResult.success && connectionTestResult.details.possibleCauses && (
-                <div className="mt-2">
-                  <p className="font-medium">Possible Causes:</p>
-                  <ul className="list-disc pl-4 mt-1">
-                    {connectionTestResult.details.possibleCauses.map((cause: string, index: number) => (
-                      <li key={index}>{cause}</li>
-                    ))}
-                  </ul>
-                  {connectionTestResult.details.recommendations && (
-                    <>
-                      <p className="font-medium mt-2">Recommendations:</p>
-                      <ul className="list-disc pl-4 mt-1">
-                        {connectionTestResult.details.recommendations.map((rec: string, index: number) => (
-                          <li key={index}>{rec}</li>
-                        ))}
-                      </ul>
-                    </>
-                  )}
-                </div>
-              )}
-            </div>
-          )}
-          
-          {/* Sync Buttons */}
-          {connectionTestResult.success && (
-            <div className="flex flex-wrap gap-2 mb-4">
-              <button
-                onClick={handleDecemberSync}
-                disabled={decemberRegularSync.isOperating}
-                className={`px-3 py-2 rounded text-sm font-medium flex items-center ${
-                  decemberRegularSync.isOperating 
-                    ? 'bg-yellow-300 text-yellow-800 cursor-not-allowed' 
-                    : 'bg-yellow-500 text-white hover:bg-yellow-600'
-                }`}
-              >
-                {decemberRegularSync.isOperating ? (
-                  <>
-                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                    Syncing... {decemberRegularSync.progress}%
-                  </>
-                ) : (
-                  <>
-                    <Calendar className="h-4 w-4 mr-2" />
-                    Regular Sync
-                  </>
-                )}
-              </button>
-              
-              <button
-                onClick={handleDirectDecemberFetch}
-                disabled={decemberDirectFetch.isOperating}
-                className={`px-3 py-2 rounded text-sm font-medium flex items-center ${
-                  decemberDirectFetch.isOperating 
-                    ? 'bg-blue-300 text-blue-800 cursor-not-allowed' 
-                    : 'bg-blue-500 text-white hover:bg-blue-600'
-                }`}
-              >
-                {decemberDirectFetch.isOperating ? (
-                  <>
-                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                    Fetching... {decemberDirectFetch.progress}%
-                  </>
-                ) : (
-                  <>
-                    <Download className="h-4 w-4 mr-2" />
-                    Direct API Fetch
-                  </>
-                )}
-              </button>
-              
-              <button
-                onClick={handleChunkedDecemberFetch}
-                disabled={decemberChunkedFetch.isOperating}
-                className={`px-3 py-2 rounded text-sm font-medium flex items-center ${
-                  decemberChunkedFetch.isOperating 
-                    ? 'bg-green-300 text-green-800 cursor-not-allowed' 
-                    : 'bg-green-500 text-white hover:bg-green-600'
-                }`}
-              >
-                {decemberChunkedFetch.isOperating ? (
-                  <>
-                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                    Fetching in chunks... {decemberChunkedFetch.progress}%
-                  </>
-                ) : (
-                  <>
-                    <Layers className="h-4 w-4 mr-2" />
-                    Chunked Fetch (Recommended)
-                  </>
-                )}
-              </button>
-            </div>
-          )}
-          
-          {/* December Orders Status */}
-          <div className={`p-3 rounded-md text-xs mb-4 ${
-            checkingDecemberOrders 
-              ? 'bg-gray-100 text-gray-700' 
-              : hasDecemberOrdersForYear 
-                ? 'bg-green-100 text-green-800' 
-                : 'bg-red-100 text-red-800'
-          }`}>
-            {checkingDecemberOrders ? (
-              <div className="flex items-center">
-                <RefreshCw className="h-3 w-3 mr-2 animate-spin" />
-                Checking for December {decemberSyncYear} orders...
-              </div>
-            ) : hasDecemberOrdersForYear ? (
-              <div className="flex items-center">
-                <span className="inline-block w-3 h-3 bg-green-500 rounded-full mr-2"></span>
-                December {decemberSyncYear} orders are present in the database.
-              </div>
-            ) : (
-              <div className="flex items-center">
-                <span className="inline-block w-3 h-3 bg-red-500 rounded-full mr-2"></span>
-                No December {decemberSyncYear} orders found in the database.
-              </div>
-            )}
-          </div>
-          
-          <div className="bg-yellow-100 p-3 rounded-md text-xs text-yellow-800">
-            <p className="font-medium">Troubleshooting Tips:</p>
-            <ul className="list-disc pl-4 mt-1 space-y-1">
-              <li>First use the "Test Connection" button to verify API connectivity for December data.</li>
-              <li>If the connection test succeeds but sync fails, try the "Chunked Fetch" method (recommended for large datasets).</li>
-              <li>The chunked fetch breaks December into smaller date ranges to avoid timeouts.</li>
-              <li>Check the browser console (F12) for detailed logs about the sync process.</li>
-              <li>If you're getting Network Errors, verify your API credentials and URL in Settings.</li>
-            </ul>
-          </div>
-        </div>
-        
         {/* Sync Status */}
         <SyncStatusSection
           lastSyncTimes={lastSyncTimes}
           syncProgress={syncOperation.progress}
+          isSyncing={syncOperation.isOperating}
+          canSync={credentialsExist}
+          resumableJob={resumableSyncJob}
+          history={syncHistory}
+          onResume={handleResumeSync}
         />
       </div>
       
+      {/* Offline Replay Section */}
+      <ReplaySection
+        fixtures={replayFixtures}
+        replayName={replayName}
+        recordName={recordName}
+        working={replayWorking || syncOperation.isOperating}
+        onReplayChange={handleReplayChange}
+        onRecordChange={handleRecordChange}
+        onGenerate={handleGenerateScenario}
+        onExport={handleExportFixtures}
+        onImport={handleImportFixtures}
+        onDelete={handleDeleteFixtures}
+      />
+      
+      {/* Backup and Restore Section */}
+      <BackupSection
+        working={backupWorking}
+        restoreSummary={pendingBackupSummary}
+        vaultUnlocked={vaultConfigured && isVaultUnlocked()}
+        onExport={handleExportBackup}
+        onLoad={handleLoadBackup}
+        onRestore={handleRestoreBackup}
+        onCancelRestore={handleCancelRestore}
+      />
+      
+      {/* Cost of Goods Section */}
+      <CostingSection
+        costingMethod={costingMethod}
+        recalculating={recalculating}
+        onCostingMethodChange={setCostingMethod}
+        onRecalculate={handleRecalculateCosts}
+      />
+      
+      {/* Order Statuses Section */}
+      <OrderStatusesSection
+        orderStatuses={pnlOrderStatuses}
+        onOrderStatusesChange={setPnlOrderStatuses}
+      />
+      
       {/* Overhead Costs Section */}
       <OverheadCostsSection 
         overheadCosts={overheadCosts}
@@ -765,6 +836,15 @@ const Settings: React.FC = () => {
         onCostChange={handleOverheadCostChange}
       />
       
+      {/* Payment Gateway Fees Section */}
+      <PaymentFeesSection
+        schedules={paymentFeeSchedules}
+        paymentMethods={paymentMethods}
+        onAddSchedule={handleAddPaymentFeeSchedule}
+        onRemoveSchedule={handleRemovePaymentFeeSchedule}
+        onScheduleChange={handlePaymentFeeScheduleChange}
+      />
+      
       {/* Save Button */}
       <div className="flex justify-end">
         <button
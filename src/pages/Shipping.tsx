@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import DateRangePicker from '../components/DateRangePicker';
+import ShippingCostsTable from '../components/shipping/ShippingCostsTable';
+import CourierInvoiceImport from '../components/shipping/CourierInvoiceImport';
+import ShippingRateRules from '../components/shipping/ShippingRateRules';
+import { DateRange, Order, ShippingCost, ShippingRateRule } from '../types';
+import {
+  fetchOrders,
+  fetchShippingCosts,
+  setOrderShippingCost,
+  importCourierInvoice,
+  fetchShippingRateRules,
+  saveShippingRateRules,
+  estimateShippingCosts,
+  hasApiCredentials,
+  CourierInvoiceLine
+} from '../services/api';
+import { getRecentDaysRange, isOrderInDateRange, getOrderDate } from '../utils/dateRange';
+
+const Shipping: React.FC = () => {
+  const [dateRange, setDateRange] = useState<DateRange>(getRecentDaysRange(30));
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [shippingCosts, setShippingCosts] = useState<Map<number, ShippingCost>>(new Map());
+  const [rules, setRules] = useState<ShippingRateRule[]>([]);
+
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [savingRules, setSavingRules] = useState(false);
+  const [estimating, setEstimating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadCosts = async () => {
+    setShippingCosts(new Map((await fetchShippingCosts()).map(cost => [cost.order_id, cost])));
+  };
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Check if API credentials are set
+      const hasCredentials = await hasApiCredentials();
+      if (!hasCredentials) {
+        setError('API credentials not set. Please go to Settings to configure your API credentials.');
+        setLoading(false);
+        return;
+      }
+
+      const ordersData = await fetchOrders();
+      setOrders(ordersData
+        .filter(order => isOrderInDateRange(order, dateRange))
+        .sort((a, b) => getOrderDate(b).getTime() - getOrderDate(a).getTime()));
+      await loadCosts();
+      setRules(await fetchShippingRateRules());
+    } catch (error) {
+      console.error('Error loading shipping data:', error);
+      setError('Failed to load shipping data.');
+    } finally {
+      setLoading(false);
+    }
+  }, [dateRange]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(null), 5000);
+  };
+
+  const handleCostChange = async (order: Order, amount: number | null) => {
+    try {
+      await setOrderShippingCost(order, amount);
+      await loadCosts();
+    } catch (error) {
+      setError('Failed to save shipping cost: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  const handleImport = async (lines: CourierInvoiceLine[], options: { includesGst: boolean; carrier?: string }) => {
+    setImporting(true);
+    setError(null);
+
+    try {
+      const result = await importCourierInvoice(lines, options);
+      await loadCosts();
+
+      const notes = [`Imported costs for ${result.imported} orders.`];
+      if (result.skippedManual > 0) {
+        notes.push(`${result.skippedManual} rows were for orders with costs entered by hand, which were kept.`);
+      }
+      if (result.unmatched.length > 0) {
+        notes.push(`No synced order matched ${result.unmatched.length} order numbers: ${result.unmatched.slice(0, 10).join(', ')}${result.unmatched.length > 10 ? '...' : ''}`);
+      }
+      showMessage(notes.join(' '));
+    } catch (error) {
+      setError('Failed to import courier invoice: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // Rate rule handlers
+  const handleAddRule = () => {
+    setRules([...rules, {
+      id: Date.now(), // Use timestamp as temporary ID
+      name: '',
+      country: '',
+      regions: '',
+      min_weight: 0,
+      base_cost: 0,
+      cost_per_weight: 0
+    }]);
+  };
+
+  const handleRemoveRule = (id: number) => {
+    setRules(rules.filter(rule => rule.id !== id));
+  };
+
+  const handleRuleChange = (id: number, field: keyof ShippingRateRule, value: ShippingRateRule[keyof ShippingRateRule]) => {
+    setRules(rules.map(rule => rule.id === id ? { ...rule, [field]: value } : rule));
+  };
+
+  const handleSaveRules = async () => {
+    setSavingRules(true);
+    setError(null);
+
+    try {
+      await saveShippingRateRules(rules);
+      showMessage('Rate rules saved.');
+    } catch (error) {
+      setError('Failed to save rate rules: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setSavingRules(false);
+    }
+  };
+
+  // Estimates use the rules as shown, so save them first
+  const handleEstimate = async () => {
+    setEstimating(true);
+    setError(null);
+
+    try {
+      await saveShippingRateRules(rules);
+      const result = await estimateShippingCosts();
+      await loadCosts();
+
+      const notes = [`Estimated costs for ${result.estimated} orders.`];
+      if (result.missingWeight > 0) {
+        notes.push(`${result.missingWeight} orders have products without a weight.`);
+      }
+      if (result.noRule > 0) {
+        notes.push(`${result.noRule} orders have no rule for their weight and destination.`);
+      }
+      showMessage(notes.join(' '));
+    } catch (error) {
+      setError('Failed to estimate shipping costs: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setEstimating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <h1 className="text-2xl font-bold">Shipping Costs</h1>
+        <DateRangePicker dateRange={dateRange} onChange={setDateRange} />
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-6 flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded relative mb-6 flex items-center">
+          <CheckCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+          <span>{message}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <CourierInvoiceImport
+          importing={importing}
+          onImport={handleImport}
+          onError={setError}
+        />
+        <div className="bg-white shadow rounded-lg p-6 text-sm text-gray-600">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">How Carrier Costs Are Used</h2>
+          <p className="mb-2">
+            Each order's carrier cost is added to its costs in the profit and loss, next to the shipping the
+            customer paid. The Shipping report compares the two and lists orders that lost money on freight.
+          </p>
+          <p>
+            Enter a cost on an order to override an import or estimate. If you also record courier invoices as
+            expenses, leave them out of one or the other so freight is not counted twice.
+          </p>
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <ShippingRateRules
+          rules={rules}
+          saving={savingRules}
+          estimating={estimating}
+          onAddRule={handleAddRule}
+          onRemoveRule={handleRemoveRule}
+          onRuleChange={handleRuleChange}
+          onSave={handleSaveRules}
+          onEstimate={handleEstimate}
+        />
+      </div>
+
+      <ShippingCostsTable
+        orders={orders}
+        shippingCosts={shippingCosts}
+        onCostChange={handleCostChange}
+      />
+    </div>
+  );
+};
+
+export default Shipping;
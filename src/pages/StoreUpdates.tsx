@@ -0,0 +1,236 @@
+import React, { useState, useEffect } from 'react';
+import { UploadCloud, Trash2, RefreshCw, AlertCircle, CheckCircle } from 'lucide-react';
+import { OutboundChange } from '../types';
+import {
+  fetchQueuedOutboundChanges,
+  fetchPushedOutboundChanges,
+  discardOutboundChanges,
+  pushOutboundChanges,
+  hasApiCredentials
+} from '../services/api';
+import { formatCurrency } from '../utils/currencyUtils';
+import { formatStoreDate } from '../utils/dateUtils';
+
+const formatChangeValue = (change: OutboundChange) => {
+  if (change.type === 'cost') {
+    return `Cost ${formatCurrency(change.value)}`;
+  }
+  return `Stock ${change.value > 0 ? '+' : ''}${change.value}`;
+};
+
+const StoreUpdates: React.FC = () => {
+  const [queued, setQueued] = useState<OutboundChange[]>([]);
+  const [pushed, setPushed] = useState<OutboundChange[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [pushing, setPushing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadChanges();
+  }, []);
+
+  const loadChanges = async () => {
+    setLoading(true);
+    try {
+      const [queuedChanges, pushedChanges] = await Promise.all([
+        fetchQueuedOutboundChanges(),
+        fetchPushedOutboundChanges()
+      ]);
+      setQueued(queuedChanges);
+      setPushed(pushedChanges);
+      setSelectedIds(new Set(queuedChanges.map(change => change.id!)));
+    } catch (err) {
+      setError(`Failed to load changes: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(selectedIds.size === queued.length ? new Set() : new Set(queued.map(change => change.id!)));
+  };
+
+  const handlePush = async () => {
+    if (!await hasApiCredentials()) {
+      setError('Please set your API credentials in Settings first');
+      return;
+    }
+
+    if (!window.confirm(`Push ${selectedIds.size} change(s) to WooCommerce?`)) {
+      return;
+    }
+
+    setPushing(true);
+    setProgress(0);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const result = await pushOutboundChanges(Array.from(selectedIds), setProgress);
+      if (result.failed > 0) {
+        setError(`${result.pushed} change(s) pushed, ${result.failed} failed. Failed changes stay in the queue and can be pushed again.`);
+      } else {
+        setMessage(`${result.pushed} change(s) pushed to WooCommerce`);
+      }
+    } catch (err) {
+      setError(`Failed to push changes: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setPushing(false);
+      loadChanges();
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!window.confirm(`Discard ${selectedIds.size} change(s)? They will not be pushed to WooCommerce.`)) {
+      return;
+    }
+
+    try {
+      await discardOutboundChanges(Array.from(selectedIds));
+      loadChanges();
+    } catch (err) {
+      setError(`Failed to discard changes: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <h1 className="text-2xl font-bold">Store Updates</h1>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleDiscard}
+            disabled={pushing || selectedIds.size === 0}
+            className="flex items-center text-sm bg-gray-200 text-gray-700 px-3 py-2 rounded hover:bg-gray-300 disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Discard Selected
+          </button>
+          <button
+            onClick={handlePush}
+            disabled={pushing || selectedIds.size === 0}
+            className="flex items-center text-sm bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {pushing ? <RefreshCw className="h-4 w-4 mr-1 animate-spin" /> : <UploadCloud className="h-4 w-4 mr-1" />}
+            {pushing ? `Pushing... ${progress}%` : `Push ${selectedIds.size} to WooCommerce`}
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-6">
+        Stock received on purchase orders and cost price edits are queued here for review before they are
+        written to WooCommerce. Stock changes are applied as adjustments to the stock WooCommerce has when
+        they are pushed, so sales made in the meantime are not overwritten.
+      </p>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-6">
+          <strong className="font-bold">Error:</strong>
+          <span className="block sm:inline"> {error}</span>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded relative mb-6">
+          {message}
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow mb-6">
+        <h2 className="text-lg font-semibold mb-4">Waiting to Push ({queued.length})</h2>
+
+        {loading ? (
+          <div className="text-gray-500">Loading changes...</div>
+        ) : queued.length === 0 ? (
+          <div className="text-gray-500">There are no changes waiting to be pushed.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left">
+                    <input type="checkbox" checked={selectedIds.size === queued.length} onChange={toggleAll} />
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Queued</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {queued.map(change => (
+                  <tr key={change.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(change.id!)}
+                        onChange={() => toggleSelected(change.id!)}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900">{change.name}</div>
+                      <div className="text-xs text-gray-500">{change.sku || 'No SKU'}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{formatChangeValue(change)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-500">{change.source}</td>
+                    <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">{formatStoreDate(new Date(change.updated_at))}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {change.status === 'failed' ? (
+                        <span className="flex items-center text-red-600" title={change.last_error}>
+                          <AlertCircle className="h-4 w-4 mr-1" />
+                          Failed ({change.attempts}x): {change.last_error}
+                        </span>
+                      ) : (
+                        <span className="text-gray-500">Pending</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {pushed.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-lg font-semibold mb-4">Recently Pushed</h2>
+          <table className="min-w-full divide-y divide-gray-200">
+            <tbody className="bg-white divide-y divide-gray-200">
+              {pushed.map(change => (
+                <tr key={change.id}>
+                  <td className="px-4 py-2 text-sm text-gray-900">
+                    <CheckCircle className="h-4 w-4 inline mr-1 text-green-600" />
+                    {change.name}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-900">{formatChangeValue(change)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-500">{change.source}</td>
+                  <td className="px-4 py-2 text-sm text-gray-500 whitespace-nowrap">{formatStoreDate(new Date(change.pushed_at!))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoreUpdates;
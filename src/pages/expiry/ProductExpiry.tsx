@@ -14,9 +14,10 @@ import {
   ChevronDown,
   ChevronRight,
   X,
-  FileText
+  FileText,
+  History
 } from 'lucide-react';
-import { formatNZDate } from '../../utils/dateUtils';
+import { formatStoreDate } from '../../utils/dateUtils';
 import { 
   getProductExpiryWithDetails, 
   getProductExpiryByExpiryDate,
@@ -27,6 +28,7 @@ import {
 import { ProductExpiry } from '../../types';
 import ExpiryUploadModal from '../../components/expiry/ExpiryUploadModal';
 import ExpiryFormModal from '../../components/expiry/ExpiryFormModal';
+import HistoryPanel from '../../components/history/HistoryPanel';
 
 // Interface for grouped expiry data
 interface GroupedExpiry {
@@ -44,6 +46,7 @@ const ProductExpiryPage: React.FC = () => {
   const [expiryData, setExpiryData] = useState<ProductExpiry[]>([]);
   const [groupedData, setGroupedData] = useState<GroupedExpiry[]>([]);
   const [expandedSku, setExpandedSku] = useState<string[]>([]);
+  const [historyId, setHistoryId] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [filterDays, setFilterDays] = useState<number | null>(null);
   const [showVariations, setShowVariations] = useState(true);
@@ -129,9 +132,22 @@ const ProductExpiryPage: React.FC = () => {
     );
   };
   
+  // Toggle the change history of an expiry record
+  const toggleHistory = (id: number) => {
+    setHistoryId(prev => prev === id ? null : id);
+  };
+  
+  const renderHistoryRow = (id: number) => (
+    <tr className="bg-indigo-50">
+      <td colSpan={9} className="px-6 py-4">
+        <HistoryPanel entityType="product_expiry" entityId={id} onReverted={loadData} />
+      </td>
+    </tr>
+  );
+  
   // Handle delete
   const handleDelete = async (id: number) => {
-    if (window.confirm('Are you sure you want to delete this expiry record?')) {
+    if (window.confirm('Move this expiry record to the trash? It can be restored from the Activity page.')) {
       try {
         await deleteProductExpiry(id);
         loadData();
@@ -234,7 +250,7 @@ const ProductExpiryPage: React.FC = () => {
       item.sku,
       item.product_name || '',
       item.batch_number || '',
-      formatNZDate(new Date(item.expiry_date)),
+      formatStoreDate(new Date(item.expiry_date)),
       item.quantity.toString(),
       item.notes || ''
     ]);
@@ -514,7 +530,7 @@ const ProductExpiryPage: React.FC = () => {
                             )}
                           </div>
                         </td>
-                        <td className={`p-3 ${colorClass} rounded-md font-medium`}>{formatNZDate(group.earliest_expiry)}</td>
+                        <td className={`p-3 ${colorClass} rounded-md font-medium`}>{formatStoreDate(group.earliest_expiry)}</td>
                         <td className="p-3">
                           {hasMultipleBatches 
                             ? <span className="text-sm">{group.batches.length} batches</span>
@@ -556,6 +572,15 @@ const ProductExpiryPage: React.FC = () => {
                             >
                               <Edit size={16} />
                             </button>
+                            {!hasMultipleBatches && (
+                              <button
+                                onClick={() => group.batches[0].id && toggleHistory(group.batches[0].id)}
+                                className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+                                title="History"
+                              >
+                                <History size={16} />
+                              </button>
+                            )}
                             {hasMultipleBatches ? (
                               <button 
                                 onClick={() => handleDeleteAllBatches(group.sku)}
@@ -577,6 +602,8 @@ const ProductExpiryPage: React.FC = () => {
                         </td>
                       </tr>
                       
+                      {!hasMultipleBatches && historyId === group.batches[0].id && renderHistoryRow(historyId)}
+                      
                       {/* Expanded batch details */}
                       {isExpanded && hasMultipleBatches && (
                         <>
@@ -585,42 +612,52 @@ const ProductExpiryPage: React.FC = () => {
                             const batchColorClass = getExpiryColor(batchDate);
                             
                             return (
-                              <tr key={batch.id} className="bg-blue-50/50">
-                                <td className="p-3"></td>
-                                <td className="p-3 pl-8 text-sm text-gray-500" colSpan={2}>
-                                  <div className="flex items-center">
-                                    <div className="w-1.5 h-1.5 rounded-full bg-blue-400 mr-2"></div>
-                                    <span className="italic">Batch Details</span>
-                                  </div>
-                                </td>
-                                <td className={`p-3 text-sm ${batchColorClass} rounded-md`}>{formatNZDate(batchDate)}</td>
-                                <td className="p-3 text-sm font-medium">{batch.batch_number || '-'}</td>
-                                <td className="p-3 text-sm">{batch.quantity}</td>
-                                <td className="p-3 text-sm">
-                                  {batch.stock_quantity !== undefined ? batch.stock_quantity : '-'}
-                                </td>
-                                <td className="p-3 text-sm max-w-xs truncate">
-                                  {batch.notes || '-'}
-                                </td>
-                                <td className="px-4 py-3 text-right">
-                                  <div className="flex justify-end space-x-2">
-                                    <button 
-                                      onClick={() => handleEdit(batch)}
-                                      className="p-1.5 text-green-600 hover:text-green-800 hover:bg-green-50 rounded-full transition-colors"
-                                      title="Edit Batch"
-                                    >
-                                      <Edit size={16} />
-                                    </button>
-                                    <button 
-                                      onClick={() => batch.id && handleDelete(batch.id)}
-                                      className="p-1.5 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-full transition-colors"
-                                      title="Delete Batch"
-                                    >
-                                      <Trash2 size={16} />
-                                    </button>
-                                  </div>
-                                </td>
-                              </tr>
+                              <React.Fragment key={batch.id}>
+                                <tr className="bg-blue-50/50">
+                                  <td className="p-3"></td>
+                                  <td className="p-3 pl-8 text-sm text-gray-500" colSpan={2}>
+                                    <div className="flex items-center">
+                                      <div className="w-1.5 h-1.5 rounded-full bg-blue-400 mr-2"></div>
+                                      <span className="italic">Batch Details</span>
+                                    </div>
+                                  </td>
+                                  <td className={`p-3 text-sm ${batchColorClass} rounded-md`}>{formatStoreDate(batchDate)}</td>
+                                  <td className="p-3 text-sm font-medium">{batch.batch_number || '-'}</td>
+                                  <td className="p-3 text-sm">{batch.quantity}</td>
+                                  <td className="p-3 text-sm">
+                                    {batch.stock_quantity !== undefined ? batch.stock_quantity : '-'}
+                                  </td>
+                                  <td className="p-3 text-sm max-w-xs truncate">
+                                    {batch.notes || '-'}
+                                  </td>
+                                  <td className="px-4 py-3 text-right">
+                                    <div className="flex justify-end space-x-2">
+                                      <button 
+                                        onClick={() => handleEdit(batch)}
+                                        className="p-1.5 text-green-600 hover:text-green-800 hover:bg-green-50 rounded-full transition-colors"
+                                        title="Edit Batch"
+                                      >
+                                        <Edit size={16} />
+                                      </button>
+                                      <button
+                                        onClick={() => batch.id && toggleHistory(batch.id)}
+                                        className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+                                        title="History"
+                                      >
+                                        <History size={16} />
+                                      </button>
+                                      <button 
+                                        onClick={() => batch.id && handleDelete(batch.id)}
+                                        className="p-1.5 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-full transition-colors"
+                                        title="Delete Batch"
+                                      >
+                                        <Trash2 size={16} />
+                                      </button>
+                                    </div>
+                                  </td>
+                                </tr>
+                                {historyId === batch.id && renderHistoryRow(historyId)}
+                              </React.Fragment>
                             );
                           })}
                         </>
@@ -0,0 +1,79 @@
+import { Attachment, AttachmentOwnerType } from '../../types';
+import {
+  saveAttachment,
+  getAttachments,
+  getAttachmentCounts,
+  deleteAttachment,
+  getAttachmentTotals
+} from '../../db';
+import { createThumbnail, formatFileSize, isImageType, isPdfType, MAX_ATTACHMENT_SIZE } from '../../utils/attachments';
+
+export interface AttachmentUsage {
+  count: number;
+  bytes: number; // Attached files and their thumbnails
+  storageUsed?: number; // Everything this app stores in the browser; unset when the browser does not say
+  storageQuota?: number; // Most the browser will let this app store
+}
+
+// Ask the browser how much it stores for this app and how much it allows
+const estimateStorage = async (): Promise<StorageEstimate | undefined> => {
+  try {
+    return await navigator.storage?.estimate();
+  } catch {
+    return undefined;
+  }
+};
+
+export const fetchAttachments = async (ownerType: AttachmentOwnerType, ownerId: number): Promise<Attachment[]> => {
+  return await getAttachments(ownerType, ownerId);
+};
+
+// Fetch how many files each record of a kind has attached, by record id
+export const fetchAttachmentCounts = async (ownerType: AttachmentOwnerType): Promise<Map<number, number>> => {
+  return await getAttachmentCounts(ownerType);
+};
+
+/**
+ * Attach a PDF or image to a record
+ * Files over the size limit, or larger than the browser has room left for,
+ * are refused. Images get a thumbnail.
+ */
+export const addAttachment = async (ownerType: AttachmentOwnerType, ownerId: number, file: File): Promise<number> => {
+  if (!isPdfType(file.type) && !isImageType(file.type)) {
+    throw new Error(`${file.name} is not a PDF or image`);
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is ${formatFileSize(file.size)}; files can be up to ${formatFileSize(MAX_ATTACHMENT_SIZE)}`);
+  }
+
+  const estimate = await estimateStorage();
+  if (estimate?.quota !== undefined && estimate.usage !== undefined && estimate.quota - estimate.usage < file.size) {
+    throw new Error(`There is not enough browser storage left for ${file.name}`);
+  }
+
+  return await saveAttachment({
+    owner_type: ownerType,
+    owner_id: ownerId,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    data: file,
+    thumbnail: await createThumbnail(file),
+    created_at: new Date()
+  });
+};
+
+export const removeAttachment = async (id: number): Promise<void> => {
+  await deleteAttachment(id);
+};
+
+// Fetch the space attachments take, against the browser's storage quota
+export const fetchAttachmentUsage = async (): Promise<AttachmentUsage> => {
+  const [totals, estimate] = await Promise.all([getAttachmentTotals(), estimateStorage()]);
+
+  return {
+    ...totals,
+    storageUsed: estimate?.usage,
+    storageQuota: estimate?.quota
+  };
+};
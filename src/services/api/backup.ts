@@ -0,0 +1,114 @@
+import { BackupArchive, BackupRestoreMode, BackupSummary, EncryptedBackupArchive } from '../../types';
+import {
+  exportDatabase,
+  serializeBackup,
+  parseBackup,
+  validateBackup,
+  restoreDatabase,
+  getStores,
+  getActiveStoreId,
+  storeStorageKey,
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION
+} from '../../db';
+import { decryptText, encryptText, encryptWithKey, EncryptedText } from '../../utils/crypto';
+import { clearWooCommerceClientCache } from './credentials';
+import { fetchStoreProfile } from './storeProfile';
+import { fetchCredentialVault, getVaultKey, lockVault } from './vault';
+
+// Encrypt with the store's own passphrase, using the key already unlocked
+const encryptWithVault = async (json: string): Promise<EncryptedText> => {
+  const vault = await fetchCredentialVault();
+  const key = getVaultKey();
+  if (!vault || !key) {
+    throw new Error('Unlock with your passphrase to encrypt the backup with it');
+  }
+
+  return { salt: vault.salt, iterations: vault.iterations, ...await encryptWithKey(json, key) };
+};
+
+/**
+ * Back up the active store's database as JSON
+ * With a passphrase, or the store's own passphrase when useVault is set, the
+ * archive is encrypted. The backup includes the store's API credentials, so
+ * unencrypted backups should be kept somewhere safe.
+ */
+export const createBackup = async (passphrase?: string, useVault: boolean = false): Promise<string> => {
+  const store = (await getStores()).find(item => item.id === getActiveStoreId());
+  const archive = await exportDatabase(store?.name);
+  const json = serializeBackup(archive);
+
+  if (!passphrase && !useVault) {
+    return json;
+  }
+
+  const encrypted = useVault ? await encryptWithVault(json) : await encryptText(json, passphrase!);
+  const envelope: EncryptedBackupArchive = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_FORMAT_VERSION,
+    encrypted: true,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: encrypted.iterations, salt: encrypted.salt },
+    cipher: { name: 'AES-GCM', iv: encrypted.iv },
+    data: encrypted.data
+  };
+
+  return JSON.stringify(envelope);
+};
+
+// Check whether backup JSON is encrypted, so the passphrase can be asked for
+export const isBackupEncrypted = (json: string): boolean => {
+  const parsed = parseBackup(json) as Partial<EncryptedBackupArchive>;
+  return parsed?.format === BACKUP_FORMAT && parsed.encrypted === true;
+};
+
+/**
+ * Read and validate a backup, decrypting it with the passphrase if it is encrypted
+ */
+export const readBackup = async (json: string, passphrase?: string): Promise<BackupArchive> => {
+  const parsed = parseBackup(json) as BackupArchive | EncryptedBackupArchive;
+
+  let archive: BackupArchive;
+  if ('encrypted' in parsed && parsed.encrypted) {
+    if (!passphrase) {
+      throw new Error('The backup is encrypted; enter its passphrase');
+    }
+
+    const decrypted = await decryptText({
+      salt: parsed.kdf.salt,
+      iterations: parsed.kdf.iterations,
+      iv: parsed.cipher.iv,
+      data: parsed.data
+    }, passphrase);
+    archive = parseBackup(decrypted) as BackupArchive;
+  } else {
+    archive = parsed as BackupArchive;
+  }
+
+  validateBackup(archive);
+  return archive;
+};
+
+export const summarizeBackup = (archive: BackupArchive, encrypted: boolean): BackupSummary => {
+  return {
+    store_name: archive.store_name,
+    created_at: archive.created_at,
+    schema_version: archive.schema_version,
+    encrypted,
+    tables: Object.fromEntries(Object.entries(archive.tables).map(([name, rows]) => [name, rows.length]))
+  };
+};
+
+/**
+ * Restore a backup into the active store
+ * Cached credentials and the store profile are reloaded from the restored data.
+ * The backup may bring its own passphrase, so the vault is locked.
+ */
+export const restoreBackup = async (archive: BackupArchive, mode: BackupRestoreMode): Promise<void> => {
+  await restoreDatabase(archive, mode);
+
+  // The credentials flag is set again from the database when next checked
+  localStorage.removeItem(storeStorageKey('has_api_credentials'));
+  clearWooCommerceClientCache();
+  lockVault();
+  await fetchStoreProfile();
+};
@@ -0,0 +1,164 @@
+import { AdditionalRevenue, BankRule, BankTransaction, BankTransactionDirection, Expense } from '../../types';
+import {
+  getImportedFingerprints,
+  saveExpense,
+  saveExpenseImport,
+  saveSetting,
+  BANK_RULES_SETTING
+} from '../../db';
+import { saveAdditionalRevenue, getAdditionalRevenueCategories } from '../../db/operations/additionalRevenue';
+import {
+  getBankRules,
+  findBankRule,
+  getTransactionDirection,
+  learnBankRule,
+  BankRuleOutcome
+} from '../bankImport';
+import { startOfDayInZone } from '../../utils/dateRange';
+
+// A statement transaction with the category it will be imported under
+export interface BankImportLine {
+  transaction: BankTransaction;
+  direction: BankTransactionDirection;
+  category: string;
+  tags: string[];
+  taxDeductible?: boolean;
+  suggestedCategory: string; // Chosen by the matching rule, or the default for the direction
+  ruleName?: string; // Unset when no rule matched
+  duplicate: boolean; // Imported before; never imported again
+  include: boolean;
+}
+
+export interface BankImportResult {
+  expenses: number;
+  revenue: number;
+  skipped: number; // Duplicates and transactions left out
+  learned: number; // Recategorised transactions rules were learned from
+}
+
+// Fetch the bank categorisation rules
+export const fetchBankRules = async (): Promise<BankRule[]> => {
+  return await getBankRules();
+};
+
+// Save the bank categorisation rules, in the order they are tried
+export const saveBankRules = async (rules: BankRule[]): Promise<void> => {
+  await saveSetting(BANK_RULES_SETTING, rules);
+};
+
+/**
+ * Categorise a statement's transactions for review before importing
+ * Transactions no rule matches go to the default category for their direction.
+ * Transactions imported before are marked as duplicates and left out.
+ */
+export const previewBankStatement = async (
+  transactions: BankTransaction[],
+  defaults: { expenseCategory: string; revenueCategory: string }
+): Promise<BankImportLine[]> => {
+  const rules = await getBankRules();
+  const imported = await getImportedFingerprints(transactions.map(transaction => transaction.fingerprint));
+
+  return transactions.map(transaction => {
+    const direction = getTransactionDirection(transaction);
+    const rule = findBankRule(rules, transaction);
+    const duplicate = imported.has(transaction.fingerprint);
+    const category = rule?.category || (direction === 'debit' ? defaults.expenseCategory : defaults.revenueCategory);
+
+    return {
+      transaction,
+      direction,
+      category,
+      tags: rule?.tags || [],
+      taxDeductible: direction === 'debit' ? rule?.tax_deductible : undefined,
+      suggestedCategory: category,
+      ruleName: rule?.name,
+      duplicate,
+      include: !duplicate
+    };
+  });
+};
+
+const describeTransaction = (transaction: BankTransaction): string => {
+  return [transaction.payee, transaction.memo].filter(Boolean).join(' - ') || 'Bank transaction';
+};
+
+/**
+ * Import reviewed statement lines as expenses and additional revenue
+ * Money out becomes one-time expenses and money in additional revenue, dated the
+ * day the bank posted it. Lines whose category was changed from what the rules
+ * chose teach a rule for their payee.
+ */
+export const importBankTransactions = async (lines: BankImportLine[], fileName: string): Promise<BankImportResult> => {
+  const revenueCategories = await getAdditionalRevenueCategories();
+  const taxableCategories = new Set(revenueCategories.filter(category => category.is_taxable).map(category => category.name));
+  const audit = { source: `Bank import: ${fileName}` };
+
+  const result: BankImportResult = { expenses: 0, revenue: 0, skipped: 0, learned: 0 };
+  let rules = await getBankRules();
+
+  for (const line of lines) {
+    const { transaction } = line;
+    if (line.duplicate || !line.include) {
+      result.skipped++;
+      continue;
+    }
+
+    const record = {
+      date: startOfDayInZone(transaction.day),
+      category: line.category,
+      amount: Math.abs(transaction.amount),
+      description: describeTransaction(transaction),
+      reference: transaction.reference,
+      payment_method: 'Bank',
+      tags: line.tags.length > 0 ? line.tags : undefined,
+      import_fingerprint: transaction.fingerprint,
+      import_payee: transaction.payee
+    };
+
+    if (line.direction === 'debit') {
+      // A bank debit is the payment itself
+      const expense: Expense = { ...record, date_paid: record.date, tax_deductible: line.taxDeductible };
+      await saveExpense(expense, audit);
+      result.expenses++;
+    } else {
+      const revenue: AdditionalRevenue = { ...record, tax_included: taxableCategories.has(line.category) };
+      await saveAdditionalRevenue(revenue, audit);
+      result.revenue++;
+    }
+
+    if (line.category !== line.suggestedCategory && transaction.payee) {
+      rules = learnBankRule(rules, transaction.payee, line.direction, {
+        category: line.category,
+        tags: record.tags,
+        tax_deductible: line.direction === 'debit' ? line.taxDeductible : undefined
+      });
+      result.learned++;
+    }
+  }
+
+  await saveExpenseImport({
+    date: new Date(),
+    filename: fileName,
+    items_imported: result.expenses + result.revenue,
+    items_skipped: result.skipped
+  });
+  if (result.learned > 0) {
+    await saveBankRules(rules);
+  }
+
+  return result;
+};
+
+/**
+ * Learn a rule when an imported expense or revenue entry is recategorised by hand
+ * Entries that were not imported from a bank statement are ignored.
+ */
+export const learnBankRuleFromRecategorisation = async (
+  record: Pick<Expense, 'import_payee'>,
+  direction: BankTransactionDirection,
+  outcome: BankRuleOutcome
+): Promise<void> => {
+  if (!record.import_payee) return;
+
+  await saveBankRules(learnBankRule(await getBankRules(), record.import_payee, direction, outcome));
+};
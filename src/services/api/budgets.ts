@@ -0,0 +1,71 @@
+import { Budget } from '../../types';
+import {
+  getBudgets,
+  saveBudgetVersion,
+  updateBudget,
+  setActiveBudget,
+  deleteBudget,
+  getExpenseCategories,
+  getSetting,
+  saveSetting,
+  BUDGET_ALERT_THRESHOLD_SETTING
+} from '../../db';
+import { getAdditionalRevenueCategories } from '../../db/operations/additionalRevenue';
+import {
+  calculateBudgetComparison,
+  getBudgetAlerts,
+  getCategoryBudgetLines,
+  BudgetAlerts,
+  BudgetComparison,
+  BudgetPeriod,
+  DEFAULT_BUDGET_ALERT_THRESHOLD
+} from '../budgets';
+
+// Fetch the budget versions of a fiscal year, the latest first
+export const fetchBudgets = async (fiscalYear: number): Promise<Budget[]> => {
+  return await getBudgets(fiscalYear);
+};
+
+/**
+ * Save a new budget version for a fiscal year and make it the active one
+ * The lines are copied from the given version, or from the categories' monthly
+ * budgets for a fiscal year's first version.
+ */
+export const createBudgetVersion = async (fiscalYear: number, name: string, copyFrom?: Budget): Promise<number> => {
+  const lines = copyFrom
+    ? copyFrom.lines.map(line => ({ ...line, months: [...line.months] }))
+    : getCategoryBudgetLines(await getExpenseCategories(), await getAdditionalRevenueCategories());
+
+  return await saveBudgetVersion({ fiscal_year: fiscalYear, name, lines });
+};
+
+export const saveBudget = async (budget: Budget): Promise<void> => {
+  await updateBudget(budget.id!, { name: budget.name, notes: budget.notes, lines: budget.lines });
+};
+
+export const activateBudget = async (id: number): Promise<void> => {
+  await setActiveBudget(id);
+};
+
+export const removeBudget = async (id: number): Promise<void> => {
+  await deleteBudget(id);
+};
+
+// Compare actuals with a budget version, or the fiscal year's active version
+export const fetchBudgetComparison = async (period: BudgetPeriod, budget?: Budget): Promise<BudgetComparison> => {
+  return await calculateBudgetComparison(period, budget);
+};
+
+// Get the percentage of a budget at which categories are flagged on the Dashboard
+export const fetchBudgetAlertThreshold = async (): Promise<number> => {
+  return await getSetting<number>(BUDGET_ALERT_THRESHOLD_SETTING) ?? DEFAULT_BUDGET_ALERT_THRESHOLD;
+};
+
+export const saveBudgetAlertThreshold = async (threshold: number): Promise<void> => {
+  await saveSetting(BUDGET_ALERT_THRESHOLD_SETTING, threshold);
+};
+
+// Get the expense categories that have passed the alert threshold this month
+export const fetchBudgetAlerts = async (): Promise<BudgetAlerts> => {
+  return await getBudgetAlerts(await fetchBudgetAlertThreshold());
+};
@@ -0,0 +1,19 @@
+import { CostingMethod } from '../../types';
+import { getSetting, saveSetting, clearOrderCosts, COSTING_METHOD_SETTING } from '../../db';
+import { DEFAULT_COSTING_METHOD } from '../pnl/orderCosts';
+
+// Fetch the costing method used for new orders
+export const fetchCostingMethod = async (): Promise<CostingMethod> => {
+  return await getSetting<CostingMethod>(COSTING_METHOD_SETTING) || DEFAULT_COSTING_METHOD;
+};
+
+// Save the costing method
+// Orders that already have a cost keep it; use recalculateOrderCosts to apply the method to them
+export const saveCostingMethod = async (method: CostingMethod): Promise<void> => {
+  await saveSetting(COSTING_METHOD_SETTING, method);
+};
+
+// Discard all frozen order costs; every order is costed again the next time the P&L is calculated
+export const recalculateOrderCosts = async (): Promise<void> => {
+  await clearOrderCosts();
+};
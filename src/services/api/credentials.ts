@@ -3,8 +3,16 @@ import { ApiCredentials } from '../../types';
 import { 
   saveApiCredentials as dbSaveApiCredentials,
   getApiCredentials as dbGetApiCredentials,
-  hasApiCredentials as dbHasApiCredentials
+  hasApiCredentials as dbHasApiCredentials,
+  getReplayFixtures,
+  getReplayFixturesName,
+  getRecordFixturesName,
+  saveReplayFixtures
 } from '../../db';
+import { storeStorageKey } from '../../db/stores';
+import { REPLAY_BASE_URL, createReplayAdapter } from '../replay/adapter';
+import { createResponseRecorder } from '../replay/recorder';
+import { getVaultKey, isVaultConfigured } from './vault';
 
 // Cache for the WooCommerce client
 let clientCache: {
@@ -19,6 +27,13 @@ let clientCache: {
   expiresIn: 30 * 60 * 1000 // 30 minutes
 };
 
+// Drop the cached client, e.g. after switching between the live store and replay mode
+export const clearWooCommerceClientCache = (): void => {
+  clientCache.instance = null;
+  clientCache.credentials = null;
+  clientCache.timestamp = null;
+};
+
 // Set API credentials
 export const setApiCredentials = async (credentials: ApiCredentials): Promise<void> => {
   try {
@@ -32,14 +47,20 @@ export const setApiCredentials = async (credentials: ApiCredentials): Promise<vo
       ? credentials.url.slice(0, -1) 
       : credentials.url;
     
+    // Once a passphrase is set, credentials can only be saved encrypted with its key
+    const key = getVaultKey();
+    if (!key && await isVaultConfigured()) {
+      throw new Error('Unlock with your passphrase before changing API credentials');
+    }
+    
     // Save credentials to database
     await dbSaveApiCredentials({
       ...credentials,
       url
-    });
+    }, key || undefined);
     
     // Also store a flag in localStorage to indicate credentials exist
-    localStorage.setItem('has_api_credentials', 'true');
+    localStorage.setItem(storeStorageKey('has_api_credentials'), 'true');
     
     console.log('API credentials saved successfully');
   } catch (error) {
@@ -51,7 +72,7 @@ export const setApiCredentials = async (credentials: ApiCredentials): Promise<vo
 // Get API credentials
 export const getApiCredentials = async (): Promise<ApiCredentials | null> => {
   try {
-    return await dbGetApiCredentials();
+    return await dbGetApiCredentials(getVaultKey() || undefined);
   } catch (error) {
     console.error('Error getting API credentials:', error);
     return null;
@@ -61,23 +82,13 @@ export const getApiCredentials = async (): Promise<ApiCredentials | null> => {
 // Check if API credentials are set
 export const hasApiCredentials = async (): Promise<boolean> => {
   try {
-    // First check localStorage for a quick answer
-    const hasCredentialsFlag = localStorage.getItem('has_api_credentials');
-    if (hasCredentialsFlag === 'true') {
-      // Double-check by actually querying the database
-      const credentials = await dbGetApiCredentials();
-      return !!credentials;
-    }
-    
-    // If no flag in localStorage, check the database directly
-    const credentials = await dbGetApiCredentials();
-    if (credentials) {
-      // Set the flag if credentials exist
-      localStorage.setItem('has_api_credentials', 'true');
+    // Replay mode stands in for the store, so no credentials are needed
+    if (getReplayFixturesName()) {
       return true;
     }
     
-    return false;
+    // Credentials locked with a passphrase still count as set
+    return await dbHasApiCredentials();
   } catch (error) {
     console.error('Error checking API credentials:', error);
     return false;
@@ -86,17 +97,17 @@ export const hasApiCredentials = async (): Promise<boolean> => {
 
 // Create axios instance with WooCommerce authentication
 export const createWooCommerceClient = async (): Promise<AxiosInstance> => {
-  const credentials = await getApiCredentials();
-  if (!credentials) {
-    throw new Error('API credentials not set');
-  }
+  const replayName = getReplayFixturesName();
+  const recordName = getRecordFixturesName();
+  const credentials = replayName ? null : await getApiCredentials();
   
   // Create a string representation of credentials for comparison
-  const credentialsString = JSON.stringify({
+  const credentialsString = JSON.stringify(credentials ? {
     url: credentials.url,
     consumerKey: credentials.consumerKey,
-    consumerSecret: credentials.consumerSecret
-  });
+    consumerSecret: credentials.consumerSecret,
+    recordName
+  } : { replayName });
   
   // Check if we have a valid cached client
   const now = Date.now();
@@ -110,27 +121,58 @@ export const createWooCommerceClient = async (): Promise<AxiosInstance> => {
     return clientCache.instance;
   }
   
-  // Log the API endpoint for debugging
-  console.log(`Creating new WooCommerce client for endpoint: ${credentials.url}/wp-json/wc/v3`);
-  
-  // Ensure URL doesn't have trailing slash
-  const baseURL = credentials.url.endsWith('/') 
-    ? `${credentials.url.slice(0, -1)}/wp-json/wc/v3` 
-    : `${credentials.url}/wp-json/wc/v3`;
-  
-  // Create axios instance with extended timeout and better error handling
-  const client = axios.create({
-    baseURL,
-    auth: {
-      username: credentials.consumerKey,
-      password: credentials.consumerSecret
-    },
-    timeout: 30000, // 30 second timeout
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json'
+  let client: AxiosInstance;
+  if (replayName) {
+    // Replay mode answers requests from recorded or generated responses
+    const fixtures = await getReplayFixtures(replayName);
+    if (!fixtures) {
+      throw new Error(`Replay fixtures "${replayName}" not found`);
     }
-  });
+    
+    console.log(`Creating replay WooCommerce client for fixtures: ${replayName}`);
+    
+    client = axios.create({
+      baseURL: REPLAY_BASE_URL,
+      adapter: createReplayAdapter(fixtures, saveReplayFixtures),
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      }
+    });
+  } else {
+    if (!credentials) {
+      throw new Error(await isVaultConfigured() && !getVaultKey()
+        ? 'API credentials are locked; unlock them with your passphrase'
+        : 'API credentials not set');
+    }
+    
+    // Log the API endpoint for debugging
+    console.log(`Creating new WooCommerce client for endpoint: ${credentials.url}/wp-json/wc/v3`);
+    
+    // Ensure URL doesn't have trailing slash
+    const baseURL = credentials.url.endsWith('/') 
+      ? `${credentials.url.slice(0, -1)}/wp-json/wc/v3` 
+      : `${credentials.url}/wp-json/wc/v3`;
+    
+    // Create axios instance with extended timeout and better error handling
+    client = axios.create({
+      baseURL,
+      auth: {
+        username: credentials.consumerKey,
+        password: credentials.consumerSecret
+      },
+      timeout: 30000, // 30 second timeout
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      }
+    });
+    
+    // Keep live responses so the store can be replayed without network access
+    if (recordName) {
+      client.interceptors.response.use(createResponseRecorder(recordName));
+    }
+  }
   
   // Add request interceptor for debugging
   client.interceptors.request.use(
@@ -0,0 +1,81 @@
+import { Address, Customer } from '../../types';
+import { createWooCommerceClient } from './credentials';
+import { getCustomers, upsertCustomers } from '../../db';
+import { PageCheckpoint, safeUpdateProgress, fetchPagesInto } from './utils';
+
+// A customer as returned by /customers
+interface ApiCustomer {
+  id: number;
+  email: string;
+  first_name: string;
+  last_name: string;
+  username?: string;
+  date_created: string;
+  date_created_gmt?: string;
+  date_modified_gmt?: string;
+  is_paying_customer?: boolean;
+  billing?: Address;
+  shipping?: Address;
+}
+
+const mapCustomer = (customer: ApiCustomer): Customer => ({
+  id: customer.id,
+  email: (customer.email || '').toLowerCase(),
+  first_name: customer.first_name || '',
+  last_name: customer.last_name || '',
+  username: customer.username,
+  date_created: customer.date_created,
+  date_created_gmt: customer.date_created_gmt,
+  date_modified_gmt: customer.date_modified_gmt,
+  is_paying_customer: customer.is_paying_customer,
+  billing: customer.billing,
+  shipping: customer.shipping
+});
+
+/**
+ * Sync all registered customers, page by page
+ * The customers endpoint cannot filter by modification date, so every sync
+ * fetches all of them; stored customers are replaced. Guests only exist on
+ * their orders.
+ */
+export const syncCustomers = async (
+  progressCallback?: (progress: number) => void,
+  checkpoint?: PageCheckpoint
+): Promise<Customer[]> => {
+  try {
+    const client = await createWooCommerceClient();
+    const storedCustomers: Customer[] = [];
+
+    await fetchPagesInto<ApiCustomer>(
+      client,
+      '/customers',
+      {
+        role: 'all',
+        orderby: 'id',
+        order: 'asc'
+      },
+      async (rawCustomers) => {
+        const customers = rawCustomers.map(mapCustomer);
+        await upsertCustomers(customers);
+        storedCustomers.push(...customers);
+        return customers.length;
+      },
+      checkpoint,
+      progressCallback
+    );
+
+    console.log(`Stored ${storedCustomers.length} customers`);
+
+    safeUpdateProgress(progressCallback, 100);
+
+    return storedCustomers;
+  } catch (error) {
+    console.error('Error syncing customers:', error);
+    throw error;
+  }
+};
+
+// Fetch customers from database
+export const fetchCustomers = async () => {
+  return await getCustomers();
+};
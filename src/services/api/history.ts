@@ -0,0 +1,161 @@
+import { AuditEntityType, AuditEntry, AuditSnapshot, Expense, AdditionalRevenue, ProductExpiry, PurchaseOrder, PurchaseOrderItem, TrashItem } from '../../types';
+import {
+  getAuditLog,
+  getRecordHistory,
+  getAuditEntry,
+  auditedRecordExists,
+  getTrash,
+  getTrashItem,
+  restoreDeletedRecord,
+  deleteTrashItems,
+  emptyTrash as dbEmptyTrash,
+  updateProductCostPrice,
+  updateSupplierPrice,
+  recordSupplierPrice,
+  updateExpense,
+  deleteExpense,
+  updateProductExpiry,
+  deleteProductExpiry,
+  AuditDetails
+} from '../../db';
+import { updateAdditionalRevenue, deleteAdditionalRevenue } from '../../db/operations/additionalRevenue';
+import { updatePurchaseOrder, deletePurchaseOrder } from '../../db/operations/purchaseOrders';
+import { deleteGoodsReceipt } from '../../db/operations/goodsReceipts';
+import { getAuditChanges } from '../../utils/audit';
+
+// Get recent changes across the store, newest first
+export const fetchActivity = async (entityType?: AuditEntityType, limit?: number): Promise<AuditEntry[]> => {
+  return await getAuditLog(entityType, limit);
+};
+
+export const fetchRecordHistory = async (entityType: AuditEntityType, entityId: number): Promise<AuditEntry[]> => {
+  return await getRecordHistory(entityType, entityId);
+};
+
+export const fetchTrash = async (): Promise<TrashItem[]> => {
+  return await getTrash();
+};
+
+// Delete a record the way its page does, moving it to the trash
+const deleteRecord = async (entityType: AuditEntityType, entityId: number, audit: AuditDetails): Promise<void> => {
+  switch (entityType) {
+    case 'expense':
+      return deleteExpense(entityId, audit);
+    case 'additional_revenue':
+      return deleteAdditionalRevenue(entityId, audit);
+    case 'product_expiry':
+      return deleteProductExpiry(entityId, audit);
+    case 'purchase_order':
+      return deletePurchaseOrder(entityId, audit);
+    case 'goods_receipt':
+      return deleteGoodsReceipt(entityId, audit);
+    default:
+      throw new Error('Products come from WooCommerce and cannot be deleted here');
+  }
+};
+
+/**
+ * Put back the fields a change altered, as they were before it
+ * Fields the change did not touch keep any later edits.
+ */
+const applyBeforeSnapshot = async (entry: AuditEntry, audit: AuditDetails): Promise<void> => {
+  const before = entry.before || {};
+  const fields: AuditSnapshot = Object.fromEntries(getAuditChanges(entry).map(change => [change.field, change.before]));
+
+  switch (entry.entity_type) {
+    case 'product':
+    case 'variation': {
+      if ('cost_price' in fields) {
+        const productId = entry.entity_type === 'variation' ? before.product_id as number : entry.entity_id;
+        const variationId = entry.entity_type === 'variation' ? entry.entity_id : undefined;
+        return updateProductCostPrice(productId, (fields.cost_price as number | undefined) || 0, variationId, audit);
+      }
+
+      const sku = before.sku as string | undefined;
+      if (!sku) {
+        throw new Error('The supplier price cannot be reverted because the product has no SKU');
+      }
+      const supplierPrice = (before.supplier_price as number | undefined) || 0;
+      const supplierName = (before.supplier_name as string | undefined) || '';
+      const updated = await updateSupplierPrice(sku, supplierPrice, supplierName, audit);
+      if (!updated) {
+        throw new Error(`No product with SKU ${sku} was found`);
+      }
+
+      // The old price is in effect again from now, so past costs still use the prices in between
+      if (supplierPrice) {
+        await recordSupplierPrice({
+          sku,
+          supplier_name: supplierName,
+          price: supplierPrice,
+          effective_date: new Date(),
+          source: 'manual',
+          reference: `Undid change #${entry.id}`
+        });
+      }
+      return;
+    }
+    case 'expense':
+      return updateExpense(entry.entity_id, fields as Partial<Expense>, audit);
+    case 'additional_revenue':
+      return updateAdditionalRevenue(entry.entity_id, fields as Partial<AdditionalRevenue>, audit);
+    case 'product_expiry':
+      await updateProductExpiry(entry.entity_id, fields as Partial<ProductExpiry>, audit);
+      return;
+    case 'purchase_order': {
+      const { items, ...purchaseOrder } = fields as Partial<PurchaseOrder> & { items?: PurchaseOrderItem[] };
+      return updatePurchaseOrder(entry.entity_id, purchaseOrder, items, audit);
+    }
+  }
+};
+
+/**
+ * Undo a change from the audit log
+ * An edit puts back the fields as they were before it, a delete restores the
+ * record, and a create or restore moves the record to the trash. The undo is
+ * itself recorded, so it can be undone in turn.
+ */
+export const revertAuditEntry = async (entryId: number, reason?: string): Promise<void> => {
+  const entry = await getAuditEntry(entryId);
+  if (!entry) {
+    throw new Error('The change is no longer in the audit log');
+  }
+
+  const audit: AuditDetails = { reason, reverts: entry.id };
+
+  if (entry.action === 'delete') {
+    if (await auditedRecordExists(entry.entity_type, entry.entity_id)) {
+      throw new Error(`${entry.label} has already been restored`);
+    }
+    await restoreDeletedRecord(entry.entity_type, entry.entity_id, entry.label, entry.before || {}, audit);
+    return;
+  }
+
+  if (!await auditedRecordExists(entry.entity_type, entry.entity_id)) {
+    throw new Error(`${entry.label} has been deleted; restore it from the trash first`);
+  }
+
+  if (entry.action === 'create' || entry.action === 'restore') {
+    await deleteRecord(entry.entity_type, entry.entity_id, audit);
+  } else {
+    await applyBeforeSnapshot(entry, audit);
+  }
+};
+
+// Put a record from the trash back where it was deleted from
+export const restoreTrashItem = async (id: number, reason?: string): Promise<void> => {
+  const item = await getTrashItem(id);
+  if (!item) {
+    throw new Error('The record is no longer in the trash');
+  }
+
+  await restoreDeletedRecord(item.entity_type, item.entity_id, item.label, item.record, { reason });
+};
+
+export const purgeTrashItems = async (ids: number[]): Promise<void> => {
+  await deleteTrashItems(ids);
+};
+
+export const emptyTrash = async (): Promise<void> => {
+  await dbEmptyTrash();
+};
@@ -9,9 +9,25 @@ import {
 export * from './credentials';
 export * from './products';
 export * from './orders';
+export * from './customers';
 export * from './inventory';
 export * from './overhead';
+export * from './paymentFees';
+export * from './shipping';
+export * from './pnl';
+export * from './backup';
+export * from './history';
+export * from './budgets';
+export * from './bankImport';
+export * from './attachments';
+export * from './vault';
+export * from './storeProfile';
+export * from './stores';
+export * from './costing';
+export * from './outbound';
 export * from './sync';
+export * from './syncJobs';
+export * from './replay';
 export * from './utils';
 
 // Export database operations that are directly used by components
@@ -26,10 +42,5 @@ export {
   deleteOrder, 
   syncOrdersByYear, 
   syncOrdersByMonth,
-  syncOrdersByDateRange,
-  forceDecemberSync,
-  fetchDecemberOrdersDirectly,
-  fetchDecemberOrdersInChunks,
-  hasDecemberOrders,
-  testDecemberApiConnection
+  syncOrdersByDateRange
 } from './orders';
\ No newline at end of file
@@ -1,5 +1,5 @@
-import { InventoryItem } from '../../types';
-import { saveInventory, getInventory, getProducts, getProductVariations } from '../../db';
+import { InventoryItem, SupplierPriceHistory } from '../../types';
+import { saveInventory, getInventory, getProducts, getProductVariations, getPriceHistory } from '../../db';
 import { updateLastSync } from './sync';
 import { safeUpdateProgress } from './utils';
 
@@ -56,4 +56,9 @@ export const syncInventory = async (progressCallback?: (progress: number) => voi
 // Fetch inventory from database
 export const fetchInventory = async (): Promise<InventoryItem[]> => {
   return await getInventory();
-};
\ No newline at end of file
+};
+
+// Fetch the supplier price history of a SKU, oldest first
+export const fetchPriceHistory = async (sku: string): Promise<SupplierPriceHistory[]> => {
+  return await getPriceHistory(sku);
+};
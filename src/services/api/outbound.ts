@@ -0,0 +1,177 @@
+import { AxiosInstance } from 'axios';
+import { OutboundChange } from '../../types';
+import { createWooCommerceClient } from './credentials';
+import { chunkArray, safeUpdateProgress, withRetry } from './utils';
+import {
+  getQueuedOutboundChanges,
+  getPushedOutboundChanges,
+  getOutboundChangesByIds,
+  markOutboundChangesPushed,
+  markOutboundChangesFailed,
+  recordOutboundStockTargets,
+  discardOutboundChanges as dbDiscardOutboundChanges
+} from '../../db';
+
+// Cost of goods meta key, as used by the WooCommerce Cost of Goods plugin
+export const COST_META_KEY = '_wc_cog_cost';
+
+// Maximum number of objects WooCommerce accepts in one batch request
+const BATCH_SIZE = 100;
+
+export interface OutboundPushResult {
+  pushed: number;
+  failed: number;
+}
+
+// Changes to the same WooCommerce endpoint, i.e. simple products or the variations of one product
+interface ChangeGroup {
+  endpoint: string;
+  changes: OutboundChange[];
+}
+
+const getTargetId = (change: OutboundChange) => change.variation_id || change.product_id;
+
+const getErrorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Group changes by the endpoint their batch request goes to
+const groupByEndpoint = (changes: OutboundChange[]): ChangeGroup[] => {
+  const groups = new Map<string, OutboundChange[]>();
+
+  for (const change of changes) {
+    const endpoint = change.variation_id ? `/products/${change.product_id}/variations` : '/products';
+    groups.set(endpoint, [...(groups.get(endpoint) || []), change]);
+  }
+
+  return Array.from(groups, ([endpoint, groupChanges]) => ({ endpoint, changes: groupChanges }));
+};
+
+// Fetch the current WooCommerce stock of products or variations, so adjustments apply to it
+const fetchCurrentStock = async (
+  client: AxiosInstance,
+  endpoint: string,
+  ids: number[]
+): Promise<Map<number, number>> => {
+  const response = await withRetry(() => client.get(endpoint, {
+    params: { include: ids.join(','), per_page: BATCH_SIZE }
+  }));
+
+  return new Map((response.data as Array<{ id: number; stock_quantity: number | null }>)
+    .map(item => [item.id, item.stock_quantity || 0]));
+};
+
+/**
+ * Get the stock quantity to send for a stock adjustment
+ * A push that failed may still have been applied, e.g. when the request timed
+ * out after WooCommerce saved it. If WooCommerce's stock is still the quantity
+ * last sent, that adjustment is not applied again; only what was queued since is.
+ */
+const getTargetQuantity = (change: OutboundChange, currentQuantity: number): number => {
+  const alreadyApplied = change.target_quantity === currentQuantity ? change.target_value || 0 : 0;
+  return currentQuantity + change.value - alreadyApplied;
+};
+
+// Push one batch of changes to an endpoint and record the outcome of each change
+const pushBatch = async (client: AxiosInstance, endpoint: string, changes: OutboundChange[]): Promise<OutboundPushResult> => {
+  const changesById = new Map<number, OutboundChange[]>();
+  for (const change of changes) {
+    const id = getTargetId(change);
+    changesById.set(id, [...(changesById.get(id) || []), change]);
+  }
+
+  try {
+    const stockIds = Array.from(changesById.keys())
+      .filter(id => changesById.get(id)!.some(change => change.type === 'stock'));
+    const currentStock = stockIds.length > 0
+      ? await fetchCurrentStock(client, endpoint, stockIds)
+      : new Map<number, number>();
+
+    // Combine the stock and cost change of each product into one update
+    const targets: Array<{ id: number; target_quantity: number; target_value: number }> = [];
+    const updates = Array.from(changesById, ([id, idChanges]) => {
+      const update: Record<string, unknown> = { id };
+
+      for (const change of idChanges) {
+        if (change.type === 'stock') {
+          const targetQuantity = getTargetQuantity(change, currentStock.get(id) || 0);
+          update.manage_stock = true;
+          update.stock_quantity = targetQuantity;
+          targets.push({ id: change.id!, target_quantity: targetQuantity, target_value: change.value });
+        } else {
+          update.meta_data = [{ key: COST_META_KEY, value: change.value.toFixed(2) }];
+        }
+      }
+
+      return update;
+    });
+
+    // Remember what is sent before sending it, in case the request fails after WooCommerce applies it
+    await recordOutboundStockTargets(targets);
+    const response = await withRetry(() => client.post(`${endpoint}/batch`, { update: updates }));
+
+    // WooCommerce reports errors per object in the batch response
+    const results: Array<{ id: number; error?: { message: string } }> = response.data?.update || [];
+    const errors = new Map(results.filter(result => result.error).map(result => [result.id, result.error!.message]));
+
+    const pushedIds: number[] = [];
+    for (const [id, idChanges] of changesById) {
+      const message = errors.get(id);
+      if (message) {
+        await markOutboundChangesFailed(idChanges.map(change => change.id!), message);
+      } else {
+        pushedIds.push(...idChanges.map(change => change.id!));
+      }
+    }
+    await markOutboundChangesPushed(pushedIds);
+
+    return { pushed: pushedIds.length, failed: changes.length - pushedIds.length };
+  } catch (error) {
+    console.error(`Error pushing changes to ${endpoint}:`, error);
+    await markOutboundChangesFailed(changes.map(change => change.id!), getErrorMessage(error));
+    return { pushed: 0, failed: changes.length };
+  }
+};
+
+/**
+ * Push queued stock and cost changes to WooCommerce
+ * Changes are sent in batch requests per endpoint. Stock changes are adjustments,
+ * applied to the stock WooCommerce has at the time of the push so sales made in
+ * the meantime are kept. Changes that fail stay in the queue for another try;
+ * a retry does not apply an adjustment again if the failed push had landed.
+ */
+export const pushOutboundChanges = async (
+  ids: number[],
+  progressCallback?: (progress: number) => void
+): Promise<OutboundPushResult> => {
+  const client = await createWooCommerceClient();
+  const changes = await getOutboundChangesByIds(ids);
+
+  const batches = groupByEndpoint(changes).flatMap(group =>
+    chunkArray(group.changes, BATCH_SIZE).map(batch => ({ endpoint: group.endpoint, changes: batch }))
+  );
+
+  const result: OutboundPushResult = { pushed: 0, failed: 0 };
+  for (let i = 0; i < batches.length; i++) {
+    const batchResult = await pushBatch(client, batches[i].endpoint, batches[i].changes);
+    result.pushed += batchResult.pushed;
+    result.failed += batchResult.failed;
+
+    safeUpdateProgress(progressCallback, Math.round(((i + 1) / batches.length) * 100));
+  }
+
+  return result;
+};
+
+// Fetch the changes waiting to be reviewed and pushed
+export const fetchQueuedOutboundChanges = async (): Promise<OutboundChange[]> => {
+  return await getQueuedOutboundChanges();
+};
+
+// Fetch recently pushed changes
+export const fetchPushedOutboundChanges = async (): Promise<OutboundChange[]> => {
+  return await getPushedOutboundChanges();
+};
+
+// Drop changes that should not be pushed
+export const discardOutboundChanges = async (ids: number[]): Promise<void> => {
+  await dbDiscardOutboundChanges(ids);
+};
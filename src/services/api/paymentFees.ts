@@ -0,0 +1,27 @@
+import { PaymentFeeSchedule } from '../../types';
+import { getOrders, saveSetting, PAYMENT_FEE_SCHEDULES_SETTING } from '../../db';
+import { getPaymentFeeSchedules } from '../pnl/paymentFees';
+
+// Fetch the payment gateway fee schedules
+export const fetchPaymentFeeSchedules = async (): Promise<PaymentFeeSchedule[]> => {
+  return await getPaymentFeeSchedules();
+};
+
+// Save the payment gateway fee schedules
+export const savePaymentFeeSchedules = async (schedules: PaymentFeeSchedule[]): Promise<void> => {
+  await saveSetting(PAYMENT_FEE_SCHEDULES_SETTING, schedules);
+};
+
+// Fetch the payment methods used on synced orders, with the title last shown to customers
+export const fetchPaymentMethods = async (): Promise<Array<{ id: string; title: string }>> => {
+  const orders = await getOrders();
+  const methods = new Map<string, string>();
+
+  for (const order of orders) {
+    if (order.payment_method) {
+      methods.set(order.payment_method, order.payment_method_title || order.payment_method);
+    }
+  }
+
+  return Array.from(methods, ([id, title]) => ({ id, title })).sort((a, b) => a.title.localeCompare(b.title));
+};
@@ -0,0 +1,85 @@
+import { DateRange, ReportingBasis } from '../../types';
+import { getActiveStoreId, saveSetting, REPORTING_BASIS_SETTING } from '../../db';
+import { calculateStorePnL, StorePnLOptions, StorePnLResponse, StorePnLResult } from '../pnl/storePnl';
+import { getReportingBasis } from '../pnl/basis';
+
+interface PendingRequest {
+  storeId: number;
+  resolve: (result: StorePnLResult) => void;
+  reject: (error: Error) => void;
+}
+
+// One worker per store, as a worker opens a single store's database
+const workers = new Map<number, Worker>();
+let nextRequestId = 1;
+const pendingRequests = new Map<number, PendingRequest>();
+
+const getWorker = (storeId: number): Worker => {
+  let worker = workers.get(storeId);
+  if (!worker) {
+    worker = new Worker(new URL('../../workers/pnl.worker.ts', import.meta.url), { type: 'module' });
+    workers.set(storeId, worker);
+
+    worker.addEventListener('message', (event: MessageEvent<StorePnLResponse>) => {
+      const response = event.data;
+      const pending = pendingRequests.get(response.id);
+      if (!pending) return;
+
+      pendingRequests.delete(response.id);
+      if ('error' in response) {
+        pending.reject(new Error(response.error));
+      } else {
+        pending.resolve(response.result);
+      }
+    });
+
+    // A worker that fails to load fails every request waiting on it
+    worker.addEventListener('error', (event) => {
+      console.error(`P&L worker error for store ${storeId}:`, event.message);
+      pendingRequests.forEach((pending, id) => {
+        if (pending.storeId !== storeId) return;
+        pending.reject(new Error(event.message || 'P&L worker failed'));
+        pendingRequests.delete(id);
+      });
+      workers.get(storeId)?.terminate();
+      workers.delete(storeId);
+    });
+  }
+
+  return worker;
+};
+
+/**
+ * Calculate a store's P&L for a date range in a background worker
+ * Orders are read with indexed range queries and per-order results are cached
+ * in the worker, so the page stays responsive with large order histories.
+ * Falls back to calculating on the main thread where workers are unavailable,
+ * which only the active store's database can be read from.
+ */
+export const fetchStorePnL = async (
+  dateRange: DateRange,
+  options: StorePnLOptions = {},
+  storeId: number = getActiveStoreId()
+): Promise<StorePnLResult> => {
+  if (typeof Worker === 'undefined') {
+    if (storeId !== getActiveStoreId()) {
+      throw new Error(`Cannot calculate the P&L of store ${storeId} without a worker`);
+    }
+    return await calculateStorePnL(dateRange, options);
+  }
+
+  const id = nextRequestId++;
+  return new Promise<StorePnLResult>((resolve, reject) => {
+    pendingRequests.set(id, { storeId, resolve, reject });
+    getWorker(storeId).postMessage({ id, storeId, dateRange, options });
+  });
+};
+
+// Get whether the active store reports on the accrual or the cash basis
+export const fetchReportingBasis = async (): Promise<ReportingBasis> => {
+  return await getReportingBasis();
+};
+
+export const saveReportingBasis = async (basis: ReportingBasis): Promise<void> => {
+  await saveSetting(REPORTING_BASIS_SETTING, basis);
+};
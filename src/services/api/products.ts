@@ -1,8 +1,34 @@
 import { Product, ProductVariation } from '../../types';
 import { createWooCommerceClient } from './credentials';
-import { saveProducts, saveProductVariations, getProducts } from '../../db';
+import { getProducts, upsertProducts, replaceProductVariations, removeMissingProducts, getSyncCursor, updateSyncCursor } from '../../db';
 import { updateLastSync } from './sync';
-import { safeUpdateProgress, chunkArray } from './utils';
+import { 
+  PageCheckpoint,
+  SYNC_MAX_ATTEMPTS,
+  safeUpdateProgress, 
+  fetchPagesInto, 
+  getLatestModifiedCursor, 
+  getModifiedAfter,
+  withRetry
+} from './utils';
+import { storeStorageKey } from '../../db/stores';
+
+// A product as returned by /products; prices are strings until mapped
+interface ApiProduct {
+  id: number;
+  name: string;
+  sku?: string;
+  price: string;
+  regular_price?: string;
+  sale_price?: string;
+  type?: string;
+  stock_quantity?: number | null;
+  weight?: string;
+  date_modified_gmt?: string;
+  variations?: number[];
+  meta_data?: Array<{ key: string; value: string }>;
+  attributes?: Array<{ name: string; options: string[] }>;
+}
 
 // Extract cost price from product metadata or attributes
 export const extractCostPrice = (product: any): number => {
@@ -33,7 +59,7 @@ export const extractCostPrice = (product: any): number => {
   }
   
   // Check if we have a stored cost price in the database
-  const storedCostPrice = localStorage.getItem(`product_cost_${product.id}`);
+  const storedCostPrice = localStorage.getItem(storeStorageKey(`product_cost_${product.id}`));
   if (storedCostPrice) {
     return parseFloat(storedCostPrice);
   }
@@ -53,129 +79,86 @@ export const formatVariationName = (productName: string, attributes: Array<{name
   return `${productName} - ${attributeString}`;
 };
 
-// Fetch all products with pagination and optimized for large datasets
-const fetchAllProducts = async (progressCallback?: (progress: number) => void): Promise<any[]> => {
-  const client = await createWooCommerceClient();
-  let allProducts: any[] = [];
-  let page = 1;
-  let totalPages = 1;
-  const perPage = 100; // Maximum allowed by WooCommerce API
+// Convert a raw API product, preserving locally maintained cost and supplier info
+const mapProduct = (product: any, existingProduct?: Product): Product => {
+  // If we have an existing product, preserve its cost_price and supplier info
+  if (existingProduct) {
+    return {
+      ...product,
+      regular_price: parseFloat(product.regular_price || product.price || '0'),
+      sale_price: product.sale_price ? parseFloat(product.sale_price) : undefined,
+      cost_price: existingProduct.cost_price,
+      supplier_price: existingProduct.supplier_price,
+      supplier_name: existingProduct.supplier_name,
+      supplier_updated: existingProduct.supplier_updated
+    };
+  }
   
-  try {
-    // Get existing products to check for changes
-    const existingProducts = await getProducts();
-    const existingProductIds = new Set(existingProducts.map(p => p.id));
-    
-    // Initial progress update
-    safeUpdateProgress(progressCallback, 10);
-    
-    // First request to get total count
-    const initialResponse = await client.get('/products', {
-      params: {
-        per_page: perPage,
-        page: 1
-      }
-    });
-    
-    // Get total pages from response headers
-    totalPages = parseInt(initialResponse.headers['x-wp-totalpages'] || '1', 10);
-    const totalProducts = parseInt(initialResponse.headers['x-wp-total'] || '0', 10);
-    
-    console.log(`Found ${totalProducts} products across ${totalPages} pages`);
-    
-    // Add first page results
-    allProducts = allProducts.concat(initialResponse.data);
-    
-    // Create an array of page numbers to fetch
-    const remainingPages = Array.from({ length: totalPages - 1 }, (_, i) => i + 2);
-    
-    // Process pages in chunks to avoid overwhelming the API
-    const pageChunks = chunkArray(remainingPages, 5);
-    
-    for (let chunkIndex = 0; chunkIndex < pageChunks.length; chunkIndex++) {
-      const chunk = pageChunks[chunkIndex];
-      
-      // Update progress based on chunks processed
-      const chunkProgress = 10 + Math.floor((chunkIndex / pageChunks.length) * 60);
-      safeUpdateProgress(progressCallback, Math.min(chunkProgress, 70));
-      
-      // Process each page in the current chunk sequentially to avoid rate limiting
-      for (const pageNum of chunk) {
-        try {
-          const response = await client.get('/products', {
-            params: {
-              per_page: perPage,
-              page: pageNum
-            }
-          });
-          
-          // Add products to our collection
-          allProducts = allProducts.concat(response.data);
-          
-          // Small delay to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, 300));
-        } catch (error) {
-          console.error(`Error fetching products page ${pageNum}:`, error);
-          // Continue with next page even if one fails
-        }
-      }
-    }
-    
-    // Log how many products were fetched
-    console.log(`Fetched ${allProducts.length} products from API`);
-    
-    // Check how many are new
-    const newProductCount = allProducts.filter(p => !existingProductIds.has(p.id)).length;
-    console.log(`${newProductCount} new products found`);
+  // Otherwise, create a new product
+  return {
+    ...product,
+    regular_price: parseFloat(product.regular_price || product.price || '0'),
+    sale_price: product.sale_price ? parseFloat(product.sale_price) : undefined,
+    cost_price: extractCostPrice(product)
+  };
+};
+
+// Fetch and format all variations of a variable product
+const fetchProductVariations = async (
+  product: Product,
+  onRetry?: (error: unknown, delayMs: number) => void
+): Promise<ProductVariation[]> => {
+  const productVariationsRaw = await fetchAllVariations(product.id, onRetry);
+  
+  return productVariationsRaw.map((variation: any) => {
+    // Extract attributes
+    const attributes = variation.attributes.map((attr: any) => ({
+      name: attr.name,
+      option: attr.option
+    }));
     
-    return allProducts;
-  } catch (error) {
-    console.error('Error fetching all products:', error);
-    throw error;
-  }
+    // Create a formatted variation object
+    return {
+      id: variation.id,
+      parent_id: product.id,
+      name: formatVariationName(product.name, attributes),
+      sku: variation.sku || '',
+      price: parseFloat(variation.price || '0'),
+      regular_price: parseFloat(variation.regular_price || variation.price || '0'),
+      sale_price: variation.sale_price ? parseFloat(variation.sale_price) : undefined,
+      stock_quantity: variation.stock_quantity || 0,
+      weight: variation.weight || undefined,
+      attributes,
+      cost_price: extractCostPrice(variation)
+    };
+  });
 };
 
 // Fetch all variations for a product with pagination
-const fetchAllVariations = async (productId: number): Promise<any[]> => {
+// A page that still fails after retries fails the product, so no variation is silently lost
+const fetchAllVariations = async (productId: number, onRetry?: (error: unknown, delayMs: number) => void): Promise<any[]> => {
   const client = await createWooCommerceClient();
   let allVariations: any[] = [];
-  let page = 1;
   let totalPages = 1;
   const perPage = 100; // Maximum allowed by WooCommerce API
   
   try {
-    // First request to get total count
-    const initialResponse = await client.get(`/products/${productId}/variations`, {
-      params: {
-        per_page: perPage,
-        page: 1
-      }
-    });
-    
-    // Get total pages from response headers
-    totalPages = parseInt(initialResponse.headers['x-wp-totalpages'] || '1', 10);
-    
-    // Add first page results
-    allVariations = allVariations.concat(initialResponse.data);
-    
-    // Fetch remaining pages
-    for (let pageNum = 2; pageNum <= totalPages; pageNum++) {
-      try {
-        const response = await client.get(`/products/${productId}/variations`, {
-          params: {
-            per_page: perPage,
-            page: pageNum
-          }
-        });
-        
-        allVariations = allVariations.concat(response.data);
-        
+    for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+      if (pageNum > 1) {
         // Small delay to avoid rate limiting
         await new Promise(resolve => setTimeout(resolve, 300));
-      } catch (error) {
-        console.error(`Error fetching variations page ${pageNum} for product ${productId}:`, error);
-        // Continue with next page even if one fails
       }
+      
+      const response = await withRetry(() => client.get(`/products/${productId}/variations`, {
+        params: {
+          per_page: perPage,
+          page: pageNum
+        }
+      }), SYNC_MAX_ATTEMPTS, 1000, onRetry);
+      
+      // Get total pages from response headers
+      totalPages = parseInt(response.headers['x-wp-totalpages'] || '1', 10);
+      allVariations = allVariations.concat(response.data);
     }
     
     return allVariations;
@@ -185,120 +168,156 @@ const fetchAllVariations = async (productId: number): Promise<any[]> => {
   }
 };
 
-// Fetch products from WooCommerce API and store in database
-export const syncProducts = async (progressCallback?: (progress: number) => void): Promise<Product[]> => {
+// Map a page of API products and store them with the variations of its variable products
+// Existing products are passed in so locally maintained cost and supplier info is kept
+const storeProductsPage = async (
+  rawProducts: ApiProduct[],
+  existingProductMap: Map<number, Product>,
+  onRetry?: (error: unknown, delayMs: number) => void
+): Promise<Product[]> => {
+  const products = rawProducts.map(product => mapProduct(product, existingProductMap.get(product.id)));
+  
+  // Fetch the variations of variable products
+  const variableProducts = products.filter(product => product.type === 'variable');
+  const variations: ProductVariation[] = [];
+  
+  for (const product of variableProducts) {
+    if (product.variations && product.variations.length > 0) {
+      variations.push(...await fetchProductVariations(product, onRetry));
+      
+      // Small delay to avoid rate limiting
+      await new Promise(resolve => setTimeout(resolve, 300));
+    }
+  }
+  
+  await upsertProducts(products);
+  await replaceProductVariations(variableProducts.map(product => product.id), variations);
+  
+  return products;
+};
+
+/**
+ * Fetch every product from WooCommerce and store them page by page
+ * Products the store no longer has are removed at the end. When the sync
+ * resumes after an interruption the earlier pages are not known, so nothing is
+ * removed until a sync runs from start to finish.
+ */
+export const syncProducts = async (
+  progressCallback?: (progress: number) => void,
+  checkpoint?: PageCheckpoint
+): Promise<Product[]> => {
   // Initial progress update
   safeUpdateProgress(progressCallback, 10);
   
   try {
-    // Get existing products and variations
+    const client = await createWooCommerceClient();
+    const isResumed = (checkpoint?.startPage || 1) > 1;
+    const storedProducts: Product[] = [];
     const existingProducts = await getProducts();
     const existingProductMap = new Map(existingProducts.map(p => [p.id, p]));
     
-    // Fetch all products with pagination
-    const rawProducts = await fetchAllProducts(progressCallback);
+    // A full sync is also a valid starting point for incremental syncs
+    let cursor = isResumed ? await getSyncCursor('products') : null;
     
-    // Process products
-    const products = rawProducts.map((product: any) => {
-      // Check if we already have this product
-      const existingProduct = existingProductMap.get(product.id);
-      
-      // If we have an existing product, preserve its cost_price and supplier info
-      if (existingProduct) {
-        return {
-          ...product,
-          regular_price: parseFloat(product.regular_price || product.price || '0'),
-          sale_price: product.sale_price ? parseFloat(product.sale_price) : undefined,
-          cost_price: existingProduct.cost_price,
-          supplier_price: existingProduct.supplier_price,
-          supplier_name: existingProduct.supplier_name,
-          supplier_updated: existingProduct.supplier_updated
-        };
+    await fetchPagesInto<ApiProduct>(
+      client,
+      '/products',
+      {},
+      async (rawProducts) => {
+        storedProducts.push(...await storeProductsPage(rawProducts, existingProductMap, checkpoint?.onRetry));
+        cursor = getLatestModifiedCursor(rawProducts, cursor);
+        return rawProducts.length;
+      },
+      checkpoint,
+      (progress) => {
+        // Map page progress to 10-90% of overall progress
+        safeUpdateProgress(progressCallback, 10 + Math.floor(progress * 0.8));
       }
-      
-      // Otherwise, create a new product
-      return {
-        ...product,
-        regular_price: parseFloat(product.regular_price || product.price || '0'),
-        sale_price: product.sale_price ? parseFloat(product.sale_price) : undefined,
-        cost_price: extractCostPrice(product)
-      };
-    });
+    );
     
-    // Process products to identify variable products
-    const variableProducts = products.filter(product => product.type === 'variable');
+    console.log(`Stored ${storedProducts.length} products`);
     
-    // Update progress
-    safeUpdateProgress(progressCallback, 70);
+    if (!isResumed) {
+      await removeMissingProducts(storedProducts.map(product => product.id));
+    }
     
-    // Fetch variations for variable products
-    const variations: ProductVariation[] = [];
-    let variationCount = 0;
-    const totalVariableProducts = variableProducts.length;
+    await updateLastSync('products');
+    if (cursor) {
+      await updateSyncCursor('products', cursor);
+    }
     
-    // Process variable products in chunks to avoid overwhelming the API
-    const productChunks = chunkArray(variableProducts, 5);
+    // Final progress update
+    safeUpdateProgress(progressCallback, 100);
     
-    for (let chunkIndex = 0; chunkIndex < productChunks.length; chunkIndex++) {
-      const chunk = productChunks[chunkIndex];
-      
-      // Process each product in the current chunk
-      for (const product of chunk) {
-        if (product.variations && product.variations.length > 0) {
-          // Fetch all variations with pagination
-          const productVariationsRaw = await fetchAllVariations(product.id);
-          
-          const productVariations = productVariationsRaw.map((variation: any) => {
-            // Extract attributes
-            const attributes = variation.attributes.map((attr: any) => ({
-              name: attr.name,
-              option: attr.option
-            }));
-            
-            // Create a formatted variation object
-            return {
-              id: variation.id,
-              parent_id: product.id,
-              name: formatVariationName(product.name, attributes),
-              sku: variation.sku || '',
-              price: parseFloat(variation.price || '0'),
-              regular_price: parseFloat(variation.regular_price || variation.price || '0'),
-              sale_price: variation.sale_price ? parseFloat(variation.sale_price) : undefined,
-              stock_quantity: variation.stock_quantity || 0,
-              attributes,
-              cost_price: extractCostPrice(variation)
-            };
-          });
-          
-          variations.push(...productVariations);
-        }
+    return storedProducts;
+  } catch (error) {
+    console.error('Error syncing products:', error);
+    throw error;
+  }
+};
+
+// Sync only the products created or modified since the last incremental sync
+// Falls back to a full sync when products have never been synced incrementally.
+// Variations of modified variable products are re-fetched as a whole, since the
+// API has no store-wide variations endpoint to query by modification date.
+// The cursor moves forward after every stored page, so an interrupted sync
+// picks up from the last stored page.
+export const syncProductsIncremental = async (
+  progressCallback?: (progress: number) => void,
+  checkpoint?: PageCheckpoint
+): Promise<Product[]> => {
+  let cursor = await getSyncCursor('products');
+  if (!cursor) {
+    return await syncProducts(progressCallback, checkpoint);
+  }
+  
+  // Initial progress update
+  safeUpdateProgress(progressCallback, 10);
+  
+  try {
+    const modifiedAfter = getModifiedAfter(cursor);
+    console.log(`Syncing products modified after ${modifiedAfter} (GMT)`);
+    
+    const client = await createWooCommerceClient();
+    const storedProducts: Product[] = [];
+    const existingProducts = await getProducts();
+    const existingProductMap = new Map(existingProducts.map(p => [p.id, p]));
+    
+    await fetchPagesInto<ApiProduct>(
+      client,
+      '/products',
+      {
+        modified_after: modifiedAfter,
+        dates_are_gmt: true,
+        orderby: 'modified',
+        order: 'asc'
+      },
+      async (rawProducts) => {
+        storedProducts.push(...await storeProductsPage(rawProducts, existingProductMap, checkpoint?.onRetry));
         
-        // Update progress for variations
-        variationCount++;
-        if (totalVariableProducts > 0) {
-          const variationProgress = 70 + Math.floor((variationCount / totalVariableProducts) * 20);
-          safeUpdateProgress(progressCallback, Math.min(variationProgress, 90));
-        }
+        // Only advance the cursor once the products are safely stored
+        cursor = getLatestModifiedCursor(rawProducts, cursor);
+        await updateSyncCursor('products', cursor!);
+        return rawProducts.length;
+      },
+      // The cursor already moved past the stored pages, so always start from the first page
+      checkpoint && { ...checkpoint, startPage: 1 },
+      (progress) => {
+        // Map page progress to 10-95% of overall progress
+        safeUpdateProgress(progressCallback, 10 + Math.floor(progress * 0.85));
       }
-      
-      // Small delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 300));
-    }
+    );
     
-    // Update progress
-    safeUpdateProgress(progressCallback, 90);
+    console.log(`Stored ${storedProducts.length} new or modified products`);
     
-    // Save products and variations to database
-    await saveProducts(products);
-    await saveProductVariations(variations);
-    await updateLastSync('products');
+    await updateSyncCursor('products', cursor);
     
     // Final progress update
     safeUpdateProgress(progressCallback, 100);
     
-    return products;
+    return storedProducts;
   } catch (error) {
-    console.error('Error syncing products:', error);
+    console.error('Error syncing products incrementally:', error);
     throw error;
   }
 };
@@ -0,0 +1,121 @@
+import { ReplayFixtures, ReplayFixturesSummary, ReplayScenarioOptions } from '../../types';
+import {
+  getReplayFixtures,
+  getReplayFixtureSummaries,
+  saveReplayFixtures,
+  deleteReplayFixtures,
+  getReplayFixturesName,
+  setReplayFixturesName,
+  getRecordFixturesName,
+  setRecordFixturesName
+} from '../../db';
+import { clearWooCommerceClientCache } from './credentials';
+import { generateScenario } from '../replay/scenario';
+import { createEmptyFixtures } from '../replay/recorder';
+
+export const fetchReplayFixtures = async (): Promise<ReplayFixturesSummary[]> => {
+  return await getReplayFixtureSummaries();
+};
+
+// Get the fixture set the store is replayed from, or null when syncing from the live store
+export const getReplayMode = (): string | null => {
+  return getReplayFixturesName();
+};
+
+/**
+ * Replay the store from a fixture set, or pass null to go back to the live store
+ * Replayed data is synced like live data, so switch to a separate store first
+ * to keep it apart from real orders.
+ */
+export const setReplayMode = async (name: string | null): Promise<void> => {
+  if (name && !await getReplayFixtures(name)) {
+    throw new Error(`Replay fixtures "${name}" not found`);
+  }
+
+  setReplayFixturesName(name);
+  clearWooCommerceClientCache();
+};
+
+// Get the fixture set live responses are recorded into, if recording
+export const getRecordingFixtures = (): string | null => {
+  return getRecordFixturesName();
+};
+
+// Record live responses into a fixture set, or pass null to stop recording
+export const setRecordingFixtures = async (name: string | null): Promise<void> => {
+  if (name && !await getReplayFixtures(name)) {
+    await saveReplayFixtures(createEmptyFixtures(name, 'recorded'));
+  }
+
+  setRecordFixturesName(name);
+  clearWooCommerceClientCache();
+};
+
+// Generate a store scenario and save it as a fixture set, replacing any of the same name
+export const generateReplayScenario = async (name: string, options: Partial<ReplayScenarioOptions>): Promise<ReplayFixturesSummary> => {
+  const fixtures = generateScenario(name, options);
+  await saveReplayFixtures(fixtures);
+  clearWooCommerceClientCache();
+
+  return {
+    name,
+    source: fixtures.source,
+    productCount: fixtures.products.length,
+    orderCount: fixtures.orders.length,
+    created_at: fixtures.created_at,
+    updated_at: fixtures.updated_at
+  };
+};
+
+// Export a fixture set as JSON, e.g. to check in as a regression test input
+export const exportReplayFixtures = async (name: string): Promise<string> => {
+  const fixtures = await getReplayFixtures(name);
+  if (!fixtures) {
+    throw new Error(`Replay fixtures "${name}" not found`);
+  }
+
+  return JSON.stringify(fixtures, null, 2);
+};
+
+// Import a fixture set exported as JSON
+export const importReplayFixtures = async (json: string, name?: string): Promise<string> => {
+  let parsed: Partial<ReplayFixtures>;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!Array.isArray(parsed.products) || !Array.isArray(parsed.orders)) {
+    throw new Error('The file does not contain replay fixtures');
+  }
+
+  const fixtures: ReplayFixtures = {
+    name: name || parsed.name || `Imported ${new Date().toISOString().slice(0, 10)}`,
+    source: 'imported',
+    products: parsed.products,
+    variations: parsed.variations || {},
+    orders: parsed.orders,
+    refunds: parsed.refunds || {},
+    customers: parsed.customers || [],
+    created_at: parsed.created_at ? new Date(parsed.created_at) : new Date(),
+    updated_at: new Date()
+  };
+
+  await saveReplayFixtures(fixtures);
+  clearWooCommerceClientCache();
+
+  return fixtures.name;
+};
+
+export const removeReplayFixtures = async (name: string): Promise<void> => {
+  if (getReplayFixturesName() === name) {
+    setReplayFixturesName(null);
+  }
+  if (getRecordFixturesName() === name) {
+    setRecordFixturesName(null);
+  }
+
+  await deleteReplayFixtures(name);
+  clearWooCommerceClientCache();
+};
@@ -0,0 +1,174 @@
+import { Order, ShippingCost, ShippingRateRule } from '../../types';
+import {
+  getOrders,
+  getProducts,
+  getProductVariations,
+  getShippingCosts,
+  saveShippingCosts,
+  deleteShippingCost,
+  saveSetting,
+  SHIPPING_RATE_RULES_SETTING
+} from '../../db';
+import {
+  getShippingRateRules,
+  getOrderShippingCharged,
+  getOrderWeight,
+  findShippingRateRule,
+  calculateShippingRate
+} from '../pnl/shipping';
+import { getStoreProfile } from '../../utils/storeProfile';
+
+// A line of a courier invoice, after its columns have been picked out
+export interface CourierInvoiceLine {
+  order_number: string;
+  amount: number;
+  reference?: string;
+}
+
+export interface CourierInvoiceImportResult {
+  imported: number; // Orders given a cost
+  skippedManual: number; // Orders kept at a cost entered by hand
+  unmatched: string[]; // Order numbers not found in synced orders
+}
+
+export interface ShippingEstimateResult {
+  estimated: number;
+  missingWeight: number; // Orders with a product that has no weight
+  noRule: number; // Orders no rate rule covers
+}
+
+// Fetch the recorded shipping costs
+export const fetchShippingCosts = async (): Promise<ShippingCost[]> => {
+  return await getShippingCosts();
+};
+
+// Record what a carrier charged to ship an order, or pass null to remove it
+export const setOrderShippingCost = async (order: Order, amount: number | null): Promise<void> => {
+  if (amount === null) {
+    await deleteShippingCost(order.id);
+    return;
+  }
+
+  await saveShippingCosts([{
+    order_id: order.id,
+    order_number: order.number,
+    amount,
+    source: 'manual',
+    updated_at: new Date()
+  }]);
+};
+
+// Order numbers on invoices are often prefixed, e.g. "#1234"
+const normaliseOrderNumber = (value: string) => value.trim().replace(/^#/, '').toLowerCase();
+
+/**
+ * Import carrier costs from a courier invoice
+ * Lines for the same order are added up, e.g. for orders sent in several
+ * parcels. Imported costs replace estimates and earlier imports; costs entered
+ * by hand are kept.
+ */
+export const importCourierInvoice = async (
+  lines: CourierInvoiceLine[],
+  options: { includesGst: boolean; carrier?: string }
+): Promise<CourierInvoiceImportResult> => {
+  const orders = await getOrders();
+  const existingCosts = new Map((await getShippingCosts()).map(cost => [cost.order_id, cost]));
+  const ordersByNumber = new Map(orders.map(order => [normaliseOrderNumber(order.number), order]));
+  const gstDivisor = options.includesGst ? 1 + getStoreProfile().gstRate / 100 : 1;
+
+  const costs = new Map<number, ShippingCost>();
+  const unmatched = new Set<string>();
+  let skippedManual = 0;
+
+  for (const line of lines) {
+    const order = ordersByNumber.get(normaliseOrderNumber(line.order_number));
+    if (!order) {
+      unmatched.add(line.order_number.trim());
+      continue;
+    }
+
+    if (existingCosts.get(order.id)?.source === 'manual') {
+      skippedManual++;
+      continue;
+    }
+
+    const cost = costs.get(order.id);
+    costs.set(order.id, {
+      order_id: order.id,
+      order_number: order.number,
+      amount: (cost?.amount || 0) + line.amount / gstDivisor,
+      source: 'import',
+      carrier: options.carrier || undefined,
+      reference: [cost?.reference, line.reference].filter(Boolean).join(', ') || undefined,
+      updated_at: new Date()
+    });
+  }
+
+  await saveShippingCosts(Array.from(costs.values()));
+
+  return {
+    imported: costs.size,
+    skippedManual,
+    unmatched: Array.from(unmatched)
+  };
+};
+
+// Fetch the shipping rate rules
+export const fetchShippingRateRules = async (): Promise<ShippingRateRule[]> => {
+  return await getShippingRateRules();
+};
+
+// Save the shipping rate rules
+export const saveShippingRateRules = async (rules: ShippingRateRule[]): Promise<void> => {
+  await saveSetting(SHIPPING_RATE_RULES_SETTING, rules);
+};
+
+/**
+ * Estimate shipping costs from the rate rules by order weight and zone
+ * Only orders without a cost, or with an earlier estimate, are estimated, so
+ * entered and imported costs are kept. Orders without a shipping address or
+ * shipping charge are taken to have not been shipped.
+ */
+export const estimateShippingCosts = async (): Promise<ShippingEstimateResult> => {
+  const rules = await getShippingRateRules();
+  const orders = await getOrders();
+  const existingCosts = new Map((await getShippingCosts()).map(cost => [cost.order_id, cost]));
+  const productMap = new Map((await getProducts()).map(product => [product.id, product]));
+  const variationMap = new Map((await getProductVariations()).map(variation => [variation.id, variation]));
+
+  const estimates: ShippingCost[] = [];
+  const result: ShippingEstimateResult = { estimated: 0, missingWeight: 0, noRule: 0 };
+
+  for (const order of orders) {
+    const existingCost = existingCosts.get(order.id);
+    if (existingCost && existingCost.source !== 'estimate') continue;
+    if (!order.shipping?.country && getOrderShippingCharged(order) === 0) continue;
+
+    const weight = getOrderWeight(order, productMap, variationMap);
+    if (weight === null) {
+      result.missingWeight++;
+      continue;
+    }
+
+    const rule = findShippingRateRule(order, weight, rules);
+    if (!rule) {
+      result.noRule++;
+      continue;
+    }
+
+    estimates.push({
+      order_id: order.id,
+      order_number: order.number,
+      amount: calculateShippingRate(rule, weight),
+      source: 'estimate',
+      carrier: rule.name,
+      weight,
+      updated_at: new Date()
+    });
+  }
+
+  await saveShippingCosts(estimates);
+  result.estimated = estimates.length;
+
+  return result;
+};
@@ -0,0 +1,20 @@
+import { StoreProfile } from '../../types';
+import { getSetting, saveSetting, STORE_PROFILE_SETTING } from '../../db';
+import { DEFAULT_STORE_PROFILE, setStoreProfile } from '../../utils/storeProfile';
+
+// Load the store profile from the database and make it the active profile
+export const fetchStoreProfile = async (): Promise<StoreProfile> => {
+  const saved = await getSetting<Partial<StoreProfile>>(STORE_PROFILE_SETTING);
+  
+  // Fill in fields missing from older saved profiles
+  const profile = { ...DEFAULT_STORE_PROFILE, ...saved };
+  setStoreProfile(profile);
+  
+  return profile;
+};
+
+// Save the store profile to the database and make it the active profile
+export const saveStoreProfile = async (profile: StoreProfile): Promise<void> => {
+  await saveSetting(STORE_PROFILE_SETTING, profile);
+  setStoreProfile(profile);
+};
@@ -0,0 +1,52 @@
+import { Store } from '../../types';
+import {
+  getStores,
+  addStore,
+  renameStore as dbRenameStore,
+  deleteStore as dbDeleteStore,
+  getActiveStoreId,
+  setActiveStoreId
+} from '../../db';
+
+// Fetch all registered stores
+export const fetchStores = async (): Promise<Store[]> => {
+  return await getStores();
+};
+
+// Register a new store with its own empty database
+export const createStore = async (name: string): Promise<number> => {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('Store name is required');
+  }
+  return await addStore(trimmedName);
+};
+
+// Rename a store
+export const renameStore = async (storeId: number, name: string): Promise<void> => {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('Store name is required');
+  }
+  await dbRenameStore(storeId, trimmedName);
+};
+
+// Delete a store and all of its data
+export const deleteStore = async (storeId: number): Promise<void> => {
+  await dbDeleteStore(storeId);
+};
+
+// Get the id of the store the app is working with
+export const getCurrentStoreId = (): number => {
+  return getActiveStoreId();
+};
+
+// Switch to another store
+// The database connection, API client and store profile are all bound to the
+// active store when the app loads, so the page is reloaded to rebind them.
+export const switchStore = (storeId: number): void => {
+  if (storeId === getActiveStoreId()) return;
+  
+  setActiveStoreId(storeId);
+  window.location.reload();
+};
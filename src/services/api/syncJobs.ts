@@ -0,0 +1,199 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { SyncJob, SyncJobRequest } from '../../types';
+import {
+  createSyncJob,
+  updateSyncJob,
+  getSyncJob,
+  getResumableSyncJob,
+  getSyncJobs
+} from '../../db';
+import { UtcRange, getDaysRange, getYearRange, splitRangeByMonth } from '../../utils/dateRange';
+import { getStoreTimezone } from '../../utils/storeProfile';
+import { hasApiCredentials } from './credentials';
+import { syncProducts, syncProductsIncremental } from './products';
+import { syncOrders, syncOrdersIncremental } from './orders';
+import { syncCustomers } from './customers';
+import { syncInventory } from './inventory';
+import { PageCheckpoint, safeUpdateProgress } from './utils';
+
+// One part of a sync job; a job resumes at the step and page it reached
+interface SyncStep {
+  label: string;
+  entity: 'products' | 'customers' | 'orders' | 'inventory'; // Counts stored pages towards this entity
+  run: (checkpoint: PageCheckpoint, progressCallback: (progress: number) => void) => Promise<unknown>;
+}
+
+const getErrorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Sync the orders of each month in a range as its own step
+const getMonthSteps = (range: UtcRange): SyncStep[] => {
+  return splitRangeByMonth(range).map(month => ({
+    label: `Orders ${formatInTimeZone(month.start, getStoreTimezone(), 'MMMM yyyy')}`,
+    entity: 'orders',
+    run: (checkpoint, progressCallback) => syncOrders(month, progressCallback, checkpoint)
+  }));
+};
+
+// Work out the steps of a sync job from what was requested
+const getSyncSteps = (request: SyncJobRequest): SyncStep[] => {
+  const customersStep: SyncStep = {
+    label: 'Customers',
+    entity: 'customers',
+    run: (checkpoint, progressCallback) => syncCustomers(progressCallback, checkpoint)
+  };
+  const inventoryStep: SyncStep = {
+    label: 'Inventory',
+    entity: 'inventory',
+    run: (_checkpoint, progressCallback) => syncInventory(progressCallback)
+  };
+
+  switch (request.type) {
+    case 'all':
+      // Products and orders modified since the last sync, and all customers
+      return [
+        { label: 'Products', entity: 'products', run: (checkpoint, progressCallback) => syncProductsIncremental(progressCallback, checkpoint) },
+        customersStep,
+        { label: 'Orders', entity: 'orders', run: (checkpoint, progressCallback) => syncOrdersIncremental(progressCallback, checkpoint) },
+        inventoryStep
+      ];
+    case 'products':
+      return [
+        { label: 'Products', entity: 'products', run: (checkpoint, progressCallback) => syncProducts(progressCallback, checkpoint) }
+      ];
+    case 'customers':
+      return [customersStep];
+    case 'inventory':
+      return [inventoryStep];
+    case 'year':
+      // Year boundaries are computed in the store timezone
+      return getMonthSteps(getYearRange(request.year || new Date().getFullYear()));
+    case 'custom':
+      // Both days are inclusive and interpreted in the store timezone
+      return getMonthSteps(getDaysRange(request.startDay!, request.endDay!));
+  }
+};
+
+/**
+ * Run a sync job from its checkpoint to the end
+ * The checkpoint, counts and retries are saved after every stored page, so a
+ * job interrupted by a reload or an error can be resumed where it stopped.
+ */
+const runSyncJob = async (job: SyncJob, progressCallback?: (progress: number) => void): Promise<SyncJob> => {
+  const id = job.id!;
+  const steps = getSyncSteps(job.request);
+  const sessionStart = Date.now();
+  const counts = { ...job.counts };
+  let retries = job.retries;
+  let { step, page } = job.checkpoint;
+
+  const getDuration = () => job.duration_ms + (Date.now() - sessionStart);
+
+  // Inventory is built from stored products, so only the other steps need the API
+  if (job.request.type !== 'inventory' && !await hasApiCredentials()) {
+    throw new Error('API credentials not set');
+  }
+
+  await updateSyncJob(id, { status: 'running' });
+
+  try {
+    for (; step < steps.length; step++) {
+      const currentStep = steps[step];
+      console.log(`Sync job ${id}: ${currentStep.label}${page > 0 ? `, resuming after page ${page}` : ''}`);
+
+      const checkpoint: PageCheckpoint = {
+        startPage: page + 1,
+        onPageStored: async (storedPage, totalPages, recordCount) => {
+          counts[currentStep.entity] = (counts[currentStep.entity] || 0) + recordCount;
+          await updateSyncJob(id, {
+            checkpoint: { step, page: storedPage, totalPages },
+            counts,
+            retries,
+            duration_ms: getDuration()
+          });
+        },
+        onRetry: () => {
+          retries++;
+        }
+      };
+
+      const result = await currentStep.run(checkpoint, (progress) => {
+        safeUpdateProgress(progressCallback, ((step + progress / 100) / steps.length) * 100);
+      });
+
+      // Steps without pages report their records when they finish
+      if (currentStep.entity === 'inventory' && Array.isArray(result)) {
+        counts.inventory = result.length;
+      }
+
+      page = 0;
+      await updateSyncJob(id, {
+        checkpoint: { step: step + 1, page: 0 },
+        counts,
+        retries,
+        duration_ms: getDuration()
+      });
+    }
+
+    const finished: Partial<SyncJob> = {
+      status: 'completed',
+      counts,
+      retries,
+      finished_at: new Date(),
+      duration_ms: getDuration()
+    };
+    await updateSyncJob(id, finished);
+
+    safeUpdateProgress(progressCallback, 100);
+
+    return { ...job, ...finished };
+  } catch (error) {
+    console.error(`Sync job ${id} failed:`, error);
+
+    const label = steps[step] ? `${steps[step].label}: ` : '';
+    await updateSyncJob(id, {
+      status: 'failed',
+      counts,
+      retries,
+      errors: [...job.errors, `${label}${getErrorMessage(error)}`],
+      finished_at: new Date(),
+      duration_ms: getDuration()
+    });
+
+    throw error;
+  }
+};
+
+// Start a new sync job; any unfinished job is cancelled
+export const startSyncJob = async (
+  request: SyncJobRequest,
+  progressCallback?: (progress: number) => void
+): Promise<SyncJob> => {
+  const job = await createSyncJob(request);
+  return await runSyncJob(job, progressCallback);
+};
+
+// Carry on with an interrupted or failed sync job from its checkpoint
+export const resumeSyncJob = async (
+  id: number,
+  progressCallback?: (progress: number) => void
+): Promise<SyncJob> => {
+  const job = await getSyncJob(id);
+  if (!job) {
+    throw new Error(`Sync job ${id} not found`);
+  }
+  if (job.status === 'completed' || job.status === 'cancelled') {
+    throw new Error(`Sync job ${id} is ${job.status} and cannot be resumed`);
+  }
+
+  return await runSyncJob(job, progressCallback);
+};
+
+// Fetch the sync job that stopped before finishing, if any
+export const fetchResumableSyncJob = async (): Promise<SyncJob | null> => {
+  return await getResumableSyncJob();
+};
+
+// Fetch recent sync runs, newest first
+export const fetchSyncHistory = async (): Promise<SyncJob[]> => {
+  return await getSyncJobs();
+};
@@ -1,6 +1,10 @@
 /**
  * Utility functions for API services
  */
+import axios, { AxiosInstance } from 'axios';
+import { getTimezoneOffset, toZonedTime } from 'date-fns-tz';
+import { getTimeZoneAbbreviation } from '../../utils/dateUtils';
+import { getStoreProfile, getStoreTimezone } from '../../utils/storeProfile';
 
 /**
  * Safely update progress without causing Symbol cloning errors
@@ -44,37 +48,15 @@ export const isOlderThanOneDay = (date: Date): boolean => {
 };
 
 /**
- * Format date to NZ format (dd/MM/yyyy)
+ * Format a calendar date (dd/MM/yyyy or the store locale's equivalent)
+ * Uses the date's local fields, as expense and revenue dates are stored as local midnight
  */
-export const formatNZDate = (date: Date): string => {
-  const day = date.getDate().toString().padStart(2, '0');
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const year = date.getFullYear();
-  return `${day}/${month}/${year}`;
-};
-
-/**
- * Format date to ISO string with NZ timezone offset
- */
-export const formatDateForAPI = (date: Date): string => {
-  // New Zealand is UTC+12 or UTC+13 during daylight saving
-  // For December (month 11), we need to be extra careful with timezone handling
-  if (date.getMonth() === 11) {
-    // For December, ensure we're using the correct timezone offset
-    // Clone the date to avoid modifying the original
-    const adjustedDate = new Date(date);
-    
-    // If it's the end of December, add an extra hour to ensure we capture all orders
-    if (date.getDate() >= 28) {
-      adjustedDate.setHours(adjustedDate.getHours() + 1);
-      console.log(`End of December detected - Adding extra hour buffer: ${date.toISOString()} -> ${adjustedDate.toISOString()}`);
-    }
-    
-    return adjustedDate.toISOString();
-  }
-  
-  // For other months, use the standard ISO string
-  return date.toISOString();
+export const formatDisplayDate = (date: Date): string => {
+  return new Intl.DateTimeFormat(getStoreProfile().locale, {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric'
+  }).format(date);
 };
 
 /**
@@ -90,37 +72,25 @@ export const chunkArray = <T>(array: T[], chunkSize: number): T[][] => {
 };
 
 /**
- * Get NZ timezone string
+ * Get the store timezone abbreviation (e.g. NZDT or AEST)
  */
-export const getNZTimezone = (): string => {
-  // Determine if NZ is currently in daylight saving time
-  const now = new Date();
-  const jan = new Date(now.getFullYear(), 0, 1);
-  const jul = new Date(now.getFullYear(), 6, 1);
-  
-  // NZ DST typically runs from late September to early April
-  // This is a simplified check - for production, use a proper timezone library
-  const isDST = now.getMonth() > 8 || now.getMonth() < 4;
-  
-  return isDST ? 'NZDT' : 'NZST';
+export const getStoreTimezoneName = (date: Date = new Date()): string => {
+  return getTimeZoneAbbreviation(date, getStoreTimezone());
 };
 
 /**
- * Get NZ timezone offset in hours
+ * Get the store timezone offset from UTC in hours
  */
-export const getNZTimezoneOffset = (): number => {
-  // NZ is UTC+12, or UTC+13 during daylight saving
-  const isDST = getNZTimezone() === 'NZDT';
-  return isDST ? 13 : 12;
+export const getStoreTimezoneOffset = (date: Date = new Date()): number => {
+  return getTimezoneOffset(getStoreTimezone(), date) / 3600000;
 };
 
 /**
- * Convert a date to NZ timezone
+ * Convert a date to the store timezone
+ * The result's local fields show the store's wall-clock time of the instant
  */
-export const convertToNZTimezone = (date: Date): Date => {
-  const nzOffset = getNZTimezoneOffset();
-  const utcDate = new Date(date.getTime() + date.getTimezoneOffset() * 60000);
-  return new Date(utcDate.getTime() + nzOffset * 3600000);
+export const convertToStoreTimezone = (date: Date): Date => {
+  return toZonedTime(date, getStoreTimezone());
 };
 
 /**
@@ -157,4 +127,133 @@ export const processBatches = async <T, R>(
   }
   
   return results;
-};
\ No newline at end of file
+};
+
+// Number of attempts sync requests get before the sync stops
+export const SYNC_MAX_ATTEMPTS = 5;
+
+// Lets a paged fetch resume after the last stored page and report each page it stores
+export interface PageCheckpoint {
+  startPage: number;
+  onPageStored: (page: number, totalPages: number, recordCount: number) => Promise<void>;
+  onRetry?: (error: unknown, delayMs: number) => void;
+}
+
+/**
+ * Fetch a WooCommerce collection page by page, storing each page before the next
+ * A page that still fails after retries stops the fetch rather than being
+ * skipped. With a checkpoint, fetching starts at its page and every stored page
+ * is reported, so an interrupted sync can carry on from there.
+ * @param storePage Stores a page of records and returns how many were stored
+ */
+export const fetchPagesInto = async <T,>(
+  client: AxiosInstance,
+  endpoint: string,
+  params: Record<string, unknown>,
+  storePage: (records: T[], page: number) => Promise<number>,
+  checkpoint?: PageCheckpoint,
+  progressCallback?: (progress: number) => void
+): Promise<void> => {
+  const perPage = 100; // Maximum allowed by WooCommerce API
+  let page = checkpoint?.startPage || 1;
+  let totalPages = page;
+  
+  do {
+    const response = await withRetry(
+      () => client.get(endpoint, { params: { ...params, per_page: perPage, page } }),
+      SYNC_MAX_ATTEMPTS,
+      1000,
+      checkpoint?.onRetry
+    );
+    totalPages = parseInt(response.headers['x-wp-totalpages'] || '1', 10);
+    
+    const storedCount = await storePage(response.data as T[], page);
+    await checkpoint?.onPageStored(page, totalPages, storedCount);
+    safeUpdateProgress(progressCallback, Math.round((Math.min(page, totalPages) / Math.max(totalPages, 1)) * 100));
+    
+    page++;
+    if (page <= totalPages) {
+      // Small delay to avoid rate limiting
+      await new Promise(resolve => setTimeout(resolve, 300));
+    }
+  } while (page <= totalPages);
+};
+
+/**
+ * Format a date as a WooCommerce GMT timestamp (yyyy-MM-ddTHH:mm:ss)
+ */
+export const formatSyncCursor = (date: Date): string => {
+  return date.toISOString().slice(0, 19);
+};
+
+/**
+ * Get the latest date_modified_gmt from a list of API records
+ * Returns the fallback cursor when no record carries a modification date
+ */
+export const getLatestModifiedCursor = (
+  records: Array<{ date_modified_gmt?: string }>,
+  fallback: string | null
+): string | null => {
+  return records.reduce<string | null>((latest, record) => {
+    const modified = record.date_modified_gmt;
+    if (!modified) return latest;
+    return !latest || modified > latest ? modified : latest;
+  }, fallback);
+};
+
+/**
+ * Get the modified_after value to request for a stored cursor
+ * The window is widened by a minute so records saved in the same second as the
+ * previous high-water mark are not missed. Re-fetched records are upserted, so
+ * the overlap is harmless.
+ */
+export const getModifiedAfter = (cursor: string): string => {
+  const cursorDate = new Date(`${cursor}Z`);
+  return formatSyncCursor(new Date(cursorDate.getTime() - 60 * 1000));
+};
+
+// Maximum wait a Retry-After header can ask for
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+// Get how long the server asked us to wait, from a Retry-After header in seconds or as a date
+const getRetryAfterMs = (error: unknown): number | null => {
+  if (!axios.isAxiosError(error)) return null;
+  
+  const retryAfter = error.response?.headers?.['retry-after'];
+  if (!retryAfter) return null;
+  
+  const seconds = Number(retryAfter);
+  const delay = isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000;
+  return isNaN(delay) ? null : Math.min(Math.max(delay, 0), MAX_RETRY_AFTER_MS);
+};
+
+/**
+ * Retry a request that failed for a temporary reason
+ * Network errors, rate limiting (429) and server errors (5xx) are retried with
+ * an exponential backoff, or after the wait the server asks for in Retry-After;
+ * anything else is thrown straight away.
+ */
+export const withRetry = async <T,>(
+  request: () => Promise<T>,
+  maxAttempts: number = 3,
+  baseDelayMs: number = 1000,
+  onRetry?: (error: unknown, delayMs: number) => void
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      const isTemporary = axios.isAxiosError(error) && (!status || status === 429 || status >= 500);
+      
+      if (!isTemporary || attempt >= maxAttempts) {
+        throw error;
+      }
+      
+      const delay = getRetryAfterMs(error) ?? baseDelayMs * 2 ** (attempt - 1);
+      console.warn(`Request failed (attempt ${attempt} of ${maxAttempts}), retrying in ${delay}ms`);
+      onRetry?.(error, delay);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+};
@@ -0,0 +1,183 @@
+import { CredentialVault } from '../../types';
+import {
+  getSetting,
+  saveSetting,
+  getApiCredentials as dbGetApiCredentials,
+  saveCredentialVault,
+  clearCredentialVault,
+  CREDENTIAL_VAULT_SETTING
+} from '../../db';
+import { decryptWithKey, deriveKey, encryptWithKey, fromBase64, randomBytes, toBase64, PBKDF2_ITERATIONS } from '../../utils/crypto';
+
+/**
+ * Passphrase protection for the active store's API credentials
+ *
+ * The key derived from the passphrase is only held in memory while the vault
+ * is unlocked; it is forgotten on lock, on reload, and after the auto-lock
+ * timeout passes without any activity in the page.
+ */
+const VAULT_CHECK_VALUE = 'woocommerce-pnl-vault';
+const SALT_BYTES = 16;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+let vaultKey: CryptoKey | null = null;
+let vaultSettings: CredentialVault | null = null;
+let lastActivity = Date.now();
+const listeners = new Set<() => void>();
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener());
+};
+
+// Listen for the vault being locked, unlocked or set up; returns a function that stops listening
+export const onVaultChange = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const fetchCredentialVault = async (): Promise<CredentialVault | null> => {
+  return await getSetting<CredentialVault>(CREDENTIAL_VAULT_SETTING);
+};
+
+// Check whether a passphrase has been set for the active store
+export const isVaultConfigured = async (): Promise<boolean> => {
+  return !!await fetchCredentialVault();
+};
+
+export const isVaultUnlocked = (): boolean => {
+  return vaultKey !== null;
+};
+
+// Get the key to encrypt and decrypt credentials with, or null while locked or without a passphrase
+export const getVaultKey = (): CryptoKey | null => {
+  return vaultKey;
+};
+
+// Derive the key for a vault from a passphrase, failing if the passphrase is wrong
+const unlockKey = async (vault: CredentialVault, passphrase: string): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+  try {
+    await decryptWithKey(vault.check, key);
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+  return key;
+};
+
+// Create a vault with a new salt for a passphrase
+const createVault = async (passphrase: string, autoLockMinutes: number): Promise<{ vault: CredentialVault; key: CryptoKey }> => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(passphrase, salt);
+  return {
+    vault: {
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await encryptWithKey(VAULT_CHECK_VALUE, key),
+      auto_lock_minutes: autoLockMinutes
+    },
+    key
+  };
+};
+
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const vault = await fetchCredentialVault();
+  if (!vault) {
+    throw new Error('No passphrase has been set');
+  }
+
+  vaultKey = await unlockKey(vault, passphrase);
+  vaultSettings = vault;
+  lastActivity = Date.now();
+  notifyListeners();
+};
+
+export const lockVault = (): void => {
+  if (!vaultKey) return;
+
+  vaultKey = null;
+  notifyListeners();
+};
+
+/**
+ * Set a passphrase for the first time
+ * Credentials saved so far are re-encrypted with the key derived from it.
+ */
+export const setVaultPassphrase = async (passphrase: string): Promise<void> => {
+  if (await isVaultConfigured()) {
+    throw new Error('A passphrase is already set; change it instead');
+  }
+
+  const credentials = await dbGetApiCredentials();
+  const { vault, key } = await createVault(passphrase, DEFAULT_AUTO_LOCK_MINUTES);
+  await saveCredentialVault(vault, credentials, key);
+
+  vaultKey = key;
+  vaultSettings = vault;
+  lastActivity = Date.now();
+  notifyListeners();
+};
+
+/**
+ * Change the passphrase, re-encrypting the credentials with a key derived from the new one
+ */
+export const changeVaultPassphrase = async (currentPassphrase: string, newPassphrase: string): Promise<void> => {
+  const currentVault = await fetchCredentialVault();
+  if (!currentVault) {
+    throw new Error('No passphrase has been set');
+  }
+
+  const currentKey = await unlockKey(currentVault, currentPassphrase);
+  const credentials = await dbGetApiCredentials(currentKey);
+  const { vault, key } = await createVault(newPassphrase, currentVault.auto_lock_minutes);
+  await saveCredentialVault(vault, credentials, key);
+
+  vaultKey = key;
+  vaultSettings = vault;
+  lastActivity = Date.now();
+  notifyListeners();
+};
+
+// Remove the passphrase and the credentials it protects; they have to be entered again
+export const resetVault = async (): Promise<void> => {
+  await clearCredentialVault();
+
+  vaultKey = null;
+  vaultSettings = null;
+  notifyListeners();
+};
+
+export const saveAutoLockMinutes = async (minutes: number): Promise<void> => {
+  const vault = await fetchCredentialVault();
+  if (!vault) {
+    throw new Error('No passphrase has been set');
+  }
+
+  vaultSettings = { ...vault, auto_lock_minutes: minutes };
+  await saveSetting(CREDENTIAL_VAULT_SETTING, vaultSettings);
+};
+
+/**
+ * Lock the vault once the page has been idle for the auto-lock timeout
+ * Returns a function that stops watching.
+ */
+export const startAutoLock = (): (() => void) => {
+  const recordActivity = () => {
+    lastActivity = Date.now();
+  };
+  const activityEvents = ['mousedown', 'keydown', 'touchstart', 'scroll'];
+  activityEvents.forEach(event => window.addEventListener(event, recordActivity, { passive: true }));
+
+  const timer = window.setInterval(() => {
+    const minutes = vaultSettings?.auto_lock_minutes || 0;
+    if (vaultKey && minutes > 0 && Date.now() - lastActivity > minutes * 60 * 1000) {
+      lockVault();
+    }
+  }, 15 * 1000);
+
+  return () => {
+    activityEvents.forEach(event => window.removeEventListener(event, recordActivity));
+    window.clearInterval(timer);
+  };
+};
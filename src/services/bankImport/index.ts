@@ -0,0 +1,78 @@
+import { BankRule, BankTransaction, BankTransactionDirection } from '../../types';
+import { getSetting, BANK_RULES_SETTING } from '../../db';
+import { normalisePayee } from '../../utils/bankStatement';
+
+// How a rule categorises the transactions it matches
+export type BankRuleOutcome = Pick<BankRule, 'category' | 'tags' | 'tax_deductible'>;
+
+// Get the bank categorisation rules of the active store, in the order they are tried
+export const getBankRules = async (): Promise<BankRule[]> => {
+  return await getSetting<BankRule[]>(BANK_RULES_SETTING) || [];
+};
+
+export const getTransactionDirection = (transaction: Pick<BankTransaction, 'amount'>): BankTransactionDirection => {
+  return transaction.amount < 0 ? 'debit' : 'credit';
+};
+
+// An invalid pattern matches nothing rather than failing the import
+const matchesPattern = (pattern: string, text: string): boolean => {
+  try {
+    return new RegExp(pattern, 'i').test(text);
+  } catch {
+    return false;
+  }
+};
+
+export const matchesBankRule = (rule: BankRule, transaction: BankTransaction): boolean => {
+  if (rule.direction !== getTransactionDirection(transaction)) return false;
+
+  const text = [transaction.payee, transaction.memo].filter(Boolean).join(' ');
+  const amount = Math.abs(transaction.amount);
+
+  switch (rule.match_type) {
+    case 'contains':
+      return !!rule.pattern.trim() && normalisePayee(text).includes(normalisePayee(rule.pattern));
+    case 'amount_range':
+      return amount >= (rule.min_amount ?? 0) && (rule.max_amount === undefined || amount <= rule.max_amount);
+    case 'regex':
+      return !!rule.pattern && matchesPattern(rule.pattern, text);
+  }
+};
+
+// Get the first rule that matches a transaction
+export const findBankRule = (rules: BankRule[], transaction: BankTransaction): BankRule | undefined => {
+  return rules.find(rule => matchesBankRule(rule, transaction));
+};
+
+/**
+ * Learn a rule from a transaction recategorised by hand
+ * Payees recategorised before have their learned rule updated. New learned
+ * rules go before the other rules, so they win over the rule that chose the
+ * category the user changed.
+ */
+export const learnBankRule = (
+  rules: BankRule[],
+  payee: string,
+  direction: BankTransactionDirection,
+  outcome: BankRuleOutcome
+): BankRule[] => {
+  const pattern = normalisePayee(payee);
+  if (!pattern) return rules;
+
+  const existing = rules.find(rule =>
+    rule.learned && rule.match_type === 'contains' && rule.direction === direction && rule.pattern === pattern
+  );
+  if (existing) {
+    return rules.map(rule => rule === existing ? { ...rule, ...outcome } : rule);
+  }
+
+  return [{
+    id: Math.max(Date.now(), ...rules.map(rule => rule.id + 1)),
+    name: `Learned: ${payee.trim()}`,
+    direction,
+    match_type: 'contains',
+    pattern,
+    ...outcome,
+    learned: true
+  }, ...rules];
+};
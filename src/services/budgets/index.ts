@@ -0,0 +1,288 @@
+import { format } from 'date-fns';
+import { AdditionalRevenueCategory, Budget, BudgetCategoryType, BudgetLine, DateRange, ExpenseCategory } from '../../types';
+import { getExpensesInEffect, getExpenseCategories } from '../../db/operations/expenses';
+import { getAdditionalRevenue, getAdditionalRevenueCategories } from '../../db/operations/additionalRevenue';
+import { getActiveBudget } from '../../db/operations/budgets';
+import { getStoreProfile } from '../../utils/storeProfile';
+import {
+  countDays,
+  getDayInZone,
+  getDaysRange,
+  getFiscalYearStartYear,
+  getMonthRange,
+  shiftDay,
+  toDateRange,
+  UtcRange
+} from '../../utils/dateRange';
+import { calculateExpenses } from '../pnl/expenseCalculations';
+import { applyAdditionalRevenueTax, applyExpenseTax, getAdditionalRevenueNetAmount, getExpenseNetAmount } from '../pnl/tax';
+
+export type BudgetPeriodType = 'month' | 'quarter' | 'year';
+
+// A month, quarter or the whole of a fiscal year
+export interface BudgetPeriod {
+  fiscalYear: number;
+  type: BudgetPeriodType;
+  index: number; // Fiscal month 0-11 or fiscal quarter 0-3; 0 for the year
+}
+
+export interface BudgetComparisonRow {
+  categoryType: BudgetCategoryType;
+  category: string;
+  budget: number;
+  actual: number; // To date, excluding GST
+  variance: number; // Positive when better than budget: spent less, or earned more
+  variancePercent: number | null; // Of the budget; null without a budget
+  usedPercent: number | null; // Actual as a percentage of the budget
+  forecast: number; // Expected by the end of the period
+  forecastVariance: number;
+}
+
+export interface BudgetComparison {
+  period: BudgetPeriod;
+  label: string;
+  range: UtcRange;
+  budget?: Budget; // Not set when category monthly budgets are used
+  elapsedDays: number;
+  totalDays: number;
+  expenses: BudgetComparisonRow[];
+  revenue: BudgetComparisonRow[];
+}
+
+export interface BudgetAlerts extends BudgetComparison {
+  alerts: BudgetComparisonRow[]; // Expense categories at or over the threshold
+}
+
+export const DEFAULT_BUDGET_ALERT_THRESHOLD = 90;
+
+// Get the calendar year and month (0-11) of a fiscal year's month
+const getCalendarMonth = (fiscalYear: number, fiscalMonth: number): { year: number; month: number } => {
+  const month = getStoreProfile().fiscalYearStartMonth - 1 + fiscalMonth;
+  return { year: fiscalYear + Math.floor(month / 12), month: month % 12 };
+};
+
+export const getFiscalMonthLabel = (fiscalYear: number, fiscalMonth: number): string => {
+  const { year, month } = getCalendarMonth(fiscalYear, fiscalMonth);
+  return format(new Date(year, month, 1), 'MMM yyyy');
+};
+
+// Name a fiscal year after the calendar years it spans, e.g. FY 2024/25
+export const getFiscalYearLabel = (fiscalYear: number): string => {
+  return getStoreProfile().fiscalYearStartMonth === 1
+    ? `FY ${fiscalYear}`
+    : `FY ${fiscalYear}/${String(fiscalYear + 1).slice(-2)}`;
+};
+
+// The fiscal months (0-11) a period covers
+export const getBudgetPeriodMonths = (period: BudgetPeriod): number[] => {
+  switch (period.type) {
+    case 'month':
+      return [period.index];
+    case 'quarter':
+      return [0, 1, 2].map(month => period.index * 3 + month);
+    case 'year':
+      return Array.from({ length: 12 }, (_, month) => month);
+  }
+};
+
+export const getBudgetPeriodLabel = (period: BudgetPeriod): string => {
+  switch (period.type) {
+    case 'month':
+      return getFiscalMonthLabel(period.fiscalYear, period.index);
+    case 'quarter':
+      return `Q${period.index + 1} ${getFiscalYearLabel(period.fiscalYear)}`;
+    case 'year':
+      return getFiscalYearLabel(period.fiscalYear);
+  }
+};
+
+export const getBudgetPeriodRange = (period: BudgetPeriod): UtcRange => {
+  const months = getBudgetPeriodMonths(period);
+  const first = getCalendarMonth(period.fiscalYear, months[0]);
+  const last = getCalendarMonth(period.fiscalYear, months[months.length - 1]);
+
+  return {
+    start: getMonthRange(first.year, first.month).start,
+    end: getMonthRange(last.year, last.month).end
+  };
+};
+
+// Get the period of a type that contains an instant
+export const getBudgetPeriodForDate = (type: BudgetPeriodType, date: Date = new Date()): BudgetPeriod => {
+  const fiscalYear = getFiscalYearStartYear(date);
+  const [year, month] = getDayInZone(date).split('-').map(Number);
+  const fiscalMonth = ((year - fiscalYear) * 12 + month - getStoreProfile().fiscalYearStartMonth + 12) % 12;
+
+  return {
+    fiscalYear,
+    type,
+    index: type === 'month' ? fiscalMonth : type === 'quarter' ? Math.floor(fiscalMonth / 3) : 0
+  };
+};
+
+/**
+ * Get budget lines from the monthly budgets set on categories
+ * Used for fiscal years without a budget version, and to start a first version.
+ */
+export const getCategoryBudgetLines = (
+  expenseCategories: ExpenseCategory[],
+  revenueCategories: AdditionalRevenueCategory[]
+): BudgetLine[] => {
+  const toLine = (categoryType: BudgetCategoryType, category: ExpenseCategory | AdditionalRevenueCategory): BudgetLine => ({
+    category_type: categoryType,
+    category: category.name,
+    months: Array(12).fill(category.budget_monthly || 0)
+  });
+
+  return [
+    ...expenseCategories.map(category => toLine('expense', category)),
+    ...revenueCategories.map(category => toLine('revenue', category))
+  ];
+};
+
+// Amounts per category name over a date range, excluding GST
+interface CategoryActuals {
+  expenses: Record<string, number>;
+  oneTimeExpenses: Record<string, number>;
+  recurringExpenses: Record<string, number>;
+  revenue: Record<string, number>;
+}
+
+const NO_ACTUALS: CategoryActuals = { expenses: {}, oneTimeExpenses: {}, recurringExpenses: {}, revenue: {} };
+
+const getActualsByCategory = async (dateRange: DateRange, expenseCategories: ExpenseCategory[]): Promise<CategoryActuals> => {
+  const gstRate = getStoreProfile().gstRate;
+  const expenses = applyExpenseTax(
+    await getExpensesInEffect(dateRange.startDate, dateRange.endDate),
+    expenseCategories,
+    gstRate
+  ).map(expense => ({ ...expense, amount: getExpenseNetAmount(expense) }));
+  const revenue = applyAdditionalRevenueTax(await getAdditionalRevenue(dateRange.startDate, dateRange.endDate), gstRate);
+
+  const revenueByCategory: Record<string, number> = {};
+  revenue.forEach(entry => {
+    revenueByCategory[entry.category] = (revenueByCategory[entry.category] || 0) + getAdditionalRevenueNetAmount(entry);
+  });
+
+  return {
+    expenses: calculateExpenses(expenses, dateRange).expensesByCategory,
+    oneTimeExpenses: calculateExpenses(expenses.filter(expense => !expense.period), dateRange).expensesByCategory,
+    recurringExpenses: calculateExpenses(expenses.filter(expense => expense.period), dateRange).expensesByCategory,
+    revenue: revenueByCategory
+  };
+};
+
+const toComparisonRow = (
+  categoryType: BudgetCategoryType,
+  category: string,
+  budget: number,
+  actual: number,
+  forecast: number
+): BudgetComparisonRow => {
+  const sign = categoryType === 'expense' ? -1 : 1;
+  const variance = sign * (actual - budget);
+
+  return {
+    categoryType,
+    category,
+    budget,
+    actual,
+    variance,
+    variancePercent: budget > 0 ? variance / budget * 100 : null,
+    usedPercent: budget > 0 ? actual / budget * 100 : null,
+    forecast,
+    forecastVariance: sign * (forecast - budget)
+  };
+};
+
+/**
+ * Compare actual expenses and additional revenue per category with the budget for a period
+ * Actuals run to today. The forecast adds what recurring expenses will cost for
+ * the rest of the period, and carries on the daily rate of other expenses and
+ * of revenue so far. Without a budget version for the fiscal year, the monthly
+ * budgets set on categories are used.
+ */
+export const calculateBudgetComparison = async (
+  period: BudgetPeriod,
+  budget?: Budget,
+  now: Date = new Date()
+): Promise<BudgetComparison> => {
+  const [expenseCategories, revenueCategories] = await Promise.all([getExpenseCategories(), getAdditionalRevenueCategories()]);
+  const activeBudget = budget || await getActiveBudget(period.fiscalYear);
+  const lines = activeBudget ? activeBudget.lines : getCategoryBudgetLines(expenseCategories, revenueCategories);
+
+  // Split the period at today into the days so far and the days still to come
+  const range = getBudgetPeriodRange(period);
+  const firstDay = getDayInZone(range.start);
+  const lastDay = getDayInZone(new Date(range.end.getTime() - 1));
+  const today = getDayInZone(now);
+  const elapsedEnd = today < lastDay ? today : lastDay;
+  const remainingStart = today < firstDay ? firstDay : shiftDay(today, 1);
+
+  const totalDays = countDays(firstDay, lastDay);
+  const elapsedDays = elapsedEnd >= firstDay ? countDays(firstDay, elapsedEnd) : 0;
+  const remainingDays = totalDays - elapsedDays;
+
+  const [elapsed, remaining] = await Promise.all([
+    elapsedDays > 0 ? getActualsByCategory(toDateRange(getDaysRange(firstDay, elapsedEnd)), expenseCategories) : NO_ACTUALS,
+    remainingDays > 0 ? getActualsByCategory(toDateRange(getDaysRange(remainingStart, lastDay)), expenseCategories) : NO_ACTUALS
+  ]);
+
+  const months = getBudgetPeriodMonths(period);
+  const getBudgetAmount = (categoryType: BudgetCategoryType, category: string) => {
+    const line = lines.find(entry => entry.category_type === categoryType && entry.category === category);
+    return line ? months.reduce((sum, month) => sum + (line.months[month] || 0), 0) : 0;
+  };
+
+  // Every category with a budget or actuals, in the order categories are listed
+  const getCategories = (categoryType: BudgetCategoryType, names: string[], actuals: Record<string, number>) => {
+    const budgeted = lines.filter(line => line.category_type === categoryType).map(line => line.category);
+    return Array.from(new Set([...names, ...budgeted, ...Object.keys(actuals)]))
+      .filter(category => getBudgetAmount(categoryType, category) !== 0 || actuals[category]);
+  };
+
+  const runRate = (amount: number) => elapsedDays > 0 ? amount / elapsedDays * remainingDays : 0;
+
+  const expenses = getCategories('expense', expenseCategories.map(category => category.name), elapsed.expenses)
+    .map(category => {
+      const actual = elapsed.expenses[category] || 0;
+      const forecast = actual
+        + (remaining.recurringExpenses[category] || 0)
+        + runRate(elapsed.oneTimeExpenses[category] || 0);
+      return toComparisonRow('expense', category, getBudgetAmount('expense', category), actual, forecast);
+    });
+
+  const revenue = getCategories('revenue', revenueCategories.map(category => category.name), elapsed.revenue)
+    .map(category => {
+      const actual = elapsed.revenue[category] || 0;
+      return toComparisonRow('revenue', category, getBudgetAmount('revenue', category), actual, actual + runRate(actual));
+    });
+
+  return {
+    period,
+    label: getBudgetPeriodLabel(period),
+    range,
+    budget: activeBudget,
+    elapsedDays,
+    totalDays,
+    expenses,
+    revenue
+  };
+};
+
+// Add up comparison rows into a total row
+export const getBudgetComparisonTotal = (rows: BudgetComparisonRow[], categoryType: BudgetCategoryType): BudgetComparisonRow => {
+  const total = (field: 'budget' | 'actual' | 'forecast') => rows.reduce((sum, row) => sum + row[field], 0);
+  return toComparisonRow(categoryType, 'Total', total('budget'), total('actual'), total('forecast'));
+};
+
+/**
+ * Get the expense categories that have used at least a share of this month's budget
+ * threshold is a percentage of the budget, e.g. 90.
+ */
+export const getBudgetAlerts = async (threshold: number, now: Date = new Date()): Promise<BudgetAlerts> => {
+  const comparison = await calculateBudgetComparison(getBudgetPeriodForDate('month', now), undefined, now);
+  const alerts = comparison.expenses.filter(row => row.usedPercent !== null && row.usedPercent >= threshold);
+
+  return { ...comparison, alerts };
+};
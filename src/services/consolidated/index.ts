@@ -0,0 +1,108 @@
+import { AdditionalRevenue, DateRange, Expense, GstSummary, Order, Product, PurchaseOrder, ReportingBasis, Store } from '../../types';
+import { getStoreDataSnapshot } from '../../db';
+import { fetchStorePnL, fetchStores } from '../api';
+import { getOrderRecognisedCost, getReportingBasis } from '../pnl/basis';
+import { getOrderRevenue } from '../pnl/tax';
+import { getDayInZone, getDaysRange, toDateRange } from '../../utils/dateRange';
+import { DEFAULT_STORE_PROFILE, getStoreProfile } from '../../utils/storeProfile';
+
+export interface StorePnL {
+  store: Store;
+  currency: string;
+  orderRevenue: number;
+  additionalRevenue: number;
+  cost: number;
+  grossProfit: number;
+  expenses: number;
+  netProfit: number;
+  orderCount: number;
+  gst: GstSummary;
+}
+
+export interface ConsolidatedData {
+  stores: StorePnL[];
+  orders: Order[];
+  products: Product[];
+  expenses: Expense[];
+  additionalRevenue: AdditionalRevenue[];
+  purchaseOrders: PurchaseOrder[];
+  expensesByCategory: Record<string, number>;
+  basis: ReportingBasis;
+  // True when stores use different currencies, so the totals mix units
+  mixedCurrencies: boolean;
+}
+
+/**
+ * Load and combine P&L data from every registered store
+ * Each store's P&L is calculated in its own worker, as on that store's
+ * Dashboard, then the results are concatenated. The range's calendar days are
+ * read in each store's own timezone. Orders are tagged with their store id.
+ * Every store is reported on the same basis, the active store's unless one is
+ * given.
+ */
+export const loadConsolidatedData = async (dateRange: DateRange, reportingBasis?: ReportingBasis): Promise<ConsolidatedData> => {
+  const stores = await fetchStores();
+  const basis = reportingBasis || await getReportingBasis();
+
+  const result: ConsolidatedData = {
+    stores: [],
+    orders: [],
+    products: [],
+    expenses: [],
+    additionalRevenue: [],
+    purchaseOrders: [],
+    expensesByCategory: {},
+    basis,
+    mixedCurrencies: false
+  };
+
+  // The calendar days picked, in the active store's timezone
+  const startDay = getDayInZone(dateRange.startDate);
+  const endDay = getDayInZone(dateRange.endDate);
+
+  for (const store of stores) {
+    const storeId = store.id!;
+    const snapshot = await getStoreDataSnapshot(storeId);
+    const currency = snapshot.profile?.currency || DEFAULT_STORE_PROFILE.currency;
+    const timeZone = snapshot.profile?.timezone || DEFAULT_STORE_PROFILE.timezone;
+
+    // Only the orders recognised in the range come back, with the store's own overheads, fees and costs
+    const storeRange = toDateRange(getDaysRange(startDay, endDay, timeZone));
+    const pnl = await fetchStorePnL(storeRange, { basis }, storeId);
+
+    const orders = pnl.orders.map(order => ({ ...order, store_id: storeId }));
+
+    const orderRevenue = orders.reduce((sum, order) => sum + getOrderRevenue(order), 0);
+    // On the cash basis stock is a cost when it is paid for, not when it sells
+    const cost = orders.reduce((sum, order) => sum + getOrderRecognisedCost(order, basis), 0)
+      + (basis === 'cash' ? pnl.summary.totalPurchases : 0);
+    const grossProfit = orderRevenue + pnl.summary.totalAdditionalRevenue - cost;
+
+    result.stores.push({
+      store,
+      currency,
+      orderRevenue,
+      additionalRevenue: pnl.summary.totalAdditionalRevenue,
+      cost,
+      grossProfit,
+      expenses: pnl.summary.totalExpenses,
+      netProfit: grossProfit - pnl.summary.totalExpenses,
+      orderCount: orders.length,
+      gst: pnl.summary.gst
+    });
+
+    result.orders.push(...orders);
+    result.products.push(...snapshot.products);
+    result.expenses.push(...pnl.expenses);
+    result.additionalRevenue.push(...pnl.additionalRevenue);
+    result.purchaseOrders.push(...pnl.purchaseOrders);
+
+    Object.entries(pnl.summary.expensesByCategory).forEach(([category, amount]) => {
+      result.expensesByCategory[category] = (result.expensesByCategory[category] || 0) + amount;
+    });
+  }
+
+  result.mixedCurrencies = result.stores.some(storePnL => storePnL.currency !== getStoreProfile().currency);
+
+  return result;
+};
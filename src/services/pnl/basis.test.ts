@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Expense, Order, PurchaseOrder } from '../../types';
+import { getSetting } from '../../db';
+import { getExpenseRecognitionDate, getOrderRecognisedCost, getPurchaseOrderRecognitionDate, getReportingBasis } from './basis';
+
+// The store database is not available outside the browser
+vi.mock('../../db', () => ({
+  getSetting: vi.fn(),
+  REPORTING_BASIS_SETTING: 'reportingBasis'
+}));
+
+const invoiced = new Date('2024-01-28T00:00:00Z');
+const paid = new Date('2024-02-03T00:00:00Z');
+
+const makeExpense = (fields: Partial<Expense> = {}): Expense => ({
+  date: invoiced,
+  category: 'Rent',
+  amount: 100,
+  description: 'Test expense',
+  ...fields
+});
+
+const makePurchaseOrder = (fields: Partial<PurchaseOrder> = {}): PurchaseOrder => ({
+  date: invoiced,
+  supplier_name: 'Supplier',
+  reference_number: 'PO-1',
+  total_amount: 100,
+  payment_method: 'bank_transfer',
+  status: 'ordered',
+  created_at: invoiced,
+  ...fields
+});
+
+describe('getReportingBasis', () => {
+  beforeEach(() => {
+    vi.mocked(getSetting).mockReset();
+  });
+
+  it("uses the store's setting", async () => {
+    vi.mocked(getSetting).mockResolvedValue('cash');
+
+    await expect(getReportingBasis()).resolves.toBe('cash');
+    expect(getSetting).toHaveBeenCalledWith('reportingBasis');
+  });
+
+  it('defaults to the accrual basis', async () => {
+    vi.mocked(getSetting).mockResolvedValue(null);
+
+    await expect(getReportingBasis()).resolves.toBe('accrual');
+  });
+});
+
+describe('getExpenseRecognitionDate', () => {
+  it('uses the date on the accrual basis', () => {
+    expect(getExpenseRecognitionDate(makeExpense({ date_paid: paid }), 'accrual')).toBe(invoiced);
+  });
+
+  it('uses the payment date of a one-time expense on the cash basis', () => {
+    expect(getExpenseRecognitionDate(makeExpense({ date_paid: paid }), 'cash')).toBe(paid);
+  });
+
+  it('leaves out an unpaid one-time expense on the cash basis', () => {
+    expect(getExpenseRecognitionDate(makeExpense(), 'cash')).toBeNull();
+  });
+
+  it('keeps the start date of a recurring expense on the cash basis', () => {
+    expect(getExpenseRecognitionDate(makeExpense({ period: 'monthly', date_paid: paid }), 'cash')).toBe(invoiced);
+  });
+});
+
+describe('getPurchaseOrderRecognitionDate', () => {
+  it('uses the order date on the accrual basis', () => {
+    expect(getPurchaseOrderRecognitionDate(makePurchaseOrder({ date_paid: paid }), 'accrual')).toBe(invoiced);
+  });
+
+  it('uses the payment date on the cash basis', () => {
+    expect(getPurchaseOrderRecognitionDate(makePurchaseOrder({ date_paid: paid }), 'cash')).toBe(paid);
+  });
+
+  it('leaves out an unpaid purchase order on the cash basis', () => {
+    expect(getPurchaseOrderRecognitionDate(makePurchaseOrder(), 'cash')).toBeNull();
+  });
+});
+
+describe('getOrderRecognisedCost', () => {
+  const order: Order = {
+    id: 1,
+    number: '1',
+    date_created: '2024-01-28T00:00:00',
+    status: 'completed',
+    total: '115.00',
+    shipping_total: '0',
+    payment_method: 'card',
+    payment_method_title: 'Card',
+    line_items: [],
+    cost_total: 70, // 50 of stock, 20 of fees, shipping and overhead
+    goods_cost: 50
+  };
+
+  it('counts every cost of the order on the accrual basis', () => {
+    expect(getOrderRecognisedCost(order, 'accrual')).toBe(70);
+  });
+
+  it('leaves out the stock on the cash basis, which is counted when it is paid for', () => {
+    expect(getOrderRecognisedCost(order, 'cash')).toBe(20);
+  });
+});
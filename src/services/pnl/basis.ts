@@ -0,0 +1,44 @@
+import { Expense, Order, PurchaseOrder, ReportingBasis } from '../../types';
+import { getSetting, REPORTING_BASIS_SETTING } from '../../db';
+
+/**
+ * Reporting basis
+ *
+ * On the accrual basis sales are recognised when orders are created, stock is
+ * costed when it is sold, and expenses and purchase orders are recognised on
+ * their own dates. On the cash basis sales are recognised when orders are paid,
+ * and expenses and purchase orders when they are paid; stock is then a cost
+ * when the supplier is paid rather than when it sells.
+ */
+
+export const DEFAULT_REPORTING_BASIS: ReportingBasis = 'accrual';
+
+export const REPORTING_BASIS_LABELS: Record<ReportingBasis, string> = {
+  accrual: 'Accrual',
+  cash: 'Cash'
+};
+
+// Get the reporting basis the active store's P&L uses
+export const getReportingBasis = async (): Promise<ReportingBasis> => {
+  return await getSetting<ReportingBasis>(REPORTING_BASIS_SETTING) || DEFAULT_REPORTING_BASIS;
+};
+
+// Get the date an expense is reported on, or null on the cash basis while it is unpaid; recurring expenses keep their start date
+export const getExpenseRecognitionDate = (expense: Expense, basis: ReportingBasis): Date | null => {
+  return basis === 'cash' && !expense.period ? expense.date_paid || null : expense.date;
+};
+
+// Get the date a purchase order is reported on, or null on the cash basis while it is unpaid
+export const getPurchaseOrderRecognitionDate = (purchaseOrder: PurchaseOrder, basis: ReportingBasis): Date | null => {
+  return basis === 'cash' ? purchaseOrder.date_paid || null : purchaseOrder.date;
+};
+
+/**
+ * Get the costs of an order reported on a basis
+ * On the cash basis its stock is a cost when the supplier is paid, so only its
+ * payment fee, carrier shipping and overhead count against the sale.
+ */
+export const getOrderRecognisedCost = (order: Order, basis: ReportingBasis): number => {
+  const cost = (order.cost_total || 0) - (basis === 'cash' ? order.goods_cost || 0 : 0);
+  return isNaN(cost) ? 0 : cost;
+};
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { CostLayer, GoodsReceiptLine, Order, OrderCost, OrderItem, PurchaseOrder, PurchaseOrderItem } from '../../types';
+import { buildCostLayers, costOrders } from './costLayers';
+
+const makePurchaseOrder = (id: number, date: string): PurchaseOrder => ({
+  id,
+  date: new Date(date),
+  supplier_name: 'Supplier',
+  reference_number: `PO-${id}`,
+  total_amount: 0,
+  payment_method: 'bank_transfer',
+  status: 'received',
+  created_at: new Date(date)
+});
+
+const makeItem = (id: number, purchaseOrderId: number, sku: string, unitPrice: number, quantityReceived: number): PurchaseOrderItem => ({
+  id,
+  purchase_order_id: purchaseOrderId,
+  sku,
+  product_name: sku,
+  quantity: quantityReceived,
+  unit_price: unitPrice,
+  total_price: unitPrice * quantityReceived,
+  quantity_received: quantityReceived
+});
+
+const makeReceiptLine = (item: PurchaseOrderItem, quantity: number, date: string): GoodsReceiptLine & { date: Date } => ({
+  id: item.id! * 100 + quantity,
+  receipt_id: 1,
+  purchase_order_id: item.purchase_order_id,
+  purchase_order_item_id: item.id!,
+  sku: item.sku,
+  quantity,
+  date: new Date(date)
+});
+
+const makeLayer = (sku: string, quantity: number, unitCost: number, date: string): CostLayer => ({
+  sku,
+  date: new Date(date),
+  quantity,
+  unit_cost: unitCost,
+  purchase_order_id: 1
+});
+
+const makeOrder = (id: number, createdGmt: string, items: Array<Pick<OrderItem, 'sku' | 'quantity'>>, status = 'completed'): Order => ({
+  id,
+  number: String(id),
+  date_created: createdGmt,
+  date_created_gmt: createdGmt,
+  status,
+  total: '0',
+  shipping_total: '0',
+  payment_method: 'card',
+  payment_method_title: 'Card',
+  line_items: items.map((item, index) => ({
+    id: id * 10 + index,
+    product_id: 1,
+    name: item.sku || 'Product',
+    price: 0,
+    total: '0',
+    ...item
+  }))
+});
+
+// Cost any quantity no layer covers at 5 a unit
+const fallbackCost = () => 5;
+
+describe('buildCostLayers', () => {
+  it('makes a layer per receipt line at the purchase order unit price, oldest first', () => {
+    const purchaseOrders = [makePurchaseOrder(1, '2024-01-01T00:00:00Z')];
+    const item = makeItem(10, 1, 'A', 2, 10);
+    const lines = [
+      makeReceiptLine(item, 6, '2024-01-09T00:00:00Z'),
+      makeReceiptLine(item, 4, '2024-01-05T00:00:00Z')
+    ];
+
+    expect(buildCostLayers(purchaseOrders, [item], lines)).toEqual([
+      makeLayer('A', 4, 2, '2024-01-05T00:00:00Z'),
+      makeLayer('A', 6, 2, '2024-01-09T00:00:00Z')
+    ]);
+  });
+
+  it('dates quantities received without receipt lines on the purchase order', () => {
+    const purchaseOrders = [makePurchaseOrder(1, '2024-01-01T00:00:00Z')];
+    const item = makeItem(10, 1, 'A', 2, 10);
+
+    expect(buildCostLayers(purchaseOrders, [item], [makeReceiptLine(item, 4, '2024-01-05T00:00:00Z')])).toEqual([
+      makeLayer('A', 6, 2, '2024-01-01T00:00:00Z'),
+      makeLayer('A', 4, 2, '2024-01-05T00:00:00Z')
+    ]);
+  });
+
+  it('skips items without a SKU or purchase order', () => {
+    const purchaseOrders = [makePurchaseOrder(1, '2024-01-01T00:00:00Z')];
+
+    expect(buildCostLayers(purchaseOrders, [makeItem(10, 1, '', 2, 10), makeItem(11, 2, 'A', 2, 10)], [])).toEqual([]);
+  });
+});
+
+describe('costOrders', () => {
+  const layers = [
+    makeLayer('A', 5, 2, '2024-01-01T00:00:00Z'),
+    makeLayer('A', 5, 4, '2024-01-03T00:00:00Z')
+  ];
+  const orders = [
+    makeOrder(2, '2024-01-04T00:00:00', [{ sku: 'A', quantity: 4 }]),
+    makeOrder(1, '2024-01-02T00:00:00', [{ sku: 'A', quantity: 3 }])
+  ];
+
+  const getUnitCosts = (costs: OrderCost[]) => costs.map(cost => [cost.order_id, cost.line_items[0].unit_cost]);
+
+  it('costs orders first in, first out in the order they were placed', () => {
+    const costs = costOrders(orders, layers, 'fifo', new Map(), fallbackCost);
+
+    expect(getUnitCosts(costs)).toEqual([[1, 2], [2, 3]]); // 2 units at 2 and 2 at 4
+  });
+
+  it('costs orders at the weighted average of the stock on hand', () => {
+    const costs = costOrders(orders, layers, 'weighted_average', new Map(), fallbackCost);
+
+    expect(costs[0].line_items[0].unit_cost).toBe(2);
+    expect(costs[1].line_items[0].unit_cost).toBeCloseTo((2 * 2 + 5 * 4) / 7);
+  });
+
+  it('costs stock that has not arrived yet at the fallback cost', () => {
+    const [cost] = costOrders([makeOrder(1, '2024-01-02T00:00:00', [{ sku: 'A', quantity: 7 }])], layers, 'fifo', new Map(), fallbackCost);
+
+    expect(cost.line_items[0]).toMatchObject({ quantity: 7, unmatched_quantity: 2, unit_cost: (5 * 2 + 2 * 5) / 7 });
+  });
+
+  it('takes stock for frozen orders without costing them again', () => {
+    const frozen: OrderCost = { order_id: 1, method: 'fifo', line_items: [], costed_at: new Date() };
+    const costs = costOrders(orders, layers, 'fifo', new Map([[1, frozen]]), fallbackCost);
+
+    expect(getUnitCosts(costs)).toEqual([[2, 3]]);
+  });
+
+  it('ignores orders that have not taken stock', () => {
+    const pending = makeOrder(3, '2024-01-02T00:00:00', [{ sku: 'A', quantity: 5 }], 'pending');
+    const costs = costOrders([pending, ...orders], layers, 'fifo', new Map(), fallbackCost);
+
+    expect(getUnitCosts(costs)).toEqual([[1, 2], [2, 3]]);
+  });
+
+  it('costs lines without a SKU at the fallback cost', () => {
+    const [cost] = costOrders([makeOrder(1, '2024-01-02T00:00:00', [{ quantity: 2 }])], layers, 'fifo', new Map(), fallbackCost);
+
+    expect(cost.line_items[0]).toMatchObject({ unit_cost: 5, unmatched_quantity: 2 });
+  });
+});
@@ -0,0 +1,182 @@
+import { CostLayer, CostingMethod, GoodsReceiptLine, Order, OrderCost, OrderItem, PurchaseOrder, PurchaseOrderItem } from '../../types';
+import { getOrderDate } from '../../utils/dateRange';
+
+// Order statuses for which WooCommerce has taken the stock out of inventory
+export const STOCK_CONSUMING_STATUSES = ['processing', 'completed', 'on-hold', 'refunded'];
+
+// Stock on hand for one SKU
+interface SkuStock {
+  layers: Array<{ quantity: number; unit_cost: number }>; // Oldest first, used by FIFO
+  quantity: number;
+  value: number; // Total cost of the stock on hand, used by weighted average
+}
+
+/**
+ * Build cost layers from goods receipts, oldest first
+ * Each receipt line is a layer dated when it arrived, at the purchase order's
+ * unit price. Quantities received before goods receipts existed have no lines
+ * and become one layer dated on the purchase order.
+ */
+export function buildCostLayers(
+  purchaseOrders: PurchaseOrder[],
+  items: PurchaseOrderItem[],
+  receiptLines: Array<GoodsReceiptLine & { date: Date }>
+): CostLayer[] {
+  const purchaseOrderMap = new Map(purchaseOrders.map(po => [po.id, po]));
+  const linesByItem = new Map<number, Array<GoodsReceiptLine & { date: Date }>>();
+  const layers: CostLayer[] = [];
+  
+  receiptLines.forEach(line => {
+    const lines = linesByItem.get(line.purchase_order_item_id) || [];
+    lines.push(line);
+    linesByItem.set(line.purchase_order_item_id, lines);
+  });
+  
+  items.forEach(item => {
+    const purchaseOrder = purchaseOrderMap.get(item.purchase_order_id);
+    if (!purchaseOrder || !item.sku) return;
+    
+    const lines = linesByItem.get(item.id!) || [];
+    lines.forEach(line => {
+      layers.push({
+        sku: item.sku,
+        date: line.date,
+        quantity: line.quantity,
+        unit_cost: item.unit_price || 0,
+        purchase_order_id: item.purchase_order_id
+      });
+    });
+    
+    const receiptQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+    const legacyQuantity = (item.quantity_received || 0) - receiptQuantity;
+    if (legacyQuantity > 0) {
+      layers.push({
+        sku: item.sku,
+        date: new Date(purchaseOrder.date),
+        quantity: legacyQuantity,
+        unit_cost: item.unit_price || 0,
+        purchase_order_id: item.purchase_order_id
+      });
+    }
+  });
+  
+  return layers.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Take stock out of inventory and return the cost of what was taken
+ * Any quantity the stock on hand cannot cover is returned as unmatched.
+ */
+function consumeStock(stock: SkuStock, quantity: number, method: CostingMethod) {
+  let remaining = quantity;
+  let cost = 0;
+  
+  if (method === 'fifo') {
+    while (remaining > 0 && stock.layers.length > 0) {
+      const layer = stock.layers[0];
+      const taken = Math.min(layer.quantity, remaining);
+      
+      cost += taken * layer.unit_cost;
+      layer.quantity -= taken;
+      remaining -= taken;
+      
+      if (layer.quantity <= 0) {
+        stock.layers.shift();
+      }
+    }
+  } else if (stock.quantity > 0) {
+    const averageCost = stock.value / stock.quantity;
+    const taken = Math.min(stock.quantity, remaining);
+    
+    cost += taken * averageCost;
+    stock.quantity -= taken;
+    stock.value -= taken * averageCost;
+    remaining -= taken;
+  }
+  
+  return { cost, unmatched: remaining };
+}
+
+/**
+ * Cost orders against purchase order cost layers
+ *
+ * Orders are replayed in the order they were placed and consume the stock
+ * received up to that moment. Orders that already have a frozen cost still
+ * consume stock, so later orders see the right layers, but their cost is left
+ * as it is. Returns costs only for orders that were not frozen yet.
+ */
+export function costOrders(
+  orders: Order[],
+  layers: CostLayer[],
+  method: CostingMethod,
+  frozenCosts: Map<number, OrderCost>,
+  fallbackCost: (item: OrderItem, orderDate: Date) => number
+): OrderCost[] {
+  const stockBySku = new Map<string, SkuStock>();
+  const newCosts: OrderCost[] = [];
+  let nextLayer = 0;
+  
+  const getStock = (sku: string) => {
+    let stock = stockBySku.get(sku);
+    if (!stock) {
+      stock = { layers: [], quantity: 0, value: 0 };
+      stockBySku.set(sku, stock);
+    }
+    return stock;
+  };
+  
+  const sortedOrders = orders
+    .filter(order => STOCK_CONSUMING_STATUSES.includes(order.status))
+    .map(order => ({ order, date: getOrderDate(order) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  
+  sortedOrders.forEach(({ order, date }) => {
+    // Receive all stock that arrived before the order was placed
+    while (nextLayer < layers.length && layers[nextLayer].date <= date) {
+      const layer = layers[nextLayer];
+      const stock = getStock(layer.sku);
+      stock.layers.push({ quantity: layer.quantity, unit_cost: layer.unit_cost });
+      stock.quantity += layer.quantity;
+      stock.value += layer.quantity * layer.unit_cost;
+      nextLayer++;
+    }
+    
+    const isFrozen = frozenCosts.has(order.id);
+    
+    const lineItems = order.line_items.map(item => {
+      const quantity = isNaN(item.quantity) ? 0 : item.quantity;
+      
+      if (!item.sku || quantity <= 0) {
+        return {
+          line_item_id: item.id,
+          sku: item.sku,
+          quantity,
+          unit_cost: fallbackCost(item, date),
+          unmatched_quantity: quantity
+        };
+      }
+      
+      const { cost, unmatched } = consumeStock(getStock(item.sku), quantity, method);
+      const totalCost = cost + unmatched * fallbackCost(item, date);
+      
+      return {
+        line_item_id: item.id,
+        sku: item.sku,
+        quantity,
+        unit_cost: totalCost / quantity,
+        unmatched_quantity: unmatched
+      };
+    });
+    
+    if (!isFrozen) {
+      newCosts.push({
+        order_id: order.id,
+        method,
+        line_items: lineItems,
+        costed_at: new Date()
+      });
+    }
+  });
+  
+  return newCosts;
+}
@@ -1,77 +1,44 @@
-import { Expense, DateRange } from '../../types';
+import { Expense, DateRange, ReportingBasis } from '../../types';
+import { getRecognisedExpenseAmount } from '../../utils/expenseSchedule';
 
 /**
  * Calculate expenses and prorate them based on period type
+ * One-time expenses count in full when dated in the range; recurring expenses
+ * count for the calendar days of the range between their start and end dates.
+ * On the cash basis, expenses count in full when paid or due instead.
  */
-export function calculateExpenses(expenses: Expense[], dateRange: DateRange) {
-  // Filter one-time expenses by date range first
-  const filteredOneTimeExpenses = expenses.filter(expense => {
-    if (!expense.period) {
-      // Only filter one-time expenses by date
-      const expenseDate = new Date(expense.date);
-      return expenseDate >= dateRange.startDate && expenseDate <= dateRange.endDate;
-    }
-    return true; // Keep recurring expenses, they'll be prorated
-  });
-  
-  // Group expenses by period type
-  const dailyExpenses = filteredOneTimeExpenses.filter(expense => expense.period === 'daily');
-  const weeklyExpenses = filteredOneTimeExpenses.filter(expense => expense.period === 'weekly');
-  const monthlyExpenses = filteredOneTimeExpenses.filter(expense => expense.period === 'monthly');
-  const yearlyExpenses = filteredOneTimeExpenses.filter(expense => expense.period === 'yearly');
-  const oneTimeExpenses = filteredOneTimeExpenses.filter(expense => !expense.period);
-  
-  // Calculate prorated expenses for the period
-  const daysBetween = Math.max(1, Math.ceil((dateRange.endDate.getTime() - dateRange.startDate.getTime()) / (1000 * 60 * 60 * 24)));
-  const weeksBetween = Math.max(1, Math.ceil(daysBetween / 7));
-  const monthsBetween = Math.max(1, Math.ceil(daysBetween / 30));
-  const yearsBetween = Math.max(1, Math.ceil(daysBetween / 365));
-  
-  // Calculate total expenses for the period
-  const totalDailyExpenses = dailyExpenses.reduce((sum, expense) => sum + expense.amount * daysBetween, 0);
-  const totalWeeklyExpenses = weeklyExpenses.reduce((sum, expense) => sum + expense.amount * weeksBetween, 0);
-  const totalMonthlyExpenses = monthlyExpenses.reduce((sum, expense) => sum + expense.amount * monthsBetween, 0);
-  const totalYearlyExpenses = yearlyExpenses.reduce((sum, expense) => sum + expense.amount * yearsBetween, 0);
-  const totalOneTimeExpenses = oneTimeExpenses.reduce((sum, expense) => sum + expense.amount, 0);
-  
-  // Total expenses for the period
-  const totalExpenses = totalDailyExpenses + totalWeeklyExpenses + totalMonthlyExpenses + totalYearlyExpenses + totalOneTimeExpenses;
-  
+export function calculateExpenses(expenses: Expense[], dateRange: DateRange, basis: ReportingBasis = 'accrual') {
+  const totalsByPeriod = {
+    daily: 0,
+    weekly: 0,
+    monthly: 0,
+    yearly: 0,
+    oneTime: 0
+  };
+
   // Group expenses by category
   const expensesByCategory: Record<string, number> = {};
-  filteredOneTimeExpenses.forEach(expense => {
-    if (!expensesByCategory[expense.category]) {
-      expensesByCategory[expense.category] = 0;
-    }
-    
-    // Add prorated amount based on period type
-    if (expense.period === 'daily') {
-      expensesByCategory[expense.category] += expense.amount * daysBetween;
-    } else if (expense.period === 'weekly') {
-      expensesByCategory[expense.category] += expense.amount * weeksBetween;
-    } else if (expense.period === 'monthly') {
-      expensesByCategory[expense.category] += expense.amount * monthsBetween;
-    } else if (expense.period === 'yearly') {
-      expensesByCategory[expense.category] += expense.amount * yearsBetween;
-    } else {
-      // One-time expense
-      expensesByCategory[expense.category] += expense.amount;
-    }
+
+  expenses.forEach(expense => {
+    const amount = getRecognisedExpenseAmount(expense, dateRange, basis);
+    if (amount === 0) return;
+
+    totalsByPeriod[expense.period || 'oneTime'] += amount;
+    expensesByCategory[expense.category] = (expensesByCategory[expense.category] || 0) + amount;
   });
 
+  // Total expenses for the period
+  const totalExpenses = totalsByPeriod.daily + totalsByPeriod.weekly + totalsByPeriod.monthly + totalsByPeriod.yearly + totalsByPeriod.oneTime;
+
   return {
     totalExpenses,
     expensesByCategory,
     periodDetails: {
-      dailyExpenses: totalDailyExpenses,
-      weeklyExpenses: totalWeeklyExpenses,
-      monthlyExpenses: totalMonthlyExpenses,
-      yearlyExpenses: totalYearlyExpenses,
-      oneTimeExpenses: totalOneTimeExpenses,
-      daysBetween,
-      weeksBetween,
-      monthsBetween,
-      yearsBetween
+      dailyExpenses: totalsByPeriod.daily,
+      weeklyExpenses: totalsByPeriod.weekly,
+      monthlyExpenses: totalsByPeriod.monthly,
+      yearlyExpenses: totalsByPeriod.yearly,
+      oneTimeExpenses: totalsByPeriod.oneTime
     }
   };
-}
\ No newline at end of file
+}
@@ -1,30 +1,93 @@
-import { Order, InventoryItem, OverheadCost, DateRange, AdditionalRevenue } from '../../types';
-import { getExpenses } from '../../db/operations/expenses';
+import { Order, InventoryItem, OverheadCost, DateRange, AdditionalRevenue, Expense, ExpenseCategory, OrderCost, PurchaseOrder, GstSummary, PaymentFeeSchedule, ShippingCost, ReportingBasis } from '../../types';
+import { getExpensesInEffect, getExpenseCategories } from '../../db/operations/expenses';
+import { getShippingCosts } from '../../db/operations/shippingCosts';
+import { getPurchaseOrdersFiltered, getPurchaseOrdersPaidBetween } from '../../db/operations/purchaseOrders';
+import { getStoreProfile, getStoreTimezone } from '../../utils/storeProfile';
+import { isOrderInDateRange } from '../../utils/dateRange';
 import { calculateOrderProfits } from './orderCalculations';
+import { calculateOrderProfitsCached, getOrderProfitContextKey } from './orderCache';
 import { calculateExpenses } from './expenseCalculations';
 import { createInventoryMap } from './inventoryUtils';
+import { resolveOrderCosts } from './orderCosts';
+import { getPnlOrderStatuses } from './refunds';
+import { getPaymentFeeSchedules } from './paymentFees';
+import { getOrderRecognisedCost, getReportingBasis } from './basis';
+import {
+  applyAdditionalRevenueTax,
+  applyExpenseTax,
+  getAdditionalRevenueNetAmount,
+  getExpenseNetAmount,
+  getOrderRevenue,
+  getPurchaseOrderTax
+} from './tax';
+
+// A store's data used by the P&L; anything left out is loaded from the active store
+export interface StorePnLData {
+  expenses: Expense[];
+  expenseCategories: ExpenseCategory[];
+  purchaseOrders: PurchaseOrder[];
+  orderCosts: OrderCost[];
+  orderStatuses: string[];
+  gstRate: number;
+  paymentFeeSchedules: PaymentFeeSchedule[];
+  shippingCosts: ShippingCost[];
+  basis: ReportingBasis;
+}
 
 /**
  * Calculate profit and margins for orders with expenses and additional revenue included
+ * Only orders with one of the given statuses are counted; without statuses, the
+ * statuses configured in the active store's settings are used. Revenue and
+ * expenses are reported excluding GST, with the GST collected and paid summarised.
+ * Orders are expected to be those recognised in the date range on the reporting
+ * basis. On the cash basis the cost of sales is the stock paid for in the range
+ * instead of the cost of the goods sold, plus the orders' other costs.
  */
 export const calculateProfitAndLoss = async (
-  orders: Order[],
+  allOrders: Order[],
   inventory: InventoryItem[],
   overheadCosts: OverheadCost[],
   dateRange: DateRange,
-  additionalRevenue: AdditionalRevenue[] = []
+  storeAdditionalRevenue: AdditionalRevenue[] = [],
+  storeData: Partial<StorePnLData> = {}
 ) => {
   // Create inventory map for quick lookups
   const inventoryMap = createInventoryMap(inventory);
 
-  // Get expenses for the date range
-  const expenses = await getExpenses(dateRange.startDate, dateRange.endDate);
+  // Get frozen order costs; another store's costs are used as stored, without costing new orders
+  const orderCosts = storeData.orderCosts
+    ? new Map(storeData.orderCosts.map(cost => [cost.order_id, cost]))
+    : await resolveOrderCosts(allOrders, inventoryMap);
+
+  // Leave out cancelled, failed and other statuses that are not counted
+  const includedStatuses = storeData.orderStatuses || await getPnlOrderStatuses();
+  const orders = allOrders.filter(order => includedStatuses.includes(order.status));
+
+  // Get expenses and purchase orders for the date range, unless they were loaded from another store's database
+  const basis = storeData.basis || await getReportingBasis();
+  const gstRate = storeData.gstRate ?? getStoreProfile().gstRate;
+  const expenses = applyExpenseTax(
+    storeData.expenses || await getExpensesInEffect(dateRange.startDate, dateRange.endDate, basis),
+    storeData.expenseCategories || await getExpenseCategories(),
+    gstRate
+  );
+  const additionalRevenue = applyAdditionalRevenueTax(storeAdditionalRevenue, gstRate);
+  const purchaseOrders = storeData.purchaseOrders || (basis === 'cash'
+    ? await getPurchaseOrdersPaidBetween(dateRange.startDate, dateRange.endDate)
+    : await getPurchaseOrdersFiltered({ startDate: dateRange.startDate, endDate: dateRange.endDate }));
   
-  // Calculate expense data
+  // Calculate expense data, excluding GST
   const { 
     totalExpenses, 
     expensesByCategory 
-  } = calculateExpenses(expenses, dateRange);
+  } = calculateExpenses(expenses.map(expense => ({ ...expense, amount: getExpenseNetAmount(expense) })), dateRange, basis);
+
+  // Recurring expenses are prorated, so the GST on them is too
+  const { totalExpenses: gstPaidOnExpenses } = calculateExpenses(
+    expenses.map(expense => ({ ...expense, amount: expense.tax_amount || 0 })),
+    dateRange,
+    basis
+  );
 
   // Calculate overhead distribution
   const { 
@@ -34,35 +97,67 @@ export const calculateProfitAndLoss = async (
     percentageOverheadCalculator 
   } = calculateOverheadDistribution(orders, overheadCosts);
 
-  // Process each order with profit calculations
-  const processedOrders = calculateOrderProfits(
-    orders, 
-    inventoryMap, 
-    overheadPerOrder,
-    perOrderOverhead,
-    perItemOverhead,
-    percentageOverheadCalculator
+  // Get the payment gateway fee schedules
+  const paymentFeeSchedules = storeData.paymentFeeSchedules || await getPaymentFeeSchedules();
+
+  // Get what carriers charged to ship each order
+  const shippingCosts = new Map((storeData.shippingCosts || await getShippingCosts()).map(cost => [cost.order_id, cost]));
+
+  // Process each order with profit calculations, reusing results for orders that have not changed
+  const processedOrders = calculateOrderProfitsCached(
+    orders,
+    getOrderProfitContextKey(inventory, overheadCosts, overheadPerOrder, paymentFeeSchedules, getStoreTimezone()),
+    orderCosts,
+    shippingCosts,
+    changedOrders => calculateOrderProfits(
+      changedOrders, 
+      inventoryMap, 
+      overheadPerOrder,
+      perOrderOverhead,
+      perItemOverhead,
+      percentageOverheadCalculator,
+      orderCosts,
+      paymentFeeSchedules,
+      shippingCosts
+    )
   );
 
-  // Calculate additional revenue total
+  // Calculate additional revenue total, excluding GST
   const totalAdditionalRevenue = additionalRevenue.reduce((sum, revenue) => {
-    const amount = revenue.amount || 0;
+    const amount = getAdditionalRevenueNetAmount(revenue);
     return sum + (isNaN(amount) ? 0 : amount);
   }, 0);
 
   // Calculate summary
-  const totalOrderRevenue = processedOrders.reduce((sum, order) => {
-    const orderTotal = parseFloat(order.total);
-    return sum + (isNaN(orderTotal) ? 0 : orderTotal);
-  }, 0);
+  const totalOrderRevenue = processedOrders.reduce((sum, order) => sum + getOrderRevenue(order), 0);
+  const totalRefunds = processedOrders.reduce((sum, order) => sum + (order.refund_total || 0), 0);
+
+  // GST collected on sales in the date range and paid on expenses and stock
+  const gstCollected = processedOrders
+    .filter(order => isOrderInDateRange(order, dateRange, basis))
+    .reduce((sum, order) => sum + (order.tax_total || 0), 0)
+    + additionalRevenue.reduce((sum, revenue) => sum + (revenue.tax_amount || 0), 0);
+  const gstPaidOnPurchases = purchaseOrders.reduce((sum, purchaseOrder) => sum + getPurchaseOrderTax(purchaseOrder), 0);
+  const gst: GstSummary = {
+    collected: gstCollected,
+    paidOnExpenses: gstPaidOnExpenses,
+    paidOnPurchases: gstPaidOnPurchases,
+    payable: gstCollected - gstPaidOnExpenses - gstPaidOnPurchases
+  };
   
   const totalRevenue = totalOrderRevenue + totalAdditionalRevenue;
   
-  const totalCost = processedOrders.reduce((sum, order) => {
+  const costOfGoodsSold = processedOrders.reduce((sum, order) => {
     const orderCost = order.cost_total || 0;
     return sum + (isNaN(orderCost) ? 0 : orderCost);
   }, 0);
   
+  // Purchase orders are entered excluding GST
+  const totalPurchases = purchaseOrders.reduce((sum, purchaseOrder) => sum + (purchaseOrder.total_amount || 0), 0);
+  const totalCost = basis === 'cash'
+    ? totalPurchases + processedOrders.reduce((sum, order) => sum + getOrderRecognisedCost(order, basis), 0)
+    : costOfGoodsSold;
+  
   const totalProfit = totalRevenue - totalCost;
   const netProfit = totalProfit - totalExpenses;
   const averageMargin = totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0;
@@ -77,19 +172,26 @@ export const calculateProfitAndLoss = async (
 
   return {
     orders: processedOrders,
+    expenses,
     additionalRevenue,
+    purchaseOrders,
     summary: {
       totalOrderRevenue,
+      totalRefunds,
       totalAdditionalRevenue,
       totalRevenue,
       totalCost,
+      costOfGoodsSold,
+      totalPurchases,
       totalProfit,
       totalExpenses,
       netProfit,
       averageMargin,
       orderCount,
       itemCount,
-      expensesByCategory
+      expensesByCategory,
+      gst,
+      basis
     }
   };
 };
@@ -145,4 +247,13 @@ function calculateOverheadDistribution(orders: Order[], overheadCosts: OverheadC
 // Export all sub-modules
 export * from './orderCalculations';
 export * from './expenseCalculations';
-export * from './inventoryUtils';
\ No newline at end of file
+export * from './inventoryUtils';
+export * from './costLayers';
+export * from './orderCosts';
+export * from './priceHistory';
+export * from './refunds';
+export * from './tax';
+export * from './paymentFees';
+export * from './shipping';
+export * from './orderCache';
+export * from './basis';
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { InventoryItem, Order, OrderCost, OverheadCost, PaymentFeeSchedule, ShippingCost } from '../../types';
+import { calculateOrderProfits } from './orderCalculations';
+
+type ProcessedOrder = ReturnType<typeof calculateOrderProfits>[number];
+
+interface CachedOrder {
+  key: string;
+  order: ProcessedOrder;
+}
+
+// Results are kept per calculation context, most recently used last, so going
+// back to an earlier date range reuses them. Old contexts are dropped once
+// too many orders are held.
+const MAX_CACHED_ORDERS = 100000;
+const contexts = new Map<string, Map<number, CachedOrder>>();
+
+/**
+ * Hash a string to a short key (32-bit FNV-1a)
+ */
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Get the key of the inputs shared by every order in a calculation
+ */
+export const getOrderProfitContextKey = (
+  inventory: InventoryItem[],
+  overheadCosts: OverheadCost[],
+  overheadPerOrder: number,
+  paymentFeeSchedules: PaymentFeeSchedule[],
+  timeZone: string
+): string => {
+  const inventoryCosts = inventory.map(item => [item.sku, item.product_id, item.variation_id, item.cost_price, item.supplier_price]);
+  return hashString(JSON.stringify([inventoryCosts, overheadCosts, overheadPerOrder, paymentFeeSchedules, timeZone]));
+};
+
+/**
+ * Get the key of an order's own inputs
+ * WooCommerce updates date_modified on every change to an order, including
+ * refunds; orders stored without it are keyed on their content.
+ */
+const getOrderKey = (order: Order, orderCost?: OrderCost, shippingCost?: ShippingCost): string => {
+  const orderVersion = order.date_modified_gmt
+    ? `${order.date_modified_gmt}|${order.status}`
+    : hashString(JSON.stringify(order));
+  const costVersion = orderCost ? orderCost.line_items.map(line => `${line.line_item_id}:${line.unit_cost}`).join(',') : '';
+  const shippingVersion = shippingCost ? `${shippingCost.amount}|${shippingCost.source}` : '';
+
+  return `${orderVersion}|${costVersion}|${shippingVersion}`;
+};
+
+/**
+ * Calculate order profits, reusing earlier results for orders whose inputs have not changed
+ * Only orders that are new or changed since the last calculation in the same
+ * context are passed to calculate.
+ */
+export const calculateOrderProfitsCached = (
+  orders: Order[],
+  contextKey: string,
+  orderCosts: Map<number, OrderCost>,
+  shippingCosts: Map<number, ShippingCost>,
+  calculate: (orders: Order[]) => ProcessedOrder[]
+): ProcessedOrder[] => {
+  const cache = contexts.get(contextKey) || new Map<number, CachedOrder>();
+  contexts.delete(contextKey);
+  contexts.set(contextKey, cache);
+
+  const keys = new Map(orders.map(order => [order.id, getOrderKey(order, orderCosts.get(order.id), shippingCosts.get(order.id))]));
+  const stale = orders.filter(order => cache.get(order.id)?.key !== keys.get(order.id));
+  calculate(stale).forEach(order => {
+    cache.set(order.id, { key: keys.get(order.id)!, order });
+  });
+
+  const result = orders.map(order => cache.get(order.id)!.order);
+
+  // Drop the least recently used contexts once too many orders are held
+  let cachedOrders = [...contexts.values()].reduce((sum, context) => sum + context.size, 0);
+  for (const [key, context] of contexts) {
+    if (cachedOrders <= MAX_CACHED_ORDERS || key === contextKey) break;
+    cachedOrders -= context.size;
+    contexts.delete(key);
+  }
+
+  return result;
+};
+
+/**
+ * Forget every cached result, e.g. after orders are deleted or resynced
+ */
+export const clearOrderProfitCache = (): void => {
+  contexts.clear();
+};
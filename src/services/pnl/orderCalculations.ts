@@ -1,7 +1,16 @@
-import { Order } from '../../types';
+import { Order, OrderCost, PaymentFeeSchedule, ShippingCost } from '../../types';
+import { getOrderRefundTotal, getRefundedLines, getRestockedQuantity } from './refunds';
+import { getOrderTax } from './tax';
+import { calculatePaymentFee, findPaymentFeeSchedule } from './paymentFees';
 
 /**
  * Calculate profits for all orders
+ * Line items with a frozen cost of goods use it; others fall back to the
+ * current inventory price. Refunds and GST are taken off revenue, and the cost
+ * of refunded items that went back into stock is taken off the cost of goods.
+ * Gateway fees come from the schedule matching the order's payment method and
+ * are charged on the full order total, as gateways keep them on refunds.
+ * Recorded carrier costs are added to the order's costs.
  */
 export function calculateOrderProfits(
   orders: Order[],
@@ -9,16 +18,30 @@ export function calculateOrderProfits(
   overheadPerOrder: number,
   perOrderOverhead: number,
   perItemOverhead: (item: any) => number,
-  percentageOverheadCalculator: (orderTotal: number) => number
+  percentageOverheadCalculator: (orderTotal: number) => number,
+  orderCosts: Map<number, OrderCost> = new Map(),
+  paymentFeeSchedules: PaymentFeeSchedule[] = [],
+  shippingCosts: Map<number, ShippingCost> = new Map()
 ) {
   return orders.map(order => {
     // Calculate percentage-based overhead
     const orderTotal = parseFloat(order.total);
     const safeOrderTotal = isNaN(orderTotal) ? 0 : orderTotal;
     const percentageOverhead = percentageOverheadCalculator(safeOrderTotal);
+    const feeSchedule = findPaymentFeeSchedule(order, paymentFeeSchedules);
+    const paymentFee = feeSchedule ? calculatePaymentFee(feeSchedule, safeOrderTotal) : undefined;
+    const shippingCost = shippingCosts.get(order.id);
+
+    const orderCost = orderCosts.get(order.id);
+    const refundTotal = getOrderRefundTotal(order);
+    const taxTotal = getOrderTax({ ...order, refund_total: refundTotal });
+    const refundedLines = getRefundedLines(order);
+    let restockedCost = 0;
 
     // Process line items
     const lineItems = order.line_items.map(item => {
+      const frozenCost = orderCost?.line_items.find(line => line.line_item_id === item.id);
+      
       // First try to find by SKU (most accurate)
       let costPrice = 0;
       let supplierPrice = 0;
@@ -48,17 +71,24 @@ export function calculateOrderProfits(
         costPrice = item.cost_price || 0;
       }
       
-      // Use supplier price if available, otherwise use cost price
-      const finalCostPrice = supplierPrice > 0 ? supplierPrice : costPrice;
+      // Use the frozen cost if there is one, then supplier price, then cost price
+      const finalCostPrice = frozenCost 
+        ? frozenCost.unit_cost 
+        : (supplierPrice > 0 ? supplierPrice : costPrice);
       const quantity = isNaN(item.quantity) ? 0 : item.quantity;
-      const itemCost = finalCostPrice * quantity;
+      
+      // Refunded items that went back into stock were not sold
+      const refunded = refundedLines.get(item.id);
+      const restockedQuantity = Math.min(getRestockedQuantity(item), quantity);
+      restockedCost += finalCostPrice * restockedQuantity;
+      const itemCost = finalCostPrice * (quantity - restockedQuantity);
       
       // Calculate per-item overhead
       const itemOverhead = perItemOverhead(item);
       
       const totalCost = itemCost + itemOverhead;
       const itemTotal = parseFloat(item.total);
-      const revenue = isNaN(itemTotal) ? 0 : itemTotal;
+      const revenue = (isNaN(itemTotal) ? 0 : itemTotal) - (refunded?.total || 0);
       const profit = revenue - totalCost;
       const margin = revenue > 0 ? (profit / revenue) * 100 : 0;
 
@@ -75,18 +105,25 @@ export function calculateOrderProfits(
       const costPrice = item.cost_price || 0;
       const quantity = isNaN(item.quantity) ? 0 : item.quantity;
       return sum + costPrice * quantity;
-    }, 0);
+    }, 0) - restockedCost;
     
-    const totalOverhead = perOrderOverhead + percentageOverhead + overheadPerOrder;
-    const totalCost = costTotal + totalOverhead;
-    const revenue = isNaN(orderTotal) ? 0 : orderTotal;
+    const totalOverhead = perOrderOverhead + percentageOverhead + overheadPerOrder + (paymentFee || 0);
+    const totalCost = costTotal + totalOverhead + (shippingCost?.amount || 0);
+    const revenue = safeOrderTotal - refundTotal - taxTotal;
     const profit = revenue - totalCost;
     const margin = revenue > 0 ? (profit / revenue) * 100 : 0;
 
     return {
       ...order,
       line_items: lineItems,
+      refund_total: refundTotal,
+      restocked_cost: restockedCost,
+      tax_total: taxTotal,
+      payment_fee: paymentFee,
+      shipping_cost: shippingCost?.amount,
+      shipping_cost_source: shippingCost?.source,
       cost_total: totalCost,
+      goods_cost: costTotal,
       profit,
       margin
     };
@@ -0,0 +1,52 @@
+import { CostingMethod, Order, OrderCost } from '../../types';
+import { getOrderCosts, saveOrderCosts, getSetting, getAllPriceHistory, getAllGoodsReceiptLines, COSTING_METHOD_SETTING } from '../../db';
+import { getPurchaseOrders, getAllPurchaseOrderItems } from '../../db/operations/purchaseOrders';
+import { buildCostLayers, costOrders, STOCK_CONSUMING_STATUSES } from './costLayers';
+import { createInventoryMap, getCostPrice } from './inventoryUtils';
+import { createPriceHistoryLookup } from './priceHistory';
+
+export const DEFAULT_COSTING_METHOD: CostingMethod = 'fifo';
+
+/**
+ * Get the frozen cost of goods for a store's orders, costing any new orders first
+ * Pass all of the store's orders, not just a date range: every earlier order
+ * has to be replayed to know which cost layers are left for the new ones.
+ */
+export const resolveOrderCosts = async (
+  orders: Order[],
+  inventoryMap: ReturnType<typeof createInventoryMap>
+): Promise<Map<number, OrderCost>> => {
+  const frozenCosts = new Map((await getOrderCosts()).map(cost => [cost.order_id, cost]));
+  
+  // Nothing to do once every order that shipped stock has a cost
+  const needsCosting = orders.some(order => 
+    STOCK_CONSUMING_STATUSES.includes(order.status) && !frozenCosts.has(order.id)
+  );
+  if (!needsCosting) {
+    return frozenCosts;
+  }
+  
+  const method = await getSetting<CostingMethod>(COSTING_METHOD_SETTING) || DEFAULT_COSTING_METHOD;
+  const [purchaseOrders, purchaseOrderItems, receiptLines, priceHistory] = await Promise.all([
+    getPurchaseOrders(),
+    getAllPurchaseOrderItems(),
+    getAllGoodsReceiptLines(),
+    getAllPriceHistory()
+  ]);
+  const getHistoricalPrice = createPriceHistoryLookup(priceHistory);
+  
+  // Stock not covered by a cost layer uses the supplier price in effect when the order
+  // was placed, or the current inventory price for SKUs without price history
+  const newCosts = costOrders(
+    orders,
+    buildCostLayers(purchaseOrders, purchaseOrderItems, receiptLines),
+    method,
+    frozenCosts,
+    (item, orderDate) => getHistoricalPrice(item.sku, orderDate) ?? getCostPrice(item, inventoryMap)
+  );
+  
+  await saveOrderCosts(newCosts);
+  newCosts.forEach(cost => frozenCosts.set(cost.order_id, cost));
+  
+  return frozenCosts;
+};
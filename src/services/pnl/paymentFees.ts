@@ -0,0 +1,42 @@
+import { Order, PaymentFeeSchedule } from '../../types';
+import { getSetting, PAYMENT_FEE_SCHEDULES_SETTING } from '../../db';
+import { getDayInZone, getOrderDate } from '../../utils/dateRange';
+
+// Get the payment gateway fee schedules of the active store
+export const getPaymentFeeSchedules = async (): Promise<PaymentFeeSchedule[]> => {
+  return await getSetting<PaymentFeeSchedule[]>(PAYMENT_FEE_SCHEDULES_SETTING) || [];
+};
+
+/**
+ * Find the fee schedule that applies to an order
+ * Schedules match on the order's payment method and the store day it was
+ * placed; when several match, the one that took effect last wins.
+ */
+export const findPaymentFeeSchedule = (
+  order: Order,
+  schedules: PaymentFeeSchedule[]
+): PaymentFeeSchedule | undefined => {
+  if (!order.payment_method) return undefined;
+
+  const day = getDayInZone(getOrderDate(order));
+
+  return schedules
+    .filter(schedule =>
+      schedule.payment_method === order.payment_method &&
+      (!schedule.effective_from || schedule.effective_from <= day) &&
+      (!schedule.effective_to || schedule.effective_to >= day)
+    )
+    .sort((a, b) => (b.effective_from || '').localeCompare(a.effective_from || ''))[0];
+};
+
+// Work out the fee on an amount charged, using the highest tier the amount reaches
+export const calculatePaymentFee = (schedule: PaymentFeeSchedule, amount: number): number => {
+  if (amount <= 0) return 0;
+
+  const tier = (schedule.tiers || [])
+    .filter(tier => amount >= tier.min_amount)
+    .sort((a, b) => b.min_amount - a.min_amount)[0];
+  const rates = tier || schedule;
+
+  return amount * rates.percentage / 100 + rates.fixed;
+};
@@ -0,0 +1,30 @@
+import { SupplierPriceHistory } from '../../types';
+
+/**
+ * Create a lookup of the supplier price in effect for a SKU at an instant
+ * Returns undefined when the SKU has no price recorded on or before that date.
+ */
+export function createPriceHistoryLookup(history: SupplierPriceHistory[]) {
+  const historyBySku = new Map<string, SupplierPriceHistory[]>();
+  
+  history.forEach(entry => {
+    const entries = historyBySku.get(entry.sku) || [];
+    entries.push(entry);
+    historyBySku.set(entry.sku, entries);
+  });
+  
+  historyBySku.forEach(entries => {
+    entries.sort((a, b) => new Date(a.effective_date).getTime() - new Date(b.effective_date).getTime());
+  });
+  
+  return (sku: string | undefined, date: Date): number | undefined => {
+    if (!sku) return undefined;
+    
+    let price: number | undefined;
+    for (const entry of historyBySku.get(sku) || []) {
+      if (new Date(entry.effective_date) > date) break;
+      price = entry.price;
+    }
+    return price;
+  };
+}
@@ -0,0 +1,71 @@
+import { Order, OrderItem } from '../../types';
+import { getSetting, PNL_ORDER_STATUSES_SETTING } from '../../db';
+
+// Order statuses counted in the P&L unless configured otherwise
+// Refunded orders are included so their refunds can net them out.
+export const DEFAULT_PNL_ORDER_STATUSES = ['processing', 'completed', 'on-hold', 'refunded'];
+
+// Every WooCommerce order status, for the settings screen
+export const ORDER_STATUSES = [
+  'pending',
+  'processing',
+  'on-hold',
+  'completed',
+  'cancelled',
+  'refunded',
+  'failed',
+  'checkout-draft'
+];
+
+// Line item meta WooCommerce uses to record how many refunded items went back into stock
+const RESTOCKED_ITEMS_META_KEY = '_restock_refunded_items';
+
+// Get the order statuses counted in the active store's P&L
+export const getPnlOrderStatuses = async (): Promise<string[]> => {
+  return await getSetting<string[]>(PNL_ORDER_STATUSES_SETTING) || DEFAULT_PNL_ORDER_STATUSES;
+};
+
+const parseAmount = (value: string | number | undefined): number => {
+  const amount = typeof value === 'number' ? value : parseFloat(value || '0');
+  return isNaN(amount) ? 0 : amount;
+};
+
+/**
+ * Get the amount refunded on an order
+ * Uses the full refunds when they were synced, then the refund summary that
+ * comes with the order. A refunded order with neither counts as fully refunded.
+ */
+export const getOrderRefundTotal = (order: Order): number => {
+  if (order.refund_details && order.refund_details.length > 0) {
+    return order.refund_details.reduce((sum, refund) => sum + parseAmount(refund.amount), 0);
+  }
+
+  if (order.refunds && order.refunds.length > 0) {
+    return order.refunds.reduce((sum, refund) => sum + Math.abs(parseAmount(refund.total)), 0);
+  }
+
+  return order.status === 'refunded' ? parseAmount(order.total) : 0;
+};
+
+// Get the refunded quantity and amount of each line item of an order
+export const getRefundedLines = (order: Order): Map<number, { quantity: number; total: number }> => {
+  const refundedLines = new Map<number, { quantity: number; total: number }>();
+
+  for (const refund of order.refund_details || []) {
+    for (const line of refund.line_items) {
+      const refunded = refundedLines.get(line.line_item_id) || { quantity: 0, total: 0 };
+      refundedLines.set(line.line_item_id, {
+        quantity: refunded.quantity + line.quantity,
+        total: refunded.total + line.total
+      });
+    }
+  }
+
+  return refundedLines;
+};
+
+// Get how many of a line item's refunded units were put back into stock
+export const getRestockedQuantity = (item: OrderItem): number => {
+  const meta = item.meta_data?.find(entry => entry.key === RESTOCKED_ITEMS_META_KEY);
+  return meta ? Math.max(0, parseAmount(meta.value)) : 0;
+};
@@ -0,0 +1,97 @@
+import { Address, Order, Product, ProductVariation, ShippingRateRule } from '../../types';
+import { getSetting, SHIPPING_RATE_RULES_SETTING } from '../../db';
+
+// Get the shipping rate rules of the active store
+export const getShippingRateRules = async (): Promise<ShippingRateRule[]> => {
+  return await getSetting<ShippingRateRule[]>(SHIPPING_RATE_RULES_SETTING) || [];
+};
+
+// Get the shipping charged on an order, excluding GST
+export const getOrderShippingCharged = (order: Order): number => {
+  const shipping = parseFloat(order.shipping_total);
+  return isNaN(shipping) ? 0 : shipping;
+};
+
+const parseWeight = (value?: string): number | null => {
+  const weight = parseFloat(value || '');
+  return isNaN(weight) ? null : weight;
+};
+
+/**
+ * Work out the weight of an order from its products
+ * Variations without a weight of their own use their product's, as
+ * WooCommerce does. Returns null when any item's weight is unknown.
+ */
+export const getOrderWeight = (
+  order: Order,
+  productMap: Map<number, Product>,
+  variationMap: Map<number, ProductVariation>
+): number | null => {
+  let total = 0;
+
+  for (const item of order.line_items) {
+    const variation = item.variation_id ? variationMap.get(item.variation_id) : undefined;
+    const weight = parseWeight(variation?.weight) ?? parseWeight(productMap.get(item.product_id)?.weight);
+    if (weight === null) return null;
+    total += weight * item.quantity;
+  }
+
+  return total;
+};
+
+// Get the address an order was shipped to, falling back to billing for orders without one
+const getShippingAddress = (order: Order): Address | undefined => {
+  return order.shipping?.country ? order.shipping : order.billing;
+};
+
+// Check whether an address is in a rule's zone: its country, then any of its states or postcodes
+const isInZone = (rule: ShippingRateRule, address?: Address): boolean => {
+  const country = (address?.country || '').toUpperCase();
+  if (rule.country && rule.country.trim().toUpperCase() !== country) {
+    return false;
+  }
+
+  const regions = rule.regions.split(',').map(region => region.trim()).filter(Boolean);
+  if (regions.length === 0) {
+    return true;
+  }
+
+  const state = (address?.state || '').toUpperCase();
+  const postcode = (address?.postcode || '').trim();
+  const postcodeNumber = parseInt(postcode, 10);
+
+  return regions.some(region => {
+    const range = region.match(/^(\d+)\s*-\s*(\d+)$/);
+    if (range) {
+      return !isNaN(postcodeNumber) && postcodeNumber >= parseInt(range[1], 10) && postcodeNumber <= parseInt(range[2], 10);
+    }
+    return region.toUpperCase() === (/^\d+$/.test(region) ? postcode : state);
+  });
+};
+
+/**
+ * Find the rate rule for shipping an order of a weight
+ * Rules for states or postcodes win over rules for a whole country, which win
+ * over rules for any country; otherwise the first matching rule is used.
+ */
+export const findShippingRateRule = (
+  order: Order,
+  weight: number,
+  rules: ShippingRateRule[]
+): ShippingRateRule | undefined => {
+  const address = getShippingAddress(order);
+  const getSpecificity = (rule: ShippingRateRule) => (rule.regions.trim() ? 2 : rule.country.trim() ? 1 : 0);
+
+  return rules
+    .filter(rule =>
+      weight >= rule.min_weight &&
+      (rule.max_weight === undefined || weight < rule.max_weight) &&
+      isInZone(rule, address)
+    )
+    .sort((a, b) => getSpecificity(b) - getSpecificity(a))[0];
+};
+
+// Work out what a rule charges for a weight
+export const calculateShippingRate = (rule: ShippingRateRule, weight: number): number => {
+  return rule.base_cost + rule.cost_per_weight * weight;
+};
@@ -0,0 +1,78 @@
+import { DateRange, ReportingBasis } from '../../types';
+import { getOrders, getOrdersCreatedBetween, getOrdersPaidBetween } from '../../db/operations/orders';
+import { getInventory } from '../../db/operations/inventory';
+import { getOverheadCosts } from '../../db/operations/overhead';
+import { getOrderCosts } from '../../db/operations/orderCosts';
+import { getAdditionalRevenue } from '../../db/operations/additionalRevenue';
+import { isOrderInDateRange } from '../../utils/dateRange';
+import { calculateProfitAndLoss } from './index';
+import { resolveOrderCosts } from './orderCosts';
+import { createInventoryMap } from './inventoryUtils';
+import { STOCK_CONSUMING_STATUSES } from './costLayers';
+import { getReportingBasis } from './basis';
+
+export interface StorePnLOptions {
+  // List orders of every status instead of only those counted in the P&L
+  allStatuses?: boolean;
+  // Recognise sales and costs on this basis instead of the store's setting
+  basis?: ReportingBasis;
+}
+
+export type StorePnLResult = Awaited<ReturnType<typeof calculateProfitAndLoss>>;
+
+// Messages exchanged with the P&L worker
+export interface StorePnLRequest {
+  id: number;
+  storeId: number;
+  dateRange: DateRange;
+  options: StorePnLOptions;
+}
+
+export type StorePnLResponse =
+  | { id: number; result: StorePnLResult }
+  | { id: number; error: string };
+
+/**
+ * Calculate the active store's P&L for a date range
+ * Only the orders in the range are read, using the date_created index, or the
+ * date_paid_gmt index on the cash basis. The whole order history is loaded only
+ * when orders still need their cost of goods frozen, as costing replays every
+ * earlier order.
+ */
+export const calculateStorePnL = async (
+  dateRange: DateRange,
+  options: StorePnLOptions = {}
+): Promise<StorePnLResult> => {
+  const basis = options.basis || await getReportingBasis();
+  const [rangeOrders, inventory, overheadCosts, frozenCosts, additionalRevenue] = await Promise.all([
+    basis === 'cash'
+      ? getOrdersPaidBetween(dateRange.startDate, dateRange.endDate)
+      : getOrdersCreatedBetween(dateRange.startDate, dateRange.endDate),
+    getInventory(),
+    getOverheadCosts(),
+    getOrderCosts(),
+    getAdditionalRevenue(dateRange.startDate, dateRange.endDate)
+  ]);
+  const orders = rangeOrders.filter(order => isOrderInDateRange(order, dateRange, basis));
+
+  const costedOrderIds = new Set(frozenCosts.map(cost => cost.order_id));
+  const needsCosting = orders.some(order =>
+    STOCK_CONSUMING_STATUSES.includes(order.status) && !costedOrderIds.has(order.id)
+  );
+  const orderCosts = needsCosting
+    ? [...(await resolveOrderCosts(await getOrders(), createInventoryMap(inventory))).values()]
+    : frozenCosts;
+
+  return await calculateProfitAndLoss(
+    orders,
+    inventory,
+    overheadCosts,
+    dateRange,
+    additionalRevenue,
+    {
+      orderCosts,
+      orderStatuses: options.allStatuses ? [...new Set(orders.map(order => order.status))] : undefined,
+      basis
+    }
+  );
+};
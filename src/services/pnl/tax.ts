@@ -0,0 +1,78 @@
+import { AdditionalRevenue, Expense, ExpenseCategory, Order, PurchaseOrder } from '../../types';
+import { getOrderRefundTotal } from './refunds';
+
+const parseAmount = (value: string | number | undefined): number => {
+  const amount = typeof value === 'number' ? value : parseFloat(value || '0');
+  return isNaN(amount) ? 0 : amount;
+};
+
+// Share of a tax-inclusive amount that is GST, e.g. 3/23 at 15%
+export const getTaxFraction = (gstRate: number): number => {
+  return gstRate > 0 ? gstRate / (100 + gstRate) : 0;
+};
+
+/**
+ * Get the GST collected on an order after refunds
+ * WooCommerce reports the tax on items and shipping in total_tax. Refunds take
+ * back the same share of the tax as of the order total.
+ */
+export const getOrderTax = (order: Order): number => {
+  const totalTax = parseAmount(order.total_tax);
+  const total = parseAmount(order.total);
+  if (totalTax === 0 || total <= 0) {
+    return 0;
+  }
+
+  const refundTotal = order.refund_total ?? getOrderRefundTotal(order);
+  return totalTax * Math.max(0, 1 - refundTotal / total);
+};
+
+// Get an order's revenue after refunds, excluding GST
+export const getOrderRevenue = (order: Order): number => {
+  return parseAmount(order.total)
+    - (order.refund_total ?? getOrderRefundTotal(order))
+    - (order.tax_total ?? getOrderTax(order));
+};
+
+// Set the GST claimed on each expense; expenses in tax-deductible categories include GST
+export const applyExpenseTax = (
+  expenses: Expense[],
+  categories: ExpenseCategory[],
+  gstRate: number
+): Expense[] => {
+  const deductibleCategories = new Set(categories.filter(category => category.is_tax_deductible).map(category => category.name));
+  const taxFraction = getTaxFraction(gstRate);
+
+  return expenses.map(expense => {
+    const includesTax = expense.tax_deductible ?? deductibleCategories.has(expense.category);
+    return { ...expense, tax_amount: includesTax ? (expense.amount || 0) * taxFraction : 0 };
+  });
+};
+
+// Set the GST collected on each additional revenue entry that includes tax
+export const applyAdditionalRevenueTax = (
+  additionalRevenue: AdditionalRevenue[],
+  gstRate: number
+): AdditionalRevenue[] => {
+  const taxFraction = getTaxFraction(gstRate);
+
+  return additionalRevenue.map(revenue => ({
+    ...revenue,
+    tax_amount: revenue.tax_included ? (revenue.amount || 0) * taxFraction : 0
+  }));
+};
+
+// Get an expense amount excluding GST
+export const getExpenseNetAmount = (expense: Expense): number => {
+  return (expense.amount || 0) - (expense.tax_amount || 0);
+};
+
+// Get an additional revenue amount excluding GST
+export const getAdditionalRevenueNetAmount = (revenue: AdditionalRevenue): number => {
+  return (revenue.amount || 0) - (revenue.tax_amount || 0);
+};
+
+// Get the GST paid on a purchase order
+export const getPurchaseOrderTax = (purchaseOrder: PurchaseOrder): number => {
+  return purchaseOrder.tax_amount || 0;
+};
@@ -0,0 +1,315 @@
+/**
+ * Axios adapter that answers WooCommerce REST API requests from fixtures
+ * Supports the endpoints the sync and push services use, with WooCommerce's
+ * filtering, ordering and pagination, so they run unchanged without a store.
+ */
+import { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { fromZonedTime } from 'date-fns-tz';
+import { ApiRecord, ReplayFixtures } from '../../types';
+import { getStoreTimezone } from '../../utils/storeProfile';
+import { toApiDateTime } from '../../utils/dateRange';
+
+// Base URL of replay clients; requests never leave the browser
+export const REPLAY_BASE_URL = 'replay://woocommerce/wp-json/wc/v3';
+
+type Params = Record<string, unknown>;
+
+interface ReplayResult {
+  status: number;
+  data: unknown;
+  total?: number; // Sets x-wp-total and x-wp-totalpages on list responses
+  totalPages?: number;
+}
+
+interface Route {
+  method: 'get' | 'post';
+  pattern: RegExp;
+  handle: (fixtures: ReplayFixtures, match: RegExpMatchArray, params: Params, body: Params) => ReplayResult;
+}
+
+// WooCommerce error bodies carry a code, a message and the status
+const errorResult = (status: number, code: string, message: string): ReplayResult => ({
+  status,
+  data: { code, message, data: { status } }
+});
+
+const notFound = (message: string) => errorResult(404, 'woocommerce_rest_invalid_id', message);
+
+const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const toList = (value: unknown): string[] => {
+  if (value === undefined || value === null || value === '') return [];
+  return String(value).split(',').map(item => item.trim()).filter(Boolean);
+};
+
+// Read a date filter; without dates_are_gmt WooCommerce reads it as store-local time
+const parseDateParam = (value: unknown, params: Params): Date | null => {
+  if (!value) return null;
+  const text = String(value).replace(/Z$/, '');
+  const isGmt = params.dates_are_gmt === true || params.dates_are_gmt === 'true';
+  return isGmt ? new Date(`${text}Z`) : fromZonedTime(text, getStoreTimezone());
+};
+
+const getRecordDate = (record: ApiRecord, field: 'date_created_gmt' | 'date_modified_gmt'): Date | null => {
+  const value = record[field];
+  return typeof value === 'string' ? new Date(`${value}Z`) : null;
+};
+
+// Apply the filters WooCommerce list endpoints share
+const filterRecords = (records: ApiRecord[], params: Params): ApiRecord[] => {
+  const include = new Set(toList(params.include).map(id => parseInt(id, 10)));
+  const exclude = new Set(toList(params.exclude).map(id => parseInt(id, 10)));
+  const statuses = toList(params.status).filter(status => status !== 'any');
+  const after = parseDateParam(params.after, params);
+  const before = parseDateParam(params.before, params);
+  const modifiedAfter = parseDateParam(params.modified_after, params);
+  const modifiedBefore = parseDateParam(params.modified_before, params);
+
+  return records.filter(record => {
+    if (include.size > 0 && !include.has(record.id)) return false;
+    if (exclude.has(record.id)) return false;
+    if (statuses.length > 0 && !statuses.includes(String(record.status))) return false;
+
+    // WooCommerce date filters are exclusive
+    const created = getRecordDate(record, 'date_created_gmt');
+    if (after && (!created || created <= after)) return false;
+    if (before && (!created || created >= before)) return false;
+
+    const modified = getRecordDate(record, 'date_modified_gmt');
+    if (modifiedAfter && (!modified || modified <= modifiedAfter)) return false;
+    if (modifiedBefore && (!modified || modified >= modifiedBefore)) return false;
+
+    return true;
+  });
+};
+
+// Order records the way WooCommerce does; the default is newest first by creation date
+const sortRecords = (records: ApiRecord[], params: Params): ApiRecord[] => {
+  const field = params.orderby === 'modified' ? 'date_modified_gmt' : params.orderby === 'id' ? 'id' : 'date_created_gmt';
+  const direction = params.order === 'asc' ? 1 : -1;
+
+  return [...records].sort((a, b) => {
+    const valueA = String(a[field] ?? '');
+    const valueB = String(b[field] ?? '');
+    const compared = field === 'id' ? a.id - b.id : valueA.localeCompare(valueB) || a.id - b.id;
+    return compared * direction;
+  });
+};
+
+// Return one page of a list with the totals WooCommerce puts in its headers
+const paginate = (records: ApiRecord[], params: Params): ReplayResult => {
+  const perPage = Math.min(Math.max(parseInt(String(params.per_page ?? 10), 10) || 10, 1), 100);
+  const page = Math.max(parseInt(String(params.page ?? 1), 10) || 1, 1);
+  const totalPages = Math.ceil(records.length / perPage);
+
+  if (page > 1 && page > totalPages) {
+    return errorResult(400, 'rest_post_invalid_page_number', 'The page number requested is larger than the number of pages available.');
+  }
+
+  return {
+    status: 200,
+    data: clone(records.slice((page - 1) * perPage, page * perPage)),
+    total: records.length,
+    totalPages
+  };
+};
+
+const listRecords = (records: ApiRecord[], params: Params) => paginate(sortRecords(filterRecords(records, params), params), params);
+
+// Merge an update into a record; meta data is merged by key like WooCommerce does
+const applyUpdate = (record: ApiRecord, update: Params): ApiRecord => {
+  const { meta_data: metaUpdates, ...fields } = update;
+  const updated: ApiRecord = { ...record, ...fields, id: record.id, date_modified_gmt: toApiDateTime(new Date()) };
+
+  if (Array.isArray(metaUpdates)) {
+    const metaData = [...((record.meta_data as Array<{ key: string; value: unknown }>) || [])];
+    for (const meta of metaUpdates as Array<{ key: string; value: unknown }>) {
+      const index = metaData.findIndex(existing => existing.key === meta.key);
+      if (index >= 0) {
+        metaData[index] = { ...metaData[index], value: meta.value };
+      } else {
+        metaData.push(meta);
+      }
+    }
+    updated.meta_data = metaData;
+  }
+
+  return updated;
+};
+
+// Apply a batch request's updates; each object succeeds or fails on its own
+const batchUpdate = (records: ApiRecord[], body: Params): ReplayResult => {
+  const updates = Array.isArray(body.update) ? body.update as Params[] : [];
+
+  const results = updates.map(update => {
+    const id = Number(update.id);
+    const index = records.findIndex(record => record.id === id);
+    if (index < 0) {
+      return { id, error: { code: 'woocommerce_rest_invalid_id', message: 'Invalid ID.', data: { status: 400 } } };
+    }
+
+    records[index] = applyUpdate(records[index], update);
+    return clone(records[index]);
+  });
+
+  return { status: 200, data: { update: results } };
+};
+
+const findRecord = (records: ApiRecord[], id: string) => records.find(record => record.id === parseInt(id, 10));
+
+const ROUTES: Route[] = [
+  {
+    method: 'get',
+    pattern: /^\/products$/,
+    handle: (fixtures, _match, params) => listRecords(fixtures.products, params)
+  },
+  {
+    method: 'post',
+    pattern: /^\/products\/batch$/,
+    handle: (fixtures, _match, _params, body) => batchUpdate(fixtures.products, body)
+  },
+  {
+    method: 'get',
+    pattern: /^\/products\/(\d+)$/,
+    handle: (fixtures, match) => {
+      const product = findRecord(fixtures.products, match[1]);
+      return product ? { status: 200, data: clone(product) } : notFound('Invalid ID.');
+    }
+  },
+  {
+    method: 'get',
+    pattern: /^\/products\/(\d+)\/variations$/,
+    handle: (fixtures, match, params) => {
+      if (!findRecord(fixtures.products, match[1])) return notFound('Invalid ID.');
+      return listRecords(fixtures.variations[parseInt(match[1], 10)] || [], params);
+    }
+  },
+  {
+    method: 'post',
+    pattern: /^\/products\/(\d+)\/variations\/batch$/,
+    handle: (fixtures, match, _params, body) => {
+      const productId = parseInt(match[1], 10);
+      if (!fixtures.variations[productId]) return notFound('Invalid ID.');
+      return batchUpdate(fixtures.variations[productId], body);
+    }
+  },
+  {
+    method: 'get',
+    pattern: /^\/orders$/,
+    handle: (fixtures, _match, params) => listRecords(fixtures.orders, params)
+  },
+  {
+    method: 'get',
+    pattern: /^\/orders\/(\d+)$/,
+    handle: (fixtures, match) => {
+      const order = findRecord(fixtures.orders, match[1]);
+      return order ? { status: 200, data: clone(order) } : notFound('Invalid ID.');
+    }
+  },
+  {
+    method: 'get',
+    pattern: /^\/orders\/(\d+)\/refunds$/,
+    handle: (fixtures, match, params) => {
+      if (!findRecord(fixtures.orders, match[1])) return notFound('Invalid order ID.');
+      return listRecords(fixtures.refunds[parseInt(match[1], 10)] || [], params);
+    }
+  },
+  {
+    method: 'get',
+    pattern: /^\/refunds$/,
+    handle: (fixtures, _match, params) => {
+      // Refunds of all orders, each with the order it belongs to
+      const refunds = Object.entries(fixtures.refunds).flatMap(([orderId, orderRefunds]) =>
+        orderRefunds.map(refund => ({ ...refund, parent_id: parseInt(orderId, 10) })));
+      return listRecords(refunds, params);
+    }
+  },
+  {
+    method: 'get',
+    pattern: /^\/customers$/,
+    handle: (fixtures, _match, params) => listRecords(fixtures.customers || [], params)
+  },
+  {
+    method: 'get',
+    pattern: /^\/system_status$/,
+    handle: (fixtures) => ({ status: 200, data: { environment: { site_url: `replay://${fixtures.name}` } } })
+  }
+];
+
+// Get the endpoint path of a request, relative to the API base
+const getPath = (config: InternalAxiosRequestConfig): string => {
+  const url = (config.url || '').split('?')[0];
+  const path = url.startsWith(REPLAY_BASE_URL) ? url.slice(REPLAY_BASE_URL.length) : url;
+  return `/${path.replace(/^\/+|\/+$/g, '')}`;
+};
+
+const parseBody = (data: unknown): Params => {
+  if (typeof data === 'string' && data) {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return {};
+    }
+  }
+  return (data as Params) || {};
+};
+
+const buildResponse = (config: InternalAxiosRequestConfig, result: ReplayResult): AxiosResponse => {
+  const headers = new AxiosHeaders({ 'content-type': 'application/json; charset=UTF-8' });
+  if (result.total !== undefined) {
+    headers.set('x-wp-total', String(result.total));
+    headers.set('x-wp-totalpages', String(result.totalPages));
+  }
+
+  return {
+    data: result.data,
+    status: result.status,
+    statusText: result.status < 400 ? 'OK' : 'Error',
+    headers,
+    config,
+    request: { replay: true }
+  };
+};
+
+/**
+ * Create an adapter that serves requests from a fixture set
+ * Batch updates change the fixtures in place; onChange is called after each so
+ * they can be saved.
+ */
+export const createReplayAdapter = (
+  fixtures: ReplayFixtures,
+  onChange?: (fixtures: ReplayFixtures) => Promise<void>
+): AxiosAdapter => {
+  return async (config) => {
+    const method = (config.method || 'get').toLowerCase();
+    const path = getPath(config);
+    const params: Params = { ...(config.params || {}) };
+
+    let result: ReplayResult | null = null;
+    for (const route of ROUTES) {
+      const match = path.match(route.pattern);
+      if (match && route.method === method) {
+        result = route.handle(fixtures, match, params, parseBody(config.data));
+        if (method === 'post' && onChange) {
+          await onChange(fixtures);
+        }
+        break;
+      }
+    }
+
+    const response = buildResponse(config, result || errorResult(404, 'rest_no_route', 'No route was found matching the URL and request method.'));
+
+    const validateStatus = config.validateStatus || ((status: number) => status >= 200 && status < 300);
+    if (validateStatus(response.status)) {
+      return response;
+    }
+
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE,
+      config,
+      response.request,
+      response
+    );
+  };
+};
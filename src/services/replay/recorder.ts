@@ -0,0 +1,91 @@
+/**
+ * Record live WooCommerce responses into a fixture set for replaying later
+ */
+import { AxiosResponse } from 'axios';
+import { ApiRecord, ReplayFixtures } from '../../types';
+import { getReplayFixtures, saveReplayFixtures } from '../../db';
+
+export const createEmptyFixtures = (name: string, source: ReplayFixtures['source']): ReplayFixtures => ({
+  name,
+  source,
+  products: [],
+  variations: {},
+  orders: [],
+  refunds: {},
+  customers: [],
+  created_at: new Date(),
+  updated_at: new Date()
+});
+
+// Add records to a list, replacing any with the same id
+const upsertRecords = (existing: ApiRecord[], records: ApiRecord[]): ApiRecord[] => {
+  const byId = new Map(existing.map(record => [record.id, record]));
+  for (const record of records) {
+    byId.set(record.id, record);
+  }
+  return Array.from(byId.values());
+};
+
+/**
+ * Merge a response into a fixture set
+ * Returns false for responses of endpoints replay mode does not serve.
+ */
+export const mergeResponse = (fixtures: ReplayFixtures, path: string, data: unknown): boolean => {
+  if (!Array.isArray(data)) {
+    return false;
+  }
+  const records = data as ApiRecord[];
+
+  let match: RegExpMatchArray | null;
+  if (path === '/products') {
+    fixtures.products = upsertRecords(fixtures.products, records);
+  } else if ((match = path.match(/^\/products\/(\d+)\/variations$/))) {
+    const productId = parseInt(match[1], 10);
+    fixtures.variations[productId] = upsertRecords(fixtures.variations[productId] || [], records);
+  } else if (path === '/orders') {
+    fixtures.orders = upsertRecords(fixtures.orders, records);
+  } else if ((match = path.match(/^\/orders\/(\d+)\/refunds$/))) {
+    const orderId = parseInt(match[1], 10);
+    fixtures.refunds[orderId] = upsertRecords(fixtures.refunds[orderId] || [], records);
+  } else if (path === '/customers') {
+    fixtures.customers = upsertRecords(fixtures.customers || [], records);
+  } else {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Create a response interceptor that records into a fixture set
+ * The set is loaded once and saved after every recorded response; saves run
+ * one after another so concurrent responses are not lost.
+ */
+export const createResponseRecorder = (name: string) => {
+  let fixtures: ReplayFixtures | null = null;
+  let pending: Promise<void> = Promise.resolve();
+
+  return (response: AxiosResponse): AxiosResponse => {
+    if ((response.config.method || 'get').toLowerCase() !== 'get') {
+      return response;
+    }
+
+    const path = `/${(response.config.url || '').split('?')[0].replace(/^\/+|\/+$/g, '')}`;
+
+    pending = pending.then(async () => {
+      try {
+        if (!fixtures) {
+          fixtures = await getReplayFixtures(name) || createEmptyFixtures(name, 'recorded');
+        }
+        if (mergeResponse(fixtures, path, response.data)) {
+          await saveReplayFixtures(fixtures);
+        }
+      } catch (error) {
+        // Recording must never break the sync it observes
+        console.error(`Error recording response for ${path}:`, error);
+      }
+    });
+
+    return response;
+  };
+};
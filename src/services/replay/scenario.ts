@@ -0,0 +1,445 @@
+/**
+ * Generate a realistic WooCommerce store to replay
+ * Products, variations, orders and refunds are shaped like REST API responses.
+ * Generation is seeded, so a scenario can be regenerated exactly for regression
+ * testing.
+ */
+import { addDays, addHours, addMinutes, subMonths } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { ApiRecord, ReplayFixtures, ReplayScenarioOptions } from '../../types';
+import { getStoreTimezone } from '../../utils/storeProfile';
+import { getDayInZone, shiftDay, startOfDayInZone, toApiDateTime } from '../../utils/dateRange';
+import { createEmptyFixtures } from './recorder';
+
+export const DEFAULT_SCENARIO_OPTIONS: ReplayScenarioOptions = {
+  seed: 1,
+  productCount: 40,
+  variableShare: 0.25,
+  months: 12,
+  ordersPerDay: 8,
+  refundRate: 0.04,
+  couponRate: 0.12,
+  gstRate: 15
+};
+
+const COST_META_KEY = '_wc_cog_cost';
+
+const PRODUCT_ADJECTIVES = ['Organic', 'Classic', 'Premium', 'Natural', 'Handmade', 'Wild', 'Everyday', 'Deluxe', 'Pure', 'Rustic'];
+const PRODUCT_NOUNS = ['Manuka Honey', 'Green Tea', 'Coffee Beans', 'Dark Chocolate', 'Olive Oil', 'Sea Salt', 'Granola', 'Hand Cream', 'Soy Candle', 'Lip Balm', 'Body Wash', 'Muesli Bars'];
+const VARIATION_ATTRIBUTES = [
+  { name: 'Size', options: ['Small', 'Medium', 'Large'] },
+  { name: 'Weight', options: ['250g', '500g', '1kg'] },
+  { name: 'Scent', options: ['Lavender', 'Citrus', 'Unscented'] }
+];
+const FIRST_NAMES = ['Aroha', 'James', 'Mei', 'Liam', 'Priya', 'Sam', 'Olivia', 'Tane', 'Grace', 'Noah', 'Ella', 'Ravi'];
+const LAST_NAMES = ['Smith', 'Williams', 'Ngata', 'Chen', 'Patel', 'Brown', 'Wilson', 'Taylor', 'Singh', 'Walker'];
+const CITIES = ['Auckland', 'Wellington', 'Christchurch', 'Hamilton', 'Tauranga', 'Dunedin', 'Nelson'];
+const PAYMENT_METHODS = [
+  { id: 'stripe', title: 'Credit Card (Stripe)', weight: 0.6 },
+  { id: 'ppcp-gateway', title: 'PayPal', weight: 0.25 },
+  { id: 'bacs', title: 'Direct bank transfer', weight: 0.15 }
+];
+const COUPONS = [
+  { code: 'welcome10', percent: 10, weight: 0.5 },
+  { code: 'summer20', percent: 20, weight: 0.3 },
+  { code: 'vip30', percent: 30, weight: 0.2 }
+];
+const REFUND_REASONS = ['Damaged in transit', 'Wrong item sent', 'Changed mind', 'Item out of stock', ''];
+
+// Small, fast seeded random number generator (mulberry32)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min: number, max: number) => Math.floor(next() * (max - min + 1)) + min,
+    pick: <T,>(items: T[]): T => items[Math.floor(next() * items.length)],
+    chance: (probability: number) => next() < probability
+  };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+const money = (amount: number) => (Math.round(amount * 100) / 100).toFixed(2);
+
+// Prices end in .99 or .50 or are whole dollars, like most shop prices
+const shopPrice = (random: Random, min: number, max: number) => {
+  const dollars = random.int(min, max);
+  return dollars + random.pick([0, 0.5, 0.99]);
+};
+
+// Pick from items weighted towards the front, so some products sell far more than others
+const pickPopular = <T,>(random: Random, items: T[]): T => {
+  return items[Math.floor(Math.pow(random.next(), 2) * items.length)];
+};
+
+const pickWeighted = <T extends { weight: number },>(random: Random, items: T[]): T => {
+  let roll = random.next();
+  for (const item of items) {
+    if (roll < item.weight) return item;
+    roll -= item.weight;
+  }
+  return items[items.length - 1];
+};
+
+// WooCommerce dates: date_created is store-local time, the _gmt fields are UTC, neither has an offset
+const apiDates = (date: Date, prefix: 'date_created' | 'date_modified' | 'date_paid' | 'date_completed') => ({
+  [prefix]: formatInTimeZone(date, getStoreTimezone(), "yyyy-MM-dd'T'HH:mm:ss"),
+  [`${prefix}_gmt`]: toApiDateTime(date)
+});
+
+interface ScenarioCustomer {
+  id: number; // 0 for guests
+  first_name: string;
+  last_name: string;
+  email: string;
+  city: string;
+}
+
+// A sellable item: a simple product or a variation of a variable product
+interface Sellable {
+  productId: number;
+  variationId: number;
+  name: string;
+  sku: string;
+  price: number; // Including GST
+}
+
+const generateProducts = (random: Random, options: ReplayScenarioOptions, createdAt: Date, fixtures: ReplayFixtures): Sellable[] => {
+  const sellables: Sellable[] = [];
+  const usedNames = new Set<string>();
+  let nextVariationId = 5000;
+
+  for (let index = 0; index < options.productCount; index++) {
+    const id = 100 + index;
+    let name = `${random.pick(PRODUCT_ADJECTIVES)} ${random.pick(PRODUCT_NOUNS)}`;
+    if (usedNames.has(name)) {
+      name = `${name} ${index + 1}`;
+    }
+    usedNames.add(name);
+
+    const sku = `SKU-${id}`;
+    const isVariable = random.chance(options.variableShare);
+    const basePrice = shopPrice(random, 6, 80);
+    const costShare = 0.35 + random.next() * 0.25; // Cost is 35-60% of the price excluding GST
+    const gstDivisor = 1 + options.gstRate / 100;
+    const modified = addDays(createdAt, random.int(0, 30));
+
+    const product: ApiRecord = {
+      id,
+      name,
+      slug: name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+      type: isVariable ? 'variable' : 'simple',
+      status: 'publish',
+      sku,
+      price: money(basePrice),
+      regular_price: isVariable ? '' : money(basePrice),
+      sale_price: '',
+      manage_stock: !isVariable,
+      stock_quantity: isVariable ? null : random.int(0, 150),
+      stock_status: 'instock',
+      attributes: [],
+      variations: [],
+      meta_data: isVariable ? [] : [{ id: id * 10, key: COST_META_KEY, value: money(basePrice / gstDivisor * costShare) }],
+      ...apiDates(createdAt, 'date_created'),
+      ...apiDates(modified, 'date_modified')
+    };
+
+    if (isVariable) {
+      const attribute = random.pick(VARIATION_ATTRIBUTES);
+      const variations: ApiRecord[] = attribute.options.map((option, optionIndex) => {
+        const variationId = nextVariationId++;
+        const price = Math.round(basePrice * (1 + optionIndex * 0.6) * 100) / 100;
+        const variationSku = `${sku}-${option.toUpperCase().replace(/[^A-Z0-9]/g, '')}`;
+
+        sellables.push({ productId: id, variationId, name: `${name} - ${option}`, sku: variationSku, price });
+
+        return {
+          id: variationId,
+          sku: variationSku,
+          price: money(price),
+          regular_price: money(price),
+          sale_price: '',
+          manage_stock: true,
+          stock_quantity: random.int(0, 80),
+          stock_status: 'instock',
+          attributes: [{ id: 0, name: attribute.name, option }],
+          meta_data: [{ id: variationId * 10, key: COST_META_KEY, value: money(price / gstDivisor * costShare) }],
+          ...apiDates(createdAt, 'date_created'),
+          ...apiDates(modified, 'date_modified')
+        };
+      });
+
+      product.attributes = [{ id: 0, name: attribute.name, position: 0, visible: true, variation: true, options: attribute.options }];
+      product.variations = variations.map(variation => variation.id);
+      fixtures.variations[id] = variations;
+    } else {
+      sellables.push({ productId: id, variationId: 0, name, sku, price: basePrice });
+    }
+
+    fixtures.products.push(product);
+  }
+
+  return sellables;
+};
+
+// Order volume follows the week and the season, with a pre-Christmas peak
+const getDayFactor = (day: string) => {
+  const date = new Date(`${day}T00:00:00Z`);
+  const weekday = date.getUTCDay();
+  const month = date.getUTCMonth();
+  const weekFactor = weekday === 0 || weekday === 6 ? 0.7 : weekday === 1 ? 1.2 : 1;
+  const seasonFactor = month === 10 || month === 11 ? 1.5 : month === 0 ? 0.8 : 1;
+  return weekFactor * seasonFactor;
+};
+
+// Refund some or all of an order's lines
+const generateRefund = (
+  random: Random,
+  order: ApiRecord,
+  refundId: number,
+  refundDate: Date,
+  full: boolean
+): ApiRecord => {
+  const orderLines = order.line_items as Array<ApiRecord & { quantity: number; total: string; total_tax: string; product_id: number; variation_id: number; sku: string; name: string }>;
+  const refundLines = full ? orderLines : [random.pick(orderLines)];
+
+  const lineItems = refundLines.map((line, index) => {
+    const quantity = full ? line.quantity : random.int(1, line.quantity);
+    const share = quantity / line.quantity;
+    const total = parseFloat(line.total) * share;
+    const totalTax = parseFloat(line.total_tax) * share;
+    return {
+      id: refundId * 100 + index,
+      name: line.name,
+      product_id: line.product_id,
+      variation_id: line.variation_id,
+      quantity: -quantity,
+      subtotal: money(-total),
+      subtotal_tax: money(-totalTax),
+      total: money(-total),
+      total_tax: money(-totalTax),
+      sku: line.sku,
+      meta_data: [{ id: 0, key: '_refunded_item_id', value: String(line.id) }]
+    };
+  });
+
+  const shippingRefund = full ? parseFloat(order.shipping_total as string) + parseFloat(order.shipping_tax as string) : 0;
+  const amount = lineItems.reduce((sum, line) => sum - parseFloat(line.total) - parseFloat(line.total_tax), 0) + shippingRefund;
+
+  return {
+    id: refundId,
+    ...apiDates(refundDate, 'date_created'),
+    amount: money(amount),
+    reason: random.pick(REFUND_REASONS),
+    refunded_by: 1,
+    refunded_payment: order.payment_method !== 'bacs',
+    line_items: lineItems
+  };
+};
+
+const generateOrders = (
+  random: Random,
+  options: ReplayScenarioOptions,
+  sellables: Sellable[],
+  start: Date,
+  now: Date,
+  fixtures: ReplayFixtures
+) => {
+  const gstRate = options.gstRate / 100;
+  const customers: ScenarioCustomer[] = [];
+  let nextCustomerId = 1;
+
+  // Some customers register when they first order, the others check out as guests
+  const addCustomer = (firstOrder: Date): ScenarioCustomer => {
+    const firstName = random.pick(FIRST_NAMES);
+    const lastName = random.pick(LAST_NAMES);
+    const customer: ScenarioCustomer = {
+      id: random.chance(0.6) ? nextCustomerId++ : 0,
+      first_name: firstName,
+      last_name: lastName,
+      email: `${firstName}.${lastName}${customers.length + 1}@example.com`.toLowerCase(),
+      city: random.pick(CITIES)
+    };
+    customers.push(customer);
+
+    if (customer.id) {
+      const address = { first_name: firstName, last_name: lastName, city: customer.city, country: 'NZ' };
+      fixtures.customers!.push({
+        id: customer.id,
+        email: customer.email,
+        first_name: firstName,
+        last_name: lastName,
+        username: customer.email.split('@')[0],
+        role: 'customer',
+        is_paying_customer: true,
+        billing: { ...address, email: customer.email },
+        shipping: address,
+        ...apiDates(addMinutes(firstOrder, -random.int(1, 30)), 'date_created'),
+        ...apiDates(firstOrder, 'date_modified')
+      });
+    }
+
+    return customer;
+  };
+
+  // Most orders come from new customers; returning ones favour the earliest, most loyal customers
+  const pickCustomer = (created: Date) => {
+    return customers.length === 0 || random.chance(0.6) ? addCustomer(created) : pickPopular(random, customers);
+  };
+
+  let orderId = 1000;
+  let lineId = 1;
+  let refundId = 90000;
+
+  // Days run midnight to midnight in the store timezone
+  for (let day = getDayInZone(start); startOfDayInZone(day) <= now; day = shiftDay(day, 1)) {
+    const dayStart = startOfDayInZone(day);
+    const expected = options.ordersPerDay * getDayFactor(day);
+    const count = Math.max(0, Math.round(expected * (0.5 + random.next())));
+
+    for (let index = 0; index < count; index++) {
+      const created = addMinutes(dayStart, random.int(7 * 60, 23 * 60));
+      if (created > now) continue;
+
+      const id = orderId++;
+      const customer = pickCustomer(created);
+      const payment = pickWeighted(random, PAYMENT_METHODS);
+
+      // Coupons take a percentage off every line
+      const coupon = random.chance(options.couponRate) ? pickWeighted(random, COUPONS) : null;
+      const discountShare = coupon ? coupon.percent / 100 : 0;
+
+      const lineCount = random.int(1, 4);
+      const lineItems = Array.from({ length: lineCount }, () => {
+        const item = pickPopular(random, sellables);
+        const quantity = random.chance(0.75) ? 1 : random.int(2, 4);
+        const subtotal = (item.price * quantity) / (1 + gstRate);
+        const subtotalTax = subtotal * gstRate;
+        const total = subtotal * (1 - discountShare);
+        const totalTax = total * gstRate;
+        return {
+          id: lineId++,
+          name: item.name,
+          product_id: item.productId,
+          variation_id: item.variationId,
+          quantity,
+          sku: item.sku,
+          price: Math.round((total / quantity) * 10000) / 10000,
+          subtotal: money(subtotal),
+          subtotal_tax: money(subtotalTax),
+          total: money(total),
+          total_tax: money(totalTax),
+          taxes: [{ id: 1, total: money(totalTax), subtotal: money(subtotalTax) }],
+          meta_data: []
+        };
+      });
+
+      const itemsTotal = lineItems.reduce((sum, line) => sum + parseFloat(line.total) + parseFloat(line.total_tax), 0);
+      const shippingTotal = itemsTotal >= 100 ? 0 : 6.5;
+      const shippingTax = shippingTotal * gstRate;
+      const totalTax = lineItems.reduce((sum, line) => sum + parseFloat(line.total_tax), 0) + shippingTax;
+      const discountTotal = lineItems.reduce((sum, line) => sum + parseFloat(line.subtotal) - parseFloat(line.total), 0);
+      const discountTax = lineItems.reduce((sum, line) => sum + parseFloat(line.subtotal_tax) - parseFloat(line.total_tax), 0);
+
+      // Recent orders may still be processing; older ones have settled
+      const ageInDays = (now.getTime() - created.getTime()) / (24 * 60 * 60 * 1000);
+      const roll = random.next();
+      const status = ageInDays < 3 && roll < 0.4 ? 'processing'
+        : roll < 0.03 ? 'cancelled'
+        : roll < 0.05 ? 'failed'
+        : roll < 0.06 ? 'on-hold'
+        : 'completed';
+      const isPaid = status === 'completed' || status === 'processing';
+      const paid = addMinutes(created, random.int(0, 5));
+      const completed = addHours(created, random.int(12, 72));
+
+      const order: ApiRecord = {
+        id,
+        number: String(id),
+        status,
+        currency: 'NZD',
+        prices_include_tax: true,
+        ...apiDates(created, 'date_created'),
+        ...apiDates(status === 'completed' && completed < now ? completed : paid, 'date_modified'),
+        ...(isPaid ? apiDates(paid, 'date_paid') : { date_paid: null, date_paid_gmt: null }),
+        ...(status === 'completed' ? apiDates(completed < now ? completed : now, 'date_completed') : { date_completed: null, date_completed_gmt: null }),
+        discount_total: money(discountTotal),
+        discount_tax: money(discountTax),
+        shipping_total: money(shippingTotal),
+        shipping_tax: money(shippingTax),
+        cart_tax: money(totalTax - shippingTax),
+        total: money(itemsTotal + shippingTotal + shippingTax),
+        total_tax: money(totalTax),
+        customer_id: customer.id,
+        billing: {
+          first_name: customer.first_name,
+          last_name: customer.last_name,
+          email: customer.email,
+          city: customer.city,
+          country: 'NZ'
+        },
+        shipping: {
+          first_name: customer.first_name,
+          last_name: customer.last_name,
+          city: customer.city,
+          country: 'NZ'
+        },
+        payment_method: isPaid || status === 'on-hold' ? payment.id : '',
+        payment_method_title: isPaid || status === 'on-hold' ? payment.title : '',
+        line_items: lineItems,
+        shipping_lines: shippingTotal > 0
+          ? [{ id: lineId++, method_title: 'Flat rate', method_id: 'flat_rate', total: money(shippingTotal), total_tax: money(shippingTax) }]
+          : [],
+        coupon_lines: coupon
+          ? [{ id: lineId++, code: coupon.code, discount: money(discountTotal), discount_tax: money(discountTax), meta_data: [] }]
+          : [],
+        refunds: []
+      };
+
+      if (status === 'completed' && random.chance(options.refundRate)) {
+        const refundDate = addDays(created, random.int(2, 20));
+        if (refundDate < now) {
+          const full = random.chance(0.4);
+          const refund = generateRefund(random, order, refundId++, refundDate, full);
+
+          fixtures.refunds[id] = [refund];
+          order.refunds = [{ id: refund.id, reason: refund.reason, total: `-${refund.amount}` }];
+          Object.assign(order, apiDates(refundDate, 'date_modified'));
+          if (full) {
+            order.status = 'refunded';
+          }
+        }
+      }
+
+      fixtures.orders.push(order);
+    }
+  }
+};
+
+/**
+ * Generate a store with products, orders and refunds
+ * Orders cover the requested number of months up to now.
+ */
+export const generateScenario = (name: string, options: Partial<ReplayScenarioOptions> = {}, now: Date = new Date()): ReplayFixtures => {
+  const scenario = { ...DEFAULT_SCENARIO_OPTIONS, ...options };
+  const random = createRandom(scenario.seed);
+  const fixtures = createEmptyFixtures(name, 'generated');
+
+  const start = subMonths(now, scenario.months);
+  const sellables = generateProducts(random, scenario, subMonths(start, 1), fixtures);
+  if (sellables.length > 0) {
+    generateOrders(random, scenario, sellables, start, now, fixtures);
+  }
+
+  console.log(`Generated scenario ${name}: ${fixtures.products.length} products, ${fixtures.orders.length} orders`);
+
+  return fixtures;
+};
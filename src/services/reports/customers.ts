@@ -0,0 +1,153 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { Customer, CustomerAnalytics, CustomerCohort, CustomerSummary, Order } from '../../types';
+import { fetchFirstOrder, fetchCustomers, fetchStorePnL } from '../api';
+import { getOrderRevenue } from '../pnl/tax';
+import { getOrderDate } from '../../utils/dateRange';
+import { getStoreTimezone } from '../../utils/storeProfile';
+
+// Months of cohorts shown, ending with the current month
+const COHORT_MONTHS = 12;
+
+/**
+ * Get the key orders are grouped by per customer
+ * Registered customers are matched by id; guests by billing email, so a guest
+ * who orders again is still one customer. Orders without either are skipped.
+ */
+export const getCustomerKey = (order: Order): string | null => {
+  if (order.customer_id) {
+    return `customer:${order.customer_id}`;
+  }
+  const email = order.billing?.email?.trim().toLowerCase();
+  return email ? `guest:${email}` : null;
+};
+
+// Count months from year 0, so months can be compared and stepped through
+const getMonthIndex = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return year * 12 + monthNumber - 1;
+};
+
+const getMonthFromIndex = (index: number) => `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+
+/**
+ * Summarise customers from orders that have their profit worked out
+ * Lifetime value is revenue after refunds and excluding GST; gross profit is
+ * the orders' profit after cost of goods.
+ */
+export const calculateCustomerAnalytics = (
+  orders: Order[],
+  customers: Customer[],
+  now: Date = new Date()
+): CustomerAnalytics => {
+  const timeZone = getStoreTimezone();
+  const customerMap = new Map(customers.map(customer => [customer.id, customer]));
+  const summaries = new Map<string, CustomerSummary>();
+  const activeMonths = new Map<string, Set<string>>(); // Months each customer ordered in
+
+  for (const order of orders) {
+    const key = getCustomerKey(order);
+    if (!key) continue;
+
+    const orderDate = getOrderDate(order);
+    const revenue = getOrderRevenue(order);
+    const profit = order.profit || 0;
+
+    let summary = summaries.get(key);
+    if (!summary) {
+      const customer = order.customer_id ? customerMap.get(order.customer_id) : undefined;
+      const firstName = customer?.first_name || order.billing?.first_name || '';
+      const lastName = customer?.last_name || order.billing?.last_name || '';
+      const email = customer?.email || order.billing?.email?.toLowerCase() || '';
+
+      summary = {
+        key,
+        customer_id: order.customer_id || undefined,
+        name: `${firstName} ${lastName}`.trim() || email || 'Unknown',
+        email,
+        is_guest: !order.customer_id,
+        first_order: orderDate,
+        last_order: orderDate,
+        order_count: 0,
+        lifetime_value: 0,
+        average_order_value: 0,
+        gross_profit: 0,
+        margin: 0
+      };
+      summaries.set(key, summary);
+      activeMonths.set(key, new Set());
+    }
+
+    summary.order_count++;
+    summary.lifetime_value += revenue;
+    summary.gross_profit += profit;
+    if (orderDate < summary.first_order) summary.first_order = orderDate;
+    if (orderDate > summary.last_order) summary.last_order = orderDate;
+    activeMonths.get(key)!.add(formatInTimeZone(orderDate, timeZone, 'yyyy-MM'));
+  }
+
+  const customerSummaries = Array.from(summaries.values()).map(summary => ({
+    ...summary,
+    average_order_value: summary.order_count > 0 ? summary.lifetime_value / summary.order_count : 0,
+    margin: summary.lifetime_value > 0 ? (summary.gross_profit / summary.lifetime_value) * 100 : 0
+  }));
+
+  const repeatCustomers = customerSummaries.filter(summary => summary.order_count > 1).length;
+
+  return {
+    customers: customerSummaries.sort((a, b) => b.lifetime_value - a.lifetime_value),
+    repeatCustomers,
+    repeatRate: customerSummaries.length > 0 ? (repeatCustomers / customerSummaries.length) * 100 : 0,
+    cohorts: calculateCohorts(customerSummaries, activeMonths, formatInTimeZone(now, timeZone, 'yyyy-MM'))
+  };
+};
+
+/**
+ * Group customers by the month of their first order and work out, for each
+ * month since, the share of the cohort that ordered again
+ */
+const calculateCohorts = (
+  summaries: CustomerSummary[],
+  activeMonths: Map<string, Set<string>>,
+  currentMonth: string
+): CustomerCohort[] => {
+  const timeZone = getStoreTimezone();
+  const currentIndex = getMonthIndex(currentMonth);
+  const cohortMembers = new Map<string, string[]>();
+
+  for (const summary of summaries) {
+    const cohort = formatInTimeZone(summary.first_order, timeZone, 'yyyy-MM');
+    if (currentIndex - getMonthIndex(cohort) >= COHORT_MONTHS) continue;
+    cohortMembers.set(cohort, [...(cohortMembers.get(cohort) || []), summary.key]);
+  }
+
+  return Array.from(cohortMembers, ([cohort, members]) => {
+    const cohortIndex = getMonthIndex(cohort);
+    const retention = Array.from({ length: currentIndex - cohortIndex + 1 }, (_, offset) => {
+      const month = getMonthFromIndex(cohortIndex + offset);
+      const active = members.filter(key => activeMonths.get(key)?.has(month)).length;
+      return (active / members.length) * 100;
+    });
+
+    return { cohort, size: members.length, retention };
+  }).sort((a, b) => a.cohort.localeCompare(b.cohort));
+};
+
+/**
+ * Load the active store's customer analytics over all synced orders
+ * Orders are run through the P&L worker first, so only counted statuses are
+ * included and each order's profit is known without blocking the page.
+ */
+export const loadCustomerAnalytics = async (): Promise<CustomerAnalytics> => {
+  const [firstOrder, customers] = await Promise.all([fetchFirstOrder(), fetchCustomers()]);
+
+  const endDate = new Date();
+  const dateRange = {
+    startDate: firstOrder ? getOrderDate(firstOrder) : endDate,
+    endDate
+  };
+
+  // Customers are credited with orders when they are placed, whatever the store's basis
+  const result = await fetchStorePnL(dateRange, { basis: 'accrual' });
+
+  return calculateCustomerAnalytics(result.orders, customers);
+};
@@ -1,21 +1,92 @@
 import { format } from 'date-fns';
-import { Order, Product, Expense, AdditionalRevenue } from '../../types';
+import { Order, Product, Expense, AdditionalRevenue, PurchaseOrder, GstPeriod, PaymentFeeSummary, ShippingPeriod, CouponReport, CouponSummary, ReportingBasis, DateRange } from '../../types';
 import { groupDataByPeriod } from './utils';
+import { getOrderShippingCharged } from '../pnl/shipping';
+import { getAdditionalRevenueNetAmount, getExpenseNetAmount, getOrderRevenue, getPurchaseOrderTax } from '../pnl/tax';
+import { getExpenseRecognitionDate, getOrderRecognisedCost, getPurchaseOrderRecognitionDate } from '../pnl/basis';
+import { getRecognisedExpenseAmount } from '../../utils/expenseSchedule';
+import { getDayInZone, getDaysRange, shiftDay, toDateRange } from '../../utils/dateRange';
+
+// The store-local date an order is reported on: when it was created, or on the cash basis when it was paid
+// Unpaid orders have no date on the cash basis
+const getOrderReportDate = (order: Order, basis: ReportingBasis): string | null => {
+  return basis === 'cash' ? order.date_paid || null : order.date_created;
+};
+
+// Leave out entries with no report date, such as records not yet paid on the cash basis
+const withReportDates = <T extends { date: Date | string | null }>(entries: T[]): T[] => {
+  return entries.filter(entry => entry.date !== null);
+};
+
+// Split a report's date range into its periods: the runs of store-local days that share a period label
+const getReportPeriods = (dateRange: DateRange, periodType: string): Array<{ period: string, dateRange: DateRange }> => {
+  const periodFormat = getPeriodFormat(periodType);
+  const periods: Array<{ period: string, firstDay: string, lastDay: string }> = [];
+  const lastDay = getDayInZone(dateRange.endDate);
+
+  for (let day = getDayInZone(dateRange.startDate); day <= lastDay; day = shiftDay(day, 1)) {
+    const period = format(new Date(`${day}T00:00:00`), periodFormat);
+    const current = periods[periods.length - 1];
+    if (current && current.period === period) {
+      current.lastDay = day;
+    } else {
+      periods.push({ period, firstDay: day, lastDay: day });
+    }
+  }
+
+  // Clip the first and last periods to the range
+  return periods.map(({ period, firstDay, lastDay }) => {
+    const { startDate, endDate } = toDateRange(getDaysRange(firstDay, lastDay));
+    return {
+      period,
+      dateRange: {
+        startDate: startDate < dateRange.startDate ? dateRange.startDate : startDate,
+        endDate: endDate > dateRange.endDate ? dateRange.endDate : endDate
+      }
+    };
+  });
+};
+
+// Group expenses by report period, prorating recurring expenses into each period they cover
+const groupExpensesByPeriod = (
+  expenses: Expense[],
+  dateRange: DateRange,
+  periodType: string,
+  basis: ReportingBasis,
+  getAmount: (expense: Expense) => number
+) => {
+  return getReportPeriods(dateRange, periodType).map(({ period, dateRange: periodRange }) => ({
+    period,
+    value: expenses.reduce((sum, expense) => {
+      return sum + getRecognisedExpenseAmount({ ...expense, amount: getAmount(expense) }, periodRange, basis);
+    }, 0)
+  }));
+};
+
+// Get the orders reported in a period
+const getPeriodOrders = (orders: Order[], period: string, periodType: string, basis: ReportingBasis): Order[] => {
+  const periodFormat = getPeriodFormat(periodType);
+  return orders.filter(order => {
+    const date = getOrderReportDate(order, basis);
+    return date !== null && format(new Date(date), periodFormat) === period;
+  });
+};
 
 // Generate sales report
-export const generateSalesReport = (orders: Order[], periodType: string) => {
-  // Group orders by period
-  const groupedData = groupDataByPeriod(orders, (order) => parseFloat(order.total), 'date_created', periodType);
+export const generateSalesReport = (orders: Order[], periodType: string, basis: ReportingBasis = 'accrual') => {
+  // Group orders by the period their sale is recognised in
+  const groupedData = groupDataByPeriod(
+    withReportDates(orders.map(order => ({ date: getOrderReportDate(order, basis), revenue: getOrderRevenue(order) }))),
+    entry => entry.revenue,
+    'date',
+    periodType
+  );
   
   // Add additional metrics
   return groupedData.map(item => {
-    const periodOrders = orders.filter(order => {
-      const orderDate = new Date(order.date_created);
-      const periodFormat = getPeriodFormat(periodType);
-      return format(orderDate, periodFormat) === item.period;
-    });
+    const periodOrders = getPeriodOrders(orders, item.period, periodType, basis);
     
-    const totalRevenue = periodOrders.reduce((sum, order) => sum + parseFloat(order.total), 0);
+    const totalRevenue = periodOrders.reduce((sum, order) => sum + getOrderRevenue(order), 0);
     const totalCost = periodOrders.reduce((sum, order) => sum + (order.cost_total || 0), 0);
     const totalProfit = totalRevenue - totalCost;
     const orderCount = periodOrders.length;
@@ -34,8 +105,8 @@ export const generateSalesReport = (orders: Order[], periodType: string) => {
 
 // Generate products report
 export const generateProductsReport = (orders: Order[], products: Product[], periodType: string) => {
-  // Extract all line items from orders
-  const lineItems = orders.flatMap(order => order.line_items);
+  // Extract all line items from orders, remembering the store in consolidated views
+  const lineItems = orders.flatMap(order => order.line_items.map(item => ({ ...item, store_id: order.store_id })));
   
   // Group by product
   const productMap = new Map<string, {
@@ -50,7 +121,9 @@ export const generateProductsReport = (orders: Order[], products: Product[], per
   }>();
   
   lineItems.forEach(item => {
-    const key = `${item.product_id}${item.variation_id ? `-${item.variation_id}` : ''}`;
+    // Product ids are only unique within a store
+    const storePrefix = item.store_id ? `${item.store_id}:` : '';
+    const key = `${storePrefix}${item.product_id}${item.variation_id ? `-${item.variation_id}` : ''}`;
     
     if (!productMap.has(key)) {
       productMap.set(key, {
@@ -85,7 +158,8 @@ export const generateProductsReport = (orders: Order[], products: Product[], per
 };
 
 // Generate expenses report
-export const generateExpensesReport = (expenses: Expense[], periodType: string) => {
+// Recurring expenses count for the part of the range they cover, however long ago they started
+export const generateExpensesReport = (expenses: Expense[], dateRange: DateRange, periodType: string, basis: ReportingBasis = 'accrual') => {
   // Group by category
   const categoryMap = new Map<string, {
     category: string,
@@ -94,9 +168,13 @@ export const generateExpensesReport = (expenses: Expense[], periodType: string)
     percentage: number
   }>();
   
-  const totalExpenseAmount = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+  const recognisedExpenses = expenses
+    .map(expense => ({ expense, amount: getRecognisedExpenseAmount(expense, dateRange, basis) }))
+    .filter(({ amount }) => amount !== 0);
+  
+  const totalExpenseAmount = recognisedExpenses.reduce((sum, { amount }) => sum + amount, 0);
   
-  expenses.forEach(expense => {
+  recognisedExpenses.forEach(({ expense, amount }) => {
     if (!categoryMap.has(expense.category)) {
       categoryMap.set(expense.category, {
         category: expense.category,
@@ -107,7 +185,7 @@ export const generateExpensesReport = (expenses: Expense[], periodType: string)
     }
     
     const category = categoryMap.get(expense.category)!;
-    category.amount += expense.amount;
+    category.amount += amount;
     category.count += 1;
   });
   
@@ -122,7 +200,7 @@ export const generateExpensesReport = (expenses: Expense[], periodType: string)
   const categoryData = Array.from(categoryMap.values());
   
   // Group by time period
-  const timeData = groupDataByPeriod(expenses, (expense) => expense.amount, 'date', periodType);
+  const timeData = groupExpensesByPeriod(expenses, dateRange, periodType, basis, expense => expense.amount);
   
   // Return both category and time-based data
   return [...categoryData, ...timeData];
@@ -172,35 +250,40 @@ export const generateAdditionalRevenueReport = (revenues: AdditionalRevenue[], p
   return [...categoryData, ...timeData];
 };
 
-// Generate profitability report
+// Generate profitability report, with a row for every period of the range
+// On the cash basis the cost in each period is the stock paid for instead of the cost of the goods sold
 export const generateProfitabilityReport = (
   orders: Order[], 
   expenses: Expense[], 
   additionalRevenues: AdditionalRevenue[],
-  periodType: string
+  dateRange: DateRange,
+  periodType: string,
+  purchaseOrders: PurchaseOrder[] = [],
+  basis: ReportingBasis = 'accrual'
 ) => {
-  // Group orders by period
-  const monthlyData = groupDataByPeriod(orders, (order) => parseFloat(order.total), 'date_created', periodType);
+  // Group expenses by period, excluding GST
+  const monthlyExpenses = groupExpensesByPeriod(expenses, dateRange, periodType, basis, getExpenseNetAmount);
   
-  // Group expenses by period
-  const monthlyExpenses = groupDataByPeriod(expenses, (expense) => expense.amount, 'date', periodType);
+  // Group stock purchases by the period they were paid in, excluding GST
+  const monthlyPurchases = groupDataByPeriod(
+    withReportDates(purchaseOrders.map(purchaseOrder => ({ date: getPurchaseOrderRecognitionDate(purchaseOrder, basis), amount: purchaseOrder.total_amount || 0 }))),
+    entry => entry.amount,
+    'date',
+    periodType
+  );
   
-  // Group additional revenue by period
-  const monthlyAdditionalRevenue = groupDataByPeriod(additionalRevenues, (revenue) => revenue.amount, 'date', periodType);
+  // Group additional revenue by period, excluding GST
+  const monthlyAdditionalRevenue = groupDataByPeriod(additionalRevenues, getAdditionalRevenueNetAmount, 'date', periodType);
   
   // Merge data
-  return monthlyData.map(item => {
+  return getReportPeriods(dateRange, periodType).map(item => {
     const matchingExpense = monthlyExpenses.find(exp => exp.period === item.period);
     const expenseAmount = matchingExpense ? matchingExpense.value : 0;
     
     const matchingAdditionalRevenue = monthlyAdditionalRevenue.find(rev => rev.period === item.period);
     const additionalRevenueAmount = matchingAdditionalRevenue ? matchingAdditionalRevenue.value : 0;
     
-    const periodOrders = orders.filter(order => {
-      const orderDate = new Date(order.date_created);
-      const periodFormat = getPeriodFormat(periodType);
-      return format(orderDate, periodFormat) === item.period;
-    });
+    const periodOrders = getPeriodOrders(orders, item.period, periodType, basis);
     
     // Debug order data
     console.log(`Period ${item.period} has ${periodOrders.length} orders`);
@@ -229,16 +312,14 @@ export const generateProfitabilityReport = (
         return sum;
       }
       
-      return sum + orderTotal;
+      return sum + orderTotal - (order.refund_total || 0) - (order.tax_total || 0);
     }, 0);
     
     console.log(`Period ${item.period} - Total Order Revenue: ${totalOrderRevenue}`);
     
     const totalRevenue = totalOrderRevenue + additionalRevenueAmount;
-    const totalCost = periodOrders.reduce((sum, order) => {
-      const costTotal = order.cost_total || 0;
-      return sum + (isNaN(costTotal) ? 0 : costTotal);
-    }, 0);
+    const totalCost = periodOrders.reduce((sum, order) => sum + getOrderRecognisedCost(order, basis), 0)
+      + (basis === 'cash' ? monthlyPurchases.find(purchase => purchase.period === item.period)?.value || 0 : 0);
     const grossProfit = totalRevenue - totalCost;
     const netProfit = grossProfit - expenseAmount;
     const profitMargin = totalRevenue > 0 ? (netProfit / totalRevenue) * 100 : 0;
@@ -268,6 +349,175 @@ export const generateProfitabilityReport = (
   });
 };
 
+// Generate GST report: GST collected on sales and paid on expenses and stock, per period
+export const generateGstReport = (
+  orders: Order[],
+  expenses: Expense[],
+  additionalRevenues: AdditionalRevenue[],
+  purchaseOrders: PurchaseOrder[],
+  periodType: string,
+  basis: ReportingBasis = 'accrual'
+): GstPeriod[] => {
+  // Put everything in one list so each amount is grouped into the same periods
+  const entries = withReportDates([
+    ...orders.map(order => ({ date: getOrderReportDate(order, basis), collected: order.tax_total || 0, paidOnExpenses: 0, paidOnPurchases: 0 })),
+    ...additionalRevenues.map(revenue => ({ date: revenue.date, collected: revenue.tax_amount || 0, paidOnExpenses: 0, paidOnPurchases: 0 })),
+    ...expenses.map(expense => ({ date: getExpenseRecognitionDate(expense, basis), collected: 0, paidOnExpenses: expense.tax_amount || 0, paidOnPurchases: 0 })),
+    ...purchaseOrders.map(purchaseOrder => ({ date: getPurchaseOrderRecognitionDate(purchaseOrder, basis), collected: 0, paidOnExpenses: 0, paidOnPurchases: getPurchaseOrderTax(purchaseOrder) }))
+  ]);
+  
+  const collected = groupDataByPeriod(entries, entry => entry.collected, 'date', periodType);
+  const paidOnExpenses = groupDataByPeriod(entries, entry => entry.paidOnExpenses, 'date', periodType);
+  const paidOnPurchases = groupDataByPeriod(entries, entry => entry.paidOnPurchases, 'date', periodType);
+  
+  return collected.map((item, index) => ({
+    period: item.period,
+    collected: item.value,
+    paidOnExpenses: paidOnExpenses[index].value,
+    paidOnPurchases: paidOnPurchases[index].value,
+    payable: item.value - paidOnExpenses[index].value - paidOnPurchases[index].value
+  }));
+};
+
+// Generate payment fees report: fees per payment gateway, largest first
+export const generatePaymentFeesReport = (orders: Order[]): PaymentFeeSummary[] => {
+  const summaries = new Map<string, PaymentFeeSummary>();
+
+  for (const order of orders) {
+    const method = order.payment_method || 'none';
+    const summary = summaries.get(method) || {
+      payment_method: method,
+      payment_method_title: order.payment_method_title || (order.payment_method ? order.payment_method : 'No payment method'),
+      orders: 0,
+      amount: 0,
+      fees: 0,
+      effective_rate: 0,
+      unmatched_orders: 0
+    };
+
+    const total = parseFloat(order.total);
+    summary.orders++;
+    summary.amount += isNaN(total) ? 0 : total;
+    summary.fees += order.payment_fee || 0;
+    if (order.payment_fee === undefined) summary.unmatched_orders++;
+    summaries.set(method, summary);
+  }
+
+  return Array.from(summaries.values())
+    .map(summary => ({
+      ...summary,
+      effective_rate: summary.amount > 0 ? (summary.fees / summary.amount) * 100 : 0
+    }))
+    .sort((a, b) => b.fees - a.fees || b.amount - a.amount);
+};
+
+// Generate shipping report: shipping charged against carrier costs, per period
+// Orders without a recorded carrier cost are counted as charged but not paid.
+export const generateShippingReport = (orders: Order[], periodType: string): ShippingPeriod[] => {
+  const entries = orders.map(order => {
+    const charged = getOrderShippingCharged(order);
+    const hasCost = order.shipping_cost !== undefined;
+    return {
+      date: order.date_created,
+      charged,
+      paid: order.shipping_cost || 0,
+      hasCost: hasCost ? 1 : 0,
+      isLoss: hasCost && order.shipping_cost! > charged ? 1 : 0
+    };
+  });
+
+  const charged = groupDataByPeriod(entries, entry => entry.charged, 'date', periodType);
+  const paid = groupDataByPeriod(entries, entry => entry.paid, 'date', periodType);
+  const orderCounts = groupDataByPeriod(entries, () => 1, 'date', periodType);
+  const costCounts = groupDataByPeriod(entries, entry => entry.hasCost, 'date', periodType);
+  const lossCounts = groupDataByPeriod(entries, entry => entry.isLoss, 'date', periodType);
+
+  return charged.map((item, index) => ({
+    period: item.period,
+    charged: item.value,
+    paid: paid[index].value,
+    profit: item.value - paid[index].value,
+    orders: orderCounts[index].value,
+    ordersWithCost: costCounts[index].value,
+    lossOrders: lossCounts[index].value
+  }));
+};
+
+const parseAmount = (value: string | undefined): number => {
+  const amount = parseFloat(value || '0');
+  return isNaN(amount) ? 0 : amount;
+};
+
+// Work out margins once a coupon's orders have been added up
+const finishCouponSummary = (summary: CouponSummary, baselineMargin: number): CouponSummary => {
+  const margin = summary.revenue > 0 ? (summary.gross_profit / summary.revenue) * 100 : 0;
+  const fullPriceRevenue = summary.revenue + summary.discount;
+  return {
+    ...summary,
+    margin,
+    undiscounted_margin: fullPriceRevenue > 0 ? ((summary.gross_profit + summary.discount) / fullPriceRevenue) * 100 : 0,
+    margin_erosion: baselineMargin - margin
+  };
+};
+
+/**
+ * Generate coupons report: sales and profit per coupon code, largest discount first
+ * Orders that used several coupons are split between them by the discount each
+ * gave, so the codes add up to the orders' totals.
+ */
+export const generateCouponsReport = (orders: Order[]): CouponReport => {
+  const emptySummary = (code: string): CouponSummary => ({
+    code,
+    orders: 0,
+    discount: 0,
+    revenue: 0,
+    gross_profit: 0,
+    margin: 0,
+    undiscounted_margin: 0,
+    margin_erosion: 0
+  });
+
+  const summaries = new Map<string, CouponSummary>();
+  const undiscounted = emptySummary('');
+
+  for (const order of orders) {
+    const revenue = getOrderRevenue(order);
+    const profit = order.profit || 0;
+    const couponLines = order.coupon_lines || [];
+
+    if (couponLines.length === 0) {
+      undiscounted.orders++;
+      undiscounted.revenue += revenue;
+      undiscounted.gross_profit += profit;
+      continue;
+    }
+
+    const totalDiscount = couponLines.reduce((sum, line) => sum + parseAmount(line.discount), 0);
+
+    for (const line of couponLines) {
+      const discount = parseAmount(line.discount);
+      const share = totalDiscount > 0 ? discount / totalDiscount : 1 / couponLines.length;
+      const summary = summaries.get(line.code) || emptySummary(line.code);
+
+      summary.orders++;
+      summary.discount += discount;
+      summary.revenue += revenue * share;
+      summary.gross_profit += profit * share;
+      summaries.set(line.code, summary);
+    }
+  }
+
+  const baseline = finishCouponSummary(undiscounted, 0);
+  const baselineMargin = baseline.margin;
+
+  return {
+    coupons: Array.from(summaries.values())
+      .map(summary => finishCouponSummary(summary, baselineMargin))
+      .sort((a, b) => b.discount - a.discount),
+    undiscounted: { ...baseline, margin_erosion: 0 }
+  };
+};
+
 // Helper function to get period format based on period type
 const getPeriodFormat = (periodType: string): string => {
   switch (periodType) {
@@ -1,61 +1,64 @@
-import { DateRange, Order, Product, Expense, AdditionalRevenue } from '../../types';
-import { fetchOrders, fetchProducts, fetchInventory, fetchOverheadCosts } from '../api';
-import { getExpenses } from '../../db/operations/expenses';
-import { getAdditionalRevenue } from '../../db/operations/additionalRevenue';
-import { calculateProfitAndLoss } from '../pnl';
+import { DateRange, Order, Product, Expense, AdditionalRevenue, ReportingBasis } from '../../types';
+import { fetchProducts, fetchStorePnL } from '../api';
+import { getAdditionalRevenueNetAmount, getExpenseNetAmount, getOrderRevenue } from '../pnl/tax';
+import { loadConsolidatedData } from '../consolidated';
+import { calculateExpenses } from '../pnl/expenseCalculations';
 import { 
   generateSalesReport, 
   generateProductsReport, 
   generateExpensesReport, 
   generateProfitabilityReport,
-  generateAdditionalRevenueReport
+  generateAdditionalRevenueReport,
+  generateGstReport,
+  generatePaymentFeesReport,
+  generateShippingReport,
+  generateCouponsReport
 } from './generators';
 
-// Load all report data
+// Load the active store's data for a report
+const loadStoreReportData = async (dateRange: DateRange, basis: ReportingBasis) => {
+  const productsData = await fetchProducts();
+  console.log(`Fetched ${productsData.length} products`);
+  
+  // Calculate profit and margins with expenses in the background, for the date range's orders only
+  const result = await fetchStorePnL(dateRange, { basis });
+  console.log(`Calculated ${result.orders.length} orders, ${result.expenses.length} expenses for date range`);
+  
+  // Expenses and additional revenue come back with their GST worked out
+  return {
+    orders: result.orders,
+    products: productsData,
+    expenses: result.expenses,
+    additionalRevenue: result.additionalRevenue,
+    purchaseOrders: result.purchaseOrders
+  };
+};
+
+// Load all report data, for the active store or consolidated across all stores
 export const loadReportData = async (
   dateRange: DateRange, 
-  periodType: string
+  periodType: string,
+  consolidated: boolean = false,
+  basis: ReportingBasis = 'accrual'
 ) => {
   try {
     console.log('Loading report data for date range:', {
       startDate: dateRange.startDate.toISOString(),
       endDate: dateRange.endDate.toISOString(),
-      periodType
+      periodType,
+      consolidated,
+      basis
     });
     
-    // Fetch data
-    const ordersData = await fetchOrders();
-    console.log(`Fetched ${ordersData.length} orders`);
-    
-    const productsData = await fetchProducts();
-    console.log(`Fetched ${productsData.length} products`);
-    
-    const inventoryData = await fetchInventory();
-    console.log(`Fetched ${inventoryData.length} inventory items`);
-    
-    const overheadCosts = await fetchOverheadCosts();
-    console.log(`Fetched ${overheadCosts.length} overhead costs`);
-    
-    const expensesData = await getExpenses(dateRange.startDate, dateRange.endDate);
-    console.log(`Fetched ${expensesData.length} expenses for date range`);
-    
-    const additionalRevenueData = await getAdditionalRevenue(dateRange.startDate, dateRange.endDate);
-    console.log(`Fetched ${additionalRevenueData.length} additional revenue items for date range`);
-    
-    // Calculate profit and margins with expenses
-    const result = await calculateProfitAndLoss(
-      ordersData,
-      inventoryData,
-      overheadCosts,
-      dateRange,
-      additionalRevenueData
-    );
-    
-    // Filter orders by date range
-    const filteredOrders = result.orders.filter(order => {
-      const orderDate = new Date(order.date_created);
-      return orderDate >= dateRange.startDate && orderDate <= dateRange.endDate;
-    });
+    const {
+      orders: filteredOrders,
+      products: productsData,
+      expenses: expensesData,
+      additionalRevenue: additionalRevenueData,
+      purchaseOrders: purchaseOrdersData
+    } = consolidated 
+      ? await loadConsolidatedData(dateRange, basis) 
+      : await loadStoreReportData(dateRange, basis);
     
     console.log(`Filtered to ${filteredOrders.length} orders within date range`);
     
@@ -72,11 +75,15 @@ export const loadReportData = async (
     }
     
     // Generate report data
-    const salesData = generateSalesReport(filteredOrders, periodType);
+    const salesData = generateSalesReport(filteredOrders, periodType, basis);
     const productData = generateProductsReport(filteredOrders, productsData, periodType);
-    const expenseData = generateExpensesReport(expensesData, periodType);
+    const expenseData = generateExpensesReport(expensesData, dateRange, periodType, basis);
     const additionalRevenueReport = generateAdditionalRevenueReport(additionalRevenueData, periodType);
-    const profitabilityData = generateProfitabilityReport(filteredOrders, expensesData, additionalRevenueData, periodType);
+    const profitabilityData = generateProfitabilityReport(filteredOrders, expensesData, additionalRevenueData, dateRange, periodType, purchaseOrdersData, basis);
+    const gstData = generateGstReport(filteredOrders, expensesData, additionalRevenueData, purchaseOrdersData, periodType, basis);
+    const paymentFeeData = generatePaymentFeesReport(filteredOrders);
+    const shippingData = generateShippingReport(filteredOrders, periodType);
+    const couponData = generateCouponsReport(filteredOrders);
     
     console.log('Generated profitability data:', {
       periods: profitabilityData.length,
@@ -86,19 +93,23 @@ export const loadReportData = async (
     // Calculate totals with robust error handling
     const totalRevenue = filteredOrders.reduce((sum, order) => {
       if (!order.total) return sum;
-      const orderTotal = parseFloat(order.total);
-      return sum + (isNaN(orderTotal) ? 0 : orderTotal);
+      return sum + getOrderRevenue(order);
     }, 0);
     
     const totalAdditionalRevenue = additionalRevenueData.reduce((sum, revenue) => {
-      const amount = revenue.amount || 0;
+      const amount = getAdditionalRevenueNetAmount(revenue);
       return sum + (isNaN(amount) ? 0 : amount);
     }, 0);
     
-    const totalExpenses = expensesData.reduce((sum, expense) => {
-      const amount = expense.amount || 0;
-      return sum + (isNaN(amount) ? 0 : amount);
-    }, 0);
+    // Recurring expenses count for the part of the range they cover, excluding GST
+    const { totalExpenses } = calculateExpenses(
+      expensesData.map(expense => {
+        const amount = getExpenseNetAmount(expense);
+        return { ...expense, amount: isNaN(amount) ? 0 : amount };
+      }),
+      dateRange,
+      basis
+    );
     
     const totalProfit = totalRevenue + totalAdditionalRevenue - totalExpenses;
     
@@ -119,6 +130,11 @@ export const loadReportData = async (
       expenseData,
       additionalRevenueReport,
       profitabilityData,
+      gstData,
+      paymentFeeData,
+      shippingData,
+      couponData,
+      basis,
       totalRevenue,
       totalAdditionalRevenue,
       totalExpenses,
@@ -1,4 +1,5 @@
 import { format, startOfMonth, endOfMonth, startOfQuarter, endOfQuarter, startOfYear, endOfYear, eachMonthOfInterval, eachQuarterOfInterval, eachYearOfInterval } from 'date-fns';
+import { formatCurrency as formatStoreCurrency } from '../../utils/currencyUtils';
 
 // Helper function to group data by period
 export const groupDataByPeriod = <T,>(
@@ -134,12 +135,9 @@ export const groupDataByPeriod = <T,>(
 export const formatCurrency = (value: number) => {
   if (value === undefined || value === null || isNaN(value)) {
     console.error('Invalid currency value:', value);
-    return '$0.00';
+    return formatStoreCurrency(0);
   }
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(value);
+  return formatStoreCurrency(value);
 };
 
 // Format percentage
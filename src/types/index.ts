@@ -11,6 +11,7 @@ export interface ProductVariation {
   supplier_name?: string;
   supplier_updated?: Date;
   stock_quantity?: number;
+  weight?: string; // In the store's weight unit, as returned by WooCommerce
   attributes: Array<{
     name: string;
     option: string;
@@ -45,6 +46,8 @@ export interface Product {
   supplier_updated?: Date;
   stock_quantity?: number;
   type?: string;
+  weight?: string; // In the store's weight unit, as returned by WooCommerce
+  date_modified_gmt?: string;
   variations?: number[];
   productVariations?: ProductVariation[];
 }
@@ -56,7 +59,10 @@ export interface OrderItem {
   name: string;
   quantity: number;
   price: number;
-  total: string;
+  total: string; // Line total after discounts, excluding tax
+  subtotal?: string; // Line total before discounts, excluding tax
+  subtotal_tax?: string;
+  total_tax?: string;
   sku?: string;
   cost_price?: number;
   profit?: number;
@@ -67,21 +73,83 @@ export interface OrderItem {
   }>;
 }
 
+// A billing or shipping address as WooCommerce returns it
+export interface Address {
+  first_name: string;
+  last_name: string;
+  company?: string;
+  address_1?: string;
+  address_2?: string;
+  city?: string;
+  state?: string;
+  postcode?: string;
+  country?: string;
+  email?: string; // Billing only
+  phone?: string;
+}
+
 export interface Order {
   id: number;
   number: string;
   date_created: string;
-  date_created_nz?: string; // Date in NZ timezone
+  date_created_gmt?: string; // Exact creation time in UTC, without offset
+  date_created_local?: string; // Wall-clock creation time in the store timezone
   date_created_display?: string; // Formatted date for display
+  date_modified_gmt?: string;
+  date_paid?: string | null; // Store-local payment time; null until the order is paid
+  date_paid_gmt?: string | null; // Exact payment time in UTC, without offset
   status: string;
-  total: string;
+  total: string; // Including tax
+  total_tax?: string; // Tax on items and shipping
+  shipping_tax?: string;
   line_items: OrderItem[];
   shipping_total: string;
+  discount_total?: string; // Discount from coupons, excluding tax
+  discount_tax?: string;
+  coupon_lines?: OrderCouponLine[];
   payment_method: string;
   payment_method_title: string;
+  customer_id?: number; // 0 for guest checkouts
+  billing?: Address;
+  shipping?: Address;
   cost_total?: number;
+  goods_cost?: number; // Cost of the goods sold, the part of cost_total that is stock; set by the P&L
   profit?: number;
   margin?: number;
+  refunds?: Array<{ id: number; reason: string; total: string }>; // Refund summary returned with the order
+  refund_details?: OrderRefund[]; // Full refunds from /orders/{id}/refunds
+  refund_total?: number; // Amount refunded, set by the P&L
+  restocked_cost?: number; // Cost of refunded items put back in stock, set by the P&L
+  tax_total?: number; // GST collected after refunds, set by the P&L
+  payment_fee?: number; // Payment gateway fee, set by the P&L when a fee schedule matches
+  shipping_cost?: number; // Carrier cost excluding GST, set by the P&L when one is recorded
+  shipping_cost_source?: ShippingCostSource;
+  store_id?: number; // Set when orders from several stores are combined
+}
+
+export interface OrderCouponLine {
+  id: number;
+  code: string; // Lower case, as WooCommerce stores coupon codes
+  discount: string; // Excluding tax
+  discount_tax: string;
+}
+
+export interface OrderRefundLine {
+  line_item_id: number; // Order line item the refund applies to
+  product_id: number;
+  variation_id?: number;
+  sku?: string;
+  quantity: number; // Quantity refunded, as a positive number
+  total: number; // Amount refunded excluding tax, as a positive number
+}
+
+export interface OrderRefund {
+  id: number;
+  date_created: string;
+  date_created_gmt?: string;
+  amount: number;
+  reason?: string;
+  line_items: OrderRefundLine[];
 }
 
 export interface InventoryItem {
@@ -107,11 +175,67 @@ export interface OverheadCost {
   value: number;
 }
 
+export interface PaymentFeeTier {
+  min_amount: number; // Order total from which the tier's rates apply
+  percentage: number;
+  fixed: number;
+}
+
+// Fees a payment gateway charges per order, from a date if given
+export interface PaymentFeeSchedule {
+  id: number;
+  payment_method: string; // WooCommerce gateway id, e.g. stripe, ppcp-gateway or bacs
+  name: string;
+  percentage: number;
+  fixed: number;
+  tiers?: PaymentFeeTier[]; // Rates for larger orders, replacing the base rates
+  effective_from?: string; // yyyy-MM-dd in the store timezone
+  effective_to?: string; // yyyy-MM-dd in the store timezone, inclusive
+}
+
+// Sales and profit of the orders that used a coupon
+export interface CouponSummary {
+  code: string;
+  orders: number;
+  discount: number; // Excluding GST
+  revenue: number; // After discounts and refunds, excluding GST
+  gross_profit: number;
+  margin: number;
+  undiscounted_margin: number; // Margin had the orders been sold at full price
+  margin_erosion: number; // Percentage points below the margin of orders without a coupon
+}
+
+export interface CouponReport {
+  coupons: CouponSummary[];
+  undiscounted: CouponSummary; // Orders without a coupon, for comparison
+}
+
+// Fees paid through one payment gateway
+export interface PaymentFeeSummary {
+  payment_method: string;
+  payment_method_title: string;
+  orders: number;
+  amount: number; // Order totals charged, including GST
+  fees: number;
+  effective_rate: number; // Fees as a percentage of the amount charged
+  unmatched_orders: number; // Orders no fee schedule applied to
+}
+
+export interface LastSync {
+  id: number;
+  type: string;
+  timestamp: Date;
+  cursor?: string; // High-water mark (GMT date_modified) used for incremental syncs
+}
+
 export interface DateRange {
   startDate: Date;
   endDate: Date;
 }
 
+// Whether the P&L recognises sales and costs when they are invoiced or when they are paid
+export type ReportingBasis = 'accrual' | 'cash';
+
 export interface PnLSummary {
   totalRevenue: number;
   totalCost: number;
@@ -123,23 +247,76 @@ export interface PnLSummary {
   periodEnd: string;
 }
 
+// GST collected and paid over a period
+export interface GstSummary {
+  collected: number;
+  paidOnExpenses: number;
+  paidOnPurchases: number;
+  payable: number; // Collected less paid; negative when a refund is due
+}
+
+export interface GstPeriod extends GstSummary {
+  period: string;
+}
+
+export interface Store {
+  id?: number;
+  name: string;
+  created_at: Date;
+}
+
+export interface StoreProfile {
+  timezone: string; // IANA timezone, e.g. Pacific/Auckland
+  currency: string; // ISO 4217 code, e.g. NZD
+  locale: string; // BCP 47 locale used for number and date formatting, e.g. en-NZ
+  fiscalYearStartMonth: number; // 1-12, month the fiscal year starts in
+  gstRate: number; // GST rate as a percentage, e.g. 15
+}
+
+export interface AppSetting {
+  key: string;
+  value: unknown;
+}
+
 export interface ApiCredentials {
   url: string;
   consumerKey: string;
   consumerSecret: string;
 }
 
+// API credentials as stored; once a passphrase is set, the key and secret are kept in encrypted instead
+export interface StoredApiCredentials extends ApiCredentials {
+  id?: number;
+  encrypted?: { iv: string; data: string }; // Base64 AES-GCM IV and ciphertext
+}
+
+// How the passphrase protecting a store's credentials is checked and when it locks
+export interface CredentialVault {
+  salt: string; // Base64 PBKDF2 salt
+  iterations: number;
+  check: { iv: string; data: string }; // A known value encrypted with the key, to verify the passphrase
+  auto_lock_minutes: number; // Lock after this long without activity; 0 never locks
+}
+
+export type ExpensePeriod = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
 export interface Expense {
   id?: number;
-  date: Date;
+  date: Date; // Start date of a recurring expense
   category: string;
-  amount: number;
+  amount: number; // Per period for a recurring expense
   description: string;
-  period?: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  period?: ExpensePeriod; // Recurs every period; one-time when not set
+  end_date?: Date; // Last day a recurring expense is charged for
+  date_paid?: Date; // When a one-time expense was paid; the cash basis uses its date when not set
+  day_of_month?: number; // Day a monthly expense falls due, 1-31; the start date's day when not set
   reference?: string;
   payment_method?: string;
-  tax_deductible?: boolean;
+  tax_deductible?: boolean; // Overrides the category's is_tax_deductible
   tags?: string[];
+  tax_amount?: number; // GST claimed, set by the P&L
+  import_fingerprint?: string; // Identifies the bank transaction it was imported from
+  import_payee?: string; // Payee on the bank statement, for learning rules from recategorisation
 }
 
 export interface ExpenseCategory {
@@ -147,7 +324,7 @@ export interface ExpenseCategory {
   name: string;
   description?: string;
   color?: string;
-  is_tax_deductible?: boolean;
+  is_tax_deductible?: boolean; // Expenses include GST that can be claimed back
   budget_monthly?: number;
 }
 
@@ -170,6 +347,9 @@ export interface AdditionalRevenue {
   payment_method?: string;
   tax_included?: boolean;
   tags?: string[];
+  tax_amount?: number; // GST collected, set by the P&L
+  import_fingerprint?: string; // Identifies the bank transaction it was imported from
+  import_payee?: string; // Payee on the bank statement, for learning rules from recategorisation
 }
 
 export interface AdditionalRevenueCategory {
@@ -199,6 +379,18 @@ export interface SupplierPriceItem {
   supplier_name: string;
 }
 
+// A supplier price for a SKU, in effect from a date until the next entry
+export interface SupplierPriceHistory {
+  id?: number;
+  sku: string;
+  supplier_name: string;
+  price: number;
+  effective_date: Date;
+  source: 'import' | 'manual' | 'purchase_order';
+  reference?: string; // Import filename or purchase order reference
+  created_at: Date;
+}
+
 export interface ReportData {
   orders: Order[];
   products: Product[];
@@ -209,6 +401,11 @@ export interface ReportData {
   expenseData: any[];
   additionalRevenueReport: any[];
   profitabilityData: any[];
+  gstData: GstPeriod[];
+  paymentFeeData: PaymentFeeSummary[];
+  shippingData: ShippingPeriod[];
+  couponData: CouponReport;
+  basis: ReportingBasis; // Basis the report was calculated on
   totalRevenue: number;
   totalAdditionalRevenue: number;
   totalExpenses: number;
@@ -236,8 +433,11 @@ export interface PurchaseOrder {
   supplier_id?: number;
   reference_number: string;
   total_amount: number;
+  tax_amount?: number; // GST paid on the order
   payment_method: string;
+  date_paid?: Date; // When the supplier was paid; the cash basis uses the order date when not set
   status: 'ordered' | 'received' | 'partially_received';
+  receipts_unknown?: boolean; // Marked partially received before goods receipts existed, so what arrived is not known
   notes?: string;
   expiry_date?: Date;
   created_at: Date;
@@ -256,4 +456,358 @@ export interface PurchaseOrderItem {
   batch_number?: string;
   expiry_date?: Date;
   notes?: string;
-}
\ No newline at end of file
+}
+// A goods-received note: one delivery against a purchase order
+export interface GoodsReceipt {
+  id?: number;
+  purchase_order_id: number;
+  date: Date;
+  reference?: string; // Supplier delivery or packing slip number
+  notes?: string;
+  created_at: Date;
+}
+
+export interface GoodsReceiptLine {
+  id?: number;
+  receipt_id: number;
+  purchase_order_id: number;
+  purchase_order_item_id: number;
+  sku: string;
+  quantity: number;
+  batch_number?: string;
+  expiry_date?: Date;
+  expiry_id?: number; // Expiry record the quantity was added to
+}
+
+export type CostingMethod = 'fifo' | 'weighted_average';
+
+// A quantity of stock received at one unit cost, consumed as orders ship
+export interface CostLayer {
+  sku: string;
+  date: Date;
+  quantity: number;
+  unit_cost: number;
+  purchase_order_id: number;
+}
+
+export interface OrderLineCost {
+  line_item_id: number;
+  sku?: string;
+  quantity: number;
+  unit_cost: number;
+  unmatched_quantity: number; // Quantity no cost layer covered, costed at the price in effect on the order date
+}
+
+// Cost of goods for an order, frozen when the order is first costed
+export interface OrderCost {
+  order_id: number;
+  method: CostingMethod;
+  line_items: OrderLineCost[];
+  costed_at: Date;
+}
+
+export type ShippingCostSource = 'manual' | 'import' | 'estimate';
+
+// What the carrier charged to ship an order
+export interface ShippingCost {
+  order_id: number;
+  order_number: string;
+  amount: number; // Excluding GST
+  source: ShippingCostSource;
+  carrier?: string;
+  reference?: string; // Courier invoice or consignment number
+  weight?: number; // Order weight an estimate was based on
+  updated_at: Date;
+}
+
+// A carrier rate for orders shipped to a zone within a weight bracket
+export interface ShippingRateRule {
+  id: number;
+  name: string;
+  country: string; // ISO country code; blank for any country
+  regions: string; // Comma-separated states and postcodes or postcode ranges (2000-2999); blank for the whole country
+  min_weight: number;
+  max_weight?: number; // Exclusive; open-ended when unset
+  base_cost: number; // Excluding GST
+  cost_per_weight: number; // Added per unit of weight
+}
+
+export type BankStatementFormat = 'ofx' | 'qif' | 'csv';
+
+// Money out of the account is recorded as an expense, money in as additional revenue
+export type BankTransactionDirection = 'debit' | 'credit';
+
+// A transaction read from a bank statement
+export interface BankTransaction {
+  day: string; // yyyy-MM-dd
+  amount: number; // Negative for money out
+  payee: string;
+  memo?: string;
+  reference?: string; // The bank's transaction ID or cheque number
+  fingerprint: string; // Same for the same transaction in any later statement
+}
+
+export type BankRuleMatchType = 'contains' | 'amount_range' | 'regex';
+
+// Categorises bank transactions of a direction that match a payee text, amount range or pattern
+export interface BankRule {
+  id: number;
+  name: string;
+  direction: BankTransactionDirection;
+  match_type: BankRuleMatchType;
+  pattern: string; // Text or regular expression matched against the payee and memo
+  min_amount?: number; // Inclusive, for amount ranges
+  max_amount?: number; // Inclusive; open-ended when unset
+  category: string; // Expense category for debits, additional revenue category for credits
+  tags?: string[];
+  tax_deductible?: boolean; // For debits; overrides the category's is_tax_deductible
+  learned?: boolean; // Made from a transaction being recategorised by hand
+}
+
+// Shipping charged to customers against what carriers were paid
+export interface ShippingPeriod {
+  period: string;
+  charged: number;
+  paid: number;
+  profit: number;
+  orders: number;
+  ordersWithCost: number;
+  lossOrders: number;
+}
+
+export type OutboundChangeType = 'stock' | 'cost';
+
+// A local stock or cost change waiting to be written back to WooCommerce
+export interface OutboundChange {
+  id?: number;
+  type: OutboundChangeType;
+  product_id: number;
+  variation_id?: number;
+  sku: string;
+  name: string;
+  value: number; // Stock adjustment (quantity delta) or the new cost price
+  target_quantity?: number; // Stock quantity a stock adjustment was last sent as
+  target_value?: number; // The adjustment that target_quantity included
+  source: string; // What made the change, e.g. a purchase order reference
+  status: 'pending' | 'failed' | 'pushed';
+  attempts: number;
+  last_error?: string;
+  created_at: Date;
+  updated_at: Date;
+  pushed_at?: Date;
+}
+
+export type SyncJobType = 'all' | 'products' | 'customers' | 'inventory' | 'year' | 'custom';
+
+// What a sync job was asked to sync
+export interface SyncJobRequest {
+  type: SyncJobType;
+  year?: number; // For 'year'
+  startDay?: string; // For 'custom', yyyy-MM-dd in the store timezone
+  endDay?: string;
+}
+
+// How far a sync job got, saved after every stored page
+export interface SyncCheckpoint {
+  step: number; // Index of the step being synced
+  page: number; // Last page of the step that was stored, 0 if none
+  totalPages?: number;
+}
+
+// A sync run, kept as history and resumed from its checkpoint after an interruption
+export interface SyncJob {
+  id?: number;
+  request: SyncJobRequest;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  checkpoint: SyncCheckpoint;
+  counts: Record<string, number>; // Records stored per entity, e.g. orders
+  retries: number; // Requests retried after rate limiting or server errors
+  errors: string[];
+  started_at: Date;
+  updated_at: Date;
+  finished_at?: Date;
+  duration_ms: number; // Time spent syncing, excluding time between interruption and resume
+}
+
+// A raw WooCommerce REST API record, as served in replay mode
+export type ApiRecord = Record<string, unknown> & { id: number };
+
+// Recorded or generated WooCommerce responses that stand in for a live store
+export interface ReplayFixtures {
+  name: string;
+  source: 'recorded' | 'generated' | 'imported';
+  products: ApiRecord[];
+  variations: Record<number, ApiRecord[]>; // By parent product id
+  orders: ApiRecord[];
+  refunds: Record<number, ApiRecord[]>; // By order id
+  customers?: ApiRecord[]; // Missing from fixtures made before customers were synced
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ReplayFixturesSummary {
+  name: string;
+  source: ReplayFixtures['source'];
+  productCount: number;
+  orderCount: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Settings for generating a realistic store to replay
+export interface ReplayScenarioOptions {
+  seed: number; // The same seed always generates the same store
+  productCount: number;
+  variableShare: number; // Share of products with variations, 0-1
+  months: number; // Months of orders, ending today
+  ordersPerDay: number;
+  refundRate: number; // Share of orders with a refund, 0-1
+  couponRate: number; // Share of orders with a coupon, 0-1
+  gstRate: number; // Percentage included in prices
+}
+
+// A registered WooCommerce customer
+export interface Customer {
+  id: number;
+  email: string;
+  first_name: string;
+  last_name: string;
+  username?: string;
+  date_created: string; // Store-local time, without offset
+  date_created_gmt?: string;
+  date_modified_gmt?: string;
+  is_paying_customer?: boolean;
+  billing?: Address;
+  shipping?: Address;
+}
+
+// What a customer has bought and earned the store, over all their orders
+export interface CustomerSummary {
+  key: string; // customer:<id> for registered customers, guest:<email> for guests
+  customer_id?: number;
+  name: string;
+  email: string;
+  is_guest: boolean;
+  first_order: Date;
+  last_order: Date;
+  order_count: number;
+  lifetime_value: number; // Revenue after refunds, excluding GST
+  average_order_value: number;
+  gross_profit: number;
+  margin: number;
+}
+
+// Customers who placed their first order in the same month, and how many came back
+export interface CustomerCohort {
+  cohort: string; // yyyy-MM in the store timezone
+  size: number;
+  retention: number[]; // Percentage of the cohort ordering in each month since their first, starting with month 0
+}
+
+export interface CustomerAnalytics {
+  customers: CustomerSummary[];
+  repeatCustomers: number;
+  repeatRate: number; // Percentage of customers with more than one order
+  cohorts: CustomerCohort[];
+}
+
+// A copy of every table in a store's database
+export interface BackupArchive {
+  format: 'woocommerce-pnl-backup';
+  version: number; // Version of the backup format
+  schema_version: number; // Database schema version the tables were exported from
+  store_name?: string;
+  created_at: string;
+  tables: Record<string, unknown[]>;
+}
+
+// A backup archive encrypted with a passphrase
+export interface EncryptedBackupArchive {
+  format: 'woocommerce-pnl-backup';
+  version: number;
+  encrypted: true;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }; // Salt is base64
+  cipher: { name: 'AES-GCM'; iv: string }; // IV is base64
+  data: string; // Base64 ciphertext of the archive's JSON
+}
+
+// Merge adds the backup's records, replacing any with the same key; replace clears the tables first
+export type BackupRestoreMode = 'merge' | 'replace';
+
+export interface BackupSummary {
+  store_name?: string;
+  created_at: string;
+  schema_version: number;
+  encrypted: boolean;
+  tables: Record<string, number>; // Record count by table
+}
+
+// Records whose manual edits are kept in the audit log
+export type AuditEntityType = 'product' | 'variation' | 'expense' | 'additional_revenue' | 'purchase_order' | 'product_expiry' | 'goods_receipt';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+// A copy of a record's fields; purchase orders include their items and goods receipts their lines
+export type AuditSnapshot = Record<string, unknown>;
+
+// One change to a record, with the record as it was before and after
+export interface AuditEntry {
+  id?: number;
+  entity_type: AuditEntityType;
+  entity_id: number;
+  label: string; // What the record was called when it changed, e.g. the product name
+  action: AuditAction;
+  before?: AuditSnapshot; // Not set for creates
+  after?: AuditSnapshot; // Not set for deletes
+  reason?: string;
+  source?: string; // What made the change when it was not a manual edit, e.g. a supplier import
+  reverts?: number; // The entry this change undid
+  created_at: Date;
+}
+
+// A deleted record, kept until the trash is emptied
+export interface TrashItem {
+  id?: number;
+  entity_type: AuditEntityType;
+  entity_id: number;
+  label: string;
+  record: AuditSnapshot;
+  reason?: string;
+  deleted_at: Date;
+}
+
+export type AttachmentOwnerType = Extract<AuditEntityType, 'expense' | 'additional_revenue' | 'purchase_order'>;
+
+// A receipt, invoice or other source document attached to a record
+export interface Attachment {
+  id?: number;
+  owner_type: AttachmentOwnerType;
+  owner_id: number;
+  name: string; // File name as uploaded
+  type: string; // MIME type
+  size: number; // Bytes
+  data: Blob;
+  thumbnail?: Blob; // Small JPEG preview of images
+  created_at: Date;
+}
+
+export type BudgetCategoryType = 'expense' | 'revenue';
+
+export interface BudgetLine {
+  category_type: BudgetCategoryType;
+  category: string; // Expense or additional revenue category name
+  months: number[]; // Amount for each month of the fiscal year, its first month first
+}
+
+// One version of a fiscal year's budget; the active version is compared with actuals
+export interface Budget {
+  id?: number;
+  fiscal_year: number; // Calendar year the fiscal year starts in
+  version: number;
+  name: string;
+  notes?: string;
+  is_active: boolean;
+  lines: BudgetLine[];
+  created_at: Date;
+  updated_at?: Date;
+}
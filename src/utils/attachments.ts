@@ -0,0 +1,43 @@
+// File types that can be attached, for file inputs
+export const ATTACHMENT_ACCEPT = 'application/pdf,image/*';
+
+// Largest file that can be attached, in bytes
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+const THUMBNAIL_SIZE = 160;
+
+export const isImageType = (type: string): boolean => type.startsWith('image/');
+
+export const isPdfType = (type: string): boolean => type === 'application/pdf';
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
+/**
+ * Make a small JPEG preview of an image, fitting within a square
+ * Returns undefined for other files, and for images the browser cannot decode.
+ */
+export const createThumbnail = async (file: Blob): Promise<Blob | undefined> => {
+  if (!isImageType(file.type)) return undefined;
+
+  try {
+    const image = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    image.close();
+
+    return await new Promise<Blob | undefined>(resolve => {
+      canvas.toBlob(blob => resolve(blob || undefined), 'image/jpeg', 0.8);
+    });
+  } catch (error) {
+    console.warn('Could not make a thumbnail:', error);
+    return undefined;
+  }
+};
@@ -0,0 +1,66 @@
+import { AuditAction, AuditEntityType, AuditEntry, AuditSnapshot } from '../types';
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Fields that change on every save and say nothing about the edit
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_at']);
+
+// Compare values by content, so equal dates and arrays count as unchanged
+const valueKey = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * List the fields that differ between two snapshots of a record
+ */
+export const getSnapshotChanges = (before?: AuditSnapshot, after?: AuditSnapshot): AuditFieldChange[] => {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  return Array.from(fields)
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .filter(field => valueKey(before?.[field]) !== valueKey(after?.[field]))
+    .map(field => ({ field, before: before?.[field], after: after?.[field] }));
+};
+
+export const getAuditChanges = (entry: AuditEntry): AuditFieldChange[] => {
+  return getSnapshotChanges(entry.before, entry.after);
+};
+
+// Turn a field name such as supplier_price into "Supplier price"
+export const formatAuditField = (field: string): string => {
+  const words = field.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  product: 'Product',
+  variation: 'Variation',
+  expense: 'Expense',
+  additional_revenue: 'Additional revenue',
+  purchase_order: 'Purchase order',
+  product_expiry: 'Expiry record',
+  goods_receipt: 'Goods receipt'
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Edited',
+  delete: 'Deleted',
+  restore: 'Restored'
+};
+
+// Why a change was made, for showing next to it
+export const describeAuditReason = (entry: AuditEntry): string => {
+  const parts = [
+    entry.reverts ? `Undid change #${entry.reverts}` : '',
+    entry.source || '',
+    entry.reason || ''
+  ];
+  return parts.filter(Boolean).join(' · ');
+};
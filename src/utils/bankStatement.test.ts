@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addFingerprints,
+  detectBankStatementFormat,
+  guessBankCsvColumns,
+  normalisePayee,
+  parseBankAmount,
+  parseBankCsv,
+  parseBankDate,
+  parseOfx,
+  parseQif
+} from './bankStatement';
+
+describe('detectBankStatementFormat', () => {
+  it('detects the format from the extension', () => {
+    expect(detectBankStatementFormat('statement.OFX', '')).toBe('ofx');
+    expect(detectBankStatementFormat('statement.qfx', '')).toBe('ofx');
+    expect(detectBankStatementFormat('statement.qif', '')).toBe('qif');
+    expect(detectBankStatementFormat('statement.csv', 'Date,Amount')).toBe('csv');
+  });
+
+  it('detects the format from the content when the extension does not say', () => {
+    expect(detectBankStatementFormat('export.txt', 'OFXHEADER:100\n<OFX>')).toBe('ofx');
+    expect(detectBankStatementFormat('export.txt', '!Type:Bank\nD1/31/24')).toBe('qif');
+  });
+});
+
+describe('parseBankDate', () => {
+  it('reads day-first and month-first dates', () => {
+    expect(parseBankDate('05/01/2024', 'dmy')).toBe('2024-01-05');
+    expect(parseBankDate('05/01/2024', 'mdy')).toBe('2024-05-01');
+    expect(parseBankDate('5.1.24', 'dmy')).toBe('2024-01-05');
+  });
+
+  it('reads year-first dates whatever the format', () => {
+    expect(parseBankDate('2024-01-05', 'mdy')).toBe('2024-01-05');
+  });
+
+  it("accepts QIF's apostrophe before a two-digit year", () => {
+    expect(parseBankDate("1/31'24", 'mdy')).toBe('2024-01-31');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseBankDate('31/02/2024', 'dmy')).toBeNull();
+    expect(parseBankDate('not a date', 'dmy')).toBeNull();
+  });
+});
+
+describe('parseBankAmount', () => {
+  it('ignores currency symbols and thousands separators', () => {
+    expect(parseBankAmount('$1,234.50')).toBe(1234.5);
+    expect(parseBankAmount('-45.10')).toBe(-45.1);
+  });
+
+  it('takes bracketed and DR amounts as money out', () => {
+    expect(parseBankAmount('(20.00)')).toBe(-20);
+    expect(parseBankAmount('15.00 DR')).toBe(-15);
+  });
+
+  it('returns NaN for text that is not an amount', () => {
+    expect(parseBankAmount('n/a')).toBeNaN();
+  });
+});
+
+describe('parseOfx', () => {
+  it('reads SGML transactions', () => {
+    const text = [
+      'OFXHEADER:100',
+      '<OFX>',
+      '<BANKTRANLIST>',
+      '<STMTTRN>',
+      '<TRNTYPE>DEBIT',
+      '<DTPOSTED>20240105120000[+13:NZDT]',
+      '<TRNAMT>-45.50',
+      '<FITID>ABC123',
+      '<NAME>Acme &amp; Co',
+      '<MEMO>Card purchase',
+      '</STMTTRN>',
+      '<STMTTRN>',
+      '<TRNTYPE>CREDIT',
+      '<DTPOSTED>20240106',
+      '<TRNAMT>100.00',
+      '<FITID>ABC124',
+      '<MEMO>Deposit',
+      '</STMTTRN>',
+      '</BANKTRANLIST>',
+      '</OFX>'
+    ].join('\n');
+
+    expect(parseOfx(text)).toEqual([
+      { day: '2024-01-05', amount: -45.5, payee: 'Acme & Co', memo: 'Card purchase', reference: 'ABC123' },
+      { day: '2024-01-06', amount: 100, payee: 'Deposit', reference: 'ABC124' }
+    ]);
+  });
+
+  it('reads XML transactions', () => {
+    const text = '<OFX><STMTTRN><DTPOSTED>20240301</DTPOSTED><TRNAMT>-9.99</TRNAMT><NAME>Streaming</NAME></STMTTRN></OFX>';
+
+    expect(parseOfx(text)).toEqual([{ day: '2024-03-01', amount: -9.99, payee: 'Streaming' }]);
+  });
+
+  it('skips transactions without a date or amount', () => {
+    expect(parseOfx('<OFX><STMTTRN><TRNAMT>-5.00<NAME>Undated</STMTTRN></OFX>')).toEqual([]);
+  });
+});
+
+describe('parseQif', () => {
+  it('reads transactions and ignores split lines', () => {
+    const text = [
+      '!Type:Bank',
+      "D1/31'24",
+      'T-12.34',
+      'PCoffee Shop',
+      'MLatte',
+      'N1001',
+      'SFood',
+      '$-12.34',
+      '^',
+      "D2/1'24",
+      'U50.00',
+      'PRefund',
+      '^'
+    ].join('\r\n');
+
+    expect(parseQif(text, 'mdy')).toEqual([
+      { day: '2024-01-31', amount: -12.34, payee: 'Coffee Shop', memo: 'Latte', reference: '1001' },
+      { day: '2024-02-01', amount: 50, payee: 'Refund' }
+    ]);
+  });
+});
+
+describe('parseBankCsv', () => {
+  it('reads separate debit and credit columns', () => {
+    const rows = [
+      { Date: '05/01/2024', Debit: '10.00', Credit: '', Description: 'Fuel' },
+      { Date: '06/01/2024', Debit: '', Credit: '200', Description: 'Sale' },
+      { Date: '07/01/2024', Debit: '', Credit: '', Description: 'Nothing moved' }
+    ];
+    const columns = guessBankCsvColumns(Object.keys(rows[0]));
+
+    expect(parseBankCsv(rows, columns, 'dmy')).toEqual([
+      { day: '2024-01-05', amount: -10, payee: 'Fuel' },
+      { day: '2024-01-06', amount: 200, payee: 'Sale' }
+    ]);
+  });
+
+  it('reads a signed amount column', () => {
+    const rows = [{ 'Transaction Date': '2024-01-05', Amount: '-42.00', Payee: 'Courier', Reference: 'T-1' }];
+    const columns = guessBankCsvColumns(Object.keys(rows[0]));
+
+    expect(parseBankCsv(rows, columns, 'mdy')).toEqual([
+      { day: '2024-01-05', amount: -42, payee: 'Courier', reference: 'T-1' }
+    ]);
+  });
+});
+
+describe('guessBankCsvColumns', () => {
+  it('guesses columns from common headings', () => {
+    expect(guessBankCsvColumns(['Transaction Date', 'Amount', 'Payee', 'Memo', 'Reference'])).toEqual({
+      date: 'Transaction Date',
+      amount: 'Amount',
+      debit: '',
+      credit: '',
+      payee: 'Payee',
+      memo: 'Memo',
+      reference: 'Reference'
+    });
+  });
+
+  it('uses debit and credit columns instead of an amount when both are present', () => {
+    const columns = guessBankCsvColumns(['Date', 'Details', 'Money Out', 'Money In', 'Balance Amount']);
+
+    expect(columns.amount).toBe('');
+    expect(columns.debit).toBe('Money Out');
+    expect(columns.credit).toBe('Money In');
+    expect(columns.payee).toBe('Details');
+  });
+});
+
+describe('normalisePayee', () => {
+  it('ignores case and spacing', () => {
+    expect(normalisePayee('  ACME   Supplies ')).toBe('acme supplies');
+  });
+});
+
+describe('addFingerprints', () => {
+  it("uses the bank's transaction ID when there is one", () => {
+    const [transaction] = addFingerprints([{ day: '2024-01-05', amount: -10, payee: 'Fuel', reference: 'T-1' }]);
+
+    expect(transaction.fingerprint).toBe('2024-01-05|-10.00|T-1');
+  });
+
+  it('numbers identical transactions on the same day in statement order', () => {
+    const transactions = addFingerprints([
+      { day: '2024-01-05', amount: -4.5, payee: 'Coffee  Shop' },
+      { day: '2024-01-05', amount: -4.5, payee: 'COFFEE SHOP' },
+      { day: '2024-01-06', amount: -4.5, payee: 'Coffee Shop' }
+    ]);
+
+    expect(transactions.map(transaction => transaction.fingerprint)).toEqual([
+      '2024-01-05|-4.50|coffee shop',
+      '2024-01-05|-4.50|coffee shop#2',
+      '2024-01-06|-4.50|coffee shop'
+    ]);
+  });
+});
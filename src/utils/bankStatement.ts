@@ -0,0 +1,202 @@
+import { BankStatementFormat, BankTransaction } from '../types';
+
+/**
+ * Bank statement parsing
+ *
+ * Reads the transactions of OFX (including QFX), QIF and CSV statement exports
+ * into calendar days (yyyy-MM-dd) and signed amounts, negative for money out.
+ * Each transaction is given a fingerprint from the bank's transaction ID, or
+ * from its day, amount and payee, so importing an overlapping statement later
+ * can skip the transactions already imported.
+ */
+
+// Order of the day, month and year in dates that are not year first
+export type BankDateFormat = 'dmy' | 'mdy';
+
+// Which CSV columns hold each field; amounts are in one signed column, or in separate debit and credit columns
+export interface BankCsvColumns {
+  date: string;
+  amount: string;
+  debit: string;
+  credit: string;
+  payee: string;
+  memo: string;
+  reference: string;
+}
+
+type ParsedTransaction = Omit<BankTransaction, 'fingerprint'>;
+
+export const detectBankStatementFormat = (fileName: string, text: string): BankStatementFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(text)) return 'ofx';
+  if (extension === 'qif' || /^!Type:/im.test(text)) return 'qif';
+  return 'csv';
+};
+
+// Build a calendar day, or null when the parts are not a real date
+const toDay = (year: number, month: number, date: number): string | null => {
+  if (year < 100) year += 2000;
+  const value = new Date(Date.UTC(year, month - 1, date));
+  if (isNaN(value.getTime()) || value.getUTCMonth() !== month - 1 || value.getUTCDate() !== date) return null;
+  return value.toISOString().slice(0, 10);
+};
+
+/**
+ * Parse a statement date into a calendar day
+ * Year-first dates are read as such whatever the format; QIF's apostrophe
+ * before a two-digit year (1/31'24) is accepted.
+ */
+export const parseBankDate = (value: string, dateFormat: BankDateFormat): string | null => {
+  const parts = value.trim().replace(/'/g, '/').replace(/\s/g, '').split(/[/.-]/).map(part => parseInt(part, 10));
+  if (parts.length !== 3 || parts.some(isNaN)) return null;
+
+  if (value.trim().match(/^\d{4}/)) return toDay(parts[0], parts[1], parts[2]);
+  return dateFormat === 'dmy'
+    ? toDay(parts[2], parts[1], parts[0])
+    : toDay(parts[2], parts[0], parts[1]);
+};
+
+/**
+ * Parse a statement amount
+ * Currency symbols and thousands separators are ignored; amounts in brackets
+ * or marked DR are taken as money out.
+ */
+export const parseBankAmount = (value: string): number => {
+  const text = value.trim();
+  const amount = parseFloat(text.replace(/[^0-9.-]/g, ''));
+  if (isNaN(amount)) return NaN;
+  return /^\(.*\)$/.test(text) || /DR$/i.test(text) ? -Math.abs(amount) : amount;
+};
+
+// Get a tag's value from an OFX transaction, in SGML (no closing tags) or XML
+const getOfxValue = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? value.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>') : undefined;
+};
+
+export const parseOfx = (text: string): ParsedTransaction[] => {
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+
+  return blocks.flatMap(block => {
+    const posted = getOfxValue(block, 'DTPOSTED') || '';
+    const day = toDay(Number(posted.slice(0, 4)), Number(posted.slice(4, 6)), Number(posted.slice(6, 8)));
+    const amount = parseBankAmount(getOfxValue(block, 'TRNAMT') || '');
+    if (!day || isNaN(amount)) return [];
+
+    const name = getOfxValue(block, 'NAME') || getOfxValue(block, 'PAYEE') || '';
+    const memo = getOfxValue(block, 'MEMO');
+    return [{
+      day,
+      amount,
+      payee: name || memo || '',
+      memo: name && memo !== name ? memo : undefined,
+      reference: getOfxValue(block, 'FITID') || getOfxValue(block, 'CHECKNUM')
+    }];
+  });
+};
+
+export const parseQif = (text: string, dateFormat: BankDateFormat): ParsedTransaction[] => {
+  const transactions: ParsedTransaction[] = [];
+  let fields: Record<string, string> = {};
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) continue;
+
+    if (line === '^') {
+      const day = parseBankDate(fields.D || '', dateFormat);
+      const amount = parseBankAmount(fields.T || fields.U || '');
+      if (day && !isNaN(amount)) {
+        transactions.push({
+          day,
+          amount,
+          payee: fields.P || fields.M || '',
+          memo: fields.P && fields.M ? fields.M : undefined,
+          reference: fields.N || undefined
+        });
+      }
+      fields = {};
+      continue;
+    }
+
+    // Split lines (S, E, $) describe parts of the same transaction and are not kept
+    const code = line[0];
+    if (!(code in fields)) fields[code] = line.slice(1).trim();
+  }
+
+  return transactions;
+};
+
+export const parseBankCsv = (
+  rows: Record<string, string>[],
+  columns: BankCsvColumns,
+  dateFormat: BankDateFormat
+): ParsedTransaction[] => {
+  const get = (row: Record<string, string>, column: string) => column ? (row[column] || '').trim() : '';
+
+  return rows.flatMap(row => {
+    const day = parseBankDate(get(row, columns.date), dateFormat);
+    const amount = columns.amount
+      ? parseBankAmount(get(row, columns.amount))
+      : (Math.abs(parseBankAmount(get(row, columns.credit))) || 0) - (Math.abs(parseBankAmount(get(row, columns.debit))) || 0);
+    if (!day || isNaN(amount) || amount === 0) return [];
+
+    return [{
+      day,
+      amount,
+      payee: get(row, columns.payee),
+      memo: get(row, columns.memo) || undefined,
+      reference: get(row, columns.reference) || undefined
+    }];
+  });
+};
+
+// Guess a column from common bank CSV headings
+const guessColumn = (headers: string[], patterns: RegExp[]): string => {
+  for (const pattern of patterns) {
+    const header = headers.find(h => pattern.test(h));
+    if (header) return header;
+  }
+  return '';
+};
+
+export const guessBankCsvColumns = (headers: string[]): BankCsvColumns => {
+  const debit = guessColumn(headers, [/^debit/i, /withdrawal/i, /money out/i, /paid out/i]);
+  const credit = guessColumn(headers, [/^credit/i, /deposit/i, /money in/i, /paid in/i]);
+
+  return {
+    date: guessColumn(headers, [/^date$/i, /transaction date/i, /posted/i, /date/i]),
+    amount: debit && credit ? '' : guessColumn(headers, [/^amount$/i, /amount/i, /value/i]),
+    debit,
+    credit,
+    payee: guessColumn(headers, [/payee/i, /description/i, /details/i, /narrative/i, /particulars/i, /name/i]),
+    memo: guessColumn(headers, [/memo/i, /code/i, /notes/i]),
+    reference: guessColumn(headers, [/reference/i, /transaction id/i, /^ref/i, /cheque/i])
+  };
+};
+
+// Payees differ in case and spacing between statements
+export const normalisePayee = (payee: string): string => payee.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Give each transaction a fingerprint
+ * The bank's transaction ID identifies a transaction when the statement has
+ * one. Otherwise the day, amount and payee do, with identical transactions on
+ * the same day numbered in statement order.
+ */
+export const addFingerprints = (transactions: ParsedTransaction[]): BankTransaction[] => {
+  const seen = new Map<string, number>();
+
+  return transactions.map(transaction => {
+    const base = [
+      transaction.day,
+      transaction.amount.toFixed(2),
+      transaction.reference || normalisePayee(transaction.payee)
+    ].join('|');
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+
+    return { ...transaction, fingerprint: count > 1 ? `${base}#${count}` : base };
+  });
+};
@@ -0,0 +1,112 @@
+/**
+ * Passphrase encryption using the Web Crypto API
+ *
+ * Keys are derived from the passphrase with PBKDF2 (SHA-256) and a random
+ * salt, and data is encrypted with AES-GCM, which also detects a wrong
+ * passphrase or tampered data.
+ */
+export const PBKDF2_ITERATIONS = 250000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * Encode bytes as base64, in chunks so large payloads do not overflow the call stack
+ */
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const randomBytes = (length: number): Uint8Array => {
+  return crypto.getRandomValues(new Uint8Array(length));
+};
+
+/**
+ * Derive an AES-GCM key from a passphrase
+ */
+export const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS,
+  extractable: boolean = false
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export interface EncryptedText {
+  salt: string; // Base64
+  iv: string; // Base64
+  iterations: number;
+  data: string; // Base64 ciphertext
+}
+
+/**
+ * Encrypt text with a key, returning the base64 IV and ciphertext
+ */
+export const encryptWithKey = async (text: string, key: CryptoKey): Promise<{ iv: string; data: string }> => {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+};
+
+/**
+ * Decrypt base64 ciphertext with a key
+ * Throws when the key is wrong or the data has been changed.
+ */
+export const decryptWithKey = async (encrypted: { iv: string; data: string }, key: CryptoKey): Promise<string> => {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(encrypted.iv) },
+      key,
+      fromBase64(encrypted.data)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('Wrong passphrase, or the data is damaged');
+  }
+};
+
+/**
+ * Encrypt text with a passphrase
+ */
+export const encryptText = async (text: string, passphrase: string): Promise<EncryptedText> => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(passphrase, salt);
+  return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, ...await encryptWithKey(text, key) };
+};
+
+/**
+ * Decrypt text encrypted with encryptText
+ */
+export const decryptText = async (encrypted: EncryptedText, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, fromBase64(encrypted.salt), encrypted.iterations);
+  return await decryptWithKey(encrypted, key);
+};
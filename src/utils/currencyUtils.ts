@@ -0,0 +1,23 @@
+import { getStoreProfile } from './storeProfile';
+
+/**
+ * Format an amount in the store currency and locale
+ */
+export const formatCurrency = (value: number | string): string => {
+  const { currency, locale } = getStoreProfile();
+  const amount = typeof value === 'string' ? parseFloat(value) : value;
+  
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency
+  }).format(isNaN(amount) ? 0 : amount);
+};
+
+/**
+ * Get the symbol of the store currency (e.g. $ or NZ$)
+ */
+export const getCurrencySymbol = (): string => {
+  const { currency, locale } = getStoreProfile();
+  const parts = new Intl.NumberFormat(locale, { style: 'currency', currency }).formatToParts(0);
+  return parts.find(part => part.type === 'currency')?.value || currency;
+};
@@ -0,0 +1,225 @@
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { DateRange, Order, ReportingBasis } from '../types';
+import { getStoreProfile, getStoreTimezone } from './storeProfile';
+
+/**
+ * Timezone-aware date range engine
+ *
+ * Calendar periods (days, months, years) are defined in the store's IANA
+ * timezone and converted to exact UTC instants. Ranges are half-open: the
+ * start is inclusive and the end is exclusive, so consecutive periods never
+ * overlap and never leave a gap, whatever the DST transitions in between.
+ */
+export interface UtcRange {
+  start: Date; // Inclusive
+  end: Date; // Exclusive
+}
+
+/**
+ * Shift a calendar day (yyyy-MM-dd) by a number of days
+ * Uses UTC arithmetic so the result does not depend on the browser timezone
+ */
+export const shiftDay = (day: string, days: number): string => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().slice(0, 10);
+};
+
+/**
+ * Count the calendar days from startDay to endDay inclusive
+ */
+export const countDays = (startDay: string, endDay: string): number => {
+  const toTime = (day: string) => {
+    const [year, month, date] = day.split('-').map(Number);
+    return Date.UTC(year, month - 1, date);
+  };
+  return Math.round((toTime(endDay) - toTime(startDay)) / 86400000) + 1;
+};
+
+/**
+ * Get the calendar day (yyyy-MM-dd) of an instant in the given timezone
+ */
+export const getDayInZone = (date: Date, timeZone: string = getStoreTimezone()): string => {
+  return formatInTimeZone(date, timeZone, 'yyyy-MM-dd');
+};
+
+/**
+ * Get the UTC instant at which a calendar day starts in the given timezone
+ */
+export const startOfDayInZone = (day: string, timeZone: string = getStoreTimezone()): Date => {
+  return fromZonedTime(`${day}T00:00:00`, timeZone);
+};
+
+/**
+ * Get the range covering the calendar days from startDay to endDay inclusive
+ */
+export const getDaysRange = (startDay: string, endDay: string, timeZone: string = getStoreTimezone()): UtcRange => {
+  return {
+    start: startOfDayInZone(startDay, timeZone),
+    end: startOfDayInZone(shiftDay(endDay, 1), timeZone)
+  };
+};
+
+/**
+ * Get the range of a calendar month (month is 0-indexed, as in Date)
+ */
+export const getMonthRange = (year: number, month: number, timeZone: string = getStoreTimezone()): UtcRange => {
+  const firstDay = new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10);
+  const nextMonthFirstDay = new Date(Date.UTC(year, month + 1, 1)).toISOString().slice(0, 10);
+
+  return {
+    start: startOfDayInZone(firstDay, timeZone),
+    end: startOfDayInZone(nextMonthFirstDay, timeZone)
+  };
+};
+
+/**
+ * Get the range of a calendar year
+ */
+export const getYearRange = (year: number, timeZone: string = getStoreTimezone()): UtcRange => {
+  return {
+    start: startOfDayInZone(`${year}-01-01`, timeZone),
+    end: startOfDayInZone(`${year + 1}-01-01`, timeZone)
+  };
+};
+
+/**
+ * Get the range of the fiscal year that starts in the given calendar year
+ * startMonth is 1-12; a fiscal year starting in January is the calendar year
+ */
+export const getFiscalYearRange = (
+  startYear: number,
+  startMonth: number = getStoreProfile().fiscalYearStartMonth,
+  timeZone: string = getStoreTimezone()
+): UtcRange => {
+  return {
+    start: getMonthRange(startYear, startMonth - 1, timeZone).start,
+    end: getMonthRange(startYear + 1, startMonth - 1, timeZone).start
+  };
+};
+
+/**
+ * Get the calendar year in which the fiscal year containing an instant starts
+ */
+export const getFiscalYearStartYear = (
+  date: Date,
+  startMonth: number = getStoreProfile().fiscalYearStartMonth,
+  timeZone: string = getStoreTimezone()
+): number => {
+  const [year, month] = getDayInZone(date, timeZone).split('-').map(Number);
+  return month >= startMonth ? year : year - 1;
+};
+
+/**
+ * Split a range into calendar months, clipping the first and last month to the range
+ */
+export const splitRangeByMonth = (range: UtcRange, timeZone: string = getStoreTimezone()): UtcRange[] => {
+  const months: UtcRange[] = [];
+  const [startYear, startMonth] = getDayInZone(range.start, timeZone).split('-').map(Number);
+
+  let year = startYear;
+  let month = startMonth - 1;
+  let current = getMonthRange(year, month, timeZone);
+
+  while (current.start < range.end) {
+    months.push({
+      start: current.start < range.start ? range.start : current.start,
+      end: current.end > range.end ? range.end : current.end
+    });
+
+    month++;
+    if (month > 11) {
+      month = 0;
+      year++;
+    }
+    current = getMonthRange(year, month, timeZone);
+  }
+
+  return months;
+};
+
+/**
+ * Check whether an instant falls inside a range
+ */
+export const isInRange = (date: Date, range: UtcRange): boolean => {
+  return date >= range.start && date < range.end;
+};
+
+/**
+ * Convert an inclusive UI date range into a half-open range
+ */
+export const toUtcRange = (dateRange: DateRange): UtcRange => {
+  return {
+    start: dateRange.startDate,
+    end: new Date(dateRange.endDate.getTime() + 1)
+  };
+};
+
+/**
+ * Convert a half-open range into an inclusive UI date range
+ * The end date is the last millisecond of the range.
+ */
+export const toDateRange = (range: UtcRange): DateRange => {
+  return {
+    startDate: range.start,
+    endDate: new Date(range.end.getTime() - 1)
+  };
+};
+
+/**
+ * Get the inclusive UI date range for the last N calendar days, ending today
+ */
+export const getRecentDaysRange = (days: number, timeZone: string = getStoreTimezone()): DateRange => {
+  const today = getDayInZone(new Date(), timeZone);
+  return toDateRange(getDaysRange(shiftDay(today, -(days - 1)), today, timeZone));
+};
+
+/**
+ * Format an instant for WooCommerce date filters
+ * Must be sent together with dates_are_gmt=true; without it WooCommerce reads
+ * the value as store-local time.
+ */
+export const toApiDateTime = (date: Date): string => {
+  return date.toISOString().slice(0, 19);
+};
+
+/**
+ * Get the exact instant an order was created
+ * date_created is store-local time without an offset, so the GMT field is
+ * preferred; older stored orders fall back to reading date_created in the
+ * store timezone.
+ */
+export const getOrderDate = (order: Pick<Order, 'date_created' | 'date_created_gmt'>, timeZone: string = getStoreTimezone()): Date => {
+  if (order.date_created_gmt) {
+    return new Date(`${order.date_created_gmt}Z`);
+  }
+  return fromZonedTime(order.date_created, timeZone);
+};
+
+/**
+ * Get the exact instant an order was paid, or null while it is unpaid
+ * Like date_created, date_paid is store-local time, so the GMT field is preferred.
+ */
+export const getOrderPaidDate = (order: Pick<Order, 'date_paid' | 'date_paid_gmt'>, timeZone: string = getStoreTimezone()): Date | null => {
+  if (order.date_paid_gmt) {
+    return new Date(`${order.date_paid_gmt}Z`);
+  }
+  return order.date_paid ? fromZonedTime(order.date_paid, timeZone) : null;
+};
+
+/**
+ * Get when an order's sale is recognised
+ * On the accrual basis that is when the order was created; on the cash basis
+ * it is when the order was paid, and unpaid orders are not recognised at all.
+ */
+export const getOrderRecognitionDate = (order: Order, basis: ReportingBasis = 'accrual', timeZone: string = getStoreTimezone()): Date | null => {
+  return basis === 'cash' ? getOrderPaidDate(order, timeZone) : getOrderDate(order, timeZone);
+};
+
+/**
+ * Check whether an order's sale is recognised inside an inclusive UI date range
+ * By default an order counts when it was created; on the cash basis, when it was paid.
+ */
+export const isOrderInDateRange = (order: Order, dateRange: DateRange, basis: ReportingBasis = 'accrual'): boolean => {
+  const date = getOrderRecognitionDate(order, basis);
+  return date !== null && isInRange(date, toUtcRange(dateRange));
+};
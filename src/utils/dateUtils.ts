@@ -1,15 +1,26 @@
-import { format, formatDistanceToNow } from 'date-fns';
-import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
+import { formatDistanceToNow } from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
+import { getStoreProfile, getStoreTimezone } from './storeProfile';
 
-// New Zealand timezone
-const NZ_TIMEZONE = 'Pacific/Auckland';
+/**
+ * Format a date in the store timezone using the store locale
+ */
+const formatInStoreZone = (date: Date, options: Intl.DateTimeFormatOptions): string => {
+  const { timezone, locale } = getStoreProfile();
+  return new Intl.DateTimeFormat(locale, { timeZone: timezone, ...options }).format(date);
+};
 
 /**
- * Format a date to New Zealand format (dd/MM/yyyy h:mm a)
- * This properly converts to NZ timezone
+ * Format a date and time in the store timezone (e.g. 19/10/2026, 3:45 pm for en-NZ)
  */
-export const formatNZDate = (date: Date): string => {
-  return formatInTimeZone(date, NZ_TIMEZONE, 'dd/MM/yyyy h:mm a');
+export const formatStoreDate = (date: Date): string => {
+  return formatInStoreZone(date, {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
 };
 
 /**
@@ -21,22 +32,36 @@ export const formatRelativeTime = (date: Date): string => {
 };
 
 /**
- * Format a date to New Zealand date only format (dd/MM/yyyy)
+ * Format the calendar date of an instant in the store timezone
+ */
+export const formatStoreDateOnly = (date: Date): string => {
+  return formatInStoreZone(date, { day: '2-digit', month: '2-digit', year: 'numeric' });
+};
+
+/**
+ * Format the time of an instant in the store timezone
  */
-export const formatNZDateOnly = (date: Date): string => {
-  return formatInTimeZone(date, NZ_TIMEZONE, 'dd/MM/yyyy');
+export const formatStoreTimeOnly = (date: Date): string => {
+  return formatInStoreZone(date, { hour: 'numeric', minute: '2-digit' });
 };
 
 /**
- * Format a date to New Zealand time only format (h:mm a)
+ * Get current date in the store timezone
+ * The result's local fields show the store's wall-clock time
  */
-export const formatNZTimeOnly = (date: Date): string => {
-  return formatInTimeZone(date, NZ_TIMEZONE, 'h:mm a');
+export const getCurrentStoreDate = (): Date => {
+  return toZonedTime(new Date(), getStoreTimezone());
 };
 
 /**
- * Get current date in New Zealand timezone
+ * Get the short name of a timezone at a given instant (e.g. NZDT or AEST)
+ * Uses the IANA rules bundled with the browser, so DST changes are exact
  */
-export const getCurrentNZDate = (): Date => {
-  return toZonedTime(new Date(), NZ_TIMEZONE);
-}; 
\ No newline at end of file
+export const getTimeZoneAbbreviation = (
+  date: Date = new Date(),
+  timeZone: string = getStoreTimezone(),
+  locale: string = getStoreProfile().locale
+): string => {
+  const parts = new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'short' }).formatToParts(date);
+  return parts.find(part => part.type === 'timeZoneName')?.value || timeZone;
+};
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { Expense } from '../types';
+import {
+  describeExpenseSchedule,
+  getExpenseOccurrences,
+  getProratedExpenseAmount,
+  getRecognisedExpenseAmount,
+  isExpenseInEffect,
+  isExpenseRecognised
+} from './expenseSchedule';
+
+// Days are worked out in UTC so the tests do not depend on the store timezone
+const TIME_ZONE = 'UTC';
+
+const makeExpense = (fields: Partial<Expense> & Pick<Expense, 'date' | 'amount'>): Expense => ({
+  category: 'Rent',
+  description: 'Test expense',
+  ...fields
+});
+
+const range = (startDay: string, endDay: string) => ({
+  startDate: new Date(`${startDay}T00:00:00Z`),
+  endDate: new Date(`${endDay}T23:59:59.999Z`)
+});
+
+describe('getProratedExpenseAmount', () => {
+  it('charges a one-time expense in full when its date is in the range', () => {
+    const expense = makeExpense({ date: new Date('2024-03-10T09:00:00Z'), amount: 120 });
+
+    expect(getProratedExpenseAmount(expense, range('2024-03-01', '2024-03-31'), TIME_ZONE)).toBe(120);
+    expect(getProratedExpenseAmount(expense, range('2024-04-01', '2024-04-30'), TIME_ZONE)).toBe(0);
+  });
+
+  it('charges a monthly expense for the share of each month in the range', () => {
+    const expense = makeExpense({ date: new Date('2024-01-01T00:00:00Z'), amount: 290, period: 'monthly' });
+
+    expect(getProratedExpenseAmount(expense, range('2024-01-01', '2024-01-31'), TIME_ZONE)).toBeCloseTo(290);
+    expect(getProratedExpenseAmount(expense, range('2024-02-01', '2024-02-03'), TIME_ZONE)).toBeCloseTo(30); // 3 of 29 days
+    expect(getProratedExpenseAmount(expense, range('2024-01-16', '2024-02-14'), TIME_ZONE))
+      .toBeCloseTo(290 * 16 / 31 + 290 * 14 / 29);
+  });
+
+  it('charges a daily expense for each day in the range', () => {
+    const expense = makeExpense({ date: new Date('2024-01-10T00:00:00Z'), amount: 5, period: 'daily' });
+
+    expect(getProratedExpenseAmount(expense, range('2024-01-01', '2024-01-31'), TIME_ZONE)).toBe(5 * 22);
+  });
+
+  it('stops charging after the end date', () => {
+    const expense = makeExpense({
+      date: new Date('2024-01-01T00:00:00Z'),
+      end_date: new Date('2024-01-15T00:00:00Z'),
+      amount: 310,
+      period: 'monthly'
+    });
+
+    expect(getProratedExpenseAmount(expense, range('2024-01-01', '2024-03-31'), TIME_ZONE)).toBeCloseTo(150);
+  });
+});
+
+describe('isExpenseInEffect', () => {
+  it('is false for a recurring expense that ended before the range or starts after it', () => {
+    const ended = makeExpense({
+      date: new Date('2023-01-01T00:00:00Z'),
+      end_date: new Date('2023-12-31T00:00:00Z'),
+      amount: 10,
+      period: 'weekly'
+    });
+    const future = makeExpense({ date: new Date('2025-01-01T00:00:00Z'), amount: 10, period: 'weekly' });
+
+    expect(isExpenseInEffect(ended, range('2024-01-01', '2024-01-31'), TIME_ZONE)).toBe(false);
+    expect(isExpenseInEffect(future, range('2024-01-01', '2024-01-31'), TIME_ZONE)).toBe(false);
+    expect(isExpenseInEffect(future, range('2025-01-01', '2025-01-01'), TIME_ZONE)).toBe(true);
+  });
+});
+
+describe('getExpenseOccurrences', () => {
+  it('moves days past the end of a shorter month to its last day without moving later ones', () => {
+    const expense = makeExpense({ date: new Date('2024-01-31T00:00:00Z'), amount: 50, period: 'monthly' });
+
+    expect(getExpenseOccurrences([expense], '2024-01-01', '2024-04-30', TIME_ZONE).map(occurrence => occurrence.day))
+      .toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+  });
+
+  it('starts in the next month when the day of month has passed in the first', () => {
+    const expense = makeExpense({ date: new Date('2024-01-20T00:00:00Z'), amount: 50, period: 'monthly', day_of_month: 5 });
+
+    expect(getExpenseOccurrences([expense], '2024-01-01', '2024-03-31', TIME_ZONE).map(occurrence => occurrence.day))
+      .toEqual(['2024-02-05', '2024-03-05']);
+  });
+
+  it('lists the occurrences of several expenses earliest first, ignoring one-time expenses', () => {
+    const weekly = makeExpense({ date: new Date('2024-01-03T00:00:00Z'), amount: 10, period: 'weekly' });
+    const yearly = makeExpense({ date: new Date('2023-01-08T00:00:00Z'), amount: 100, period: 'yearly' });
+    const oneTime = makeExpense({ date: new Date('2024-01-05T00:00:00Z'), amount: 1 });
+
+    expect(getExpenseOccurrences([weekly, yearly, oneTime], '2024-01-01', '2024-01-14', TIME_ZONE)
+      .map(occurrence => [occurrence.day, occurrence.expense.amount]))
+      .toEqual([['2024-01-03', 10], ['2024-01-08', 100], ['2024-01-10', 10]]);
+  });
+});
+
+describe('isExpenseRecognised', () => {
+  const expense = makeExpense({
+    date: new Date('2024-01-28T00:00:00Z'),
+    date_paid: new Date('2024-02-03T00:00:00Z'),
+    amount: 80
+  });
+
+  it('recognises a one-time expense on its date on the accrual basis', () => {
+    expect(isExpenseRecognised(expense, range('2024-01-01', '2024-01-31'), 'accrual', TIME_ZONE)).toBe(true);
+    expect(isExpenseRecognised(expense, range('2024-02-01', '2024-02-29'), 'accrual', TIME_ZONE)).toBe(false);
+  });
+
+  it('recognises a one-time expense when it was paid on the cash basis', () => {
+    expect(isExpenseRecognised(expense, range('2024-01-01', '2024-01-31'), 'cash', TIME_ZONE)).toBe(false);
+    expect(isExpenseRecognised(expense, range('2024-02-01', '2024-02-29'), 'cash', TIME_ZONE)).toBe(true);
+  });
+
+  it('does not recognise an unpaid one-time expense on the cash basis', () => {
+    const unpaid = makeExpense({ date: new Date('2024-01-28T00:00:00Z'), amount: 80 });
+
+    expect(isExpenseRecognised(unpaid, range('2024-01-01', '2024-01-31'), 'cash', TIME_ZONE)).toBe(false);
+  });
+});
+
+describe('getRecognisedExpenseAmount', () => {
+  const monthly = makeExpense({ date: new Date('2024-01-01T00:00:00Z'), amount: 300, period: 'monthly' });
+
+  it('prorates recurring expenses on the accrual basis', () => {
+    expect(getRecognisedExpenseAmount(monthly, range('2024-01-16', '2024-01-31'), 'accrual', TIME_ZONE))
+      .toBeCloseTo(300 * 16 / 31);
+  });
+
+  it('counts recurring expenses in full each time they fall due on the cash basis', () => {
+    expect(getRecognisedExpenseAmount(monthly, range('2024-01-16', '2024-01-31'), 'cash', TIME_ZONE)).toBe(0);
+    expect(getRecognisedExpenseAmount(monthly, range('2024-01-16', '2024-03-15'), 'cash', TIME_ZONE)).toBe(600);
+  });
+
+  it('counts one-time expenses in the range they were paid in on the cash basis', () => {
+    const expense = makeExpense({
+      date: new Date('2024-01-28T00:00:00Z'),
+      date_paid: new Date('2024-02-03T00:00:00Z'),
+      amount: 80
+    });
+
+    expect(getRecognisedExpenseAmount(expense, range('2024-01-01', '2024-01-31'), 'cash', TIME_ZONE)).toBe(0);
+    expect(getRecognisedExpenseAmount(expense, range('2024-02-01', '2024-02-29'), 'cash', TIME_ZONE)).toBe(80);
+  });
+});
+
+describe('describeExpenseSchedule', () => {
+  it('describes one-time and recurring expenses', () => {
+    expect(describeExpenseSchedule(makeExpense({ date: new Date('2024-01-01T00:00:00Z'), amount: 1 }), TIME_ZONE))
+      .toBe('One-time');
+    expect(describeExpenseSchedule(makeExpense({
+      date: new Date('2024-01-31T00:00:00Z'),
+      end_date: new Date('2025-06-30T00:00:00Z'),
+      amount: 1,
+      period: 'monthly',
+      day_of_month: 31
+    }), TIME_ZONE)).toBe('Monthly on day 31 until 2025-06-30');
+  });
+});
@@ -0,0 +1,226 @@
+import { DateRange, Expense, ExpensePeriod, ReportingBasis } from '../types';
+import { getDayInZone, shiftDay } from './dateRange';
+import { getStoreTimezone } from './storeProfile';
+
+/**
+ * Recurring expense schedules
+ *
+ * A recurring expense starts on its date and recurs every period until its
+ * optional end date. Each occurrence covers the calendar days up to the next
+ * one and its amount accrues evenly over those days, so any range is charged
+ * exactly for the days it shares with the schedule: 3 days of a 30-day month
+ * cost 3/30 of the monthly amount, and 3 days of February cost 3/28.
+ * Days are calendar days (yyyy-MM-dd) in the store's timezone.
+ */
+
+export const EXPENSE_PERIOD_LABELS: Record<ExpensePeriod, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly'
+};
+
+export interface ExpenseOccurrence {
+  expense: Expense;
+  day: string;
+}
+
+// Days since the epoch, for counting the days between calendar days
+const toDayNumber = (day: string): number => {
+  const [year, month, date] = day.split('-').map(Number);
+  return Date.UTC(year, month - 1, date) / 86400000;
+};
+
+const daysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+};
+
+// The day of a month, moved back to the month's last day when the month is shorter
+const getAnchoredDay = (year: number, month: number, dayOfMonth: number): string => {
+  return new Date(Date.UTC(year, month, Math.min(dayOfMonth, daysInMonth(year, month)))).toISOString().slice(0, 10);
+};
+
+export const getExpenseDay = (date: Date, timeZone: string = getStoreTimezone()): string => {
+  return getDayInZone(new Date(date), timeZone);
+};
+
+/**
+ * Get the day of an expense's nth occurrence, counting the first as 0
+ * Monthly expenses fall on their day of month, or the start date's day; yearly
+ * expenses on the start date's day of the year. Days past the end of a shorter
+ * month fall on its last day, without moving later occurrences.
+ */
+const getOccurrenceDay = (period: ExpensePeriod, startDay: string, dayOfMonth: number | undefined, n: number): string => {
+  const [year, month, date] = startDay.split('-').map(Number);
+
+  switch (period) {
+    case 'daily':
+      return shiftDay(startDay, n);
+    case 'weekly':
+      return shiftDay(startDay, n * 7);
+    case 'monthly': {
+      const anchor = dayOfMonth || date;
+      // Start in the next month when the anchor day has already passed in the first
+      const firstMonth = getAnchoredDay(year, month - 1, anchor) < startDay ? month : month - 1;
+      return getAnchoredDay(year, firstMonth + n, anchor);
+    }
+    case 'yearly':
+      return getAnchoredDay(year + n, month - 1, date);
+  }
+};
+
+/**
+ * Get the calendar days from startDay to endDay inclusive shared with an expense
+ * Returns null when they share none.
+ */
+const getScheduleWindow = (expense: Expense, startDay: string, endDay: string, timeZone: string): [string, string] | null => {
+  const firstDay = expense.period
+    ? getOccurrenceDay(expense.period, getExpenseDay(expense.date, timeZone), expense.day_of_month, 0)
+    : getExpenseDay(expense.date, timeZone);
+  const lastDay = expense.period
+    ? (expense.end_date ? getExpenseDay(expense.end_date, timeZone) : endDay)
+    : firstDay;
+
+  const windowStart = firstDay > startDay ? firstDay : startDay;
+  const windowEnd = lastDay < endDay ? lastDay : endDay;
+  return windowStart <= windowEnd ? [windowStart, windowEnd] : null;
+};
+
+// The calendar days an inclusive UI date range covers
+const getRangeDays = (dateRange: DateRange, timeZone: string): [string, string] => {
+  return [getDayInZone(dateRange.startDate, timeZone), getDayInZone(dateRange.endDate, timeZone)];
+};
+
+/**
+ * Check whether an expense is charged for any day of a date range
+ * One-time expenses fall on their date; recurring expenses run from their
+ * start date to their end date, if any.
+ */
+export const isExpenseInEffect = (expense: Expense, dateRange: DateRange, timeZone: string = getStoreTimezone()): boolean => {
+  const [startDay, endDay] = getRangeDays(dateRange, timeZone);
+  return getScheduleWindow(expense, startDay, endDay, timeZone) !== null;
+};
+
+/**
+ * Get the part of an expense charged to a date range
+ * A one-time expense is charged in full if its date is in the range. A
+ * recurring expense is charged, for each occurrence, its amount times the
+ * share of the occurrence's days that fall in the range.
+ */
+export const getProratedExpenseAmount = (expense: Expense, dateRange: DateRange, timeZone: string = getStoreTimezone()): number => {
+  const [rangeStart, rangeEnd] = getRangeDays(dateRange, timeZone);
+  const window = getScheduleWindow(expense, rangeStart, rangeEnd, timeZone);
+  if (!window) return 0;
+
+  if (!expense.period) return expense.amount;
+
+  const windowStart = toDayNumber(window[0]);
+  const windowEnd = toDayNumber(window[1]) + 1; // Exclusive
+  if (expense.period === 'daily') {
+    return expense.amount * (windowEnd - windowStart);
+  }
+
+  const startDay = getExpenseDay(expense.date, timeZone);
+  let total = 0;
+  let occurrenceStart = toDayNumber(getOccurrenceDay(expense.period, startDay, expense.day_of_month, 0));
+
+  for (let n = 1; occurrenceStart < windowEnd; n++) {
+    const occurrenceEnd = toDayNumber(getOccurrenceDay(expense.period, startDay, expense.day_of_month, n));
+    const overlap = Math.min(occurrenceEnd, windowEnd) - Math.max(occurrenceStart, windowStart);
+    if (overlap > 0) {
+      total += expense.amount * overlap / (occurrenceEnd - occurrenceStart);
+    }
+    occurrenceStart = occurrenceEnd;
+  }
+
+  return total;
+};
+
+/**
+ * Get the days recurring expenses fall due from fromDay to toDay inclusive, earliest first
+ */
+export const getExpenseOccurrences = (
+  expenses: Expense[],
+  fromDay: string,
+  toDay: string,
+  timeZone: string = getStoreTimezone()
+): ExpenseOccurrence[] => {
+  const occurrences: ExpenseOccurrence[] = [];
+
+  expenses.forEach(expense => {
+    if (!expense.period) return;
+
+    const startDay = getExpenseDay(expense.date, timeZone);
+    const lastDay = expense.end_date ? getExpenseDay(expense.end_date, timeZone) : toDay;
+
+    for (let n = 0; ; n++) {
+      const day = getOccurrenceDay(expense.period, startDay, expense.day_of_month, n);
+      if (day > toDay || day > lastDay) break;
+      if (day >= fromDay) {
+        occurrences.push({ expense, day });
+      }
+    }
+  });
+
+  return occurrences.sort((a, b) => a.day.localeCompare(b.day));
+};
+
+/**
+ * Check whether an expense is recognised in a date range
+ * On the accrual basis this is whether it is charged for any day of the range.
+ * On the cash basis a one-time expense counts on the day it was paid, and not
+ * at all while no payment is recorded; recurring expenses count on the days
+ * they fall due.
+ */
+export const isExpenseRecognised = (
+  expense: Expense,
+  dateRange: DateRange,
+  basis: ReportingBasis = 'accrual',
+  timeZone: string = getStoreTimezone()
+): boolean => {
+  if (basis === 'accrual' || expense.period) {
+    return isExpenseInEffect(expense, dateRange, timeZone);
+  }
+
+  if (!expense.date_paid) return false;
+
+  const [startDay, endDay] = getRangeDays(dateRange, timeZone);
+  const paidDay = getExpenseDay(expense.date_paid, timeZone);
+  return paidDay >= startDay && paidDay <= endDay;
+};
+
+/**
+ * Get the part of an expense recognised in a date range
+ * The accrual basis prorates recurring expenses over the days they cover; the
+ * cash basis counts their full amount each time they fall due in the range.
+ */
+export const getRecognisedExpenseAmount = (
+  expense: Expense,
+  dateRange: DateRange,
+  basis: ReportingBasis = 'accrual',
+  timeZone: string = getStoreTimezone()
+): number => {
+  if (basis === 'accrual') {
+    return getProratedExpenseAmount(expense, dateRange, timeZone);
+  }
+  if (!expense.period) {
+    return isExpenseRecognised(expense, dateRange, basis, timeZone) ? expense.amount : 0;
+  }
+
+  const [startDay, endDay] = getRangeDays(dateRange, timeZone);
+  return expense.amount * getExpenseOccurrences([expense], startDay, endDay, timeZone).length;
+};
+
+// Describe how often an expense recurs, such as "Monthly on day 31 until 2025-06-30"
+export const describeExpenseSchedule = (expense: Expense, timeZone: string = getStoreTimezone()): string => {
+  if (!expense.period) return 'One-time';
+
+  const parts = [EXPENSE_PERIOD_LABELS[expense.period]];
+  if (expense.period === 'monthly' && expense.day_of_month) {
+    parts.push(`on day ${expense.day_of_month}`);
+  }
+  if (expense.end_date) {
+    parts.push(`until ${getExpenseDay(expense.end_date, timeZone)}`);
+  }
+  return parts.join(' ');
+};
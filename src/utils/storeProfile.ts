@@ -0,0 +1,73 @@
+import { StoreProfile } from '../types';
+
+/**
+ * Store profile used when none has been saved yet
+ */
+export const DEFAULT_STORE_PROFILE: StoreProfile = {
+  timezone: 'Pacific/Auckland',
+  currency: 'NZD',
+  locale: 'en-NZ',
+  fiscalYearStartMonth: 4,
+  gstRate: 15
+};
+
+// In-memory copy of the saved profile, so formatting helpers can stay synchronous
+let currentProfile: StoreProfile = DEFAULT_STORE_PROFILE;
+
+/**
+ * Get the active store profile
+ */
+export const getStoreProfile = (): StoreProfile => {
+  return currentProfile;
+};
+
+/**
+ * Replace the active store profile
+ * Only updates the in-memory copy; persisting is done by the API layer
+ */
+export const setStoreProfile = (profile: StoreProfile): void => {
+  currentProfile = profile;
+};
+
+/**
+ * Get the store's IANA timezone
+ */
+export const getStoreTimezone = (): string => {
+  return currentProfile.timezone;
+};
+
+/**
+ * Check whether a string is an IANA timezone known to the browser
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check whether a string is an ISO 4217 currency code known to the browser
+ */
+export const isValidCurrency = (currency: string): boolean => {
+  if (!/^[A-Z]{3}$/.test(currency)) return false;
+  try {
+    new Intl.NumberFormat('en', { style: 'currency', currency });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check whether a string is a locale supported by the browser
+ */
+export const isValidLocale = (locale: string): boolean => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
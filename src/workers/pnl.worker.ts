@@ -0,0 +1,28 @@
+import { setWorkerStoreId } from '../db/stores';
+import type { StorePnLRequest, StorePnLResponse } from '../services/pnl/storePnl';
+
+/**
+ * Calculates a store's P&L off the main thread
+ * Each worker serves one store. Results for orders that have not changed stay
+ * cached in the worker between requests.
+ */
+self.addEventListener('message', async (event: MessageEvent<StorePnLRequest>) => {
+  const { id, storeId, dateRange, options } = event.data;
+  let response: StorePnLResponse;
+
+  try {
+    // The store's database is opened when the P&L modules load, so they are loaded once the store is known
+    setWorkerStoreId(storeId);
+    const { fetchStoreProfile } = await import('../services/api/storeProfile');
+    const { calculateStorePnL } = await import('../services/pnl/storePnl');
+
+    // The profile may have been changed since the last request
+    await fetchStoreProfile();
+    response = { id, result: await calculateStorePnL(dateRange, options) };
+  } catch (error) {
+    console.error('Error calculating P&L in worker:', error);
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  self.postMessage(response);
+});
@@ -7,6 +7,10 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  // Workers share modules with the app, so they are built as ES modules to allow code splitting
+  worker: {
+    format: 'es',
+  },
   server: {
     historyApiFallback: true,
   },